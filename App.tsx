@@ -1,10 +1,21 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
-  clearPersistedSession,
+  DEFAULT_SESSION_NAME,
+  clearPersistedSessions,
+  createSessionId,
+  deletePersistedSession,
+  duplicatePersistedSession,
+  getLastActiveSessionId,
+  getNextWorkspaceName,
+  getUniqueSessionName,
+  listPersistedSessions,
   loadPersistedSession,
+  rememberActiveSessionId,
+  renamePersistedSession,
   savePersistedSession,
+  type PersistedSessionSummary,
 } from './services/sessionStore';
-import { ModelType, ProviderType, type AppMode } from './types';
+import { ModelType, ProviderType, type AppMode, type RequestUsage, type UsageTotals } from './types';
 import {
   ChatterWorkspace,
   useChatterFeature,
@@ -18,33 +29,41 @@ import {
   usePlotlineFeature,
 } from './src/features/plotline/plotlineFeature';
 import { TrackerPage } from './src/features/tracker';
+import { ArchivePage } from './src/features/archive';
 import {
-  GEMINI_MODEL_OPTIONS,
+  ANTHROPIC_CHATTER_DEFAULT_MODEL,
+  ANTHROPIC_PLOTLINE_DEFAULT_MODEL,
+  ANTHROPIC_POINTS_DEFAULT_MODEL,
   OPENROUTER_CHATTER_DEFAULT_TIER,
   OPENROUTER_CHATTER_DEFAULT_MODEL,
-  OPENROUTER_CHATTER_TIER_OPTIONS,
   OPENROUTER_PLOTLINE_DEFAULT_MODEL,
   OPENROUTER_POINTS_DEFAULT_MODEL,
   getDefaultOpenRouterChatterModelForTier,
-  getOpenRouterModelOptions,
+  getModelOptionsFromCatalog,
+  getOpenRouterChatterTierOptionsFromCatalog,
   isOpenRouterChatterModelInTier,
   type OpenRouterChatterTier,
 } from './src/shared/config/modelOptions';
+import { useModelCatalog } from './src/shared/config/useModelCatalog';
 import {
   CURRENT_SESSION_SCHEMA_VERSION,
   migratePersistedSessionSnapshot,
 } from './src/shared/state/sessionMigration';
 import { buildPersistableSession } from './src/shared/state/sessionPersistence';
 import type { PersistedAppSessionV2 } from './src/shared/state/sessionTypes';
-
-const formatSavedTimestamp = (timestamp: number): string => {
-  if (!Number.isFinite(timestamp)) return 'a previous session';
-  try {
-    return new Date(timestamp).toLocaleString();
-  } catch {
-    return 'a previous session';
-  }
-};
+import {
+  SESSION_BUNDLE_EXTENSION,
+  buildSessionBundle,
+  downloadSessionBundle,
+  parseSessionBundle,
+} from './src/shared/state/sessionBundle';
+import { ProviderHealthPanel } from './src/shared/ui/ProviderHealthPanel';
+import { WorkspaceMenu, formatSavedTimestamp } from './src/shared/ui/WorkspaceMenu';
+import { addUsageTotals, EMPTY_USAGE_TOTALS, formatUsageSummary, hasUsage } from './utils/usage';
+import { readThreadComposerSnapshot, writeThreadComposerSnapshot } from './components/ThreadComposer';
+
+const sortWorkspaces = (workspaces: PersistedSessionSummary[]): PersistedSessionSummary[] =>
+  [...workspaces].sort((a, b) => b.savedAt - a.savedAt);
 
 const App: React.FC = () => {
   const [appMode, setAppMode] = useState<AppMode>('chatter');
@@ -57,36 +76,89 @@ const App: React.FC = () => {
   const [openRouterPointsModel, setOpenRouterPointsModel] = useState<ModelType>(OPENROUTER_POINTS_DEFAULT_MODEL);
   const [geminiPlotlineModel, setGeminiPlotlineModel] = useState<ModelType>(ModelType.FLASH_3);
   const [openRouterPlotlineModel, setOpenRouterPlotlineModel] = useState<ModelType>(OPENROUTER_PLOTLINE_DEFAULT_MODEL);
-
+  const [anthropicModel, setAnthropicModel] = useState<ModelType>(ANTHROPIC_CHATTER_DEFAULT_MODEL);
+  const [anthropicPointsModel, setAnthropicPointsModel] = useState<ModelType>(ANTHROPIC_POINTS_DEFAULT_MODEL);
+  const [anthropicPlotlineModel, setAnthropicPlotlineModel] = useState<ModelType>(ANTHROPIC_PLOTLINE_DEFAULT_MODEL);
+  const [openAiCompatibleModel, setOpenAiCompatibleModel] = useState<ModelType | undefined>(undefined);
+  const [sessionUsage, setSessionUsage] = useState<UsageTotals>(EMPTY_USAGE_TOTALS);
+
+  const [workspaces, setWorkspaces] = useState<PersistedSessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string>(() => createSessionId());
+  const [activeSessionName, setActiveSessionName] = useState(DEFAULT_SESSION_NAME);
   const [pendingResumeSession, setPendingResumeSession] = useState<PersistedAppSessionV2 | null>(null);
   const [isPersistenceReady, setIsPersistenceReady] = useState(false);
   const [isPersistenceBlocked, setIsPersistenceBlocked] = useState(false);
   const [sessionNotice, setSessionNotice] = useState('');
   const [persistenceNotice, setPersistenceNotice] = useState('');
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [sessionRevision, setSessionRevision] = useState(0);
+  const bundleFileInputRef = useRef<HTMLInputElement>(null);
   const lastPersistedPayloadRef = useRef<string>('');
 
-  const selectedChatterModel = provider === ProviderType.GEMINI ? geminiModel : openRouterModel;
-  const selectedPointsModel = provider === ProviderType.GEMINI ? geminiPointsModel : openRouterPointsModel;
-  const selectedPlotlineModel = provider === ProviderType.GEMINI ? geminiPlotlineModel : openRouterPlotlineModel;
+  const modelCatalog = useModelCatalog();
+  // Self-hosted models are only known once /api/models reports them; until a pick is made use its default.
+  const openAiCompatibleChatter = modelCatalog.tasks.chatter?.[ProviderType.OPENAI_COMPATIBLE];
+  const selectedOpenAiCompatibleModel = (
+    openAiCompatibleModel &&
+    openAiCompatibleChatter?.chains.some((chain) => chain.models.some((model) => model.id === openAiCompatibleModel))
+      ? openAiCompatibleModel
+      : openAiCompatibleChatter?.defaultModel ?? openAiCompatibleModel ?? ''
+  ) as ModelType;
+  const isOpenAiCompatibleAvailable = Boolean(modelCatalog.tasks[appMode]?.[ProviderType.OPENAI_COMPATIBLE]);
+
+  const selectedChatterModel =
+    provider === ProviderType.GEMINI
+      ? geminiModel
+      : provider === ProviderType.ANTHROPIC
+        ? anthropicModel
+        : provider === ProviderType.OPENAI_COMPATIBLE
+          ? selectedOpenAiCompatibleModel
+          : openRouterModel;
+  const selectedPointsModel =
+    provider === ProviderType.GEMINI
+      ? geminiPointsModel
+      : provider === ProviderType.ANTHROPIC
+        ? anthropicPointsModel
+        : openRouterPointsModel;
+  const selectedPlotlineModel =
+    provider === ProviderType.GEMINI
+      ? geminiPlotlineModel
+      : provider === ProviderType.ANTHROPIC
+        ? anthropicPlotlineModel
+        : openRouterPlotlineModel;
+  const selectedModeModel =
+    appMode === 'chatter' ? selectedChatterModel : appMode === 'points' ? selectedPointsModel : selectedPlotlineModel;
+
+  const recordUsage = useCallback((usage: RequestUsage) => {
+    setSessionUsage((prev) => addUsageTotals(prev, usage));
+  }, []);
 
   const chatterFeature = useChatterFeature({
     provider,
     selectedModel: selectedChatterModel,
+    onUsage: recordUsage,
   });
   const pointsFeature = usePointsFeature({
     provider,
     selectedModel: selectedPointsModel,
+    onUsage: recordUsage,
   });
   const plotlineFeature = usePlotlineFeature({
     provider,
     selectedModel: selectedPlotlineModel,
+    onUsage: recordUsage,
   });
 
-  const currentOpenRouterModelOptions = getOpenRouterModelOptions(
+  const currentModelOptions = getModelOptionsFromCatalog(
+    modelCatalog,
     appMode,
-    appMode === 'chatter' ? openRouterChatterTier : undefined,
+    provider,
+    provider === ProviderType.OPENROUTER && appMode === 'chatter' ? openRouterChatterTier : undefined,
+  );
+  const openRouterChatterTierOptions = getOpenRouterChatterTierOptionsFromCatalog(modelCatalog);
+  const unconfiguredProviders = new Set(
+    modelCatalog.providers.filter((entry) => !entry.configured).map((entry) => entry.id),
   );
-  const currentModelOptions = provider === ProviderType.GEMINI ? GEMINI_MODEL_OPTIONS : currentOpenRouterModelOptions;
 
   const applyPersistedSession = useCallback(
     (snapshot: PersistedAppSessionV2) => {
@@ -99,6 +171,11 @@ const App: React.FC = () => {
       setOpenRouterPointsModel(snapshot.models.openRouterPointsModel);
       setGeminiPlotlineModel(snapshot.models.geminiPlotlineModel);
       setOpenRouterPlotlineModel(snapshot.models.openRouterPlotlineModel);
+      setAnthropicModel(snapshot.models.anthropicModel);
+      setAnthropicPointsModel(snapshot.models.anthropicPointsModel);
+      setAnthropicPlotlineModel(snapshot.models.anthropicPlotlineModel);
+      setOpenAiCompatibleModel(snapshot.models.openAiCompatibleModel);
+      setSessionUsage(snapshot.usage ?? EMPTY_USAGE_TOTALS);
 
       chatterFeature.restoreFromSessionSlice(snapshot.chatter);
       pointsFeature.restoreFromSessionSlice(snapshot.points);
@@ -111,50 +188,269 @@ const App: React.FC = () => {
     ],
   );
 
+  const currentSession = useMemo<PersistedAppSessionV2>(
+    () => ({
+      schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+      savedAt: 0,
+      appMode,
+      provider,
+      models: {
+        geminiModel,
+        openRouterChatterTier,
+        openRouterModel,
+        geminiPointsModel,
+        openRouterPointsModel,
+        geminiPlotlineModel,
+        openRouterPlotlineModel,
+        anthropicModel,
+        anthropicPointsModel,
+        anthropicPlotlineModel,
+        openAiCompatibleModel,
+      },
+      chatter: chatterFeature.sessionSlice,
+      points: pointsFeature.sessionSlice,
+      plotline: plotlineFeature.sessionSlice,
+      usage: sessionUsage,
+    }),
+    [
+      appMode,
+      provider,
+      geminiModel,
+      openRouterChatterTier,
+      openRouterModel,
+      geminiPointsModel,
+      openRouterPointsModel,
+      geminiPlotlineModel,
+      openRouterPlotlineModel,
+      anthropicModel,
+      anthropicPointsModel,
+      anthropicPlotlineModel,
+      openAiCompatibleModel,
+      chatterFeature.sessionSlice,
+      pointsFeature.sessionSlice,
+      plotlineFeature.sessionSlice,
+      sessionUsage,
+    ],
+  );
+
+  const upsertWorkspaceSummary = useCallback((summary: PersistedSessionSummary) => {
+    setWorkspaces((prev) => sortWorkspaces([summary, ...prev.filter((workspace) => workspace.id !== summary.id)]));
+  }, []);
+
+  const persistCurrentSessionNow = useCallback(async () => {
+    if (!isPersistenceReady || isPersistenceBlocked) return;
+    const payload = buildPersistableSession({ ...currentSession, savedAt: Date.now() });
+    const status = await savePersistedSession(activeSessionId, activeSessionName, payload);
+    if (status === 'ok') {
+      upsertWorkspaceSummary({ id: activeSessionId, name: activeSessionName, savedAt: payload.savedAt });
+    }
+  }, [activeSessionId, activeSessionName, currentSession, isPersistenceBlocked, isPersistenceReady, upsertWorkspaceSummary]);
+
+  const startBlankWorkspace = useCallback(
+    (name: string) => {
+      const blankSession = migratePersistedSessionSnapshot({
+        schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
+        savedAt: Date.now(),
+        appMode,
+        provider,
+        models: currentSession.models,
+      });
+      if (blankSession) {
+        applyPersistedSession(blankSession);
+      }
+      lastPersistedPayloadRef.current = '';
+      setActiveSessionId(createSessionId());
+      setActiveSessionName(name);
+    },
+    [appMode, applyPersistedSession, currentSession.models, provider],
+  );
+
+  const nextWorkspaceName = getNextWorkspaceName(workspaces.map((workspace) => workspace.name));
+
   const handleResumeSavedSession = useCallback(() => {
     if (!pendingResumeSession) return;
     applyPersistedSession(pendingResumeSession);
     setPendingResumeSession(null);
     setIsPersistenceReady(true);
     setIsPersistenceBlocked(false);
-    setSessionNotice(`Resumed session from ${formatSavedTimestamp(pendingResumeSession.savedAt)}.`);
-  }, [applyPersistedSession, pendingResumeSession]);
+    setSessionNotice(`Resumed ${activeSessionName} from ${formatSavedTimestamp(pendingResumeSession.savedAt)}.`);
+  }, [activeSessionName, applyPersistedSession, pendingResumeSession]);
 
-  const handleDiscardSavedSession = useCallback(async () => {
-    await clearPersistedSession();
-    lastPersistedPayloadRef.current = '';
+  const handleStartFreshWorkspace = useCallback(() => {
+    startBlankWorkspace(nextWorkspaceName);
     setPendingResumeSession(null);
     setIsPersistenceReady(true);
     setIsPersistenceBlocked(false);
-    setSessionNotice('Discarded previous browser session.');
-  }, []);
+    setSessionNotice('Started a new workspace. Saved workspaces are still available from the workspace menu.');
+  }, [nextWorkspaceName, startBlankWorkspace]);
+
+  const handleSwitchWorkspace = useCallback(
+    async (id: string) => {
+      if (id === activeSessionId) return;
+      await persistCurrentSessionNow();
+
+      const migratedSnapshot = migratePersistedSessionSnapshot(await loadPersistedSession<unknown>(id));
+      if (!migratedSnapshot) {
+        setPersistenceNotice('That workspace could not be restored.');
+        return;
+      }
+
+      const summary = workspaces.find((workspace) => workspace.id === id);
+      applyPersistedSession(migratedSnapshot);
+      lastPersistedPayloadRef.current = '';
+      setActiveSessionId(id);
+      setActiveSessionName(summary?.name ?? DEFAULT_SESSION_NAME);
+      setSessionNotice(`Switched to ${summary?.name ?? DEFAULT_SESSION_NAME}, saved ${formatSavedTimestamp(migratedSnapshot.savedAt)}.`);
+    },
+    [activeSessionId, applyPersistedSession, persistCurrentSessionNow, workspaces],
+  );
+
+  const handleCreateWorkspace = useCallback(async () => {
+    await persistCurrentSessionNow();
+    startBlankWorkspace(nextWorkspaceName);
+    setSessionNotice(`Created ${nextWorkspaceName}.`);
+  }, [nextWorkspaceName, persistCurrentSessionNow, startBlankWorkspace]);
+
+  const handleRenameWorkspace = useCallback(
+    async (id: string, name: string) => {
+      if (id === activeSessionId) {
+        setActiveSessionName(name);
+      }
+      const status = await renamePersistedSession(id, name);
+      if (status === 'ok') {
+        setWorkspaces((prev) => prev.map((workspace) => (workspace.id === id ? { ...workspace, name } : workspace)));
+      }
+    },
+    [activeSessionId],
+  );
+
+  const handleDuplicateWorkspace = useCallback(
+    async (id: string) => {
+      if (id === activeSessionId) {
+        await persistCurrentSessionNow();
+      }
+      const source = workspaces.find((workspace) => workspace.id === id);
+      const copyName = getUniqueSessionName(
+        `${source?.name ?? DEFAULT_SESSION_NAME} copy`,
+        workspaces.map((workspace) => workspace.name),
+      );
+      const copy = await duplicatePersistedSession(id, copyName);
+      if (copy) {
+        upsertWorkspaceSummary(copy);
+        setSessionNotice(`Duplicated as ${copy.name}.`);
+      } else {
+        setPersistenceNotice('Unable to duplicate that workspace right now.');
+      }
+    },
+    [activeSessionId, persistCurrentSessionNow, upsertWorkspaceSummary, workspaces],
+  );
+
+  const handleDeleteWorkspace = useCallback(
+    async (id: string) => {
+      const target = workspaces.find((workspace) => workspace.id === id);
+      const targetName = target?.name ?? activeSessionName;
+      if (!window.confirm(`Delete ${targetName}? This cannot be undone.`)) return;
+
+      await deletePersistedSession(id);
+      const remaining = workspaces.filter((workspace) => workspace.id !== id);
+      setWorkspaces((prev) => prev.filter((workspace) => workspace.id !== id));
+      if (id === activeSessionId) {
+        startBlankWorkspace(getNextWorkspaceName(remaining.map((workspace) => workspace.name)));
+      }
+      setSessionNotice(`Deleted ${targetName}.`);
+    },
+    [activeSessionId, activeSessionName, startBlankWorkspace, workspaces],
+  );
+
+  const handleExportSessionBundle = useCallback(() => {
+    const bundle = buildSessionBundle(currentSession, activeSessionName, readThreadComposerSnapshot());
+    try {
+      downloadSessionBundle(bundle);
+      setSessionNotice(`Exported ${activeSessionName}.`);
+    } catch {
+      setPersistenceNotice('Unable to export this session right now.');
+    }
+  }, [activeSessionName, currentSession]);
+
+  const handleImportSessionBundle = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        setPersistenceNotice(`${file.name} is not valid JSON.`);
+        return;
+      }
+
+      const imported = parseSessionBundle(raw);
+      if ('error' in imported) {
+        setPersistenceNotice(imported.error);
+        return;
+      }
+
+      await persistCurrentSessionNow();
+      applyPersistedSession(imported.session);
+      lastPersistedPayloadRef.current = '';
+      setActiveSessionId(createSessionId());
+      setActiveSessionName(imported.workspaceName);
+
+      const warnings = [...imported.warnings];
+      if (imported.threadComposer && !writeThreadComposerSnapshot(imported.threadComposer)) {
+        warnings.push('Tweet Generator state could not be written to this browser.');
+      }
+      setSessionRevision((prev) => prev + 1);
+      setImportWarnings(warnings);
+      setPersistenceNotice('');
+      setSessionNotice(`Imported ${imported.workspaceName} as a new workspace.`);
+    },
+    [applyPersistedSession, persistCurrentSessionNow],
+  );
 
   const handleClearSavedSessionData = useCallback(async () => {
-    await clearPersistedSession();
+    await clearPersistedSessions();
     lastPersistedPayloadRef.current = '';
+    setWorkspaces([]);
     setPendingResumeSession(null);
     setIsPersistenceBlocked(false);
     setPersistenceNotice('');
     if (!isPersistenceReady) {
       setIsPersistenceReady(true);
     }
-    setSessionNotice('Cleared saved browser session data.');
+    setSessionNotice('Cleared all saved workspaces from this browser.');
   }, [isPersistenceReady]);
 
   useEffect(() => {
     let cancelled = false;
 
     const initializeSession = async () => {
-      const rawSnapshot = await loadPersistedSession<unknown>();
+      const savedWorkspaces = await listPersistedSessions();
+      if (cancelled) return;
+      setWorkspaces(savedWorkspaces);
+
+      const lastActiveId = getLastActiveSessionId();
+      const target = savedWorkspaces.find((workspace) => workspace.id === lastActiveId) ?? savedWorkspaces[0];
+      if (!target) {
+        setIsPersistenceReady(true);
+        return;
+      }
+
+      const rawSnapshot = await loadPersistedSession<unknown>(target.id);
       if (cancelled) return;
 
       const migratedSnapshot = migratePersistedSessionSnapshot(rawSnapshot);
       if (migratedSnapshot) {
+        setActiveSessionId(target.id);
+        setActiveSessionName(target.name);
         setPendingResumeSession(migratedSnapshot);
         setSessionNotice('');
         return;
       }
 
+      setActiveSessionName(`Workspace ${savedWorkspaces.length + 1}`);
       setIsPersistenceReady(true);
     };
 
@@ -170,31 +466,24 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
-    if (!isPersistenceReady || isPersistenceBlocked) return;
+    // The self-hosted endpoint only serves Chatter; other modes fall back to Gemini.
+    if (appMode !== 'chatter') {
+      setProvider((current) => (current === ProviderType.OPENAI_COMPATIBLE ? ProviderType.GEMINI : current));
+    }
+  }, [appMode]);
 
-    const payload: PersistedAppSessionV2 = {
-      schemaVersion: CURRENT_SESSION_SCHEMA_VERSION,
-      savedAt: Date.now(),
-      appMode,
-      provider,
-      models: {
-        geminiModel,
-        openRouterChatterTier,
-        openRouterModel,
-        geminiPointsModel,
-        openRouterPointsModel,
-        geminiPlotlineModel,
-        openRouterPlotlineModel,
-      },
-      chatter: chatterFeature.sessionSlice,
-      points: pointsFeature.sessionSlice,
-      plotline: plotlineFeature.sessionSlice,
-    };
+  useEffect(() => {
+    if (!isPersistenceReady) return;
+    rememberActiveSessionId(activeSessionId);
+  }, [activeSessionId, isPersistenceReady]);
 
-    const persistablePayload = buildPersistableSession(payload);
+  useEffect(() => {
+    if (!isPersistenceReady || isPersistenceBlocked) return;
+
+    const persistablePayload = buildPersistableSession(currentSession);
     let serializedPayload = '';
     try {
-      serializedPayload = JSON.stringify(persistablePayload);
+      serializedPayload = JSON.stringify({ id: activeSessionId, name: activeSessionName, payload: persistablePayload });
     } catch {
       setPersistenceNotice('Unable to save browser session right now.');
       return;
@@ -205,10 +494,11 @@ const App: React.FC = () => {
     }
 
     const timer = window.setTimeout(async () => {
-      const status = await savePersistedSession(persistablePayload);
+      const savedAt = Date.now();
+      const status = await savePersistedSession(activeSessionId, activeSessionName, { ...persistablePayload, savedAt });
       if (status === 'quota_exceeded') {
         setIsPersistenceBlocked(true);
-        setPersistenceNotice('Browser storage is full. Clear saved session data to resume autosave.');
+        setPersistenceNotice('Browser storage is full. Delete a workspace or clear saved sessions to resume autosave.');
         return;
       }
       if (status === 'unsupported') {
@@ -222,6 +512,7 @@ const App: React.FC = () => {
 
       if (status === 'ok' && !isPersistenceBlocked) {
         lastPersistedPayloadRef.current = serializedPayload;
+        upsertWorkspaceSummary({ id: activeSessionId, name: activeSessionName, savedAt });
         setPersistenceNotice('');
       }
     }, 1400);
@@ -230,29 +521,27 @@ const App: React.FC = () => {
       window.clearTimeout(timer);
     };
   }, [
-    appMode,
-    provider,
-    geminiModel,
-    openRouterChatterTier,
-    openRouterModel,
-    geminiPointsModel,
-    openRouterPointsModel,
-    geminiPlotlineModel,
-    openRouterPlotlineModel,
-    chatterFeature.sessionSlice,
-    pointsFeature.sessionSlice,
-    plotlineFeature.sessionSlice,
+    activeSessionId,
+    activeSessionName,
+    currentSession,
     isPersistenceReady,
     isPersistenceBlocked,
+    upsertWorkspaceSummary,
   ]);
 
   const isResumePromptVisible = Boolean(pendingResumeSession);
   const isResumeDecisionPending = isResumePromptVisible && !isPersistenceReady;
+  const isAnyAnalysisRunning =
+    chatterFeature.isChatterLoading || pointsFeature.isPointsLoading || plotlineFeature.isAnalyzingPlotlineBatch;
 
   if (window.location.pathname === '/tracker') {
     return <TrackerPage />;
   }
 
+  if (window.location.pathname === '/archive') {
+    return <ArchivePage />;
+  }
+
   return (
     <div className="app-shell min-h-screen text-ink relative overflow-x-hidden">
       <div className="app-atmosphere" />
@@ -266,6 +555,11 @@ const App: React.FC = () => {
                 <div>
                   <h1 className="text-2xl font-semibold leading-none">Chatter Analyst</h1>
                   <p className="text-xs text-stone mt-1">Research Workflow Studio</p>
+                  {hasUsage(sessionUsage) && (
+                    <p className="text-xs text-stone mt-0.5" title="Estimated from the server price table.">
+                      Session usage: {formatUsageSummary(sessionUsage)}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -278,8 +572,21 @@ const App: React.FC = () => {
                     disabled={isResumeDecisionPending}
                     className="control-select"
                   >
-                    <option value={ProviderType.GEMINI}>Gemini</option>
-                    <option value={ProviderType.OPENROUTER}>OpenRouter</option>
+                    <option value={ProviderType.GEMINI}>
+                      Gemini{unconfiguredProviders.has(ProviderType.GEMINI) ? ' (not configured)' : ''}
+                    </option>
+                    <option value={ProviderType.OPENROUTER}>
+                      OpenRouter{unconfiguredProviders.has(ProviderType.OPENROUTER) ? ' (not configured)' : ''}
+                    </option>
+                    <option value={ProviderType.ANTHROPIC}>
+                      Anthropic{unconfiguredProviders.has(ProviderType.ANTHROPIC) ? ' (not configured)' : ''}
+                    </option>
+                    {(isOpenAiCompatibleAvailable || provider === ProviderType.OPENAI_COMPATIBLE) && (
+                      <option value={ProviderType.OPENAI_COMPATIBLE} disabled={!isOpenAiCompatibleAvailable}>
+                        Self-hosted (OpenAI-compatible)
+                        {unconfiguredProviders.has(ProviderType.OPENAI_COMPATIBLE) ? ' (not configured)' : ''}
+                      </option>
+                    )}
                   </select>
                 </label>
 
@@ -298,7 +605,7 @@ const App: React.FC = () => {
                       disabled={isResumeDecisionPending}
                       className="control-select"
                     >
-                      {OPENROUTER_CHATTER_TIER_OPTIONS.map((option) => (
+                      {openRouterChatterTierOptions.map((option) => (
                         <option key={option.value} value={option.value}>
                           {option.label}
                         </option>
@@ -310,13 +617,7 @@ const App: React.FC = () => {
                 <label className="control-label">
                   Model
                   <select
-                    value={
-                      appMode === 'chatter'
-                        ? selectedChatterModel
-                        : appMode === 'points'
-                          ? selectedPointsModel
-                          : selectedPlotlineModel
-                    }
+                    value={selectedModeModel}
                     disabled={isResumeDecisionPending}
                     onChange={(event) => {
                       const selectedModel = event.target.value as ModelType;
@@ -328,6 +629,16 @@ const App: React.FC = () => {
                         } else {
                           setGeminiPlotlineModel(selectedModel);
                         }
+                      } else if (provider === ProviderType.ANTHROPIC) {
+                        if (appMode === 'chatter') {
+                          setAnthropicModel(selectedModel);
+                        } else if (appMode === 'points') {
+                          setAnthropicPointsModel(selectedModel);
+                        } else {
+                          setAnthropicPlotlineModel(selectedModel);
+                        }
+                      } else if (provider === ProviderType.OPENAI_COMPATIBLE) {
+                        setOpenAiCompatibleModel(selectedModel);
                       } else {
                         if (appMode === 'chatter') {
                           setOpenRouterModel(selectedModel);
@@ -348,14 +659,64 @@ const App: React.FC = () => {
                   </select>
                 </label>
 
+                <ProviderHealthPanel provider={provider} model={selectedModeModel} disabled={isResumeDecisionPending} />
+
+                <WorkspaceMenu
+                  workspaces={workspaces}
+                  activeId={activeSessionId}
+                  activeName={activeSessionName}
+                  disabled={isResumeDecisionPending || isAnyAnalysisRunning}
+                  onSwitch={(id) => {
+                    void handleSwitchWorkspace(id);
+                  }}
+                  onCreate={() => {
+                    void handleCreateWorkspace();
+                  }}
+                  onRename={(id, name) => {
+                    void handleRenameWorkspace(id, name);
+                  }}
+                  onDuplicate={(id) => {
+                    void handleDuplicateWorkspace(id);
+                  }}
+                  onDelete={(id) => {
+                    void handleDeleteWorkspace(id);
+                  }}
+                />
+
+                <button
+                  onClick={handleExportSessionBundle}
+                  disabled={isResumeDecisionPending}
+                  className="ghost-btn px-3 py-1.5 text-sm font-semibold disabled:opacity-50"
+                  title="Download this workspace as a portable session bundle"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => bundleFileInputRef.current?.click()}
+                  disabled={isResumeDecisionPending || isAnyAnalysisRunning}
+                  className="ghost-btn px-3 py-1.5 text-sm font-semibold disabled:opacity-50"
+                  title="Open a session bundle as a new workspace"
+                >
+                  Import
+                </button>
+                <input
+                  ref={bundleFileInputRef}
+                  type="file"
+                  accept={`${SESSION_BUNDLE_EXTENSION},.json,application/json`}
+                  onChange={(event) => {
+                    void handleImportSessionBundle(event);
+                  }}
+                  className="hidden"
+                />
+
                 <button
                   onClick={() => {
                     void handleClearSavedSessionData();
                   }}
                   className="ghost-btn px-3 py-1.5 text-sm font-semibold"
-                  title="Clear saved browser session"
+                  title="Delete every saved workspace from this browser"
                 >
-                  Clear Saved Session
+                  Clear Saved Sessions
                 </button>
               </div>
             </div>
@@ -400,6 +761,12 @@ const App: React.FC = () => {
               >
                 Tracker
               </a>
+              <a
+                href="/archive"
+                className="mode-tab-btn flex-1 transition mode-tab-idle text-center"
+              >
+                Archive
+              </a>
             </div>
           </div>
         </div>
@@ -411,7 +778,7 @@ const App: React.FC = () => {
             <div>
               <p className="text-sm font-semibold text-ink">Previous session found</p>
               <p className="text-sm text-stone mt-1">
-                Resume work from {formatSavedTimestamp(pendingResumeSession.savedAt)}.
+                Resume {activeSessionName} from {formatSavedTimestamp(pendingResumeSession.savedAt)}.
               </p>
             </div>
             <div className="flex items-center gap-2">
@@ -422,12 +789,10 @@ const App: React.FC = () => {
                 Resume
               </button>
               <button
-                onClick={() => {
-                  void handleDiscardSavedSession();
-                }}
+                onClick={handleStartFreshWorkspace}
                 className="rounded-lg border border-line bg-white px-4 py-2 text-sm font-semibold text-stone hover:text-ink"
               >
-                Discard
+                Start New
               </button>
             </div>
           </div>
@@ -439,6 +804,22 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {importWarnings.length > 0 && (
+          <div className="mb-5 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <div className="flex items-start justify-between gap-3">
+              <p className="font-semibold">Some parts of the imported session could not be restored</p>
+              <button onClick={() => setImportWarnings([])} className="text-xs font-semibold hover:text-ink">
+                Dismiss
+              </button>
+            </div>
+            <ul className="mt-2 list-disc pl-5 space-y-1">
+              {importWarnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {persistenceNotice && (
           <div className="mb-5 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
             {persistenceNotice}
@@ -452,6 +833,8 @@ const App: React.FC = () => {
               provider={provider}
               selectedModel={selectedChatterModel}
               disabled={isResumeDecisionPending}
+              sessionRevision={sessionRevision}
+              onUsage={recordUsage}
             />
           ) : appMode === 'points' ? (
             <PointsWorkspace
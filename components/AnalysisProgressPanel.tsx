@@ -1,5 +1,6 @@
 import React from 'react';
-import type { AnalysisStage, ProgressEvent } from '../types';
+import type { AnalysisStage, ProgressEvent, UsageTotals } from '../types';
+import { formatUsageSummary, hasUsage } from '../utils/usage';
 import LoadingState from './LoadingState';
 
 interface BatchStats {
@@ -7,6 +8,7 @@ interface BatchStats {
   failed: number;
   total: number;
   currentLabel?: string;
+  usage?: UsageTotals;
 }
 
 interface AnalysisProgressPanelProps {
@@ -38,6 +40,16 @@ const stageFallbackPercent: Record<AnalysisStage, number> = {
   error: 100,
 };
 
+const MAX_ACTIVITY_ENTRIES = 6;
+
+const activityTone: Record<string, string> = {
+  model_fallback: 'bg-accent',
+  repair: 'bg-accent',
+  cache_hit: 'bg-brand',
+};
+
+const formatElapsed = (at: number, startedAt: number): string => `+${Math.max(0, Math.round((at - startedAt) / 1000))}s`;
+
 const getStageIndex = (stage?: AnalysisStage): number => {
   if (!stage) return -1;
   return stageOrder.indexOf(stage);
@@ -47,6 +59,9 @@ const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({ title, su
   const currentStage = progress?.stage ?? 'preparing';
   const currentIndex = getStageIndex(currentStage);
   const percent = Math.min(100, Math.max(0, progress?.percent ?? stageFallbackPercent[currentStage]));
+  const activity = progress?.activity ?? [];
+  const activityStartedAt = activity[0]?.at ?? 0;
+  const recentActivity = activity.slice(-MAX_ACTIVITY_ENTRIES);
 
   return (
     <section className="rounded-2xl border border-line bg-white shadow-panel studio-panel p-5 sm:p-6">
@@ -88,6 +103,28 @@ const AnalysisProgressPanel: React.FC<AnalysisProgressPanelProps> = ({ title, su
               Current: <span className="font-semibold text-ink">{batchStats.currentLabel}</span>
             </p>
           )}
+          {hasUsage(batchStats.usage) && (
+            <p>
+              Usage so far: <span className="font-semibold text-ink">{formatUsageSummary(batchStats.usage)}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      {recentActivity.length > 0 && (
+        <div className="rounded-xl border border-line bg-canvas/75 p-4 mb-5">
+          <p className="text-xs uppercase tracking-[0.14em] text-stone font-semibold mb-2">Server Events</p>
+          <ol className="space-y-1.5 text-sm" aria-live="polite">
+            {recentActivity.map((entry, index) => (
+              <li key={`${entry.at}-${index}`} className="flex items-start gap-2">
+                <span className={`mt-1.5 w-2 h-2 shrink-0 rounded-full ${activityTone[entry.kind] ?? 'bg-line'}`} />
+                <span className="text-xs text-stone tabular-nums w-10 shrink-0 mt-0.5">
+                  {formatElapsed(entry.at, activityStartedAt)}
+                </span>
+                <span className="text-ink break-words">{entry.message}</span>
+              </li>
+            ))}
+          </ol>
         </div>
       )}
 
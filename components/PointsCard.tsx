@@ -4,9 +4,15 @@ import { SelectedSlide } from '../types';
 interface PointsCardProps {
   slide: SelectedSlide;
   index: number;
+  onExportMetrics?: () => void;
 }
 
-const PointsCard: React.FC<PointsCardProps> = ({ slide, index }) => {
+const formatMetricValue = (value: number): string =>
+  Number.isFinite(value) ? value.toLocaleString('en-IN', { maximumFractionDigits: 2 }) : '';
+
+const PointsCard: React.FC<PointsCardProps> = ({ slide, index, onExportMetrics }) => {
+  const metrics = Array.isArray(slide.metrics) ? slide.metrics : [];
+
   return (
     <article className="rounded-2xl border border-line bg-white shadow-panel studio-panel overflow-hidden">
       <header className="px-5 sm:px-6 py-4 border-b border-line bg-brand-soft/45">
@@ -35,6 +41,49 @@ const PointsCard: React.FC<PointsCardProps> = ({ slide, index }) => {
           <h4 className="text-xs font-semibold uppercase tracking-[0.14em] text-brand mb-2">Context</h4>
           <p className="text-sm leading-relaxed text-ink ml-4 border-l-2 border-brand/40 pl-4">{slide.context}</p>
         </section>
+
+        {metrics.length > 0 && (
+          <section className="mt-4 rounded-xl border border-line bg-white">
+            <div className="flex items-center justify-between gap-3 px-4 py-2.5 border-b border-line">
+              <h4 className="text-xs font-semibold uppercase tracking-[0.14em] text-stone">Figures</h4>
+              {onExportMetrics && (
+                <button
+                  onClick={onExportMetrics}
+                  className="text-xs font-semibold text-brand hover:text-ink"
+                  title="Download this slide's figures as CSV"
+                >
+                  Export CSV
+                </button>
+              )}
+            </div>
+            <div className="overflow-x-auto thin-scrollbar">
+              <table className="w-full text-sm text-ink">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-[0.08em] text-stone">
+                    <th className="px-4 py-2 font-semibold">Metric</th>
+                    <th className="px-4 py-2 font-semibold text-right">Value</th>
+                    <th className="px-4 py-2 font-semibold">Unit</th>
+                    <th className="px-4 py-2 font-semibold">Period</th>
+                    <th className="px-4 py-2 font-semibold text-right">YoY</th>
+                    <th className="px-4 py-2 font-semibold text-right">QoQ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.map((metric, metricIndex) => (
+                    <tr key={`${metric.metric}-${metric.period}-${metricIndex}`} className="border-t border-line/70">
+                      <td className="px-4 py-2">{metric.metric}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{formatMetricValue(metric.value)}</td>
+                      <td className="px-4 py-2 text-stone">{metric.unit}</td>
+                      <td className="px-4 py-2 text-stone">{metric.period}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{metric.yoyChange || '-'}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{metric.qoqChange || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
       </div>
     </article>
   );
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { ExtractedQuote } from '../types';
+import QuoteVerificationBadge from './QuoteVerificationBadge';
 
 interface QuoteCardProps {
   quoteData: ExtractedQuote;
@@ -39,6 +40,7 @@ const QuoteCard: React.FC<QuoteCardProps> = ({ quoteData, index }) => {
           >
             {quoteData.category}
           </span>
+          <QuoteVerificationBadge verification={quoteData.verification} />
         </div>
 
         <button
@@ -57,10 +59,20 @@ const QuoteCard: React.FC<QuoteCardProps> = ({ quoteData, index }) => {
         <p className="text-sm leading-relaxed text-ink/90">{quoteData.summary}</p>
       </section>
 
-      <blockquote className="border-l-4 border-brand pl-4 sm:pl-5 py-1">
+      <blockquote
+        className={`border-l-4 pl-4 sm:pl-5 py-1 ${
+          quoteData.verification?.status === 'unverified' ? 'border-rose-400' : 'border-brand'
+        }`}
+      >
         <p className="text-lg leading-relaxed text-ink italic">"{quoteData.quote}"</p>
       </blockquote>
 
+      {quoteData.verification?.status === 'unverified' && (
+        <p className="mt-3 text-xs font-semibold text-rose-700">
+          This wording could not be located in the transcript. Verify it against the source before publishing.
+        </p>
+      )}
+
       <footer className="mt-5 pt-4 border-t border-line text-right">
         <p className="text-sm font-semibold text-ink">{quoteData.speaker.name}</p>
         <p className="text-xs text-stone">{quoteData.speaker.designation}</p>
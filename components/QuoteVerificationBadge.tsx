@@ -0,0 +1,49 @@
+import React from 'react';
+import type { QuoteVerification } from '../types';
+
+interface QuoteVerificationBadgeProps {
+  verification?: QuoteVerification;
+  compact?: boolean;
+}
+
+const formatPage = (page: number | null): string => (page !== null ? ` · p.${page}` : '');
+
+const QuoteVerificationBadge: React.FC<QuoteVerificationBadgeProps> = ({ verification, compact = false }) => {
+  if (!verification) return null;
+
+  const score = Math.round(verification.score * 100);
+  const sizing = compact ? 'px-2 py-0.5 text-[11px]' : 'px-2.5 py-1 text-xs';
+
+  if (verification.status === 'verified') {
+    return (
+      <span
+        className={`inline-flex items-center rounded-full border border-emerald-200 bg-emerald-50 font-semibold text-emerald-700 ${sizing}`}
+        title="Found word-for-word in the transcript."
+      >
+        Verbatim{formatPage(verification.page)}
+      </span>
+    );
+  }
+
+  if (verification.status === 'repaired') {
+    return (
+      <span
+        className={`inline-flex items-center rounded-full border border-amber-200 bg-amber-50 font-semibold text-amber-700 ${sizing}`}
+        title={`The model's wording matched the transcript at ${score}%. The quote was replaced with the exact transcript text.`}
+      >
+        Snapped to transcript{formatPage(verification.page)}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full border border-rose-300 bg-rose-50 font-semibold text-rose-700 ${sizing}`}
+      title={`Best transcript match was only ${score}%. Check this quote against the source before publishing.`}
+    >
+      Not found in transcript
+    </span>
+  );
+};
+
+export default QuoteVerificationBadge;
@@ -10,9 +10,11 @@ import {
 import type {
   ModelType,
   ProviderType,
+  RequestUsage,
   ThreadEditionSource,
   ThreadQuoteCandidate,
 } from "../types";
+import { buildThreadEditionSource, type ChatterEdition } from "../utils/chatterCopyExport";
 import {
   buildThreadCardFileName,
   buildThreadQuoteImage,
@@ -20,6 +22,8 @@ import {
   copyTextAndDataUrlImageToClipboard,
   downloadDataUrlImage,
 } from "../utils/threadImageExport";
+import { parseThreadPlatformDrafts, type ThreadPlatformDrafts } from "../utils/threadPlatformExport";
+import ThreadPlatformExport from "./ThreadPlatformExport";
 
 type ComposerStatus = "idle" | "loading" | "ready" | "error";
 type ComposerView = "selection" | "results";
@@ -36,6 +40,9 @@ interface ThreadComposerProps {
   provider: ProviderType;
   model: ModelType;
   disabled?: boolean;
+  onUsage?: (usage: RequestUsage) => void;
+  // Completed Chatter results in edition order, offered as a source alongside a published edition.
+  sessionEdition?: ChatterEdition | null;
 }
 
 interface PersistedThreadComposerState {
@@ -46,17 +53,44 @@ interface PersistedThreadComposerState {
   shortlistedQuoteIds?: string[];
   selectedQuoteIds: string[];
   tweets: ThreadTweetCard[];
+  platformDrafts?: ThreadPlatformDrafts;
 }
 
 const THREAD_COMPOSER_STORAGE_KEY = "chatter-thread-composer-v1";
 
+export const readThreadComposerSnapshot = (): unknown | null => {
+  try {
+    const raw = window.localStorage.getItem(THREAD_COMPOSER_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeThreadComposerSnapshot = (snapshot: unknown): boolean => {
+  const record = snapshot as Partial<PersistedThreadComposerState> | null;
+  if (!record || typeof record !== "object" || record.schemaVersion !== 1) return false;
+  try {
+    window.localStorage.setItem(THREAD_COMPOSER_STORAGE_KEY, JSON.stringify(record));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 const normalizeClipboardError = (error: unknown): string => {
   const message = String((error as any)?.message || "Clipboard action failed.");
   if (!message) return "Clipboard action failed.";
   return message;
 };
 
-const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabled = false }) => {
+const ThreadComposer: React.FC<ThreadComposerProps> = ({
+  provider,
+  model,
+  disabled = false,
+  onUsage,
+  sessionEdition = null,
+}) => {
   const [substackUrl, setSubstackUrl] = useState("");
   const [ingestStatus, setIngestStatus] = useState<ComposerStatus>("idle");
   const [ingestError, setIngestError] = useState("");
@@ -70,6 +104,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
   const [threadStatus, setThreadStatus] = useState<ComposerStatus>("idle");
   const [threadError, setThreadError] = useState("");
   const [tweets, setTweets] = useState<ThreadTweetCard[]>([]);
+  const [platformDrafts, setPlatformDrafts] = useState<ThreadPlatformDrafts>({});
 
   const [busyTweetId, setBusyTweetId] = useState<string | null>(null);
   const [tweetFeedback, setTweetFeedback] = useState<Record<string, string>>({});
@@ -123,6 +158,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
       setShortlistedQuoteIds(Array.isArray(parsed.shortlistedQuoteIds) ? parsed.shortlistedQuoteIds : []);
       setSelectedQuoteIds(Array.isArray(parsed.selectedQuoteIds) ? parsed.selectedQuoteIds : []);
       setTweets(Array.isArray(parsed.tweets) ? parsed.tweets : []);
+      setPlatformDrafts(parseThreadPlatformDrafts(parsed.platformDrafts));
       if (parsed.composerView === "selection" || parsed.composerView === "results") {
         setComposerView(parsed.composerView);
       } else {
@@ -146,6 +182,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
       shortlistedQuoteIds,
       selectedQuoteIds,
       tweets,
+      platformDrafts,
     };
 
     try {
@@ -153,7 +190,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
     } catch {
       // Ignore storage write failures; feature remains functional.
     }
-  }, [composerView, selectedQuoteIds, shortlistedQuoteIds, source, substackUrl, tweets]);
+  }, [composerView, platformDrafts, selectedQuoteIds, shortlistedQuoteIds, source, substackUrl, tweets]);
 
   const setFeedbackForTweet = (tweetId: string, message: string) => {
     setTweetFeedback((prev) => ({ ...prev, [tweetId]: message }));
@@ -171,6 +208,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
     setThreadStatus("idle");
     setThreadError("");
     setTweets([]);
+    setPlatformDrafts({});
     setBusyTweetId(null);
     setTweetFeedback({});
     setImageActionBusy(null);
@@ -224,6 +262,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
         maxCandidates: 25,
         maxPerCompany: 2,
       });
+      if (shortlist.usage) onUsage?.(shortlist.usage);
 
       if (shortlistRunTokenRef.current !== token) {
         return;
@@ -319,6 +358,37 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
     }
   };
 
+  const handleLoadFromSession = async () => {
+    if (!sessionEdition) return;
+
+    setIngestStatus("loading");
+    setIngestError("");
+    setComposerView("selection");
+    clearThreadDraft();
+    setShortlistedQuoteIds([]);
+    setShortlistStatus("idle");
+    setShortlistError("");
+
+    try {
+      const parsed = buildThreadEditionSource(sessionEdition);
+      if (parsed.companies.length === 0) {
+        throw new Error("None of the session results have a Large, Mid, Small or Micro Cap header with quotes.");
+      }
+      setSource(parsed);
+      setSelectedQuoteIds([]);
+      setIngestStatus("ready");
+      await buildShortlist(parsed);
+    } catch (error: any) {
+      setIngestStatus("error");
+      setIngestError(String(error?.message || "Unable to load session results."));
+      setSource(null);
+      setShortlistedQuoteIds([]);
+      setShortlistStatus("idle");
+      setShortlistError("");
+      setSelectedQuoteIds([]);
+    }
+  };
+
   const toggleQuoteSelection = (quoteId: string) => {
     setSelectedQuoteIds((prev) => {
       if (prev.includes(quoteId)) {
@@ -347,6 +417,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
     setThreadStatus("loading");
     setThreadError("");
     setTweets([]);
+    setPlatformDrafts({});
     setImageActionError("");
 
     try {
@@ -362,6 +433,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
         provider,
         model,
       );
+      if (draft.usage) onUsage?.(draft.usage);
 
       const builtTweets: ThreadTweetCard[] = [
         {
@@ -446,6 +518,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
         },
         provider,
         modelId: model,
+        onUsage,
       });
 
       setTweets((prev) => prev.map((item) => (item.id === tweet.id ? { ...item, text: regenerated } : item)));
@@ -559,7 +632,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
           </div>
           <div className="flex items-center gap-2">
             <span className="studio-badge rounded-full px-3 py-1 text-xs font-semibold">
-              {provider === "gemini" ? "Gemini" : "OpenRouter"} • {model}
+              {provider === "gemini" ? "Gemini" : provider === "anthropic" ? "Anthropic" : "OpenRouter"} • {model}
             </span>
             <button
               onClick={resetComposer}
@@ -575,7 +648,7 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
         </p>
       </header>
 
-      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-3">
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto] gap-3">
         <input
           value={substackUrl}
           onChange={(event) => setSubstackUrl(event.target.value)}
@@ -597,6 +670,14 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
         >
           PDF Fallback
         </button>
+        <button
+          onClick={handleLoadFromSession}
+          disabled={disabled || ingestStatus === "loading" || !sessionEdition}
+          title={sessionEdition ? "Build the thread from this session's analyzed transcripts" : "Analyze transcripts first"}
+          className="rounded-z-md border border-line bg-white px-4 py-2.5 text-sm font-semibold text-stone disabled:opacity-50 hover:text-ink"
+        >
+          Session Results
+        </button>
         <input
           ref={pdfInputRef}
           type="file"
@@ -800,6 +881,21 @@ const ThreadComposer: React.FC<ThreadComposerProps> = ({ provider, model, disabl
             <div className="rounded-z-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{imageActionError}</div>
           )}
 
+          {source && (
+            <ThreadPlatformExport
+              source={source}
+              thread={tweets}
+              drafts={platformDrafts}
+              onDraftsChange={setPlatformDrafts}
+              quoteById={quoteById}
+              getImageForQuote={getImageForQuote}
+              provider={provider}
+              model={model}
+              disabled={disabled}
+              onUsage={onUsage}
+            />
+          )}
+
           <div className="space-y-4">
             {tweets.map((tweet, index) => {
               const tweetNumber = index + 1;
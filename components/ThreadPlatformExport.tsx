@@ -0,0 +1,353 @@
+import React, { useState } from "react";
+import {
+  countThreadPostChars,
+  THREAD_PLATFORM_SPECS,
+  THREAD_PLATFORMS,
+  type ThreadPlatform,
+} from "../functions/_shared/threadPlatforms";
+import { regenerateThreadTweet } from "../services/geminiService";
+import type { ModelType, ProviderType, RequestUsage, ThreadEditionSource, ThreadQuoteCandidate } from "../types";
+import {
+  composeSinglePost,
+  downloadQuoteCarouselPdf,
+  downloadSchedulerBundle,
+  downloadSchedulerJson,
+  getPlatformPosts,
+  validatePlatformPosts,
+  type ThreadPlatformDrafts,
+  type ThreadPostDraft,
+} from "../utils/threadPlatformExport";
+
+interface ThreadPlatformExportProps {
+  source: ThreadEditionSource;
+  thread: ThreadPostDraft[];
+  drafts: ThreadPlatformDrafts;
+  onDraftsChange: (updater: (prev: ThreadPlatformDrafts) => ThreadPlatformDrafts) => void;
+  quoteById: Map<string, ThreadQuoteCandidate>;
+  getImageForQuote: (quoteId: string) => string | null;
+  provider: ProviderType;
+  model: ModelType;
+  disabled?: boolean;
+  onUsage?: (usage: RequestUsage) => void;
+}
+
+const ThreadPlatformExport: React.FC<ThreadPlatformExportProps> = ({
+  source,
+  thread,
+  drafts,
+  onDraftsChange,
+  quoteById,
+  getImageForQuote,
+  provider,
+  model,
+  disabled = false,
+  onUsage,
+}) => {
+  const [platform, setPlatform] = useState<ThreadPlatform>("x");
+  const [busyPostId, setBusyPostId] = useState<string | null>(null);
+  const [rewritingAll, setRewritingAll] = useState(false);
+  const [actionMessage, setActionMessage] = useState("");
+  const [actionError, setActionError] = useState("");
+
+  const spec = THREAD_PLATFORM_SPECS[platform];
+  const posts = getPlatformPosts(platform, drafts, thread);
+  const check = validatePlatformPosts(platform, posts);
+  const isCustomized = Boolean(drafts[platform]);
+  const isBusy = disabled || rewritingAll || busyPostId !== null;
+  const carouselQuoteIds = posts
+    .map((post) => post.quoteId)
+    .filter((quoteId): quoteId is string => Boolean(quoteId && quoteById.has(quoteId)));
+
+  const postsByPlatform = Object.fromEntries(
+    THREAD_PLATFORMS.map((item) => [item, getPlatformPosts(item, drafts, thread)]),
+  ) as Record<ThreadPlatform, ThreadPostDraft[]>;
+  const lookupQuote = (quoteId: string) => quoteById.get(quoteId);
+
+  const updatePost = (targetPlatform: ThreadPlatform, postId: string, text: string) => {
+    onDraftsChange((prev) => ({
+      ...prev,
+      [targetPlatform]: getPlatformPosts(targetPlatform, prev, thread).map((post) =>
+        post.id === postId ? { ...post, text } : post,
+      ),
+    }));
+  };
+
+  const rewritePost = async (targetPlatform: ThreadPlatform, post: ThreadPostDraft, currentPosts: ThreadPostDraft[]) => {
+    const targetQuote = post.quoteId ? quoteById.get(post.quoteId) : undefined;
+    if (post.kind === "insight" && !targetQuote) {
+      throw new Error("Missing quote context for this post.");
+    }
+
+    const rewritten = await regenerateThreadTweet({
+      tweetKind: post.kind,
+      currentTweet: post.text,
+      usedTweetTexts: currentPosts.filter((item) => item.id !== post.id).map((item) => item.text),
+      targetQuote,
+      editionMetadata: {
+        editionTitle: source.editionTitle,
+        editionUrl: source.editionUrl,
+        editionDate: source.editionDate,
+      },
+      platform: targetPlatform,
+      provider,
+      modelId: model,
+      onUsage,
+    });
+    updatePost(targetPlatform, post.id, rewritten);
+    return rewritten;
+  };
+
+  const handleRewritePost = async (post: ThreadPostDraft) => {
+    setBusyPostId(post.id);
+    setActionError("");
+    setActionMessage("");
+    try {
+      await rewritePost(platform, post, posts);
+      setActionMessage(`Rewrote 1 ${spec.layout === "single" ? "section" : "post"} for ${spec.label}.`);
+    } catch (error: any) {
+      setActionError(String(error?.message || "Unable to rewrite this post."));
+    } finally {
+      setBusyPostId(null);
+    }
+  };
+
+  // One call per post, in order, so each rewrite sees the lines already rewritten before it.
+  const handleRewriteAll = async () => {
+    const targetPlatform = platform;
+    const working = posts.map((post) => ({ ...post }));
+    setRewritingAll(true);
+    setActionError("");
+    setActionMessage("");
+    try {
+      for (let index = 0; index < working.length; index++) {
+        setBusyPostId(working[index].id);
+        working[index].text = await rewritePost(targetPlatform, working[index], working);
+      }
+      setActionMessage(`Rewrote ${working.length} ${spec.layout === "single" ? "sections" : "posts"} for ${spec.label}.`);
+    } catch (error: any) {
+      setActionError(String(error?.message || "Rewrite stopped before finishing."));
+    } finally {
+      setBusyPostId(null);
+      setRewritingAll(false);
+    }
+  };
+
+  const handleResetPlatform = () => {
+    onDraftsChange((prev) => {
+      const next = { ...prev };
+      delete next[platform];
+      return next;
+    });
+    setActionError("");
+    setActionMessage(`${spec.label} now follows the generated thread.`);
+  };
+
+  const handleCopy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setActionError("");
+      setActionMessage(`${label} copied.`);
+    } catch (error: any) {
+      setActionError(String(error?.message || "Clipboard action failed."));
+    }
+  };
+
+  const handleDownload = async (kind: "bundle" | "json" | "carousel") => {
+    setActionError("");
+    setActionMessage("");
+    try {
+      if (kind === "carousel") {
+        const cards = carouselQuoteIds
+          .map((quoteId) => getImageForQuote(quoteId))
+          .filter((card): card is string => Boolean(card));
+        await downloadQuoteCarouselPdf(cards, source);
+      } else if (kind === "json") {
+        downloadSchedulerJson({ source, postsByPlatform, lookupQuote });
+      } else {
+        await downloadSchedulerBundle({ source, postsByPlatform, lookupQuote, getCardImage: getImageForQuote });
+      }
+    } catch (error: any) {
+      setActionError(String(error?.message || "Download failed."));
+    }
+  };
+
+  const renderCounter = (count: number, limit: number) => (
+    <span className={`text-xs font-semibold ${count > limit ? "text-rose-700" : "text-stone"}`}>
+      {count}/{limit}
+    </span>
+  );
+
+  return (
+    <article className="rounded-z-md border border-line bg-white p-4 space-y-4">
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h4 className="text-xl text-ink">Platform Export</h4>
+          <p className="text-sm text-stone">
+            Check lengths per platform, rewrite for each one, and download a scheduler-ready bundle.
+          </p>
+        </div>
+        <div className="inline-flex rounded-z-sm border border-line bg-canvas p-1">
+          {THREAD_PLATFORMS.map((item) => (
+            <button
+              key={item}
+              onClick={() => setPlatform(item)}
+              disabled={rewritingAll}
+              className={`rounded-md px-3 py-1.5 text-xs font-semibold transition ${
+                platform === item ? "bg-white text-ink shadow-sm" : "text-stone hover:text-ink"
+              }`}
+            >
+              {THREAD_PLATFORM_SPECS[item].label}
+              {validatePlatformPosts(item, postsByPlatform[item]).issues.length > 0 ? " •" : ""}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 rounded-z-md border border-line bg-brand-soft px-4 py-3 text-sm text-stone">
+        <p>
+          {spec.layout === "single"
+            ? `One post up to ${spec.maxPostChars} characters, with the quote cards as a carousel.`
+            : `${posts.length} posts up to ${spec.maxPostChars} characters, ${spec.maxImagesPerPost} image slots each.`}
+          {isCustomized ? " Rewritten for this platform." : " Following the generated thread."}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleRewriteAll}
+            disabled={isBusy || posts.length === 0}
+            className="rounded-z-sm border border-brand bg-brand px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50 hover:bg-brand/90"
+          >
+            {rewritingAll ? "Rewriting..." : `Rewrite All for ${spec.label}`}
+          </button>
+          <button
+            onClick={handleResetPlatform}
+            disabled={isBusy || !isCustomized}
+            className="rounded-z-sm border border-line bg-white px-3 py-1.5 text-xs font-semibold text-stone disabled:opacity-50 hover:text-ink"
+          >
+            Reset to Generated Thread
+          </button>
+        </div>
+      </div>
+
+      {check.issues.length > 0 && (
+        <ul className="rounded-z-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 list-disc pl-8">
+          {check.issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+
+      {actionError && (
+        <div className="rounded-z-md border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">{actionError}</div>
+      )}
+      {actionMessage && <p className="text-xs font-semibold text-brand">{actionMessage}</p>}
+
+      {spec.layout === "single" && (
+        <div className="rounded-z-md border border-line bg-brand-soft p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs font-semibold text-stone">Full post preview</p>
+            <div className="flex items-center gap-2">
+              {renderCounter(check.charCounts[0] ?? 0, check.charLimit)}
+              <button
+                onClick={() => handleCopy(composeSinglePost(posts), `${spec.label} post`)}
+                className="rounded-z-sm border border-line bg-white px-3 py-1.5 text-xs font-semibold text-stone hover:text-ink"
+              >
+                Copy Post
+              </button>
+              <button
+                onClick={() => handleDownload("carousel")}
+                disabled={carouselQuoteIds.length === 0}
+                className="rounded-z-sm border border-line bg-white px-3 py-1.5 text-xs font-semibold text-stone disabled:opacity-50 hover:text-ink"
+              >
+                Carousel PDF ({carouselQuoteIds.length})
+              </button>
+            </div>
+          </div>
+          <p className="whitespace-pre-line text-sm leading-relaxed text-ink max-h-64 overflow-y-auto thin-scrollbar">
+            {composeSinglePost(posts)}
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {posts.map((post, index) => {
+          const count = countThreadPostChars(post.text.trim(), platform);
+          const limit = spec.layout === "single" ? spec.maxPartChars : spec.maxPostChars;
+          const quote = post.quoteId ? quoteById.get(post.quoteId) : undefined;
+
+          return (
+            <div key={post.id} className="rounded-z-md border border-line bg-white p-3 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="rounded-full border border-line bg-canvas px-2.5 py-1 text-xs font-semibold text-stone">
+                    {spec.layout === "single" ? "Section" : "Post"} {index + 1}
+                  </span>
+                  <span className="rounded-full border border-line bg-brand-soft px-2.5 py-1 text-xs font-semibold text-brand">
+                    {post.kind}
+                  </span>
+                  {quote && (
+                    <span className="text-xs text-stone">
+                      {spec.layout === "single"
+                        ? `Carousel card: ${quote.companyName}`
+                        : `Image slot 1/${spec.maxImagesPerPost}: ${quote.companyName} card`}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {renderCounter(count, limit)}
+                  {spec.layout === "thread" && (
+                    <button
+                      onClick={() => handleCopy(post.text.trim(), `Post ${index + 1}`)}
+                      className="rounded-z-sm border border-line bg-white px-3 py-1.5 text-xs font-semibold text-stone hover:text-ink"
+                    >
+                      Copy
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRewritePost(post)}
+                    disabled={isBusy}
+                    className="rounded-z-sm border border-line bg-white px-3 py-1.5 text-xs font-semibold text-stone disabled:opacity-50 hover:text-ink"
+                  >
+                    {busyPostId === post.id ? "Rewriting..." : "Rewrite"}
+                  </button>
+                </div>
+              </div>
+              <textarea
+                value={post.text}
+                onChange={(event) => updatePost(platform, post.id, event.target.value)}
+                disabled={rewritingAll}
+                rows={spec.layout === "single" ? 4 : 3}
+                className={`w-full rounded-z-sm border bg-brand-soft px-3 py-2 text-sm text-ink outline-none focus:ring-2 focus:ring-brand ${
+                  check.overLimitPostIds.includes(post.id) && spec.layout === "thread" ? "border-rose-300" : "border-line"
+                }`}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <footer className="flex flex-wrap items-center justify-between gap-2 border-t border-line pt-3">
+        <p className="text-xs text-stone">
+          The JSON carries the posts only; the bundle adds the quote cards and the LinkedIn carousel its payload references.
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleDownload("json")}
+            disabled={isBusy}
+            className="rounded-z-sm border border-line bg-white px-3 py-1.5 text-xs font-semibold text-stone disabled:opacity-50 hover:text-ink"
+          >
+            Scheduler JSON
+          </button>
+          <button
+            onClick={() => handleDownload("bundle")}
+            disabled={isBusy}
+            className="rounded-z-sm border border-brand bg-brand px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-50 hover:bg-brand/90"
+          >
+            Scheduler Bundle (.zip)
+          </button>
+        </div>
+      </footer>
+    </article>
+  );
+};
+
+export default ThreadPlatformExport;
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { findEvalRegressions, formatEvalReport, runChatterEvalCase, type ChatterGoldenCase } from './chatterEval';
+import { acmeQ3Fy25 } from './golden/acmeQ3Fy25';
+
+const GOLDEN_CASES: ChatterGoldenCase[] = [acmeQ3Fy25];
+
+describe('chatter offline eval', () => {
+  it.each(GOLDEN_CASES.flatMap((goldenCase) => goldenCase.runs.map((run) => [goldenCase.id, run.label, goldenCase, run] as const)))(
+    '%s / %s meets the golden thresholds',
+    async (_caseId, _runLabel, goldenCase, run) => {
+      const score = await runChatterEvalCase(goldenCase, run);
+
+      expect(findEvalRegressions(score), formatEvalReport([score])).toEqual([]);
+    },
+  );
+
+  it('scores recall, category accuracy and Q&A coverage through the route', async () => {
+    const baseline = await runChatterEvalCase(acmeQ3Fy25, acmeQ3Fy25.runs[0]);
+    const candid = await runChatterEvalCase(acmeQ3Fy25, acmeQ3Fy25.runs[1]);
+
+    expect(baseline).toMatchObject({
+      status: 200,
+      quoteCount: 5,
+      approvedMatched: 4,
+      recall: 0.8,
+      categoryAccuracy: 0.75,
+      providerCalls: 1,
+    });
+    expect(baseline.qaRecall).toBeCloseTo(2 / 3);
+
+    // The analyst question is dropped by validation and the repair pass fills the missing summary.
+    expect(candid).toMatchObject({
+      status: 200,
+      quoteCount: 3,
+      recall: 0.6,
+      categoryAccuracy: 1,
+      qaRecall: 1,
+      qaShare: 1,
+      providerCalls: 2,
+      unverifiedQuotes: 0,
+    });
+  });
+
+  it('fails a run that breaks the 20-quote cap', async () => {
+    const baselineOutput = JSON.parse(acmeQ3Fy25.runs[0].responses[0]);
+    const overCap = { ...baselineOutput, quotes: Array.from({ length: 21 }, () => baselineOutput.quotes[0]) };
+
+    const score = await runChatterEvalCase(acmeQ3Fy25, {
+      label: 'over-cap',
+      provider: 'gemini',
+      responses: [JSON.stringify(overCap)],
+    });
+
+    expect(score.status).toBe(422);
+    expect(findEvalRegressions(score)).toEqual(
+      expect.arrayContaining([expect.stringContaining('at most 20 items'), expect.stringContaining('outside 1-20')]),
+    );
+  });
+});
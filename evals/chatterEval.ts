@@ -0,0 +1,224 @@
+import { onRequestPost as chatterAnalyze } from "../functions/api/chatter/analyze";
+import { overlapCoefficient, toTokenSet } from "../functions/_shared/textSimilarity";
+import { findQuoteTurn, parseTranscriptStructure } from "../functions/_shared/transcriptStructure";
+
+// Mirrors the route's cap; a run over it fails validation and scores zero.
+export const MAX_CHATTER_QUOTES = 20;
+
+// Editors approve a passage, not an exact span, so an output quote counts as a hit when most of the
+// shorter excerpt's words appear in the other.
+const APPROVED_QUOTE_MIN_OVERLAP = 0.6;
+
+export interface ChatterGoldenQuote {
+  quote: string;
+  category: string;
+}
+
+// One recorded model run: the raw text each provider call returned, replayed in call order
+// (the second entry is the repair pass for prompt-only models).
+export interface ChatterEvalRun {
+  label: string;
+  provider: "gemini" | "openrouter";
+  model?: string;
+  promptVersion?: string;
+  responses: string[];
+}
+
+export interface ChatterGoldenCase {
+  id: string;
+  transcript: string;
+  approvedQuotes: ChatterGoldenQuote[];
+  runs: ChatterEvalRun[];
+}
+
+export interface ChatterEvalScore {
+  caseId: string;
+  runLabel: string;
+  status: number;
+  error?: string;
+  quoteCount: number;
+  approvedMatched: number;
+  // Share of editor-approved quotes the run found.
+  recall: number;
+  // Among matched quotes, share whose category agrees with the editor's.
+  categoryAccuracy: number | null;
+  // Recall over approved quotes that sit in the Q&A section (null when none do).
+  qaRecall: number | null;
+  // Share of output quotes taken from Q&A answers.
+  qaShare: number;
+  withinQuoteCap: boolean;
+  unverifiedQuotes: number;
+  providerCalls: number;
+}
+
+export interface ChatterEvalThresholds {
+  minRecall: number;
+  minCategoryAccuracy: number;
+  minQaRecall: number;
+}
+
+export const DEFAULT_CHATTER_EVAL_THRESHOLDS: ChatterEvalThresholds = {
+  minRecall: 0.6,
+  minCategoryAccuracy: 0.75,
+  minQaRecall: 0.5,
+};
+
+const FAKE_ENV = {
+  GEMINI_API_KEY: "eval-gemini-key",
+  OPENROUTER_API_KEY: "eval-openrouter-key",
+};
+
+const jsonResponse = (payload: unknown, status = 200): Response =>
+  new Response(JSON.stringify(payload), { status, headers: { "content-type": "application/json" } });
+
+// Answers Gemini and chat-completions requests with recorded outputs, so the route's parsing,
+// repair, validation and verification code runs exactly as it would against a live model.
+export const createFakeProviderFetch = (responses: string[]) => {
+  let callCount = 0;
+
+  const fakeFetch = async (input: RequestInfo | URL): Promise<Response> => {
+    const url = String(input);
+    const text = responses[callCount];
+    callCount += 1;
+    if (text === undefined) {
+      return jsonResponse({ error: { message: `Fake provider has no recorded response for call #${callCount}.` } }, 400);
+    }
+    if (url.includes("generativelanguage.googleapis.com") || url.includes("aiplatform.googleapis.com")) {
+      return jsonResponse({
+        candidates: [{ content: { parts: [{ text }] } }],
+        usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0 },
+      });
+    }
+    return jsonResponse({
+      choices: [{ message: { content: text } }],
+      usage: { prompt_tokens: 0, completion_tokens: 0 },
+    });
+  };
+
+  return { fetch: fakeFetch, getCallCount: () => callCount };
+};
+
+const toQuoteTokens = (text: string): Set<string> => toTokenSet(text, { minTokenLength: 3 });
+
+export const scoreChatterResult = (
+  goldenCase: Pick<ChatterGoldenCase, "id" | "transcript" | "approvedQuotes">,
+  result: any,
+): Omit<ChatterEvalScore, "runLabel" | "status" | "error" | "providerCalls"> => {
+  const structure = parseTranscriptStructure(goldenCase.transcript);
+  const quotes: Array<{ quote: string; category: string; verification?: { status: string } }> = Array.isArray(
+    result?.quotes,
+  )
+    ? result.quotes
+    : [];
+  const outputTokens = quotes.map((quote) => toQuoteTokens(quote.quote));
+
+  let approvedMatched = 0;
+  let categoryMatches = 0;
+  let approvedQa = 0;
+  let qaMatched = 0;
+  for (const approved of goldenCase.approvedQuotes) {
+    const approvedTokens = toQuoteTokens(approved.quote);
+    let bestIndex = -1;
+    let bestOverlap = APPROVED_QUOTE_MIN_OVERLAP;
+    outputTokens.forEach((tokens, index) => {
+      const overlap = overlapCoefficient(approvedTokens, tokens);
+      if (overlap >= bestOverlap) {
+        bestIndex = index;
+        bestOverlap = overlap;
+      }
+    });
+
+    const isQa = findQuoteTurn(structure, approved.quote)?.section === "qa";
+    if (isQa) approvedQa += 1;
+    if (bestIndex === -1) continue;
+
+    approvedMatched += 1;
+    if (isQa) qaMatched += 1;
+    if (quotes[bestIndex].category === approved.category) categoryMatches += 1;
+  }
+
+  const qaOutputQuotes = quotes.filter((quote) => findQuoteTurn(structure, quote.quote)?.section === "qa").length;
+  const approvedCount = goldenCase.approvedQuotes.length;
+
+  return {
+    caseId: goldenCase.id,
+    quoteCount: quotes.length,
+    approvedMatched,
+    recall: approvedCount === 0 ? 1 : approvedMatched / approvedCount,
+    categoryAccuracy: approvedMatched === 0 ? null : categoryMatches / approvedMatched,
+    qaRecall: approvedQa === 0 ? null : qaMatched / approvedQa,
+    qaShare: quotes.length === 0 ? 0 : qaOutputQuotes / quotes.length,
+    withinQuoteCap: quotes.length > 0 && quotes.length <= MAX_CHATTER_QUOTES,
+    unverifiedQuotes: quotes.filter((quote) => quote.verification?.status === "unverified").length,
+  };
+};
+
+// Swaps the global fetch for the duration of the call, so runs must be awaited one at a time.
+export const runChatterEvalCase = async (goldenCase: ChatterGoldenCase, run: ChatterEvalRun): Promise<ChatterEvalScore> => {
+  const fakeProvider = createFakeProviderFetch(run.responses);
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fakeProvider.fetch as typeof fetch;
+
+  let response: Response;
+  let body: any;
+  try {
+    response = await chatterAnalyze({
+      request: new Request("https://eval.local/api/chatter/analyze", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          provider: run.provider,
+          model: run.model,
+          promptVersion: run.promptVersion,
+          transcript: goldenCase.transcript,
+          // Replays must never be answered from a previous run's cached result.
+          bypassCache: true,
+        }),
+      }),
+      env: FAKE_ENV,
+    });
+    body = await response.json();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  const score = scoreChatterResult(goldenCase, response.ok ? body : null);
+  return {
+    ...score,
+    runLabel: run.label,
+    status: response.status,
+    error: response.ok ? undefined : String(body?.error?.details?.validationError || body?.error?.message || "Unknown error"),
+    providerCalls: fakeProvider.getCallCount(),
+  };
+};
+
+export const findEvalRegressions = (
+  score: ChatterEvalScore,
+  thresholds: ChatterEvalThresholds = DEFAULT_CHATTER_EVAL_THRESHOLDS,
+): string[] => {
+  const failures: string[] = [];
+  if (score.error) failures.push(`request failed (${score.status}): ${score.error}`);
+  if (!score.withinQuoteCap) failures.push(`quote count ${score.quoteCount} is outside 1-${MAX_CHATTER_QUOTES}`);
+  if (score.recall < thresholds.minRecall) {
+    failures.push(`recall ${score.recall.toFixed(2)} below ${thresholds.minRecall}`);
+  }
+  if (score.categoryAccuracy !== null && score.categoryAccuracy < thresholds.minCategoryAccuracy) {
+    failures.push(`category accuracy ${score.categoryAccuracy.toFixed(2)} below ${thresholds.minCategoryAccuracy}`);
+  }
+  if (score.qaRecall !== null && score.qaRecall < thresholds.minQaRecall) {
+    failures.push(`Q&A recall ${score.qaRecall.toFixed(2)} below ${thresholds.minQaRecall}`);
+  }
+  return failures;
+};
+
+const formatRatio = (value: number | null): string => (value === null ? "n/a" : value.toFixed(2));
+
+export const formatEvalReport = (scores: ChatterEvalScore[]): string =>
+  scores
+    .map(
+      (score) =>
+        `${score.caseId} / ${score.runLabel}: ${score.error ? `FAILED ${score.status}` : `${score.quoteCount} quotes`}, ` +
+        `recall ${formatRatio(score.recall)}, category ${formatRatio(score.categoryAccuracy)}, ` +
+        `Q&A recall ${formatRatio(score.qaRecall)}, Q&A share ${formatRatio(score.qaShare)}, unverified ${score.unverifiedQuotes}`,
+    )
+    .join("\n");
@@ -0,0 +1,140 @@
+import type { ChatterGoldenCase } from "../chatterEval";
+
+// Mirrors parsePdfToText output: one line of text per page behind "--- Page N ---" markers.
+const transcript = [
+  "--- Page 1 ---",
+  "Acme Industries Limited Q3 FY25 Earnings Conference Call MANAGEMENT: MR. RAVI MENON – MANAGING DIRECTOR MS. PRIYA SHAH – CHIEF FINANCIAL OFFICER MODERATOR: MR. KARAN DESAI – AXIS CAPITAL",
+  "",
+  "--- Page 2 ---",
+  "Moderator: Ladies and gentlemen, good day and welcome to the call. I now hand over to Mr. Ravi Menon. Ravi Menon: Thank you. Demand in our core segment stayed resilient this quarter. We expect margins to expand by 150 basis points over the next two years as the new plant ramps up. Priya Shah: Revenue grew 18% year on year, led by exports. Steel prices fell 9% in the quarter and we have locked in contracts for the next six months at these levels.",
+  "",
+  "--- Page 3 ---",
+  "Moderator: Thank you. We will now begin the question-and-answer session. The first question is from the line of Amit Verma from Kotak Securities. Please go ahead. Amit Verma: Could you explain whether the export slowdown in Europe will hurt the order book next year? Ravi Menon: Europe is only 12% of exports and our order book is at a record high, so we are comfortable. Moderator: The next question is from Neha Rao of HDFC Securities. Neha Rao: What is the capex plan for FY26? Priya Shah: We will spend around 400 crores in FY26, mostly on capacity, and fund it entirely from internal accruals.",
+  "",
+  "--- Page 4 ---",
+  "Moderator: The next question is from Sameer Jain of ICICI Securities. Sameer Jain: Are you seeing pricing pressure from imports? Ravi Menon: Two Chinese competitors have cut prices by 15% in the domestic market and we have chosen not to follow. We would rather give up some volume than reset prices for the whole industry. Moderator: That was the last question. I now hand the conference back to the management for closing comments.",
+].join("\n");
+
+const header = {
+  companyName: "Acme Industries",
+  fiscalPeriod: "Q3 FY25",
+  nseScrip: "ACME",
+  marketCapCategory: "Small Cap",
+  industry: "Engineering",
+  companyDescription: "Acme makes industrial castings for domestic and export customers.",
+};
+
+const speaker = {
+  ravi: { name: "Ravi Menon", designation: "Managing Director" },
+  priya: { name: "Priya Shah", designation: "Chief Financial Officer" },
+};
+
+export const acmeQ3Fy25: ChatterGoldenCase = {
+  id: "acme-q3fy25",
+  transcript,
+  approvedQuotes: [
+    {
+      quote: "We expect margins to expand by 150 basis points over the next two years as the new plant ramps up.",
+      category: "Financial Guidance",
+    },
+    {
+      quote: "Steel prices fell 9% in the quarter and we have locked in contracts for the next six months at these levels.",
+      category: "Cost & Supply Chain",
+    },
+    {
+      quote: "Europe is only 12% of exports and our order book is at a record high, so we are comfortable.",
+      category: "Macro & Geopolitics",
+    },
+    {
+      quote: "We will spend around 400 crores in FY26, mostly on capacity, and fund it entirely from internal accruals.",
+      category: "Capital Allocation",
+    },
+    {
+      quote: "Two Chinese competitors have cut prices by 15% in the domestic market and we have chosen not to follow.",
+      category: "Competitive Landscape",
+    },
+  ],
+  runs: [
+    {
+      label: "gemini-baseline",
+      provider: "gemini",
+      promptVersion: "v1",
+      responses: [
+        JSON.stringify({
+          ...header,
+          quotes: [
+            {
+              quote:
+                "Demand in our core segment stayed resilient this quarter. We expect margins to expand by 150 basis points over the next two years as the new plant ramps up.",
+              summary: "Margins to widen 150 bps as the new plant ramps.",
+              category: "Financial Guidance",
+              speaker: speaker.ravi,
+            },
+            {
+              quote: "Revenue grew 18% year on year, led by exports.",
+              summary: "Exports drove 18% growth.",
+              category: "Financial Guidance",
+              speaker: speaker.priya,
+            },
+            {
+              quote: "Steel prices fell 9% in the quarter and we have locked in contracts for the next six months at these levels.",
+              summary: "Cheaper steel is locked in for six months.",
+              category: "Cost & Supply Chain",
+              speaker: speaker.priya,
+            },
+            {
+              quote: "Europe is only 12% of exports and our order book is at a record high, so we are comfortable.",
+              summary: "Europe slowdown is a small exposure.",
+              category: "Financial Guidance",
+              speaker: speaker.ravi,
+            },
+            {
+              quote: "We will spend around 400 crores in FY26, mostly on capacity, and fund it entirely from internal accruals.",
+              summary: "FY26 capex of 400 crores, self-funded.",
+              category: "Capital Allocation",
+              speaker: speaker.priya,
+            },
+          ],
+        }),
+      ],
+    },
+    {
+      label: "openrouter-candid-qa",
+      provider: "openrouter",
+      promptVersion: "v2",
+      responses: [
+        JSON.stringify({
+          ...header,
+          quotes: [
+            {
+              quote: "Could you explain whether the export slowdown in Europe will hurt the order book next year?",
+              summary: "Analyst asks about Europe.",
+              category: "Macro & Geopolitics",
+              speaker: speaker.ravi,
+            },
+            {
+              quote: "Europe is only 12% of exports and our order book is at a record high, so we are comfortable.",
+              summary: "Europe slowdown is a small exposure.",
+              category: "Macro & Geopolitics",
+              speaker: speaker.ravi,
+            },
+            {
+              quote: "We will spend around 400 crores in FY26, mostly on capacity, and fund it entirely from internal accruals.",
+              summary: "FY26 capex of 400 crores, self-funded.",
+              category: "Capital Allocation",
+              speaker: speaker.priya,
+            },
+            {
+              quote:
+                "Two Chinese competitors have cut prices by 15% in the domestic market and we have chosen not to follow. We would rather give up some volume than reset prices for the whole industry.",
+              category: "Competitive Landscape",
+              speaker: speaker.ravi,
+            },
+          ],
+        }),
+        // Repair pass for the quote that came back without a summary.
+        JSON.stringify({ quotes: [{ index: 3, summary: "Acme is ceding volume rather than matching Chinese price cuts." }] }),
+      ],
+    },
+  ],
+};
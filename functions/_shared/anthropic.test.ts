@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onRequestPost as pointsAnalyze } from '../api/points/analyze';
+import { buildAnthropicResultTool, callAnthropicJson } from './anthropic';
+import { CHATTER_RESPONSE_SCHEMA } from './gemini';
+
+const toolUseResponse = (input: unknown, stopReason = 'tool_use') =>
+  new Response(
+    JSON.stringify({
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'record_result', input }],
+      stop_reason: stopReason,
+    }),
+    { status: 200, headers: { 'content-type': 'application/json' } },
+  );
+
+describe('anthropic provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forces a single tool whose input schema is the response schema', async () => {
+    const tool = buildAnthropicResultTool(CHATTER_RESPONSE_SCHEMA);
+    expect(tool.input_schema.type).toBe('object');
+    expect(tool.input_schema.properties.quotes.items.properties.speaker.required).toEqual(['name', 'designation']);
+
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => toolUseResponse({ ok: true }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await callAnthropicJson({
+      apiKey: 'test-key',
+      model: 'claude-haiku-4-5',
+      responseSchema: { type: 'OBJECT', properties: { ok: { type: 'BOOLEAN' } } },
+      messageContent: [
+        { type: 'text', text: 'Describe the slide.' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+      ],
+    });
+
+    expect(result).toEqual({ ok: true });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect((init.headers as Record<string, string>)['x-api-key']).toBe('test-key');
+    const body = JSON.parse(String(init.body));
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'record_result' });
+    expect(body.messages[0].content[1]).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: 'AAAA' },
+    });
+
+    fetchMock.mockResolvedValueOnce(toolUseResponse({ ok: true }, 'max_tokens'));
+    await expect(
+      callAnthropicJson({ apiKey: 'test-key', model: 'claude-haiku-4-5', responseSchema: {}, messageContent: 'x' }),
+    ).rejects.toThrow(/invalid JSON/);
+  });
+
+  it('rejects the provider when the key is missing', async () => {
+    const response = await pointsAnalyze({
+      request: new Request('https://example.com/api/points/analyze', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ provider: 'anthropic', pageImages: ['data:image/png;base64,AAAA'] }),
+      }),
+      env: {},
+    });
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error.reasonCode).toBe('MISSING_ANTHROPIC_KEY');
+  });
+});
@@ -0,0 +1,130 @@
+import { toJsonSchema, type OpenRouterMessageContent } from "./gemini";
+import type { ProviderTransport } from "./mockProvider";
+import { resolveHealthTracker } from "./providerHealth";
+import { parseAnthropicUsage, type UsageListener } from "./usage";
+
+const ANTHROPIC_API_BASE = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_API_VERSION = "2023-06-01";
+const ANTHROPIC_REQUEST_TIMEOUT_MS = 120000;
+const ANTHROPIC_MAX_TOKENS = 8192;
+export const ANTHROPIC_RESULT_TOOL_NAME = "record_result";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string } };
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.*)$/s;
+
+// Routes build OpenRouter-style content (text + image_url parts); Anthropic wants its own blocks.
+export const toAnthropicContent = (messageContent: OpenRouterMessageContent): AnthropicContentBlock[] => {
+  if (typeof messageContent === "string") {
+    return [{ type: "text", text: messageContent }];
+  }
+
+  return messageContent.map((part): AnthropicContentBlock => {
+    if (part.type === "text") {
+      return { type: "text", text: part.text };
+    }
+    const dataUrl = DATA_URL_PATTERN.exec(part.image_url.url);
+    return dataUrl
+      ? { type: "image", source: { type: "base64", media_type: dataUrl[1], data: dataUrl[2] } }
+      : { type: "image", source: { type: "url", url: part.image_url.url } };
+  });
+};
+
+// The response schema becomes the input schema of a single forced tool, so the model's answer
+// arrives as already-parsed, schema-shaped tool input rather than free text.
+export const buildAnthropicResultTool = (responseSchema: unknown) => ({
+  name: ANTHROPIC_RESULT_TOOL_NAME,
+  description: "Record the final structured result. Call this exactly once with the complete answer.",
+  input_schema: toJsonSchema(responseSchema),
+});
+
+const parseAnthropicErrorMessage = (payload: any, status: number): string => {
+  const payloadMessage = payload?.error?.message;
+  if (typeof payloadMessage === "string" && payloadMessage.trim()) {
+    return `Anthropic request failed with status ${status}: ${payloadMessage.trim()}`;
+  }
+  return `Anthropic request failed with status ${status}.`;
+};
+
+export const callAnthropicJson = async (params: {
+  apiKey: string;
+  model: string;
+  messageContent: OpenRouterMessageContent;
+  responseSchema: unknown;
+  requestId?: string;
+  maxTokens?: number;
+  timeoutMs?: number;
+  onUsage?: UsageListener;
+  transport?: ProviderTransport;
+  recordHealth?: boolean;
+}): Promise<any> => {
+  const { apiKey, model, messageContent, responseSchema, requestId } = params;
+  const transport = params.transport ?? fetch;
+  const health = resolveHealthTracker(params);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort("timeout"), params.timeoutMs ?? ANTHROPIC_REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await transport(ANTHROPIC_API_BASE, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: params.maxTokens ?? ANTHROPIC_MAX_TOKENS,
+        temperature: 0.2,
+        tools: [buildAnthropicResultTool(responseSchema)],
+        tool_choice: { type: "tool", name: ANTHROPIC_RESULT_TOOL_NAME },
+        messages: [{ role: "user", content: toAnthropicContent(messageContent) }],
+      }),
+      signal: controller.signal,
+    });
+
+    let payload: any = null;
+    try {
+      payload = await response.json();
+    } catch {
+      // Keep null payload; handled below.
+    }
+
+    if (!response.ok) {
+      throw new Error(parseAnthropicErrorMessage(payload, response.status));
+    }
+
+    health.recordSuccess("anthropic", model);
+    params.onUsage?.(parseAnthropicUsage(payload));
+    const toolUse = Array.isArray(payload?.content)
+      ? payload.content.find((block: any) => block?.type === "tool_use" && block?.name === ANTHROPIC_RESULT_TOOL_NAME)
+      : undefined;
+    if (!toolUse || !toolUse.input || typeof toolUse.input !== "object") {
+      throw new Error("Anthropic returned an empty response.");
+    }
+    if (payload?.stop_reason === "max_tokens") {
+      // A truncated tool call still parses, but with arrays cut short; treat it like bad JSON.
+      throw new Error("Anthropic returned invalid JSON (output truncated at max_tokens).");
+    }
+
+    return toolUse.input;
+  } catch (error: any) {
+    const message = controller.signal.aborted
+      ? "Anthropic request timed out."
+      : String(error?.message || "Unknown Anthropic request failure.");
+    health.recordFailure("anthropic", model, message);
+    console.log(
+      JSON.stringify({
+        event: "anthropic_request_failure",
+        requestId,
+        model,
+        message,
+      }),
+    );
+    throw new Error(message);
+  } finally {
+    clearTimeout(timeout);
+  }
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeEditionCompany, parseEditionText, serializeEditionText } from './editionFormat';
+
+const edition = [
+  'The Chatter: One company, one industry',
+  'October 19, 2026',
+  'In this edition, we covered 1 company across 1 industry.',
+  'Nestle India | Large Cap | FMCG',
+  'Nestle India makes packaged foods and beverages.',
+  '[Concall] https://example.com/nestle.pdf',
+  'Management flagged commodity relief.',
+  '"On the concall we said coffee prices have peaked." - Suresh Narayanan, Chairman and MD',
+  'Concall tone on rural demand was upbeat.',
+  '“Rural is growing faster than urban for the third quarter.”',
+  '— Suresh Narayanan, Chairman and MD',
+  'Zomato | Mega Cap | Internet',
+  'Food delivery and quick commerce.',
+  '[Concall]',
+  'Blinkit store count',
+  '"We will add 1,000 dark stores."',
+  '- Deepinder Goyal, CEO',
+].join('\n');
+
+describe('edition format', () => {
+  it('reads singular coverage and keeps quotes that mention a concall', () => {
+    const parsed = parseEditionText(edition, { sourceKind: 'pdf_text' });
+
+    expect(parsed).toMatchObject({ editionDate: 'October 19, 2026', companiesCovered: 1, industriesCovered: 1 });
+    expect(parsed.companies).toHaveLength(1);
+    expect(parsed.companies[0].quotes.map((quote) => [quote.summary, quote.quote, quote.speakerName])).toEqual([
+      ['Management flagged commodity relief.', 'On the concall we said coffee prices have peaked.', 'Suresh Narayanan'],
+      [
+        'Concall tone on rural demand was upbeat.',
+        'Rural is growing faster than urban for the third quarter.',
+        'Suresh Narayanan',
+      ],
+    ]);
+  });
+
+  it('skips a company with an unknown market cap without folding its quotes into the previous one', () => {
+    const parsed = parseEditionText(edition, { sourceKind: 'pdf_text' });
+
+    expect(parsed.companies.map((company) => company.companyName)).toEqual(['Nestle India']);
+    expect(parsed.companies[0].quotes.some((quote) => quote.quote.includes('dark stores'))).toBe(false);
+  });
+
+  it('serializes a company into text that parses back to its canonical form', () => {
+    const company = {
+      companyName: 'Tata Consumer | Products',
+      marketCapCategory: 'large cap',
+      industry: 'FMCG',
+      companyDescription: '',
+      quotes: [
+        { summary: '', quote: 'Tea “inflation” is   easing.', speakerName: 'Sunil D’Souza, Jr', speakerDesignation: '' },
+        { summary: 'Repeat', quote: 'Tea "inflation" is easing.', speakerName: 'Other', speakerDesignation: 'CFO' },
+      ],
+    };
+    const text = serializeEditionText({ title: 'The Chatter', sections: [{ companies: [company] }] });
+    const [parsed] = parseEditionText(text, { sourceKind: 'in_app' }).companies;
+
+    expect(normalizeEditionCompany(company)).toEqual({
+      companyName: 'Tata Consumer / Products',
+      marketCapCategory: 'Large Cap',
+      industry: 'FMCG',
+      companyDescription: 'Company overview not available.',
+      quotes: [
+        {
+          summary: 'Management highlighted a business signal worth tracking.',
+          quote: "Tea 'inflation' is easing.",
+          speakerName: "Sunil D'Souza Jr",
+          speakerDesignation: 'Management',
+        },
+      ],
+    });
+    expect(parsed).toMatchObject({
+      companyName: 'Tata Consumer / Products',
+      marketCapCategory: 'Large Cap',
+      companyDescription: 'Company overview not available.',
+      quotes: [{ quote: "Tea 'inflation' is easing.", speakerName: "Sunil D'Souza Jr", speakerDesignation: 'Management' }],
+    });
+  });
+});
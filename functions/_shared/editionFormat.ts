@@ -0,0 +1,519 @@
+// The Chatter edition text format, shared by the export side (clipboard, edition builder) and the thread ingest
+// parser so that an exported edition always parses back to the same companies, quotes and speakers.
+//
+//   The Chatter                                   <- title (first line mentioning "The Chatter", else the first line)
+//   October 19, 2026                              <- date
+//   In this edition, we covered N companies across M industries.
+//   Company | Large Cap | Industry                <- company header
+//   Company description.
+//   [Concall] https://...                         <- ends the description
+//   Summary line.
+//       "Quote text"
+//       — Speaker Name, Designation
+
+export type EditionSourceKind = "substack_url" | "pdf_text" | "in_app";
+
+export interface ParsedEditionQuote {
+  id: string;
+  companyName: string;
+  marketCapCategory: string;
+  industry: string;
+  companyDescription: string;
+  summary: string;
+  quote: string;
+  speakerName: string;
+  speakerDesignation: string;
+  sourceOrder: number;
+}
+
+export interface ParsedEditionCompany {
+  companyName: string;
+  marketCapCategory: string;
+  industry: string;
+  companyDescription: string;
+  quotes: ParsedEditionQuote[];
+}
+
+export interface ParsedEdition {
+  editionTitle: string;
+  editionUrl?: string;
+  editionDate?: string;
+  companiesCovered?: number;
+  industriesCovered?: number;
+  sourceKind: EditionSourceKind;
+  companies: ParsedEditionCompany[];
+}
+
+export interface EditionQuoteInput {
+  summary: string;
+  quote: string;
+  speakerName: string;
+  speakerDesignation: string;
+}
+
+export interface EditionCompanyInput {
+  companyName: string;
+  marketCapCategory: string;
+  industry: string;
+  companyDescription: string;
+  concallUrl?: string;
+  quotes: EditionQuoteInput[];
+}
+
+export interface EditionInput {
+  title: string;
+  date?: string;
+  intro?: string;
+  companiesCovered?: number;
+  industriesCovered?: number;
+  sections: Array<{ heading?: string; companies: EditionCompanyInput[] }>;
+}
+
+export const EDITION_MARKET_CAPS = ["Large Cap", "Mid Cap", "Small Cap", "Micro Cap"];
+export const EDITION_FALLBACK_SUMMARY = "Management highlighted a business signal worth tracking.";
+export const EDITION_FALLBACK_DESCRIPTION = "Company overview not available.";
+export const EDITION_FALLBACK_SPEAKER = "Management";
+export const EDITION_TEXT_DIVIDER = "\n------------------------------------------------------------\n";
+
+const MAX_EDITION_TEXT_CHARS = 2_000_000;
+const MAX_SPEAKER_NAME_CHARS = 80;
+const MAX_SPEAKER_DESIGNATION_CHARS = 180;
+const MAX_TITLE_CHARS = 140;
+
+const companyHeaderRegex = /^(.+?)\s*\|\s*(Large Cap|Mid Cap|Small Cap|Micro Cap)\s*\|\s*(.+)$/i;
+// Any "Name | Cap | Industry" line ends the previous company, so a header with an unknown market cap is skipped
+// instead of its quotes landing under the company before it.
+const sectionHeaderRegex = /^[^|]+\|[^|]+\|[^|]+$/;
+const speakerLineRegex = /^[-]\s*(.+)$/;
+// '"Quote" - Speaker'; the speaker part has no double quotes, so a quote that merely starts with a dash stays a quote.
+const inlineSpeakerRegex = /^(.*")\s*-\s*([^"]{2,})$/;
+// "[Concall]", "[Concall](url)", "[Concall] url" or a bare "Concall" link line; prose that mentions a concall is not a marker.
+const concallLineRegex = /^\[?\s*concall\s*\]?(?=$|\s*[(:·|]|\s+https?:)/i;
+
+const decodeHtmlEntities = (value: string): string =>
+  value
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&#(\d+);/g, (_, num) => {
+      const parsed = Number(num);
+      if (!Number.isFinite(parsed)) return _;
+      try {
+        return String.fromCodePoint(parsed);
+      } catch {
+        return _;
+      }
+    })
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => {
+      const parsed = Number.parseInt(hex, 16);
+      if (!Number.isFinite(parsed)) return _;
+      try {
+        return String.fromCodePoint(parsed);
+      } catch {
+        return _;
+      }
+    });
+
+export const editionHtmlToText = (html: string): string => {
+  let normalized = html;
+  normalized = normalized.replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, " ");
+  normalized = normalized.replace(/<style\b[^>]*>[\s\S]*?<\/style>/gi, " ");
+  normalized = normalized.replace(/<noscript\b[^>]*>[\s\S]*?<\/noscript>/gi, " ");
+  normalized = normalized.replace(/<title\b[^>]*>[\s\S]*?<\/title>/gi, " ");
+  normalized = normalized.replace(/<br\s*\/?\s*>/gi, "\n");
+  normalized = normalized.replace(/<\/(p|div|section|article|li|h1|h2|h3|h4|h5|h6|blockquote)>/gi, "\n");
+  normalized = normalized.replace(/<li\b[^>]*>/gi, "\n• ");
+  normalized = normalized.replace(/<[^>]+>/g, " ");
+  normalized = decodeHtmlEntities(normalized);
+  normalized = normalized.replace(/\r/g, "");
+  normalized = normalized.replace(/\t/g, " ");
+  normalized = normalized.replace(/[ ]{2,}/g, " ");
+  normalized = normalized.replace(/\n{3,}/g, "\n\n");
+  return normalized.trim();
+};
+
+const normalizeTextInput = (value: string): string =>
+  value
+    .replace(/\u00a0/g, " ")
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/[‐‑‒–—]/g, "-")
+    .replace(/\r/g, "")
+    .replace(/\t/g, " ")
+    .replace(/[ ]{2,}/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+
+const cleanupParagraph = (value: string): string =>
+  value
+    .replace(/[ ]{2,}/g, " ")
+    .replace(/\s+([,.;:!?])/g, "$1")
+    .trim();
+
+// --- Serializer ---
+
+// One line of text as the parser will read it back. Pipes would make a line look like a company header.
+const toEditionLine = (value: string | undefined): string =>
+  cleanupParagraph(normalizeTextInput(typeof value === "string" ? value : "").replace(/\s+/g, " ").replace(/\|/g, "/"));
+
+// The parser reads a quote as the text between the first pair of double quotes, and a summary line with a double
+// quote in it would start a quote.
+const toEditionQuotedLine = (value: string | undefined): string => cleanupParagraph(toEditionLine(value).replace(/"/g, "'"));
+
+const clampLine = (value: string, maxChars: number): string => cleanupParagraph(value.slice(0, maxChars));
+
+const looksLikeNoiseHeading = (line: string): boolean => {
+  if (!line) return true;
+  if (/^\d+\s*\/\s*\d+$/.test(line)) return true;
+  if (/^(fmcg|it|energy|healthcare|retail|diversified|auto ancillary|engineering|capital goods)$/i.test(line)) {
+    return true;
+  }
+  if (line.length < 4) return true;
+  return false;
+};
+
+const isConcallLine = (line: string): boolean => concallLineRegex.test(line);
+
+const toMarketCapLabel = (value: string | undefined): string => {
+  const normalized = toEditionLine(value);
+  return EDITION_MARKET_CAPS.find((label) => label.toLowerCase() === normalized.toLowerCase()) ?? (normalized || "N/A");
+};
+
+// Canonical form of a company: exactly what the parser returns for it after a serialize/parse round trip.
+export const normalizeEditionCompany = (company: EditionCompanyInput): EditionCompanyInput => {
+  const description = toEditionLine(company.companyDescription);
+  const concallUrl = toEditionLine(company.concallUrl);
+  const seenQuotes = new Set<string>();
+  const quotes: EditionQuoteInput[] = [];
+
+  for (const item of company.quotes ?? []) {
+    const quote = toEditionQuotedLine(item?.quote);
+    if (!quote || seenQuotes.has(quote.toLowerCase())) continue;
+    seenQuotes.add(quote.toLowerCase());
+
+    const summary = toEditionQuotedLine(item.summary);
+    const speakerName = clampLine(toEditionQuotedLine(item.speakerName).replace(/,/g, " "), MAX_SPEAKER_NAME_CHARS);
+    const speakerDesignation = clampLine(toEditionQuotedLine(item.speakerDesignation), MAX_SPEAKER_DESIGNATION_CHARS);
+    quotes.push({
+      summary: summary && !isConcallLine(summary) ? summary : EDITION_FALLBACK_SUMMARY,
+      quote,
+      speakerName: speakerName || EDITION_FALLBACK_SPEAKER,
+      speakerDesignation: speakerDesignation || EDITION_FALLBACK_SPEAKER,
+    });
+  }
+
+  return {
+    companyName: toEditionLine(company.companyName) || "N/A",
+    marketCapCategory: toMarketCapLabel(company.marketCapCategory),
+    industry: toEditionLine(company.industry) || "N/A",
+    companyDescription:
+      !looksLikeNoiseHeading(description) && !isConcallLine(description) ? description : EDITION_FALLBACK_DESCRIPTION,
+    ...(concallUrl ? { concallUrl } : {}),
+    quotes,
+  };
+};
+
+// The parser skips companies whose market cap is not one of the four header labels, and companies without quotes.
+export const isIngestableEditionCompany = (company: EditionCompanyInput): boolean =>
+  EDITION_MARKET_CAPS.includes(company.marketCapCategory) && company.quotes.length > 0;
+
+export const formatEditionCompanyHeader = (company: EditionCompanyInput): string =>
+  `${company.companyName} | ${company.marketCapCategory} | ${company.industry}`;
+
+// Without a comma the parser reads the whole line as the name and falls back to "Management" for the designation.
+export const formatEditionSpeakerLine = (quote: EditionQuoteInput): string =>
+  quote.speakerDesignation === EDITION_FALLBACK_SPEAKER
+    ? `— ${quote.speakerName}`
+    : `— ${quote.speakerName}, ${quote.speakerDesignation}`;
+
+export const buildEditionCoverageSentence = (companiesCovered: number, industriesCovered: number): string =>
+  `In this edition, we covered ${companiesCovered} ${companiesCovered === 1 ? "company" : "companies"} across ` +
+  `${industriesCovered} ${industriesCovered === 1 ? "industry" : "industries"}.`;
+
+// Expects a company from normalizeEditionCompany.
+export const serializeEditionCompanyText = (company: EditionCompanyInput): string => {
+  const concallLine = company.concallUrl ? `[Concall] ${company.concallUrl}` : "[Concall]";
+  const quoteBlocks = company.quotes.map(
+    (quote) => `${quote.summary}\n\n    "${quote.quote}"\n    ${formatEditionSpeakerLine(quote)}`,
+  );
+  return [formatEditionCompanyHeader(company), company.companyDescription, concallLine, "", ...quoteBlocks].join("\n");
+};
+
+export const splitEditionParagraphs = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(/\n\s*\n/)
+    .map((paragraph) => toEditionQuotedLine(paragraph))
+    .filter(Boolean);
+
+export const serializeEditionText = (edition: EditionInput): string => {
+  const sections = edition.sections
+    .map((section) => ({
+      heading: toEditionQuotedLine(section.heading),
+      companies: section.companies.map(normalizeEditionCompany),
+    }))
+    .filter((section) => section.companies.length > 0);
+  const companies = sections.flatMap((section) => section.companies);
+  const companiesCovered = edition.companiesCovered ?? companies.length;
+  const industriesCovered =
+    edition.industriesCovered ?? new Set(companies.map((company) => company.industry.toLowerCase())).size;
+
+  const head = [
+    clampLine(toEditionLine(edition.title), MAX_TITLE_CHARS) || "The Chatter",
+    ...(toEditionLine(edition.date) ? [toEditionLine(edition.date)] : []),
+    "",
+    ...splitEditionParagraphs(edition.intro).flatMap((paragraph) => [paragraph, ""]),
+    buildEditionCoverageSentence(companiesCovered, industriesCovered),
+  ].join("\n");
+
+  const body = sections
+    .map((section) =>
+      [...(section.heading ? [section.heading, ""] : []), section.companies.map(serializeEditionCompanyText).join(EDITION_TEXT_DIVIDER)].join(
+        "\n",
+      ),
+    )
+    .join(EDITION_TEXT_DIVIDER);
+
+  return `${head}\n\n${body}\n`;
+};
+
+// --- Parser ---
+
+const extractQuotedText = (raw: string): string => {
+  const singleLine = cleanupParagraph(raw.replace(/\n/g, " "));
+  const quotedMatch = singleLine.match(/"([\s\S]*?)"/);
+  if (quotedMatch && quotedMatch[1]) {
+    return cleanupParagraph(quotedMatch[1]);
+  }
+  return cleanupParagraph(singleLine.replace(/^"/, "").replace(/"$/, ""));
+};
+
+const extractEditionTitle = (lines: string[]): string => {
+  const chatterLine = lines.find((line) => /the chatter/i.test(line));
+  if (chatterLine) {
+    return chatterLine.slice(0, MAX_TITLE_CHARS);
+  }
+  const first = lines[0] || "The Chatter";
+  return first.slice(0, MAX_TITLE_CHARS);
+};
+
+const extractEditionDate = (lines: string[]): string | undefined => {
+  const dateRegex = /\b(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\s+\d{1,2},?\s+\d{4}\b/i;
+  const hit = lines.find((line) => dateRegex.test(line));
+  if (!hit) return undefined;
+  const match = hit.match(dateRegex);
+  return match ? match[0] : undefined;
+};
+
+const extractCoverageStats = (text: string): { companiesCovered?: number; industriesCovered?: number } => {
+  const match = text.match(/covered\s+(\d+)\s+compan(?:y|ies)\s+across\s+(\d+)\s+industr/i);
+  if (!match) return {};
+
+  const companiesCovered = Number(match[1]);
+  const industriesCovered = Number(match[2]);
+
+  return {
+    companiesCovered: Number.isFinite(companiesCovered) ? companiesCovered : undefined,
+    industriesCovered: Number.isFinite(industriesCovered) ? industriesCovered : undefined,
+  };
+};
+
+const looksLikeQuoteStart = (line: string): boolean => line.includes('"');
+
+const parseSpeaker = (line: string): { speakerName: string; speakerDesignation: string } => {
+  const speakerRaw = line.replace(speakerLineRegex, "$1").trim();
+  if (!speakerRaw) {
+    return { speakerName: EDITION_FALLBACK_SPEAKER, speakerDesignation: EDITION_FALLBACK_SPEAKER };
+  }
+
+  const commaIndex = speakerRaw.indexOf(",");
+  if (commaIndex === -1) {
+    return {
+      speakerName: speakerRaw.slice(0, MAX_SPEAKER_NAME_CHARS),
+      speakerDesignation: EDITION_FALLBACK_SPEAKER,
+    };
+  }
+
+  const speakerName =
+    cleanupParagraph(speakerRaw.slice(0, commaIndex)).slice(0, MAX_SPEAKER_NAME_CHARS) || EDITION_FALLBACK_SPEAKER;
+  const speakerDesignation =
+    cleanupParagraph(speakerRaw.slice(commaIndex + 1)).slice(0, MAX_SPEAKER_DESIGNATION_CHARS) || EDITION_FALLBACK_SPEAKER;
+  return { speakerName, speakerDesignation };
+};
+
+const parseCompanyQuotes = (
+  lines: string[],
+  base: {
+    companyName: string;
+    marketCapCategory: string;
+    industry: string;
+    companyDescription: string;
+  },
+  startingOrder: number,
+): { quotes: ParsedEditionQuote[]; nextOrder: number } => {
+  const quotes: ParsedEditionQuote[] = [];
+  const seenQuotes = new Set<string>();
+
+  let summaryBuffer: string[] = [];
+  let quoteBuffer: string[] | null = null;
+  let sourceOrder = startingOrder;
+  const pushQuote = (quoteRaw: string, speakerRaw: string) => {
+    const quoteText = extractQuotedText(quoteRaw);
+    if (!quoteText || seenQuotes.has(quoteText.toLowerCase())) {
+      return;
+    }
+
+    const speaker = parseSpeaker(`- ${speakerRaw}`);
+    const summaryText = cleanupParagraph(summaryBuffer.join(" "));
+    const quoteId = `${slugify(base.companyName)}-${sourceOrder}`;
+    quotes.push({
+      id: quoteId,
+      companyName: base.companyName,
+      marketCapCategory: base.marketCapCategory,
+      industry: base.industry,
+      companyDescription: base.companyDescription,
+      summary: summaryText || EDITION_FALLBACK_SUMMARY,
+      quote: quoteText,
+      speakerName: speaker.speakerName,
+      speakerDesignation: speaker.speakerDesignation,
+      sourceOrder,
+    });
+    seenQuotes.add(quoteText.toLowerCase());
+    sourceOrder += 1;
+    summaryBuffer = [];
+  };
+
+  for (const rawLine of lines) {
+    const line = cleanupParagraph(rawLine);
+    if (!line) continue;
+    if (isConcallLine(line)) continue;
+
+    const speakerMatch = line.match(speakerLineRegex);
+    if (speakerMatch && quoteBuffer && quoteBuffer.length > 0) {
+      pushQuote(quoteBuffer.join(" "), speakerMatch[1]);
+      quoteBuffer = null;
+      continue;
+    }
+
+    if (quoteBuffer) {
+      const inlineSpeaker = line.match(inlineSpeakerRegex);
+      if (inlineSpeaker) {
+        quoteBuffer.push(inlineSpeaker[1]);
+        pushQuote(quoteBuffer.join(" "), inlineSpeaker[2]);
+        quoteBuffer = null;
+        continue;
+      }
+      quoteBuffer.push(line);
+      continue;
+    }
+
+    if (looksLikeQuoteStart(line)) {
+      const inlineSpeaker = line.match(inlineSpeakerRegex);
+      if (inlineSpeaker) {
+        pushQuote(inlineSpeaker[1], inlineSpeaker[2]);
+        continue;
+      }
+      quoteBuffer = [line];
+      continue;
+    }
+
+    summaryBuffer.push(line);
+    if (summaryBuffer.length > 5) {
+      summaryBuffer = summaryBuffer.slice(summaryBuffer.length - 5);
+    }
+  }
+
+  return {
+    quotes,
+    nextOrder: sourceOrder,
+  };
+};
+
+export const parseEditionText = (
+  rawText: string,
+  metadata: {
+    editionUrl?: string;
+    sourceKind: EditionSourceKind;
+  },
+): ParsedEdition => {
+  const normalizedText = normalizeTextInput(rawText).slice(0, MAX_EDITION_TEXT_CHARS);
+  const lines = normalizedText
+    .split("\n")
+    .map((line) => cleanupParagraph(line))
+    .filter((line) => line.length > 0);
+
+  const editionTitle = extractEditionTitle(lines);
+  const editionDate = extractEditionDate(lines);
+  const coverageStats = extractCoverageStats(normalizedText);
+
+  const companyLineIndexes: number[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (sectionHeaderRegex.test(lines[i])) {
+      companyLineIndexes.push(i);
+    }
+  }
+
+  const companies: ParsedEditionCompany[] = [];
+  let sourceOrder = 1;
+
+  for (let index = 0; index < companyLineIndexes.length; index++) {
+    const headerIndex = companyLineIndexes[index];
+    const nextHeaderIndex = companyLineIndexes[index + 1] ?? lines.length;
+    const headerLine = lines[headerIndex];
+    const headerMatch = headerLine.match(companyHeaderRegex);
+    if (!headerMatch) continue;
+
+    const companyName = cleanupParagraph(headerMatch[1]);
+    const marketCapCategory = cleanupParagraph(headerMatch[2]);
+    const industry = cleanupParagraph(headerMatch[3]);
+
+    const sectionLines = lines.slice(headerIndex + 1, nextHeaderIndex);
+
+    const concallIndex = sectionLines.findIndex((line) => isConcallLine(line));
+    const descriptionLines = sectionLines
+      .slice(0, concallIndex >= 0 ? concallIndex : Math.min(sectionLines.length, 4))
+      .filter((line) => !looksLikeNoiseHeading(line));
+    const companyDescription = cleanupParagraph(descriptionLines.join(" ")) || EDITION_FALLBACK_DESCRIPTION;
+
+    const quoteRegionStart = concallIndex >= 0 ? concallIndex + 1 : 0;
+    const quoteRegion = sectionLines.slice(quoteRegionStart);
+
+    const base = {
+      companyName,
+      marketCapCategory,
+      industry,
+      companyDescription,
+    };
+
+    const parsed = parseCompanyQuotes(quoteRegion, base, sourceOrder);
+    sourceOrder = parsed.nextOrder;
+
+    if (parsed.quotes.length === 0) {
+      continue;
+    }
+
+    companies.push({
+      ...base,
+      quotes: parsed.quotes,
+    });
+  }
+
+  return {
+    editionTitle,
+    editionUrl: metadata.editionUrl,
+    editionDate,
+    companiesCovered: coverageStats.companiesCovered,
+    industriesCovered: coverageStats.industriesCovered,
+    sourceKind: metadata.sourceKind,
+    companies,
+  };
+};
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onRequestPost as chatterAnalyze } from '../api/chatter/analyze';
+import { callOpenAiCompatibleJson } from './gemini';
+
+const completion = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts to the chat completions path and strips reasoning before parsing', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) =>
+      completion('<think>Looking for the JSON shape.</think>\nHere you go: {"ok": true}'),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await callOpenAiCompatibleJson({
+      baseUrl: 'http://localhost:8000/v1/',
+      model: 'qwen2.5:32b',
+      jsonMode: 'json_schema',
+      responseSchema: { type: 'OBJECT', properties: { ok: { type: 'BOOLEAN' } }, propertyOrdering: ['ok'] },
+      messageContent: 'Return JSON.',
+    });
+
+    expect(result).toEqual({ ok: true });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8000/v1/chat/completions');
+    expect((init.headers as Record<string, string>).authorization).toBeUndefined();
+    expect(JSON.parse(String(init.body)).response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: { type: 'object', properties: { ok: { type: 'boolean' } } } },
+    });
+  });
+
+  it('runs chatter analysis through the self-hosted model with the repair pass', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        completion(
+          JSON.stringify({
+            companyName: 'Hindustan Unilever',
+            fiscalPeriod: 'Q3 FY26',
+            nseScrip: 'HINDUNILVR',
+            marketCapCategory: 'Large Cap',
+            industry: 'FMCG',
+            companyDescription: 'Consumer goods maker.',
+            quotes: [
+              {
+                quote: 'Quick commerce is now 6% of our urban sales.',
+                category: 'Competitive Landscape',
+                speaker: { name: 'Rohit Jawa', designation: 'CEO' },
+              },
+            ],
+          }),
+        ),
+      )
+      .mockResolvedValueOnce(
+        completion(JSON.stringify({ quotes: [{ index: 0, summary: 'Quick commerce is gaining share.' }] })),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await chatterAnalyze({
+      request: new Request('https://example.com/api/chatter/analyze', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          provider: 'openai_compatible',
+          transcript: 'Rohit Jawa: Quick commerce is now 6% of our urban sales.',
+        }),
+      }),
+      env: {
+        OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:8000/v1',
+        OPENAI_COMPATIBLE_MODELS: 'qwen2.5:32b',
+        OPENAI_COMPATIBLE_API_KEY: 'local-key',
+      },
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.quotes[0].summary).toBe('Quick commerce is gaining share.');
+    expect(body.quotes[0].verification.status).toBe('verified');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('http://localhost:8000/v1/chat/completions');
+    expect(init.headers.authorization).toBe('Bearer local-key');
+    expect(JSON.parse(init.body).model).toBe('qwen2.5:32b');
+  });
+
+  it('rejects the self-hosted provider when no endpoint is configured', async () => {
+    const response = await chatterAnalyze({
+      request: new Request('https://example.com/api/chatter/analyze', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ provider: 'openai_compatible', transcript: 'Some transcript.' }),
+      }),
+      env: {},
+    });
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error.reasonCode).toBe('MISSING_OPENAI_COMPATIBLE_BASE_URL');
+  });
+});
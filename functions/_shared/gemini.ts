@@ -1,3 +1,7 @@
+import type { ProviderTransport } from "./mockProvider";
+import { deprioritizeOpenCircuits, resolveHealthTracker } from "./providerHealth";
+import { parseChatCompletionUsage, parseGeminiUsage, type UsageListener } from "./usage";
+
 const AI_STUDIO_API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
 const VERTEX_EXPRESS_API_BASE = "https://aiplatform.googleapis.com/v1beta1/publishers/google/models";
 const OPENROUTER_API_BASE = "https://openrouter.ai/api/v1/chat/completions";
@@ -192,6 +196,67 @@ export const PLOTLINE_EXTRACT_RESPONSE_SCHEMA = {
   ],
 };
 
+export const PLOTLINE_STORY_PLAN_RESPONSE_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    title: { type: "STRING" },
+    dek: { type: "STRING" },
+    chronologyMode: { type: "STRING" },
+    sections: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          companyKey: { type: "STRING" },
+          subhead: { type: "STRING" },
+          framing: { type: "STRING" },
+          quoteIds: {
+            type: "ARRAY",
+            items: { type: "STRING" },
+          },
+        },
+        required: ["companyKey", "subhead", "framing", "quoteIds"],
+      },
+    },
+    skippedCompanyKeys: {
+      type: "ARRAY",
+      items: { type: "STRING" },
+    },
+  },
+  required: ["title", "dek", "chronologyMode", "sections", "skippedCompanyKeys"],
+};
+
+export const PLOTLINE_STORY_WRITER_RESPONSE_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    title: { type: "STRING" },
+    dek: { type: "STRING" },
+    sections: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          companyKey: { type: "STRING" },
+          paragraphs: {
+            type: "ARRAY",
+            items: { type: "STRING" },
+          },
+          quoteIds: {
+            type: "ARRAY",
+            items: { type: "STRING" },
+          },
+        },
+        required: ["companyKey", "paragraphs", "quoteIds"],
+      },
+    },
+    watchNext: {
+      type: "ARRAY",
+      items: { type: "STRING" },
+    },
+  },
+  required: ["title", "dek", "sections", "watchNext"],
+};
+
 
 export const CHATTER_PROMPT = `
 ROLE & AUDIENCE
@@ -463,6 +528,61 @@ OUTPUT
 - Each quote object: { quote, speakerName, speakerDesignation, periodLabel, periodSortKey }.
 `.trim();
 
+export const PLOTLINE_STORY_PLAN_PROMPT = `
+ROLE
+You are the story editor for a Daily Brief-style thematic essay built from verbatim management quotes.
+
+INPUT
+You will receive:
+1) A thesis description
+2) An EVIDENCE map: companies with companyKey, name, industry, periods, and quotes (each with quoteId, periodLabel, periodSortKey, speaker, quote text)
+
+TASK
+Plan one integrated story that rotates company-by-company. Do not write the story yet.
+
+PLANNING RULES
+- Order sections by narrative strength: the company with the strongest, most specific evidence goes first.
+- Pick 2-3 quoteIds per company. Use only quoteIds that appear under that company in EVIDENCE.
+- Skip companies whose evidence is weak, generic, or off-thesis. List them in skippedCompanyKeys.
+- framing per section:
+  - "evolution" when the chosen quotes span more than one period; tell how the position changed over time.
+  - "contrast" when the quotes come from a single period; position the company against its peers.
+- chronologyMode for the whole story: "evolution" if most sections are evolution, otherwise "contrast".
+- subhead: a soft, specific subhead for the section (max 12 words). No company ticker.
+- title: sharp and specific (max 14 words). dek: one sentence that states the argument (max 35 words).
+
+OUTPUT
+Return valid JSON only:
+{ "title": string, "dek": string, "chronologyMode": "evolution|contrast", "sections": [{ "companyKey": string, "subhead": string, "framing": "evolution|contrast", "quoteIds": string[] }], "skippedCompanyKeys": string[] }
+`.trim();
+
+export const PLOTLINE_STORY_WRITER_PROMPT = `
+ROLE
+You are a senior writer for a thematic newsletter read by portfolio managers. You write one continuous, publish-ready story where narrative and verbatim management evidence are woven together.
+
+INPUT
+You will receive:
+1) A thesis description
+2) A PLAN: title, dek, chronologyMode, and ordered sections (companyKey, subhead, framing, quoteIds)
+3) An EVIDENCE map with the full quote text for every quoteId
+
+WRITING RULES
+- Follow the section order in PLAN. Write every planned section.
+- Per section: 2-4 narrative paragraphs and 2-3 quoteIds chosen from that section's planned quoteIds.
+- The quote at position i is placed directly after paragraph i, so paragraph i must set up quote i.
+- Never restate a quote in full inside a paragraph. Paraphrase sparingly and interpret: why it matters, what changed, what it implies.
+- framing "evolution": narrate how the company's stance moved across periods, oldest to newest.
+- framing "contrast": compare the company's choice against the other companies in the story.
+- Plain English, direct sentences, no hype, no generic optimism.
+- Whole story: 1000-1400 words across all paragraphs.
+- You may tighten the planned title and dek.
+- watchNext: 3-5 forward-looking lines on what to watch next, each one sentence and specific to the evidence.
+
+OUTPUT
+Return valid JSON only:
+{ "title": string, "dek": string, "sections": [{ "companyKey": string, "paragraphs": string[], "quoteIds": string[] }], "watchNext": string[] }
+`.trim();
+
 const parseGeminiText = (payload: any): string => {
   const parts = payload?.candidates?.[0]?.content?.parts;
   if (!Array.isArray(parts)) {
@@ -512,6 +632,8 @@ const RETRY_BASE_DELAY_MS = 200;
 const RETRY_MAX_DELAY_MS = 1600;
 const TRANSIENT_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
 const OPENROUTER_REQUEST_TIMEOUT_MS = 45000;
+// Self-hosted models on modest hardware can take minutes on a full transcript.
+const OPENAI_COMPATIBLE_REQUEST_TIMEOUT_MS = 180000;
 
 const parseErrorMessage = (payload: any, status: number, provider: GeminiProvider): string => {
   if (typeof payload?.error?.message === "string" && payload.error.message.trim()) {
@@ -520,17 +642,18 @@ const parseErrorMessage = (payload: any, status: number, provider: GeminiProvide
   return `Gemini (${provider}) request failed with status ${status}.`;
 };
 
-const parseOpenRouterErrorMessage = (payload: any, status: number): string => {
+const parseChatCompletionErrorMessage = (payload: any, status: number, providerLabel: string): string => {
   const payloadMessage =
     payload?.error?.message ||
     payload?.error?.metadata?.raw ||
-    payload?.message;
+    payload?.message ||
+    (typeof payload?.error === "string" ? payload.error : undefined);
 
   if (typeof payloadMessage === "string" && payloadMessage.trim()) {
-    return `OpenRouter request failed with status ${status}: ${payloadMessage.trim()}`;
+    return `${providerLabel} request failed with status ${status}: ${payloadMessage.trim()}`;
   }
 
-  return `OpenRouter request failed with status ${status}.`;
+  return `${providerLabel} request failed with status ${status}.`;
 };
 
 const isLocationUnsupportedError = (message: string): boolean => {
@@ -622,14 +745,23 @@ export const callGeminiJson = async (params: {
   responseSchema: unknown;
   providerPreference?: GeminiProviderPreference;
   requestId?: string;
+  onUsage?: UsageListener;
+  transport?: ProviderTransport;
+  recordHealth?: boolean;
 }): Promise<any> => {
   const { apiKey, vertexApiKey, model, contents, responseSchema, requestId } = params;
+  const transport = params.transport ?? fetch;
+  const health = resolveHealthTracker(params);
   const providerPreference = normalizeGeminiProviderPreference(params.providerPreference);
   const trimmedAiStudioKey = typeof apiKey === "string" ? apiKey.trim() : "";
   const trimmedVertexKey = typeof vertexApiKey === "string" ? vertexApiKey.trim() : "";
   const hasAiStudioCredential = Boolean(trimmedAiStudioKey);
   const hasVertexCredential = Boolean(trimmedVertexKey || trimmedAiStudioKey);
-  const providers = resolveProviderOrder(providerPreference, hasAiStudioCredential, hasVertexCredential);
+  // A backend whose circuit is open for this model is tried last, after the healthy one.
+  const providers = deprioritizeOpenCircuits(
+    resolveProviderOrder(providerPreference, hasAiStudioCredential, hasVertexCredential),
+    (provider) => health.isOpen(provider, model),
+  );
   const providerErrors: string[] = [];
 
   if (providers.length === 0) {
@@ -640,10 +772,13 @@ export const callGeminiJson = async (params: {
     const provider = providers[index];
     const keyForProvider = provider === "vertex_express" ? trimmedVertexKey || trimmedAiStudioKey : trimmedAiStudioKey;
     const hasProviderFallback = providers.length > 1;
+    // An open or half-open circuit gets a single trial call instead of the full retry budget.
     const maxAttempts =
-      provider === "ai_studio"
-        ? (hasProviderFallback ? Math.min(MAX_AI_STUDIO_ATTEMPTS, 4) : MAX_AI_STUDIO_ATTEMPTS)
-        : MAX_VERTEX_EXPRESS_ATTEMPTS;
+      health.getState(provider, model) !== "closed"
+        ? 1
+        : provider === "ai_studio"
+          ? (hasProviderFallback ? Math.min(MAX_AI_STUDIO_ATTEMPTS, 4) : MAX_AI_STUDIO_ATTEMPTS)
+          : MAX_VERTEX_EXPRESS_ATTEMPTS;
 
     if (!keyForProvider) {
       const missingKeyMessage =
@@ -663,7 +798,7 @@ export const callGeminiJson = async (params: {
       let status: number | null = null;
 
       try {
-        const response = await fetch(endpoint, {
+        const response = await transport(endpoint, {
           method: "POST",
           headers: {
             "content-type": "application/json",
@@ -692,9 +827,11 @@ export const callGeminiJson = async (params: {
           if (!providerErrors.includes(message)) {
             providerErrors.push(message);
           }
+          health.recordFailure(provider, model, message);
 
           const shouldRetry =
             attempt < maxAttempts &&
+            !health.isOpen(provider, model) &&
             (isRetryableGeminiFailure(response.status, message) || isRetryableGeminiOutputFailure(message));
           if (shouldRetry) {
             const waitMs = computeRetryDelayMs(attempt);
@@ -721,6 +858,8 @@ export const callGeminiJson = async (params: {
           break;
         }
 
+        health.recordSuccess(provider, model);
+        params.onUsage?.(parseGeminiUsage(payload));
         const text = parseGeminiText(payload);
         if (!text) {
           throw new Error(`Gemini (${provider}) returned an empty response.`);
@@ -736,9 +875,17 @@ export const callGeminiJson = async (params: {
         if (!providerErrors.includes(message)) {
           providerErrors.push(message);
         }
+        if (status === null) {
+          health.recordFailure(
+            provider,
+            model,
+            controller.signal.aborted ? `Gemini (${provider}) request timed out.` : message,
+          );
+        }
 
         const shouldRetry =
           attempt < maxAttempts &&
+          !health.isOpen(provider, model) &&
           (isRetryableGeminiFailure(status, message) || isRetryableGeminiOutputFailure(message));
         if (shouldRetry) {
           const waitMs = computeRetryDelayMs(attempt);
@@ -779,46 +926,45 @@ export type OpenRouterMessageContent =
       | { type: "image_url"; image_url: { url: string } }
     >;
 
-export const callOpenRouterJson = async (params: {
-  apiKey: string;
-  model: string;
-  messageContent: OpenRouterMessageContent;
-  requestId?: string;
-  referer?: string;
-  appTitle?: string;
-}): Promise<any> => {
-  const { apiKey, model, messageContent, requestId, referer, appTitle } = params;
+const JSON_OBJECT_PATTERN = /\{[\s\S]*\}/;
 
-  const headers: Record<string, string> = {
-    authorization: `Bearer ${apiKey}`,
-    "content-type": "application/json",
-  };
-  if (typeof referer === "string" && referer.trim()) {
-    headers["HTTP-Referer"] = referer.trim();
-  }
-  if (typeof appTitle === "string" && appTitle.trim()) {
-    headers["X-Title"] = appTitle.trim();
-  }
+// Reasoning models served locally often wrap output in <think> blocks or add prose around the JSON.
+const extractJsonText = (text: string): string => {
+  const withoutReasoning = stripJsonFence(text.replace(/<think>[\s\S]*?<\/think>/gi, ""));
+  if (withoutReasoning.startsWith("{")) return withoutReasoning;
+  return JSON_OBJECT_PATTERN.exec(withoutReasoning)?.[0] ?? withoutReasoning;
+};
 
+interface ChatCompletionRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+  providerLabel: string;
+  failureEvent: string;
+  // Circuit key for the shared health tracker (openrouter, openai_compatible).
+  healthProvider: string;
+  timeoutMs: number;
+  model: string;
+  requestId?: string;
+  extractJson?: boolean;
+  onUsage?: UsageListener;
+  transport?: ProviderTransport;
+  recordHealth?: boolean;
+}
+
+const requestChatCompletionJson = async (request: ChatCompletionRequest): Promise<any> => {
+  const { url, headers, body, providerLabel, failureEvent, healthProvider, timeoutMs, model, requestId, extractJson, onUsage } =
+    request;
+  const transport = request.transport ?? fetch;
+  const health = resolveHealthTracker(request);
   const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort("timeout"), OPENROUTER_REQUEST_TIMEOUT_MS);
+  const timeout = setTimeout(() => controller.abort("timeout"), timeoutMs);
 
   try {
-    const response = await fetch(OPENROUTER_API_BASE, {
+    const response = await transport(url, {
       method: "POST",
-      headers,
-      body: JSON.stringify({
-        model,
-        temperature: 0.2,
-        max_tokens: 8192,
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "user",
-            content: messageContent,
-          },
-        ],
-      }),
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
       signal: controller.signal,
     });
 
@@ -830,24 +976,31 @@ export const callOpenRouterJson = async (params: {
     }
 
     if (!response.ok) {
-      throw new Error(parseOpenRouterErrorMessage(payload, response.status));
+      throw new Error(parseChatCompletionErrorMessage(payload, response.status, providerLabel));
     }
 
+    health.recordSuccess(healthProvider, model);
+    onUsage?.(parseChatCompletionUsage(payload));
     const text = parseOpenRouterText(payload);
     if (!text) {
-      throw new Error("OpenRouter returned an empty response.");
+      throw new Error(`${providerLabel} returned an empty response.`);
     }
 
     try {
-      return JSON.parse(stripJsonFence(text));
+      return JSON.parse(extractJson ? extractJsonText(text) : stripJsonFence(text));
     } catch {
-      throw new Error("OpenRouter returned invalid JSON.");
+      throw new Error(`${providerLabel} returned invalid JSON.`);
     }
   } catch (error: any) {
-    const message = String(error?.message || "Unknown OpenRouter request failure.");
+    const message = String(error?.message || `Unknown ${providerLabel} request failure.`);
+    health.recordFailure(
+      healthProvider,
+      model,
+      controller.signal.aborted ? `${providerLabel} request timed out.` : message,
+    );
     console.log(
       JSON.stringify({
-        event: "openrouter_request_failure",
+        event: failureEvent,
         requestId,
         model,
         message,
@@ -858,3 +1011,146 @@ export const callOpenRouterJson = async (params: {
     clearTimeout(timeout);
   }
 };
+
+export const callOpenRouterJson = async (params: {
+  apiKey: string;
+  model: string;
+  messageContent: OpenRouterMessageContent;
+  requestId?: string;
+  referer?: string;
+  appTitle?: string;
+  onUsage?: UsageListener;
+  transport?: ProviderTransport;
+  recordHealth?: boolean;
+}): Promise<any> => {
+  const { apiKey, model, messageContent, requestId, referer, appTitle } = params;
+
+  const headers: Record<string, string> = {
+    authorization: `Bearer ${apiKey}`,
+  };
+  if (typeof referer === "string" && referer.trim()) {
+    headers["HTTP-Referer"] = referer.trim();
+  }
+  if (typeof appTitle === "string" && appTitle.trim()) {
+    headers["X-Title"] = appTitle.trim();
+  }
+
+  return requestChatCompletionJson({
+    url: OPENROUTER_API_BASE,
+    headers,
+    body: {
+      model,
+      temperature: 0.2,
+      max_tokens: 8192,
+      response_format: { type: "json_object" },
+      messages: [
+        {
+          role: "user",
+          content: messageContent,
+        },
+      ],
+    },
+    providerLabel: "OpenRouter",
+    failureEvent: "openrouter_request_failure",
+    healthProvider: "openrouter",
+    timeoutMs: OPENROUTER_REQUEST_TIMEOUT_MS,
+    model,
+    requestId,
+    onUsage: params.onUsage,
+    transport: params.transport,
+    recordHealth: params.recordHealth,
+  });
+};
+
+// "json_object" asks the server for JSON mode, "json_schema" sends the response schema for guided
+// decoding (vLLM, llama.cpp, recent Ollama), and "prompt" relies on instructions alone for servers
+// that reject response_format.
+export type OpenAiCompatibleJsonMode = "json_object" | "json_schema" | "prompt";
+
+export const normalizeOpenAiCompatibleJsonMode = (value: unknown): OpenAiCompatibleJsonMode => {
+  const normalized = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (normalized === "json_schema" || normalized === "prompt") return normalized;
+  return "json_object";
+};
+
+export const resolveChatCompletionsUrl = (baseUrl: string): string => {
+  const trimmed = baseUrl.trim().replace(/\/+$/, "");
+  return trimmed.endsWith("/chat/completions") ? trimmed : `${trimmed}/chat/completions`;
+};
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema expects lower case.
+export const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== "object") return schema;
+
+  const converted: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "type" && typeof value === "string") {
+      converted.type = value.toLowerCase();
+    } else if (key === "propertyOrdering") {
+      continue;
+    } else {
+      converted[key] = toJsonSchema(value);
+    }
+  }
+  return converted;
+};
+
+export const callOpenAiCompatibleJson = async (params: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  messageContent: OpenRouterMessageContent;
+  jsonMode?: OpenAiCompatibleJsonMode;
+  responseSchema?: unknown;
+  requestId?: string;
+  timeoutMs?: number;
+  onUsage?: UsageListener;
+  transport?: ProviderTransport;
+  recordHealth?: boolean;
+}): Promise<any> => {
+  const { baseUrl, apiKey, model, messageContent, requestId } = params;
+  const jsonMode = params.jsonMode ?? "json_object";
+
+  const headers: Record<string, string> = {};
+  if (typeof apiKey === "string" && apiKey.trim()) {
+    headers.authorization = `Bearer ${apiKey.trim()}`;
+  }
+
+  const body: Record<string, unknown> = {
+    model,
+    temperature: 0.2,
+    max_tokens: 8192,
+    stream: false,
+    messages: [
+      {
+        role: "user",
+        content: messageContent,
+      },
+    ],
+  };
+  if (jsonMode === "json_object") {
+    body.response_format = { type: "json_object" };
+  } else if (jsonMode === "json_schema" && params.responseSchema) {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: { name: "response", schema: toJsonSchema(params.responseSchema) },
+    };
+  }
+
+  return requestChatCompletionJson({
+    url: resolveChatCompletionsUrl(baseUrl),
+    headers,
+    body,
+    providerLabel: "OpenAI-compatible endpoint",
+    failureEvent: "openai_compatible_request_failure",
+    healthProvider: "openai_compatible",
+    timeoutMs: params.timeoutMs ?? OPENAI_COMPATIBLE_REQUEST_TIMEOUT_MS,
+    model,
+    requestId,
+    extractJson: true,
+    onUsage: params.onUsage,
+    transport: params.transport,
+    recordHealth: params.recordHealth,
+  });
+};
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onRequestPost as chatterAnalyze } from '../api/chatter/analyze';
+import { onRequestPost as generateThread } from '../api/chatter/thread/generate';
+import { onRequestPost as plotlineStory } from '../api/plotline/story';
+import { providerHealth } from './providerHealth';
+
+const mockEnv = (script?: Record<string, unknown[]>) => ({
+  MOCK_PROVIDER: '1',
+  ...(script ? { MOCK_PROVIDER_SCRIPT: JSON.stringify(script) } : {}),
+});
+
+const post = (path: string, body: unknown) =>
+  new Request(`https://example.com${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+const chatterRequest = (provider: string) =>
+  post('/api/chatter/analyze', {
+    provider,
+    bypassCache: true,
+    transcript:
+      'Rohit Jawa: Quick commerce is now 6% of our urban sales and we have set up a separate team to serve it. ' +
+      'Ritesh Tiwari: We expect low single digit price growth to continue for the next two quarters.',
+  });
+
+describe('mock provider', () => {
+  afterEach(() => {
+    providerHealth.reset();
+  });
+
+  it('serves recordings without provider keys and retries through an injected 429', async () => {
+    const response = await chatterAnalyze({
+      request: chatterRequest('gemini'),
+      env: mockEnv({ chatter: [{ kind: 'rate_limit', retryAfterSeconds: 1 }] }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.quotes.map((quote: any) => quote.verification.status)).toEqual(['verified', 'verified']);
+  });
+
+  it('keeps mock runs out of the result cache', async () => {
+    const store = {
+      get: vi.fn(async () => JSON.stringify({ companyName: 'Cached real result', quotes: [] })),
+      put: vi.fn(async () => undefined),
+    };
+    const request = post('/api/chatter/analyze', {
+      provider: 'gemini',
+      transcript: 'Rohit Jawa: Quick commerce is now 6% of our urban sales and we have set up a separate team to serve it.',
+    });
+    const response = await chatterAnalyze({ request, env: { ...mockEnv(), RESULT_CACHE: store } });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.cached).toBeUndefined();
+    expect(body.companyName).not.toBe('Cached real result');
+    expect(store.get).not.toHaveBeenCalled();
+    expect(store.put).not.toHaveBeenCalled();
+  });
+
+  it('drives the repair pass when fields are missing and falls back after malformed JSON', async () => {
+    const repaired = await chatterAnalyze({
+      request: chatterRequest('openrouter'),
+      env: mockEnv({ chatter: [{ kind: 'missing_fields', fields: ['quotes[].summary', 'quotes[1].speaker'] }] }),
+    });
+    const repairedBody = await repaired.json();
+
+    expect(repaired.status).toBe(200);
+    expect(repairedBody.quotes[1]).toMatchObject({
+      summary: 'Pricing stays muted for the next two quarters.',
+      speaker: { name: 'Ritesh Tiwari', designation: 'CFO' },
+    });
+
+    const fallback = await chatterAnalyze({
+      request: chatterRequest('openrouter'),
+      env: mockEnv({ chatter: [{ kind: 'malformed_json' }] }),
+    });
+    const fallbackBody = await fallback.json();
+
+    expect(fallback.status).toBe(200);
+    expect(fallbackBody.usage.models.length).toBe(2);
+    expect(fallbackBody.usage.resolvedModel).toBe(fallbackBody.usage.models[1].model);
+  });
+
+  it('falls back to the next thread model on an injected 503', async () => {
+    const response = await generateThread({
+      request: post('/api/chatter/thread/generate', {
+        provider: 'openrouter',
+        selectedQuotes: [
+          {
+            id: 'q1',
+            companyName: 'Hindustan Unilever',
+            marketCapCategory: 'Large Cap',
+            industry: 'FMCG',
+            summary: 'Quick commerce has its own team.',
+            quote: 'Quick commerce is now 6% of our urban sales.',
+            speakerName: 'Rohit Jawa',
+            speakerDesignation: 'CEO',
+          },
+        ],
+      }),
+      env: mockEnv({ thread_generate: [{ kind: 'overload' }] }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.insightTweets).toEqual([
+      { quoteId: 'q1', tweet: 'HUL: quick commerce is now 6% of urban sales, big enough to get its own team.' },
+    ]);
+  });
+
+  it('keeps injected failures out of the real circuit breakers', async () => {
+    const script = { chatter: Array.from({ length: 6 }, () => ({ kind: 'rate_limit', retryAfterSeconds: 1 })) };
+    for (let run = 0; run < 3; run++) {
+      await chatterAnalyze({ request: chatterRequest('openrouter'), env: mockEnv(script) });
+    }
+
+    expect(providerHealth.snapshot()).toEqual([]);
+  });
+
+  it('surfaces an injected timeout as a retriable story failure', async () => {
+    const response = await plotlineStory({
+      request: post('/api/plotline/story', {
+        thesis: 'Quick commerce is reshaping FMCG distribution.',
+        provider: 'openrouter',
+        model: 'minimax/minimax-m2.5',
+        companyGroups: [
+          {
+            companyKey: 'HUL',
+            companyName: 'Hindustan Unilever',
+            nseScrip: 'HINDUNILVR',
+            industry: 'FMCG',
+            periods: ['Q3 FY26'],
+            quotes: [
+              {
+                quoteId: 'HUL-202512-1',
+                quote: 'We have set up a separate team for quick commerce.',
+                speakerName: 'Ritesh Tiwari',
+                speakerDesignation: 'CFO',
+                periodLabel: 'Q3 FY26',
+                periodSortKey: 202512,
+                selected: true,
+              },
+            ],
+          },
+        ],
+      }),
+      env: mockEnv({ plotline_story: [{ kind: 'timeout' }] }),
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(503);
+    expect(body).toMatchObject({ stage: 'plan', retriable: true });
+  });
+});
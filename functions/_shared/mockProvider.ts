@@ -0,0 +1,196 @@
+import { ANTHROPIC_RESULT_TOOL_NAME } from "./anthropic";
+import { MOCK_PROVIDER_RECORDINGS } from "./mockProviderFixtures";
+
+// Stands in for the global fetch inside the provider call functions.
+export type ProviderTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export type MockProviderTask =
+  | "chatter"
+  | "points"
+  | "thread_generate"
+  | "thread_regenerate"
+  | "thread_shortlist"
+  | "plotline_extract"
+  | "plotline_story";
+
+// One scripted provider call. "recorded" serves the next recording for the task; the failure kinds
+// produce what a real provider returns in that situation, so the route's retry, fallback and repair
+// paths handle them unchanged.
+export type MockProviderStep =
+  | { kind: "recorded" }
+  | { kind: "json"; body: unknown }
+  | { kind: "rate_limit"; retryAfterSeconds?: number }
+  | { kind: "overload" }
+  | { kind: "timeout" }
+  | { kind: "malformed_json" }
+  | { kind: "missing_fields"; fields: string[] };
+
+export interface MockProviderEnv {
+  // "1" or "true" routes every model call through recorded responses; no provider keys are needed.
+  MOCK_PROVIDER?: string;
+  // JSON of task -> steps, e.g. {"chatter": [{"kind": "rate_limit", "retryAfterSeconds": 2}]}; "*" applies to every task.
+  // Calls beyond the script serve recordings.
+  MOCK_PROVIDER_SCRIPT?: string;
+  // JSON of task -> recorded response bodies, replacing the bundled recordings for that task.
+  MOCK_PROVIDER_FIXTURES?: string;
+}
+
+const MOCK_API_KEY = "mock-provider-key";
+
+const parseJsonObject = (raw: string | undefined): Record<string, unknown> => {
+  if (!raw?.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const isMockProviderEnabled = (env?: MockProviderEnv): boolean => {
+  const value = env?.MOCK_PROVIDER?.trim().toLowerCase();
+  return value === "1" || value === "true";
+};
+
+// Routes check for provider keys before calling out; in mock mode placeholders satisfy those checks.
+export const withMockProviderKeys = <T>(env: T): T => {
+  if (!isMockProviderEnabled(env as MockProviderEnv)) return env;
+  const source = (env ?? {}) as Record<string, unknown>;
+  return {
+    ...source,
+    GEMINI_API_KEY: source.GEMINI_API_KEY || MOCK_API_KEY,
+    OPENROUTER_API_KEY: source.OPENROUTER_API_KEY || MOCK_API_KEY,
+    ANTHROPIC_API_KEY: source.ANTHROPIC_API_KEY || MOCK_API_KEY,
+  } as T;
+};
+
+const jsonResponse = (payload: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(payload), { status, headers: { "content-type": "application/json", ...headers } });
+
+type ProviderShape = "gemini" | "anthropic" | "chat_completions";
+
+const detectProviderShape = (url: string): ProviderShape => {
+  if (url.includes("generativelanguage.googleapis.com") || url.includes("aiplatform.googleapis.com")) return "gemini";
+  if (url.includes("api.anthropic.com")) return "anthropic";
+  return "chat_completions";
+};
+
+const successResponse = (shape: ProviderShape, body: unknown): Response => {
+  if (shape === "anthropic") {
+    return jsonResponse({
+      content: [{ type: "tool_use", name: ANTHROPIC_RESULT_TOOL_NAME, input: body }],
+      stop_reason: "tool_use",
+      usage: { input_tokens: 0, output_tokens: 0 },
+    });
+  }
+  const text = JSON.stringify(body);
+  return shape === "gemini"
+    ? jsonResponse({
+        candidates: [{ content: { parts: [{ text }] } }],
+        usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0 },
+      })
+    : jsonResponse({ choices: [{ message: { content: text } }], usage: { prompt_tokens: 0, completion_tokens: 0 } });
+};
+
+const malformedResponse = (shape: ProviderShape, body: unknown): Response => {
+  if (shape === "anthropic") {
+    // Tool input always parses; a max_tokens stop is Anthropic's equivalent of cut-off JSON.
+    return jsonResponse({
+      content: [{ type: "tool_use", name: ANTHROPIC_RESULT_TOOL_NAME, input: body }],
+      stop_reason: "max_tokens",
+      usage: { input_tokens: 0, output_tokens: 0 },
+    });
+  }
+  const truncated = JSON.stringify(body).slice(0, 40);
+  return shape === "gemini"
+    ? jsonResponse({ candidates: [{ content: { parts: [{ text: truncated }] } }] })
+    : jsonResponse({ choices: [{ message: { content: truncated } }] });
+};
+
+// Paths are dot-separated; "quotes[].summary" drops the field from every item, "quotes[0].summary" from one.
+const deleteFieldPath = (target: unknown, path: string): void => {
+  const [head, ...rest] = path.split(".");
+  if (!head || !target || typeof target !== "object") return;
+  const arrayMatch = /^(.+)\[(\d*)\]$/.exec(head);
+  const record = target as Record<string, unknown>;
+
+  if (!arrayMatch) {
+    if (rest.length === 0) delete record[head];
+    else deleteFieldPath(record[head], rest.join("."));
+    return;
+  }
+
+  const items = record[arrayMatch[1]];
+  if (!Array.isArray(items) || rest.length === 0) return;
+  const selected = arrayMatch[2] === "" ? items : [items[Number(arrayMatch[2])]];
+  for (const item of selected) {
+    deleteFieldPath(item, rest.join("."));
+  }
+};
+
+const resolveRecordings = (env: MockProviderEnv, task: MockProviderTask): unknown[] => {
+  const overrides = parseJsonObject(env.MOCK_PROVIDER_FIXTURES)[task];
+  return Array.isArray(overrides) && overrides.length > 0 ? overrides : MOCK_PROVIDER_RECORDINGS[task];
+};
+
+const resolveScript = (env: MockProviderEnv, task: MockProviderTask): MockProviderStep[] => {
+  const script = parseJsonObject(env.MOCK_PROVIDER_SCRIPT);
+  const steps = Array.isArray(script[task]) ? script[task] : script["*"];
+  return Array.isArray(steps) ? (steps as MockProviderStep[]) : [];
+};
+
+// One transport per request: script steps are consumed per call, and recordings advance only on calls
+// that return a usable body, so a retry after an injected failure gets the same recording.
+export const createMockProviderTransport = (
+  env: MockProviderEnv | undefined,
+  task: MockProviderTask,
+): ProviderTransport | undefined => {
+  if (!env || !isMockProviderEnabled(env)) return undefined;
+
+  const recordings = resolveRecordings(env, task);
+  const script = resolveScript(env, task);
+  let callIndex = 0;
+  let recordingIndex = 0;
+
+  const peekRecording = (): unknown => structuredClone(recordings[Math.min(recordingIndex, recordings.length - 1)]);
+  const nextRecording = (): unknown => {
+    const recording = peekRecording();
+    recordingIndex += 1;
+    return recording;
+  };
+
+  return async (url: string) => {
+    const step: MockProviderStep = script[callIndex] ?? { kind: "recorded" };
+    callIndex += 1;
+    const shape = detectProviderShape(url);
+    console.log(JSON.stringify({ event: "mock_provider_call", task, call: callIndex, step: step.kind, shape }));
+
+    switch (step.kind) {
+      case "rate_limit": {
+        const retryAfterSeconds = step.retryAfterSeconds ?? 5;
+        return jsonResponse(
+          { error: { message: `Resource exhausted: rate limit reached. Please retry in ${retryAfterSeconds}s.` } },
+          429,
+          { "retry-after": String(retryAfterSeconds) },
+        );
+      }
+      case "overload":
+        return jsonResponse({ error: { message: "The model is overloaded. Please try again later." } }, 503);
+      case "timeout":
+        throw new Error("Mock provider request failed: timeout.");
+      case "malformed_json":
+        return malformedResponse(shape, peekRecording());
+      case "missing_fields": {
+        const body = nextRecording();
+        for (const field of step.fields ?? []) {
+          deleteFieldPath(body, field);
+        }
+        return successResponse(shape, body);
+      }
+      case "json":
+        return successResponse(shape, step.body);
+      default:
+        return successResponse(shape, nextRecording());
+    }
+  };
+};
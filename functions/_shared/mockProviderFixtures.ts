@@ -0,0 +1,155 @@
+import type { MockProviderTask } from "./mockProvider";
+
+// Model outputs captured from real runs (trimmed), in the order each route makes its calls.
+// Recordings that reference input ids (thread quote ids, Plotline company keys and quote ids) match the
+// sample inputs used in the route tests; override them through MOCK_PROVIDER_FIXTURES for other inputs.
+export const MOCK_PROVIDER_RECORDINGS: Record<MockProviderTask, unknown[]> = {
+  chatter: [
+    {
+      companyName: "Hindustan Unilever",
+      fiscalPeriod: "Q3 FY26",
+      nseScrip: "HINDUNILVR",
+      marketCapCategory: "Large Cap",
+      industry: "FMCG",
+      companyDescription: "India's largest consumer goods company across home care, beauty and foods.",
+      quotes: [
+        {
+          quote: "Quick commerce is now 6% of our urban sales and we have set up a separate team to serve it.",
+          summary: "Quick commerce has become large enough to get its own team.",
+          category: "Competitive Landscape",
+          speaker: { name: "Rohit Jawa", designation: "CEO" },
+        },
+        {
+          quote: "We expect low single digit price growth to continue for the next two quarters.",
+          summary: "Pricing stays muted for the next two quarters.",
+          category: "Financial Guidance",
+          speaker: { name: "Ritesh Tiwari", designation: "CFO" },
+        },
+      ],
+    },
+    // Repair pass, used when a script drops fields from the first recording.
+    {
+      quotes: [
+        {
+          index: 0,
+          summary: "Quick commerce has become large enough to get its own team.",
+          category: "Competitive Landscape",
+          speaker: { name: "Rohit Jawa", designation: "CEO" },
+        },
+        {
+          index: 1,
+          summary: "Pricing stays muted for the next two quarters.",
+          category: "Financial Guidance",
+          speaker: { name: "Ritesh Tiwari", designation: "CFO" },
+        },
+      ],
+    },
+  ],
+  points: [
+    {
+      companyName: "Hindustan Unilever",
+      fiscalPeriod: "Q3 FY26",
+      nseScrip: "HINDUNILVR",
+      marketCapCategory: "Large Cap",
+      industry: "FMCG",
+      companyDescription: "India's largest consumer goods company across home care, beauty and foods.",
+      zerodhaStockUrl: "https://kite.zerodha.com/markets/ext/chart/web/tvc/NSE/HINDUNILVR",
+      slides: [
+        {
+          selectedPageNumber: 1,
+          context:
+            "Quick commerce now contributes 6% of urban sales, up from 2% a year ago, and the company has carved out a dedicated team for the channel.",
+        },
+      ],
+    },
+    {
+      rewrites: [
+        {
+          selectedPageNumber: 1,
+          context:
+            "Quick commerce has tripled to 6% of urban sales in a year, which is why HUL now runs it with a dedicated team.",
+        },
+      ],
+    },
+    {
+      reviews: [
+        {
+          selectedPageNumber: 1,
+          status: "keep",
+          reasonCode: "ok",
+          confidence: 0.9,
+          context:
+            "Quick commerce has tripled to 6% of urban sales in a year, which is why HUL now runs it with a dedicated team.",
+        },
+      ],
+    },
+    {
+      metrics: [
+        { metric: "Quick commerce share of urban sales", value: 6, unit: "%", period: "Q3 FY26", yoyChange: "+4 pp" },
+        { metric: "Underlying volume growth", value: 4, unit: "%", period: "Q3 FY26" },
+      ],
+    },
+  ],
+  thread_generate: [
+    {
+      introTweet: "Results season is here and management commentary is packed with signal. Our favourite nuggets:",
+      insightTweets: [
+        {
+          quoteId: "q1",
+          tweet: "HUL: quick commerce is now 6% of urban sales, big enough to get its own team.",
+        },
+      ],
+      outroTweet: "For the full breakdown, read the complete edition on The Chatter.",
+    },
+  ],
+  thread_regenerate: [{ tweet: "HUL now runs quick commerce as its own business: 6% of urban sales and growing." }],
+  thread_shortlist: [{ shortlistedQuoteIds: ["q1", "q2"] }],
+  plotline_extract: [
+    {
+      companyName: "Hindustan Unilever",
+      fiscalPeriod: "Q3 FY26",
+      nseScrip: "HINDUNILVR",
+      marketCapCategory: "Large Cap",
+      industry: "FMCG",
+      quotes: [
+        {
+          quote: "Quick commerce is now 6% of our urban sales and we have set up a separate team to serve it.",
+          speakerName: "Rohit Jawa",
+          speakerDesignation: "CEO",
+          periodLabel: "Q3 FY26",
+          periodSortKey: 202512,
+        },
+      ],
+    },
+  ],
+  plotline_story: [
+    {
+      title: "Quick commerce rewires FMCG distribution",
+      dek: "Companies are carving out dedicated teams.",
+      chronologyMode: "evolution",
+      sections: [
+        {
+          companyKey: "HUL",
+          subhead: "From channel experiment to dedicated team",
+          framing: "evolution",
+          quoteIds: ["HUL-202509-0", "HUL-202512-1"],
+        },
+      ],
+      skippedCompanyKeys: [],
+    },
+    {
+      title: "Quick commerce rewires FMCG distribution",
+      dek: "Companies are carving out dedicated teams.",
+      sections: [
+        {
+          companyKey: "HUL",
+          paragraphs: [
+            "HUL first sized the channel at 6% of urban sales, then gave it a team of its own a quarter later.",
+          ],
+          quoteIds: ["HUL-202509-0", "HUL-202512-1"],
+        },
+      ],
+      watchNext: ["Whether quick commerce margins hold up as the channel scales."],
+    },
+  ],
+};
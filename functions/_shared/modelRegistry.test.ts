@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { onRequestGet as getModels } from '../api/models';
+import { getDefaultModel, isAllowedTaskModel, type ModelCatalog } from './modelRegistry';
+import { getModelAttemptOrder } from './providerHealth';
+
+describe('modelRegistry', () => {
+  it('keeps the nearest-first fallback order the routes relied on', () => {
+    expect(getModelAttemptOrder('chatter', 'gemini', 'gemini-2.5-flash')).toEqual([
+      'gemini-2.5-flash',
+      'gemini-3-flash-preview',
+      'gemini-3-pro-preview',
+    ]);
+    expect(getModelAttemptOrder('chatter', 'gemini', 'gemini-3-flash-preview')).toEqual([
+      'gemini-3-flash-preview',
+      'gemini-2.5-flash',
+      'gemini-3-pro-preview',
+    ]);
+    expect(getModelAttemptOrder('points', 'gemini', 'gemini-3-pro-preview')).toEqual([
+      'gemini-3-pro-preview',
+      'gemini-3-flash-preview',
+      'gemini-2.5-flash',
+    ]);
+    expect(getModelAttemptOrder('thread', 'openrouter', 'openai/gpt-4.1-mini')).toEqual([
+      'openai/gpt-4.1-mini',
+      'anthropic/claude-sonnet-4',
+    ]);
+  });
+
+  it('scopes allow-lists and defaults per task', () => {
+    expect(getDefaultModel('chatter', 'gemini')).toBe('gemini-3-flash-preview');
+    expect(getDefaultModel('points', 'openrouter')).toBe('qwen/qwen2.5-vl-32b-instruct');
+    expect(isAllowedTaskModel('points', 'openrouter', 'minimax/minimax-01')).toBe(true);
+    expect(isAllowedTaskModel('chatter', 'openrouter', 'minimax/minimax-01')).toBe(false);
+  });
+
+  it('serves the catalog from /api/models with provider configuration flags', async () => {
+    const response = await getModels({ env: { GEMINI_API_KEY: 'key' } });
+    const catalog = (await response.json()) as ModelCatalog;
+
+    expect(catalog.providers).toEqual([
+      { id: 'gemini', configured: true },
+      { id: 'openrouter', configured: false },
+      { id: 'anthropic', configured: false },
+      { id: 'openai_compatible', configured: false },
+    ]);
+    expect(catalog.tasks.chatter.openai_compatible).toBeUndefined();
+    expect(catalog.tasks.chatter.openrouter?.chains.map((chain) => chain.id)).toEqual(['standard', 'premium']);
+    expect(catalog.tasks.chatter.gemini?.chains[0].models.map((model) => model.id)).toEqual([
+      'gemini-3-flash-preview',
+      'gemini-2.5-flash',
+      'gemini-3-pro-preview',
+    ]);
+    expect(catalog.tasks.points.openrouter?.chains[0].models[0].capabilities.vision).toBe(true);
+  });
+
+  it('builds the self-hosted chatter chain from env', async () => {
+    const env = {
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+      OPENAI_COMPATIBLE_MODELS: ' qwen2.5:32b , llama3.1:70b,qwen2.5:32b',
+    };
+
+    expect(getDefaultModel('chatter', 'openai_compatible', env)).toBe('qwen2.5:32b');
+    expect(getModelAttemptOrder('chatter', 'openai_compatible', 'llama3.1:70b', env)).toEqual([
+      'llama3.1:70b',
+      'qwen2.5:32b',
+    ]);
+    expect(isAllowedTaskModel('points', 'openai_compatible', 'qwen2.5:32b', env)).toBe(false);
+    expect(isAllowedTaskModel('chatter', 'openai_compatible', 'qwen2.5:32b')).toBe(false);
+
+    const response = await getModels({ env });
+    const catalog = (await response.json()) as ModelCatalog;
+    expect(catalog.providers).toContainEqual({ id: 'openai_compatible', configured: true });
+    expect(catalog.tasks.chatter.openai_compatible?.chains[0].models.map((model) => model.label)).toEqual([
+      'qwen2.5:32b (Self-hosted)',
+      'llama3.1:70b (Self-hosted)',
+    ]);
+    expect(catalog.tasks.points.openai_compatible).toBeUndefined();
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  ANTHROPIC_PROVIDER,
+  GEMINI_PROVIDER,
+  OPENAI_COMPATIBLE_PROVIDER,
+  OPENROUTER_PROVIDER,
+  type Provider,
+} from "./providerModels";
+
+export type ModelTask = "chatter" | "points" | "plotline" | "thread";
+export type ModelCostTier = "low" | "medium" | "high";
+
+export interface ModelCapabilities {
+  vision: boolean;
+  // True when the route can enforce a response schema natively instead of prompting for JSON.
+  jsonSchema: boolean;
+  contextTokens: number;
+  costTier: ModelCostTier;
+}
+
+export interface ModelDefinition {
+  id: string;
+  provider: Provider;
+  label: string;
+  capabilities: ModelCapabilities;
+}
+
+// A fallback chain: a request for any member retries on the others, nearest first.
+export interface ModelChain {
+  id: string;
+  label: string;
+  defaultModel: string;
+  models: string[];
+}
+
+export interface TaskProviderModels {
+  defaultChain: string;
+  chains: ModelChain[];
+}
+
+export const MODEL_TASKS: ModelTask[] = ["chatter", "points", "plotline", "thread"];
+export const MODEL_PROVIDERS: Provider[] = [
+  GEMINI_PROVIDER,
+  OPENROUTER_PROVIDER,
+  ANTHROPIC_PROVIDER,
+  OPENAI_COMPATIBLE_PROVIDER,
+];
+
+// The self-hosted endpoint serves whatever the operator deploys, so its models come from env
+// rather than the static tables below.
+export interface ModelRegistryEnv {
+  OPENAI_COMPATIBLE_BASE_URL?: string;
+  OPENAI_COMPATIBLE_MODELS?: string;
+  OPENAI_COMPATIBLE_VISION?: string;
+  OPENAI_COMPATIBLE_CONTEXT_TOKENS?: string;
+}
+
+const OPENAI_COMPATIBLE_TASKS: ReadonlySet<ModelTask> = new Set<ModelTask>(["chatter"]);
+const OPENAI_COMPATIBLE_DEFAULT_CONTEXT_TOKENS = 32_768;
+
+export const MODEL_DEFINITIONS: ModelDefinition[] = [
+  {
+    id: "gemini-3-flash-preview",
+    provider: GEMINI_PROVIDER,
+    label: "Gemini 3 Flash (Balanced)",
+    capabilities: { vision: true, jsonSchema: true, contextTokens: 1_048_576, costTier: "medium" },
+  },
+  {
+    id: "gemini-2.5-flash",
+    provider: GEMINI_PROVIDER,
+    label: "Gemini 2.5 Flash (Fast)",
+    capabilities: { vision: true, jsonSchema: true, contextTokens: 1_048_576, costTier: "low" },
+  },
+  {
+    id: "gemini-3-pro-preview",
+    provider: GEMINI_PROVIDER,
+    label: "Gemini 3 Pro (Deep)",
+    capabilities: { vision: true, jsonSchema: true, contextTokens: 1_048_576, costTier: "high" },
+  },
+  {
+    id: "deepseek/deepseek-v3.2",
+    provider: OPENROUTER_PROVIDER,
+    label: "DeepSeek V3.2 (OpenRouter)",
+    capabilities: { vision: false, jsonSchema: false, contextTokens: 163_840, costTier: "low" },
+  },
+  {
+    id: "minimax/minimax-m2.1",
+    provider: OPENROUTER_PROVIDER,
+    label: "MiniMax M2.1 (OpenRouter)",
+    capabilities: { vision: false, jsonSchema: false, contextTokens: 204_800, costTier: "low" },
+  },
+  {
+    id: "anthropic/claude-sonnet-4",
+    provider: OPENROUTER_PROVIDER,
+    label: "Claude Sonnet 4 (OpenRouter)",
+    capabilities: { vision: true, jsonSchema: false, contextTokens: 200_000, costTier: "high" },
+  },
+  {
+    id: "openai/gpt-4.1-mini",
+    provider: OPENROUTER_PROVIDER,
+    label: "GPT 4.1 Mini (OpenRouter)",
+    capabilities: { vision: true, jsonSchema: false, contextTokens: 1_047_576, costTier: "medium" },
+  },
+  {
+    id: "qwen/qwen2.5-vl-32b-instruct",
+    provider: OPENROUTER_PROVIDER,
+    label: "Qwen2.5 VL 32B (OpenRouter)",
+    capabilities: { vision: true, jsonSchema: false, contextTokens: 32_768, costTier: "low" },
+  },
+  {
+    id: "minimax/minimax-01",
+    provider: OPENROUTER_PROVIDER,
+    label: "MiniMax-01 (OpenRouter)",
+    capabilities: { vision: true, jsonSchema: false, contextTokens: 1_000_192, costTier: "low" },
+  },
+  {
+    id: "minimax/minimax-m2.5",
+    provider: OPENROUTER_PROVIDER,
+    label: "MiniMax M2.5 (OpenRouter)",
+    capabilities: { vision: false, jsonSchema: false, contextTokens: 204_800, costTier: "low" },
+  },
+  {
+    id: "mistralai/mistral-large-2512",
+    provider: OPENROUTER_PROVIDER,
+    label: "Mistral Large 2512 (OpenRouter)",
+    capabilities: { vision: false, jsonSchema: false, contextTokens: 262_144, costTier: "medium" },
+  },
+  {
+    id: "claude-sonnet-4-5",
+    provider: ANTHROPIC_PROVIDER,
+    label: "Claude Sonnet 4.5 (Anthropic)",
+    capabilities: { vision: true, jsonSchema: true, contextTokens: 200_000, costTier: "high" },
+  },
+  {
+    id: "claude-haiku-4-5",
+    provider: ANTHROPIC_PROVIDER,
+    label: "Claude Haiku 4.5 (Anthropic)",
+    capabilities: { vision: true, jsonSchema: true, contextTokens: 200_000, costTier: "medium" },
+  },
+];
+
+const GEMINI_TEXT_MODELS: TaskProviderModels = {
+  defaultChain: "gemini",
+  chains: [
+    {
+      id: "gemini",
+      label: "Gemini",
+      defaultModel: "gemini-3-flash-preview",
+      models: ["gemini-2.5-flash", "gemini-3-flash-preview", "gemini-3-pro-preview"],
+    },
+  ],
+};
+
+const OPENROUTER_TIERED_TEXT_MODELS: TaskProviderModels = {
+  defaultChain: "standard",
+  chains: [
+    {
+      id: "standard",
+      label: "Standard",
+      defaultModel: "deepseek/deepseek-v3.2",
+      models: ["deepseek/deepseek-v3.2", "minimax/minimax-m2.1"],
+    },
+    {
+      id: "premium",
+      label: "Premium",
+      defaultModel: "anthropic/claude-sonnet-4",
+      models: ["anthropic/claude-sonnet-4", "openai/gpt-4.1-mini"],
+    },
+  ],
+};
+
+// Native Messages API; the response schema is enforced as a forced tool call.
+const ANTHROPIC_MODELS: TaskProviderModels = {
+  defaultChain: "claude",
+  chains: [
+    {
+      id: "claude",
+      label: "Claude",
+      defaultModel: "claude-sonnet-4-5",
+      models: ["claude-sonnet-4-5", "claude-haiku-4-5"],
+    },
+  ],
+};
+
+export const TASK_MODEL_REGISTRY: Record<ModelTask, Partial<Record<Provider, TaskProviderModels>>> = {
+  chatter: {
+    gemini: GEMINI_TEXT_MODELS,
+    openrouter: OPENROUTER_TIERED_TEXT_MODELS,
+    anthropic: ANTHROPIC_MODELS,
+  },
+  thread: {
+    gemini: GEMINI_TEXT_MODELS,
+    openrouter: OPENROUTER_TIERED_TEXT_MODELS,
+    anthropic: ANTHROPIC_MODELS,
+  },
+  points: {
+    gemini: GEMINI_TEXT_MODELS,
+    openrouter: {
+      defaultChain: "vision",
+      chains: [
+        {
+          id: "vision",
+          label: "Vision",
+          defaultModel: "qwen/qwen2.5-vl-32b-instruct",
+          models: ["qwen/qwen2.5-vl-32b-instruct", "minimax/minimax-01"],
+        },
+      ],
+    },
+    anthropic: ANTHROPIC_MODELS,
+  },
+  plotline: {
+    gemini: GEMINI_TEXT_MODELS,
+    openrouter: {
+      defaultChain: "long-context",
+      chains: [
+        {
+          id: "long-context",
+          label: "Long context",
+          defaultModel: "minimax/minimax-m2.5",
+          models: ["minimax/minimax-m2.5", "mistralai/mistral-large-2512"],
+        },
+      ],
+    },
+    anthropic: ANTHROPIC_MODELS,
+  },
+};
+
+const definitionsById = new Map(MODEL_DEFINITIONS.map((definition) => [definition.id, definition]));
+
+const EMPTY_TASK_PROVIDER_MODELS: TaskProviderModels = { defaultChain: "", chains: [] };
+
+// First entry is the default; the rest are fallbacks in the order given.
+export const parseOpenAiCompatibleModels = (env?: ModelRegistryEnv): string[] => {
+  if (!env?.OPENAI_COMPATIBLE_BASE_URL?.trim()) return [];
+  const models = (env.OPENAI_COMPATIBLE_MODELS ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  return Array.from(new Set(models));
+};
+
+const buildOpenAiCompatibleDefinition = (modelId: string, env?: ModelRegistryEnv): ModelDefinition => {
+  const contextTokens = Number.parseInt(env?.OPENAI_COMPATIBLE_CONTEXT_TOKENS ?? "", 10);
+  return {
+    id: modelId,
+    provider: OPENAI_COMPATIBLE_PROVIDER,
+    label: `${modelId} (Self-hosted)`,
+    capabilities: {
+      vision: /^(1|true|yes)$/i.test(env?.OPENAI_COMPATIBLE_VISION?.trim() ?? ""),
+      jsonSchema: false,
+      contextTokens:
+        Number.isFinite(contextTokens) && contextTokens > 0 ? contextTokens : OPENAI_COMPATIBLE_DEFAULT_CONTEXT_TOKENS,
+      costTier: "low",
+    },
+  };
+};
+
+const getOpenAiCompatibleTaskModels = (task: ModelTask, env?: ModelRegistryEnv): TaskProviderModels => {
+  const models = parseOpenAiCompatibleModels(env);
+  if (!OPENAI_COMPATIBLE_TASKS.has(task) || models.length === 0) return EMPTY_TASK_PROVIDER_MODELS;
+
+  return {
+    defaultChain: "self-hosted",
+    chains: [{ id: "self-hosted", label: "Self-hosted", defaultModel: models[0], models }],
+  };
+};
+
+export const getModelDefinition = (modelId: string, env?: ModelRegistryEnv): ModelDefinition | undefined =>
+  definitionsById.get(modelId) ??
+  (parseOpenAiCompatibleModels(env).includes(modelId) ? buildOpenAiCompatibleDefinition(modelId, env) : undefined);
+
+export const getTaskProviderModels = (task: ModelTask, provider: Provider, env?: ModelRegistryEnv): TaskProviderModels =>
+  provider === OPENAI_COMPATIBLE_PROVIDER
+    ? getOpenAiCompatibleTaskModels(task, env)
+    : TASK_MODEL_REGISTRY[task][provider] ?? EMPTY_TASK_PROVIDER_MODELS;
+
+export const isProviderAvailableForTask = (task: ModelTask, provider: Provider, env?: ModelRegistryEnv): boolean =>
+  getTaskProviderModels(task, provider, env).chains.length > 0;
+
+export const getDefaultModelChain = (
+  task: ModelTask,
+  provider: Provider,
+  env?: ModelRegistryEnv,
+): ModelChain | undefined => {
+  const config = getTaskProviderModels(task, provider, env);
+  return config.chains.find((chain) => chain.id === config.defaultChain) ?? config.chains[0];
+};
+
+export const getDefaultModel = (task: ModelTask, provider: Provider, env?: ModelRegistryEnv): string =>
+  getDefaultModelChain(task, provider, env)?.defaultModel ?? "";
+
+export const findModelChain = (
+  task: ModelTask,
+  provider: Provider,
+  modelId: string,
+  env?: ModelRegistryEnv,
+): ModelChain | undefined =>
+  getTaskProviderModels(task, provider, env).chains.find((chain) => chain.models.includes(modelId));
+
+export const getAllowedModels = (task: ModelTask, provider: Provider, env?: ModelRegistryEnv): Set<string> =>
+  new Set(getTaskProviderModels(task, provider, env).chains.flatMap((chain) => chain.models));
+
+export const isAllowedTaskModel = (
+  task: ModelTask,
+  provider: Provider,
+  modelId: string,
+  env?: ModelRegistryEnv,
+): boolean => Boolean(findModelChain(task, provider, modelId, env));
+
+export interface ModelCatalogChain {
+  id: string;
+  label: string;
+  defaultModel: string;
+  models: ModelDefinition[];
+}
+
+export interface ModelCatalogEntry {
+  defaultModel: string;
+  defaultChain: string;
+  chains: ModelCatalogChain[];
+}
+
+export interface ModelCatalog {
+  providers: Array<{ id: Provider; configured: boolean }>;
+  tasks: Record<ModelTask, Partial<Record<Provider, ModelCatalogEntry>>>;
+}
+
+// Picker order: each chain's default first, then its fallbacks in chain order.
+const toCatalogChain = (chain: ModelChain, env?: ModelRegistryEnv): ModelCatalogChain => ({
+  id: chain.id,
+  label: chain.label,
+  defaultModel: chain.defaultModel,
+  models: [chain.defaultModel, ...chain.models.filter((model) => model !== chain.defaultModel)]
+    .map((model) => getModelDefinition(model, env))
+    .filter((definition): definition is ModelDefinition => Boolean(definition)),
+});
+
+export const buildModelCatalog = (
+  configuredProviders?: ReadonlySet<Provider>,
+  env?: ModelRegistryEnv,
+): ModelCatalog => {
+  const isConfigured = (provider: Provider) => !configuredProviders || configuredProviders.has(provider);
+  const tasks = {} as ModelCatalog["tasks"];
+
+  for (const task of MODEL_TASKS) {
+    tasks[task] = {};
+    for (const provider of MODEL_PROVIDERS) {
+      const config = getTaskProviderModels(task, provider, env);
+      if (config.chains.length === 0) continue;
+      tasks[task][provider] = {
+        defaultModel: getDefaultModel(task, provider, env),
+        defaultChain: config.defaultChain,
+        chains: config.chains.map((chain) => toCatalogChain(chain, env)),
+      };
+    }
+  }
+
+  return {
+    providers: MODEL_PROVIDERS.map((provider) => ({ id: provider, configured: isConfigured(provider) })),
+    tasks,
+  };
+};
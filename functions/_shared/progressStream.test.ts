@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { buildModelAttemptEvent, respondWithOptionalStream } from './progressStream';
+
+const makeRequest = (accept?: string) =>
+  new Request('https://example.test/api/chatter/analyze', {
+    method: 'POST',
+    headers: accept ? { accept } : {},
+    body: '{}',
+  });
+
+describe('respondWithOptionalStream', () => {
+  it('returns the handler response untouched without an event-stream Accept header', async () => {
+    const response = await respondWithOptionalStream(makeRequest('application/json'), async (emit) => {
+      emit({ stage: 'preparing', kind: 'request_received', message: 'ignored' });
+      return Response.json({ ok: true }, { status: 201 });
+    });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  it('streams stage frames followed by a single result frame', async () => {
+    const response = await respondWithOptionalStream(makeRequest('text/event-stream'), async (emit) => {
+      emit({ stage: 'preparing', kind: 'request_received', message: 'Request received.' });
+      emit(
+        buildModelAttemptEvent({
+          attemptIndex: 1,
+          attemptCount: 2,
+          attemptModel: 'flash',
+          previousModel: 'pro',
+          lastMessage: '503 overloaded',
+        }),
+      );
+      return Response.json({ error: { code: 'UPSTREAM', message: 'Boom' } }, { status: 502 });
+    });
+
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    const frames = (await response.text()).trim().split('\n\n');
+    expect(frames).toHaveLength(3);
+    expect(frames[0]).toContain('event: stage');
+    expect(frames[1]).toContain('pro failed (503 overloaded). Falling back to flash (attempt 2 of 2)...');
+    expect(frames[2].startsWith('event: result')).toBe(true);
+    expect(JSON.parse(frames[2].split('data: ')[1])).toEqual({
+      status: 502,
+      body: { error: { code: 'UPSTREAM', message: 'Boom' } },
+    });
+  });
+});
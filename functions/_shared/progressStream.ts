@@ -0,0 +1,124 @@
+export type StageEventStage = "preparing" | "uploading" | "analyzing" | "finalizing";
+
+export type StageEventKind =
+  | "request_received"
+  | "cache_hit"
+  | "model_attempt"
+  | "model_fallback"
+  | "repair"
+  | "validation"
+  | "context_rewrite"
+  | "slide_review"
+  | "metric_extraction"
+  | "quote_verification";
+
+export interface StageEvent {
+  stage: StageEventStage;
+  kind: StageEventKind;
+  message: string;
+  percent?: number;
+  model?: string;
+}
+
+export type StageEmitter = (event: StageEvent) => void;
+
+export const noopStageEmitter: StageEmitter = () => {};
+
+const encoder = new TextEncoder();
+
+const formatSseFrame = (event: string, data: unknown): Uint8Array =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+export const wantsEventStream = (request: Request): boolean =>
+  (request.headers.get("accept") || "").toLowerCase().includes("text/event-stream");
+
+const readResponseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Streams `stage` events followed by a single `result` event ({ status, body }) when the
+// client sends `Accept: text/event-stream`; otherwise the handler's response is returned as-is.
+export const respondWithOptionalStream = async (
+  request: Request,
+  run: (emit: StageEmitter) => Promise<Response>,
+): Promise<Response> => {
+  if (!wantsEventStream(request)) {
+    return run(noopStageEmitter);
+  }
+
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  let closed = false;
+
+  const write = (event: string, data: unknown) => {
+    if (closed) return;
+    writer.write(formatSseFrame(event, data)).catch(() => {
+      closed = true;
+    });
+  };
+
+  const emit: StageEmitter = (event) => write("stage", event);
+
+  const completion = run(emit)
+    .then(async (response) => {
+      write("result", { status: response.status, body: await readResponseBody(response) });
+    })
+    .catch((err: any) => {
+      write("result", {
+        status: 500,
+        body: { error: { code: "INTERNAL", message: String(err?.message || "Unexpected server error.") } },
+      });
+    })
+    .finally(() => {
+      if (closed) return;
+      closed = true;
+      writer.close().catch(() => {});
+    });
+  void completion;
+
+  return new Response(readable, {
+    status: 200,
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      "x-accel-buffering": "no",
+    },
+  });
+};
+
+const MAX_REASON_CHARS = 160;
+
+export const buildModelAttemptEvent = (params: {
+  attemptIndex: number;
+  attemptCount: number;
+  attemptModel: string;
+  previousModel?: string;
+  lastMessage?: string;
+}): StageEvent => {
+  const { attemptIndex, attemptCount, attemptModel, previousModel, lastMessage } = params;
+  const percent = Math.min(80, 30 + attemptIndex * 15);
+
+  if (attemptIndex === 0 || !previousModel) {
+    return {
+      stage: "analyzing",
+      kind: "model_attempt",
+      message: `Calling ${attemptModel}${attemptCount > 1 ? ` (attempt 1 of ${attemptCount})` : ""}...`,
+      percent,
+      model: attemptModel,
+    };
+  }
+
+  const reason = (lastMessage || "").replace(/\s+/g, " ").trim().slice(0, MAX_REASON_CHARS);
+  return {
+    stage: "analyzing",
+    kind: "model_fallback",
+    message: `${previousModel} failed${reason ? ` (${reason})` : ""}. Falling back to ${attemptModel} (attempt ${attemptIndex + 1} of ${attemptCount})...`,
+    percent,
+    model: attemptModel,
+  };
+};
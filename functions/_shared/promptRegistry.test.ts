@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { buildPromptCatalog, resolvePrompt } from './promptRegistry';
+
+describe('promptRegistry', () => {
+  it('resolves the default version unless the env promotes another or the request pins one', () => {
+    expect(resolvePrompt('chatter', undefined)).toMatchObject({ version: 'v1' });
+    expect(resolvePrompt('chatter', '', { PROMPT_DEFAULTS: '{"chatter":"v2"}' })).toMatchObject({ version: 'v2' });
+    expect(resolvePrompt('chatter', 'v1', { PROMPT_DEFAULTS: '{"chatter":"v2"}' })).toMatchObject({ version: 'v1' });
+    // A typo in the env falls back to the registry default instead of failing requests.
+    expect(resolvePrompt('points', undefined, { PROMPT_DEFAULTS: '{"points":"v9"}' })).toMatchObject({ version: 'v1' });
+    expect(resolvePrompt('chatter', 'v9')).toEqual({ error: "Prompt version 'v9' is not registered for 'chatter'." });
+  });
+
+  it('lists versions without exposing prompt text', () => {
+    const catalog = buildPromptCatalog();
+
+    expect(catalog.chatter.versions.map((version) => version.id)).toEqual(['v1', 'v2']);
+    expect(catalog.chatter.versions[0]).not.toHaveProperty('text');
+  });
+});
@@ -0,0 +1,121 @@
+import { CHATTER_PROMPT, PLOTLINE_EXTRACT_PROMPT, POINTS_PROMPT, THREAD_DRAFT_PROMPT } from "./gemini";
+
+export type PromptKey = "chatter" | "points" | "thread_draft" | "plotline_extract";
+
+export interface PromptVersion {
+  id: string;
+  label: string;
+  description: string;
+  text: string;
+}
+
+interface PromptDefinition {
+  defaultVersion: string;
+  versions: PromptVersion[];
+}
+
+export interface PromptRegistryEnv {
+  // JSON object of prompt key -> version id, e.g. {"chatter": "v2"}, to promote a version without a deploy.
+  PROMPT_DEFAULTS?: string;
+}
+
+export interface ResolvedPrompt {
+  key: PromptKey;
+  version: string;
+  text: string;
+}
+
+export interface PromptCatalogEntry {
+  defaultVersion: string;
+  versions: Array<Omit<PromptVersion, "text">>;
+}
+
+export type PromptCatalog = Record<PromptKey, PromptCatalogEntry>;
+
+const CHATTER_CANDID_QA_ADDENDUM = `
+CANDOR BAR (overrides the quote target above)
+- Target 8 to 14 quotes; a tighter set of sharper quotes beats broad coverage.
+- Prefer Q&A answers where management concedes a problem, gives a number it was pressed for, or explains a decision it could have avoided.
+- Skip prepared-remark quotes that restate the press release unless they carry a forward-looking number.
+- When two quotes make the same point, keep the one with the more specific figure or admission.
+`.trim();
+
+const PROMPTS: Record<PromptKey, PromptDefinition> = {
+  chatter: {
+    defaultVersion: "v1",
+    versions: [
+      { id: "v1", label: "Baseline", description: "8-20 quotes with Q&A coverage and page spread.", text: CHATTER_PROMPT },
+      {
+        id: "v2",
+        label: "Candid Q&A",
+        description: "Fewer, sharper quotes that favour admissions and pressed-for numbers in Q&A.",
+        text: `${CHATTER_PROMPT}\n\n${CHATTER_CANDID_QA_ADDENDUM}`,
+      },
+    ],
+  },
+  points: {
+    defaultVersion: "v1",
+    versions: [{ id: "v1", label: "Baseline", description: "Novelty-first slide selection.", text: POINTS_PROMPT }],
+  },
+  thread_draft: {
+    defaultVersion: "v1",
+    versions: [{ id: "v1", label: "Baseline", description: "Crisp, witty investor thread.", text: THREAD_DRAFT_PROMPT }],
+  },
+  plotline_extract: {
+    defaultVersion: "v1",
+    versions: [
+      { id: "v1", label: "Baseline", description: "3-10 thesis quotes with a high relevance bar.", text: PLOTLINE_EXTRACT_PROMPT },
+    ],
+  },
+};
+
+const PROMPT_KEYS = Object.keys(PROMPTS) as PromptKey[];
+
+const parsePromptDefaults = (env?: PromptRegistryEnv): Partial<Record<PromptKey, string>> => {
+  const raw = env?.PROMPT_DEFAULTS?.trim();
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    const defaults: Partial<Record<PromptKey, string>> = {};
+    for (const key of PROMPT_KEYS) {
+      const version = parsed[key];
+      // Unknown versions are ignored so a typo in the env cannot take a route down.
+      if (typeof version === "string" && PROMPTS[key].versions.some((entry) => entry.id === version)) {
+        defaults[key] = version;
+      }
+    }
+    return defaults;
+  } catch {
+    return {};
+  }
+};
+
+export const getDefaultPromptVersion = (key: PromptKey, env?: PromptRegistryEnv): string =>
+  parsePromptDefaults(env)[key] ?? PROMPTS[key].defaultVersion;
+
+// An absent or blank version means the default; anything else must name a registered version.
+export const resolvePrompt = (
+  key: PromptKey,
+  requestedVersion: unknown,
+  env?: PromptRegistryEnv,
+): ResolvedPrompt | { error: string } => {
+  const requested = typeof requestedVersion === "string" ? requestedVersion.trim() : "";
+  const versionId = requested || getDefaultPromptVersion(key, env);
+  const version = PROMPTS[key].versions.find((entry) => entry.id === versionId);
+  if (!version) {
+    return { error: `Prompt version '${requested}' is not registered for '${key}'.` };
+  }
+  return { key, version: version.id, text: version.text };
+};
+
+export const buildPromptCatalog = (env?: PromptRegistryEnv): PromptCatalog => {
+  const catalog = {} as PromptCatalog;
+  for (const key of PROMPT_KEYS) {
+    catalog[key] = {
+      defaultVersion: getDefaultPromptVersion(key, env),
+      versions: PROMPTS[key].versions.map(({ id, label, description }) => ({ id, label, description })),
+    };
+  }
+  return catalog;
+};
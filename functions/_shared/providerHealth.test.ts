@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { callGeminiJson } from './gemini';
+import { classifyProviderFailure, createProviderHealthTracker, getModelAttemptOrder, providerHealth } from './providerHealth';
+
+const geminiError = (status: number, message: string) =>
+  new Response(JSON.stringify({ error: { message } }), { status, headers: { 'content-type': 'application/json' } });
+
+const geminiSuccess = (payload: unknown) =>
+  new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: JSON.stringify(payload) }] } }] }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+
+describe('providerHealth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    providerHealth.reset();
+  });
+
+  it('opens after a burst of availability failures, then half-opens and closes on a good trial', () => {
+    let clock = 0;
+    const tracker = createProviderHealthTracker({ now: () => clock });
+
+    expect(classifyProviderFailure('Gemini (ai_studio) request failed with status 400: invalid argument')).toBeNull();
+    expect(tracker.recordFailure('ai_studio', 'gemini-3-pro-preview', 'returned invalid JSON')).toBeNull();
+    expect(tracker.recordFailure('ai_studio', 'gemini-3-pro-preview', 'status 503: The model is overloaded')).toBe(
+      'overload',
+    );
+    clock = 1_000;
+    tracker.recordFailure('ai_studio', 'gemini-3-pro-preview', 'status 503: The model is overloaded');
+    expect(tracker.getState('ai_studio', 'gemini-3-pro-preview')).toBe('closed');
+    clock = 2_000;
+    tracker.recordFailure('ai_studio', 'gemini-3-pro-preview', 'status 429: Resource exhausted. Please retry in 90s.');
+    expect(tracker.getState('ai_studio', 'gemini-3-pro-preview')).toBe('open');
+    expect(tracker.snapshot()[0]).toMatchObject({ state: 'open', recentFailures: 3, lastFailureClass: 'rate_limit' });
+
+    // The retry hint (90s) outlasts the default rate-limit cooldown.
+    clock = 2_000 + 60_000;
+    expect(tracker.getState('ai_studio', 'gemini-3-pro-preview')).toBe('open');
+    clock = 2_000 + 90_000;
+    expect(tracker.getState('ai_studio', 'gemini-3-pro-preview')).toBe('half_open');
+
+    tracker.recordFailure('ai_studio', 'gemini-3-pro-preview', 'Request timed out');
+    expect(tracker.getState('ai_studio', 'gemini-3-pro-preview')).toBe('open');
+    clock += 30_000;
+    tracker.recordSuccess('ai_studio', 'gemini-3-pro-preview');
+    expect(tracker.getState('ai_studio', 'gemini-3-pro-preview')).toBe('closed');
+    expect(tracker.snapshot()[0]).toMatchObject({ recentFailures: 0, reopensAt: null });
+  });
+
+  it('stops retrying an overloaded backend and tries the healthy one first on the next call', async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.includes('generativelanguage.googleapis.com')
+        ? geminiError(503, 'The model is overloaded. Please try again later.')
+        : geminiSuccess({ ok: true }),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const call = () =>
+      callGeminiJson({ apiKey: 'key', model: 'gemini-3-pro-preview', contents: [], responseSchema: {} });
+
+    await expect(call()).resolves.toEqual({ ok: true });
+    // Three AI Studio failures trip the circuit before its 4-attempt budget runs out.
+    expect(fetchMock.mock.calls.map(([url]) => (String(url).includes('aiplatform') ? 'vertex' : 'studio'))).toEqual([
+      'studio',
+      'studio',
+      'studio',
+      'vertex',
+    ]);
+    expect(providerHealth.getState('ai_studio', 'gemini-3-pro-preview')).toBe('open');
+
+    fetchMock.mockClear();
+    await expect(call()).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('aiplatform');
+  });
+
+  it('moves a model to the end of the attempt order once every backend it used is open', () => {
+    for (const backend of ['ai_studio', 'vertex_express']) {
+      for (let failure = 0; failure < 3; failure++) {
+        providerHealth.recordFailure(backend, 'gemini-3-pro-preview', 'status 503: high demand');
+      }
+    }
+    providerHealth.recordFailure('ai_studio', 'gemini-3-flash-preview', 'status 503: high demand');
+
+    expect(getModelAttemptOrder('points', 'gemini', 'gemini-3-pro-preview')).toEqual([
+      'gemini-3-flash-preview',
+      'gemini-2.5-flash',
+      'gemini-3-pro-preview',
+    ]);
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  findModelChain,
+  getDefaultModelChain,
+  type ModelRegistryEnv,
+  type ModelTask,
+} from "./modelRegistry";
+import { GEMINI_PROVIDER, type Provider } from "./providerModels";
+import {
+  extractRetryAfterSeconds,
+  isLocationUnsupportedError,
+  isOverloadError,
+  isTimeoutError,
+  isUpstreamRateLimit,
+  isUpstreamTransientError,
+} from "./retryPolicy";
+
+export type FailureClass = "rate_limit" | "overload" | "location_unsupported" | "timeout" | "transient";
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitSnapshot {
+  // Gemini circuits are keyed by backend (ai_studio, vertex_express); other providers by provider id.
+  provider: string;
+  model: string;
+  state: CircuitState;
+  recentFailures: number;
+  lastFailureClass: FailureClass | null;
+  lastFailureMessage: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  openedAt: string | null;
+  reopensAt: string | null;
+}
+
+interface CircuitRecord {
+  provider: string;
+  model: string;
+  failureTimestamps: number[];
+  lastFailureClass: FailureClass | null;
+  lastFailureMessage: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  openedAt: number | null;
+  openUntil: number | null;
+}
+
+interface ProviderHealthOptions {
+  now?: () => number;
+  failureThreshold?: number;
+  failureWindowMs?: number;
+}
+
+const FAILURE_THRESHOLD = 3;
+const FAILURE_WINDOW_MS = 60_000;
+const MAX_MESSAGE_CHARS = 300;
+
+// Cooling period before a half-open trial call is allowed through.
+const COOLDOWN_MS: Record<FailureClass, number> = {
+  rate_limit: 60_000,
+  overload: 45_000,
+  location_unsupported: 120_000,
+  timeout: 30_000,
+  transient: 30_000,
+};
+
+const GEMINI_BACKENDS = ["ai_studio", "vertex_express"];
+
+// Only upstream availability failures count; bad keys, schema errors and invalid JSON do not say
+// anything about whether the next call will succeed.
+export const classifyProviderFailure = (message: string): FailureClass | null => {
+  if (isLocationUnsupportedError(message)) return "location_unsupported";
+  if (isUpstreamRateLimit(message, { includeFreeTierRateLimitToken: true })) return "rate_limit";
+  if (isOverloadError(message)) return "overload";
+  if (isTimeoutError(message)) return "timeout";
+  if (isUpstreamTransientError(message, { includeStatusCode524: true })) return "transient";
+  return null;
+};
+
+const circuitKey = (provider: string, model: string): string => `${provider}:${model}`;
+
+const toIso = (value: number | null): string | null => (value === null ? null : new Date(value).toISOString());
+
+export const createProviderHealthTracker = (options: ProviderHealthOptions = {}) => {
+  const now = options.now ?? Date.now;
+  const failureThreshold = options.failureThreshold ?? FAILURE_THRESHOLD;
+  const failureWindowMs = options.failureWindowMs ?? FAILURE_WINDOW_MS;
+  const circuits = new Map<string, CircuitRecord>();
+
+  const getRecord = (provider: string, model: string): CircuitRecord => {
+    const key = circuitKey(provider, model);
+    let record = circuits.get(key);
+    if (!record) {
+      record = {
+        provider,
+        model,
+        failureTimestamps: [],
+        lastFailureClass: null,
+        lastFailureMessage: null,
+        lastFailureAt: null,
+        lastSuccessAt: null,
+        openedAt: null,
+        openUntil: null,
+      };
+      circuits.set(key, record);
+    }
+    return record;
+  };
+
+  const stateOf = (record: CircuitRecord | undefined, at: number): CircuitState => {
+    if (!record || record.openUntil === null) return "closed";
+    return at < record.openUntil ? "open" : "half_open";
+  };
+
+  const getState = (provider: string, model: string): CircuitState =>
+    stateOf(circuits.get(circuitKey(provider, model)), now());
+
+  const isOpen = (provider: string, model: string): boolean => getState(provider, model) === "open";
+
+  const recordSuccess = (provider: string, model: string): void => {
+    const record = getRecord(provider, model);
+    const wasTripped = record.openUntil !== null;
+    record.failureTimestamps = [];
+    record.lastSuccessAt = now();
+    record.openedAt = null;
+    record.openUntil = null;
+    if (wasTripped) {
+      console.log(JSON.stringify({ event: "provider_circuit_closed", provider, model }));
+    }
+  };
+
+  const recordFailure = (provider: string, model: string, message: string): FailureClass | null => {
+    const failureClass = classifyProviderFailure(message);
+    if (!failureClass) return null;
+
+    const at = now();
+    const record = getRecord(provider, model);
+    const previousState = stateOf(record, at);
+    record.failureTimestamps = [...record.failureTimestamps.filter((timestamp) => at - timestamp < failureWindowMs), at];
+    record.lastFailureClass = failureClass;
+    record.lastFailureMessage = message.length > MAX_MESSAGE_CHARS ? `${message.slice(0, MAX_MESSAGE_CHARS)}...` : message;
+    record.lastFailureAt = at;
+
+    // A failed half-open trial reopens straight away; a closed circuit needs a burst of failures.
+    const shouldOpen =
+      previousState === "half_open" ||
+      (previousState === "closed" && record.failureTimestamps.length >= failureThreshold);
+    if (shouldOpen) {
+      const retryAfterMs = (extractRetryAfterSeconds(message) ?? 0) * 1000;
+      const cooldownMs = Math.max(COOLDOWN_MS[failureClass], retryAfterMs);
+      record.openedAt = at;
+      record.openUntil = at + cooldownMs;
+      console.log(
+        JSON.stringify({
+          event: "provider_circuit_open",
+          provider,
+          model,
+          failureClass,
+          recentFailures: record.failureTimestamps.length,
+          cooldownMs,
+        }),
+      );
+    }
+
+    return failureClass;
+  };
+
+  // A route-level model is unhealthy only when every backend it has been tried on is open.
+  const isModelOpen = (provider: Provider, model: string): boolean => {
+    const backends = provider === GEMINI_PROVIDER ? GEMINI_BACKENDS : [provider];
+    const at = now();
+    const observed = backends
+      .map((backend) => circuits.get(circuitKey(backend, model)))
+      .filter((record): record is CircuitRecord => Boolean(record));
+    return observed.length > 0 && observed.every((record) => stateOf(record, at) === "open");
+  };
+
+  const snapshot = (): CircuitSnapshot[] => {
+    const at = now();
+    return Array.from(circuits.values())
+      .map((record) => ({
+        provider: record.provider,
+        model: record.model,
+        state: stateOf(record, at),
+        recentFailures: record.failureTimestamps.filter((timestamp) => at - timestamp < failureWindowMs).length,
+        lastFailureClass: record.lastFailureClass,
+        lastFailureMessage: record.lastFailureMessage,
+        lastFailureAt: toIso(record.lastFailureAt),
+        lastSuccessAt: toIso(record.lastSuccessAt),
+        openedAt: toIso(record.openedAt),
+        reopensAt: toIso(record.openUntil),
+      }))
+      .sort((left, right) => left.provider.localeCompare(right.provider) || left.model.localeCompare(right.model));
+  };
+
+  const reset = (): void => {
+    circuits.clear();
+  };
+
+  return { getState, isOpen, isModelOpen, recordSuccess, recordFailure, snapshot, reset };
+};
+
+export type ProviderHealthTracker = ReturnType<typeof createProviderHealthTracker>;
+
+// Circuits live per isolate, like the in-memory result cache: each warm worker learns about an
+// outage from its own traffic and stops hammering the failing backend for the cooling period.
+export const providerHealth = createProviderHealthTracker();
+
+// Calls through an injected transport (the mock provider) fail on purpose, and diagnostic calls opt out
+// with recordHealth: false; both get a throwaway tracker per call so they never open, close or reorder
+// the isolate's real circuits.
+export const resolveHealthTracker = (options: { transport?: unknown; recordHealth?: boolean }): ProviderHealthTracker =>
+  options.transport || options.recordHealth === false ? createProviderHealthTracker() : providerHealth;
+
+// Stable partition: healthy entries keep their order, open ones move to the back as a last resort.
+export const deprioritizeOpenCircuits = <T>(items: T[], isOpen: (item: T) => boolean): T[] => {
+  const healthy: T[] = [];
+  const open: T[] = [];
+  for (const item of items) {
+    (isOpen(item) ? open : healthy).push(item);
+  }
+  return [...healthy, ...open];
+};
+
+// Requested model first, then the rest of its chain by distance (earlier entry wins ties), so
+// [flash, flash-3, pro] becomes [flash-3, flash, pro] for flash-3 and [pro, flash-3, flash] for pro.
+export const getModelAttemptOrder = (
+  task: ModelTask,
+  provider: Provider,
+  requestedModel: string,
+  env?: ModelRegistryEnv,
+): string[] => {
+  const chain = findModelChain(task, provider, requestedModel, env) ?? getDefaultModelChain(task, provider, env);
+  if (!chain) return [];
+  const requestedIndex = chain.models.indexOf(requestedModel);
+  const nearestFirst =
+    requestedIndex < 0
+      ? [...chain.models]
+      : chain.models
+          .map((model, index) => ({ model, index, distance: Math.abs(index - requestedIndex) }))
+          .sort((left, right) => left.distance - right.distance || left.index - right.index)
+          .map((entry) => entry.model);
+
+  // Models whose circuit is open (e.g. during a Gemini Pro outage) drop to the end of the chain.
+  return deprioritizeOpenCircuits(nearestFirst, (model) => providerHealth.isModelOpen(provider, model));
+};
@@ -1,17 +1,18 @@
 export const GEMINI_PROVIDER = "gemini" as const;
 export const OPENROUTER_PROVIDER = "openrouter" as const;
+export const ANTHROPIC_PROVIDER = "anthropic" as const;
+export const OPENAI_COMPATIBLE_PROVIDER = "openai_compatible" as const;
 
-export type Provider = typeof GEMINI_PROVIDER | typeof OPENROUTER_PROVIDER;
+export type Provider =
+  | typeof GEMINI_PROVIDER
+  | typeof OPENROUTER_PROVIDER
+  | typeof ANTHROPIC_PROVIDER
+  | typeof OPENAI_COMPATIBLE_PROVIDER;
 
-export interface ProviderModelDefaults {
+export type ProviderModelDefaults = Partial<Record<Provider, string>> & {
   gemini: string;
   openrouter: string;
-}
-
-export interface ProviderModelAllowList {
-  gemini: ReadonlySet<string>;
-  openrouter: ReadonlySet<string>;
-}
+};
 
 export const parseProvider = (
   value: unknown,
@@ -22,6 +23,8 @@ export const parseProvider = (
   const normalized = value.trim().toLowerCase();
   if (normalized === GEMINI_PROVIDER) return GEMINI_PROVIDER;
   if (normalized === OPENROUTER_PROVIDER) return OPENROUTER_PROVIDER;
+  if (normalized === ANTHROPIC_PROVIDER) return ANTHROPIC_PROVIDER;
+  if (normalized === OPENAI_COMPATIBLE_PROVIDER) return OPENAI_COMPATIBLE_PROVIDER;
   return "";
 };
 
@@ -34,12 +37,5 @@ export const resolveRequestedModel = (
     return requestedModel.trim();
   }
 
-  return provider === OPENROUTER_PROVIDER ? defaults.openrouter : defaults.gemini;
+  return defaults[provider] ?? "";
 };
-
-export const isAllowedProviderModel = (
-  provider: Provider,
-  model: string,
-  allowList: ProviderModelAllowList,
-): boolean =>
-  provider === OPENROUTER_PROVIDER ? allowList.openrouter.has(model) : allowList.gemini.has(model);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createQuoteVerifier, verifyQuotesAgainstTranscript } from './quoteVerification';
+
+const transcript = [
+  '--- Page 1 ---',
+  'Moderator: Good afternoon and welcome to the call.',
+  '',
+  '--- Page 2 ---',
+  'Ravi Menon: Demand stayed resilient this quarter. We expect margins to expand by 150 basis points over the next two years as the new manu-',
+  'facturing plant ramps up. Our long- term focus remains on exports.',
+  '',
+  '--- Page 3 ---',
+  'Priya Shah: We will spend around 400 crores on capacity, mostly in the second half.',
+].join('\n');
+
+describe('quoteVerification', () => {
+  it('verifies exact quotes across line-break hyphenation and reports the page', () => {
+    const verify = createQuoteVerifier(transcript);
+
+    const outcome = verify(
+      'We expect margins to expand by 150 basis points over the next two years as the new manufacturing plant ramps up. Our long-term focus remains on exports.',
+    );
+    expect(outcome.verification).toEqual({ status: 'verified', score: 1, page: 2 });
+    expect(verify('We will spend around 400 crores on capacity').verification.page).toBe(3);
+  });
+
+  it('snaps near-verbatim quotes to the transcript span and flags fabricated ones', () => {
+    const [repaired, fabricated] = verifyQuotesAgainstTranscript(
+      [
+        { quote: 'We will spend about 400 crores on capacity, mostly in the second half.', id: 'a' },
+        { quote: 'We plan to double revenue and list the subsidiary next year.', id: 'b' },
+      ],
+      transcript,
+    );
+
+    expect(repaired.id).toBe('a');
+    expect(repaired.quote).toBe('We will spend around 400 crores on capacity, mostly in the second half.');
+    expect(repaired.verification.status).toBe('repaired');
+    expect(repaired.verification.score).toBeGreaterThan(0.85);
+    expect(repaired.verification.page).toBe(3);
+
+    expect(fabricated.quote).toBe('We plan to double revenue and list the subsidiary next year.');
+    expect(fabricated.verification.status).toBe('unverified');
+  });
+});
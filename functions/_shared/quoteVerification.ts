@@ -0,0 +1,235 @@
+export type QuoteVerificationStatus = "verified" | "repaired" | "unverified";
+
+export interface QuoteVerification {
+  status: QuoteVerificationStatus;
+  // Token-level similarity (0-1) between the model's text and the closest transcript span.
+  score: number;
+  page: number | null;
+}
+
+export interface QuoteVerificationOutcome {
+  quote: string;
+  verification: QuoteVerification;
+}
+
+// Bump when matching or repair rules change so cached results are re-verified.
+export const QUOTE_VERIFICATION_VERSION = "1";
+
+// Below this the closest span is too different to substitute without changing meaning.
+const REPAIR_MIN_SCORE = 0.75;
+const MAX_ANCHOR_OCCURRENCES = 200;
+const MAX_CANDIDATE_STARTS = 4;
+const MIN_WINDOW_SLACK = 6;
+
+const PAGE_MARKER_PATTERN = /---\s*Page\s+(\d+)(?:\s*\[[^\]]*\])?\s*---/g;
+// A hyphen glued to the previous word joins the next one too, so "long-term", "long- term" and
+// a line-wrapped "manu-\nfacturing" all compare equal.
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:[-\u2010\u2011\u00ad]\s*[\p{L}\p{N}]+)*/gu;
+
+interface SourceToken {
+  norm: string;
+  start: number;
+  end: number;
+  page: number | null;
+}
+
+const normalizeToken = (raw: string): string =>
+  raw
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[-\u2010\u2011\u00ad\s]+/g, "");
+
+const tokenize = (text: string, pageAt?: (offset: number) => number | null): SourceToken[] => {
+  const tokens: SourceToken[] = [];
+  WORD_PATTERN.lastIndex = 0;
+  for (let match = WORD_PATTERN.exec(text); match; match = WORD_PATTERN.exec(text)) {
+    const norm = normalizeToken(match[0]);
+    if (!norm) continue;
+    tokens.push({
+      norm,
+      start: match.index,
+      end: match.index + match[0].length,
+      page: pageAt ? pageAt(match.index) : null,
+    });
+  }
+  return tokens;
+};
+
+const cleanSourceSpan = (raw: string): string =>
+  raw
+    .replace(PAGE_MARKER_PATTERN, " ")
+    .replace(/([\p{L}])[-\u2010\u2011\u00ad][^\S\n]*\n\s*([\p{Ll}])/gu, "$1$2")
+    .replace(/([\p{L}])-[^\S\n]+([\p{Ll}])/gu, "$1-$2")
+    .replace(/\s+/g, " ")
+    .trim();
+
+interface Alignment {
+  matched: number;
+  firstSourceIndex: number;
+  lastSourceIndex: number;
+}
+
+// Longest common subsequence over tokens, keeping the source span the matches cover.
+const alignTokens = (quote: string[], source: SourceToken[], from: number, to: number): Alignment | null => {
+  const rows = quote.length;
+  const cols = to - from;
+  if (rows === 0 || cols <= 0) return null;
+
+  const table = new Uint16Array((rows + 1) * (cols + 1));
+  const width = cols + 1;
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= cols; j++) {
+      table[i * width + j] =
+        quote[i - 1] === source[from + j - 1].norm
+          ? table[(i - 1) * width + j - 1] + 1
+          : Math.max(table[(i - 1) * width + j], table[i * width + j - 1]);
+    }
+  }
+
+  const matched = table[rows * width + cols];
+  if (matched === 0) return null;
+
+  let i = rows;
+  let j = cols;
+  let firstSourceIndex = -1;
+  let lastSourceIndex = -1;
+  while (i > 0 && j > 0) {
+    if (quote[i - 1] === source[from + j - 1].norm && table[i * width + j] === table[(i - 1) * width + j - 1] + 1) {
+      if (lastSourceIndex < 0) lastSourceIndex = from + j - 1;
+      firstSourceIndex = from + j - 1;
+      i -= 1;
+      j -= 1;
+    } else if (table[(i - 1) * width + j] >= table[i * width + j - 1]) {
+      i -= 1;
+    } else {
+      j -= 1;
+    }
+  }
+
+  return { matched, firstSourceIndex, lastSourceIndex };
+};
+
+const unverified = (quote: string, score = 0, page: number | null = null): QuoteVerificationOutcome => ({
+  quote,
+  verification: { status: "unverified", score, page },
+});
+
+const roundScore = (score: number): number => Math.round(score * 1000) / 1000;
+
+export const createQuoteVerifier = (transcript: string) => {
+  const pageAnchors: Array<{ offset: number; page: number }> = [];
+  PAGE_MARKER_PATTERN.lastIndex = 0;
+  for (let match = PAGE_MARKER_PATTERN.exec(transcript); match; match = PAGE_MARKER_PATTERN.exec(transcript)) {
+    pageAnchors.push({ offset: match.index + match[0].length, page: Number(match[1]) });
+  }
+
+  let anchorIndex = -1;
+  // Tokens are produced in order, so the page lookup can walk forward instead of searching.
+  const pageAt = (offset: number): number | null => {
+    while (anchorIndex + 1 < pageAnchors.length && pageAnchors[anchorIndex + 1].offset <= offset) {
+      anchorIndex += 1;
+    }
+    return anchorIndex >= 0 ? pageAnchors[anchorIndex].page : null;
+  };
+
+  const markerFreeTranscript = transcript.replace(PAGE_MARKER_PATTERN, (marker) => " ".repeat(marker.length));
+  const source = tokenize(markerFreeTranscript, pageAt);
+
+  const bigramPositions = new Map<string, number[]>();
+  for (let index = 0; index + 1 < source.length; index++) {
+    const key = `${source[index].norm} ${source[index + 1].norm}`;
+    const positions = bigramPositions.get(key);
+    if (positions) {
+      positions.push(index);
+    } else {
+      bigramPositions.set(key, [index]);
+    }
+  }
+
+  return (quote: string): QuoteVerificationOutcome => {
+    const quoteTokens = tokenize(quote).map((token) => token.norm);
+    if (quoteTokens.length === 0 || source.length === 0) {
+      return unverified(quote);
+    }
+
+    // Each shared bigram votes for where the quote would start in the transcript.
+    const votes = new Map<number, number>();
+    for (let index = 0; index + 1 < quoteTokens.length; index++) {
+      const positions = bigramPositions.get(`${quoteTokens[index]} ${quoteTokens[index + 1]}`);
+      if (!positions || positions.length > MAX_ANCHOR_OCCURRENCES) continue;
+      for (const position of positions) {
+        const start = position - index;
+        votes.set(start, (votes.get(start) ?? 0) + 1);
+      }
+    }
+    if (quoteTokens.length === 1) {
+      source.forEach((token, index) => {
+        if (token.norm === quoteTokens[0]) votes.set(index, 1);
+      });
+    }
+    if (votes.size === 0) {
+      return unverified(quote);
+    }
+
+    const candidateStarts = Array.from(votes.entries())
+      .sort((left, right) => right[1] - left[1] || left[0] - right[0])
+      .slice(0, MAX_CANDIDATE_STARTS)
+      .map(([start]) => start);
+
+    const slack = Math.max(MIN_WINDOW_SLACK, Math.ceil(quoteTokens.length * 0.25));
+    let best: { score: number; alignment: Alignment } | null = null;
+    for (const start of candidateStarts) {
+      const from = Math.max(0, start - slack);
+      const to = Math.min(source.length, start + quoteTokens.length + slack);
+      const alignment = alignTokens(quoteTokens, source, from, to);
+      if (!alignment) continue;
+      const spanLength = alignment.lastSourceIndex - alignment.firstSourceIndex + 1;
+      const score = (2 * alignment.matched) / (quoteTokens.length + spanLength);
+      if (!best || score > best.score) {
+        best = { score, alignment };
+      }
+    }
+    if (!best) {
+      return unverified(quote);
+    }
+
+    const firstToken = source[best.alignment.firstSourceIndex];
+    const page = firstToken.page;
+    const score = roundScore(best.score);
+    if (best.score >= 1) {
+      return { quote, verification: { status: "verified", score: 1, page } };
+    }
+    if (best.score < REPAIR_MIN_SCORE) {
+      return unverified(quote, score, page);
+    }
+
+    const lastToken = source[best.alignment.lastSourceIndex];
+    const trailingPunctuation = /^[.?!%)"”’]+/.exec(transcript.slice(lastToken.end, lastToken.end + 3))?.[0] ?? "";
+    const snapped = cleanSourceSpan(transcript.slice(firstToken.start, lastToken.end + trailingPunctuation.length));
+    return snapped
+      ? { quote: snapped, verification: { status: "repaired", score, page } }
+      : unverified(quote, score, page);
+  };
+};
+
+export const verifyQuotesAgainstTranscript = <T extends { quote: string }>(
+  quotes: T[],
+  transcript: string,
+): Array<T & { verification: QuoteVerification }> => {
+  if (quotes.length === 0) return [];
+  const verify = createQuoteVerifier(transcript);
+  return quotes.map((item) => {
+    const outcome = verify(item.quote);
+    return { ...item, quote: outcome.quote, verification: outcome.verification };
+  });
+};
+
+export const countQuoteVerificationStatuses = (
+  quotes: Array<{ verification?: QuoteVerification }>,
+): Record<QuoteVerificationStatus, number> => {
+  const counts: Record<QuoteVerificationStatus, number> = { verified: 0, repaired: 0, unverified: 0 };
+  for (const item of quotes) {
+    if (item.verification) counts[item.verification.status] += 1;
+  }
+  return counts;
+};
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onRequestPost as plotlineAnalyze } from '../api/plotline/analyze';
+import { buildResultCacheKey, createMemoryCacheStore, derivePromptVersion } from './resultCache';
+
+const baseKeyParts = {
+  route: 'chatter',
+  provider: 'gemini',
+  model: 'gemini-3-flash-preview',
+  input: 'transcript text',
+};
+
+describe('resultCache', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('changes the key when the prompt, model or input changes', async () => {
+    const promptVersion = await derivePromptVersion('PROMPT A');
+    const key = await buildResultCacheKey({ ...baseKeyParts, promptVersion });
+
+    expect(await buildResultCacheKey({ ...baseKeyParts, promptVersion })).toBe(key);
+    expect(await buildResultCacheKey({ ...baseKeyParts, promptVersion: await derivePromptVersion('PROMPT B') })).not.toBe(key);
+    expect(await buildResultCacheKey({ ...baseKeyParts, promptVersion, model: 'gemini-2.5-flash' })).not.toBe(key);
+    expect(await buildResultCacheKey({ ...baseKeyParts, promptVersion, input: 'other transcript' })).not.toBe(key);
+    expect(key.startsWith('result:v1:chatter:')).toBe(true);
+  });
+
+  it('expires and evicts entries in the memory store', async () => {
+    vi.useFakeTimers();
+    const store = createMemoryCacheStore(2);
+    await store.put('a', '1', { expirationTtl: 10 });
+    await store.put('b', '2');
+    await store.put('c', '3');
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).toBe('2');
+
+    vi.advanceTimersByTime(31 * 24 * 60 * 60 * 1000);
+    expect(await store.get('c')).toBeNull();
+  });
+
+  it('serves repeated plotline extractions from the cache unless bypassed', async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  companyName: 'Hindustan Unilever',
+                  fiscalPeriod: 'Q3 FY26',
+                  nseScrip: 'HINDUNILVR',
+                  marketCapCategory: 'Large Cap',
+                  industry: 'FMCG',
+                  quotes: [
+                    {
+                      quote: 'Quick commerce is now 6% of our urban sales.',
+                      speakerName: 'Rohit Jawa',
+                      speakerDesignation: 'CEO',
+                      periodLabel: 'Q3 FY26',
+                      periodSortKey: 202512,
+                    },
+                  ],
+                }),
+              },
+            },
+          ],
+        }),
+        { status: 200, headers: { 'content-type': 'application/json' } },
+      ),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const env = { OPENROUTER_API_KEY: 'test-key', RESULT_CACHE: createMemoryCacheStore() };
+    const call = (extra: Record<string, unknown> = {}) =>
+      plotlineAnalyze({
+        request: new Request('https://example.com/api/plotline/analyze', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({
+            thesis: 'How FMCG companies respond to quick commerce',
+            transcript: 'Operator: Welcome to the call. '.repeat(10),
+            provider: 'openrouter',
+            model: 'minimax/minimax-m2.5',
+            ...extra,
+          }),
+        }),
+        env,
+      });
+
+    const first = await (await call()).json();
+    const second = await (await call()).json();
+    const bypassed = await (await call({ bypassCache: true })).json();
+
+    expect(first.cached).toBeUndefined();
+    expect(second.cached).toBe(true);
+    expect(second.quotes).toEqual(first.quotes);
+    expect(bypassed.cached).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
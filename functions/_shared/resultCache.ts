@@ -0,0 +1,111 @@
+export interface ResultCacheStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+export interface ResultCacheKeyParts {
+  route: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  input: unknown;
+}
+
+const CACHE_KEY_PREFIX = "result:v1";
+const DEFAULT_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MEMORY_CACHE_MAX_ENTRIES = 200;
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const sha256Hex = async (value: string): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+
+export const createMemoryCacheStore = (maxEntries = MEMORY_CACHE_MAX_ENTRIES): ResultCacheStore => {
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    async put(key, value, options) {
+      const ttlSeconds = options?.expirationTtl ?? DEFAULT_TTL_SECONDS;
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+    },
+  };
+};
+
+// Without a RESULT_CACHE KV binding each isolate keeps a small best-effort cache.
+const isolateMemoryStore = createMemoryCacheStore();
+
+const isCacheStore = (value: unknown): value is ResultCacheStore =>
+  Boolean(value) &&
+  typeof (value as ResultCacheStore).get === "function" &&
+  typeof (value as ResultCacheStore).put === "function";
+
+export const resolveResultCacheStore = (env: { RESULT_CACHE?: unknown } | undefined): ResultCacheStore =>
+  isCacheStore(env?.RESULT_CACHE) ? env.RESULT_CACHE : isolateMemoryStore;
+
+const promptVersionCache = new Map<string, string>();
+
+export const derivePromptVersion = async (...prompts: string[]): Promise<string> => {
+  const joined = prompts.join("\n\u0000\n");
+  const cached = promptVersionCache.get(joined);
+  if (cached) return cached;
+  const version = (await sha256Hex(joined)).slice(0, 12);
+  promptVersionCache.set(joined, version);
+  return version;
+};
+
+export const normalizeCacheText = (value: string): string => value.replace(/\s+/g, " ").trim();
+
+export const buildResultCacheKey = async (parts: ResultCacheKeyParts): Promise<string> => {
+  const digest = await sha256Hex(
+    JSON.stringify({
+      provider: parts.provider,
+      model: parts.model,
+      promptVersion: parts.promptVersion,
+      input: parts.input,
+    }),
+  );
+  return `${CACHE_KEY_PREFIX}:${parts.route}:${digest}`;
+};
+
+export const isBypassCacheRequested = (body: any): boolean => body?.bypassCache === true;
+
+export const readCachedResult = async <T>(store: ResultCacheStore, key: string): Promise<T | null> => {
+  try {
+    const raw = await store.get(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeCachedResult = async (
+  store: ResultCacheStore,
+  key: string,
+  value: unknown,
+  ttlSeconds = DEFAULT_TTL_SECONDS,
+): Promise<boolean> => {
+  try {
+    await store.put(key, JSON.stringify(value), { expirationTtl: ttlSeconds });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -98,29 +98,3 @@ export const isUpstreamTransientError = (message: string, options: UpstreamTrans
 
   return statusNeedles.some((statusNeedle) => message.includes(statusNeedle));
 };
-
-export const getPrimarySecondaryTertiaryAttemptOrder = (
-  requestedModel: string,
-  primaryModel: string,
-  secondaryModel: string,
-  tertiaryModel: string,
-): string[] => {
-  if (requestedModel === primaryModel) {
-    return [primaryModel, secondaryModel, tertiaryModel];
-  }
-  if (requestedModel === secondaryModel) {
-    return [secondaryModel, primaryModel, tertiaryModel];
-  }
-  return [tertiaryModel, secondaryModel, primaryModel];
-};
-
-export const getPrimaryBackupAttemptOrder = (
-  requestedModel: string,
-  primaryModel: string,
-  backupModel: string,
-): string[] => {
-  if (requestedModel === primaryModel) {
-    return [primaryModel, backupModel];
-  }
-  return [backupModel, primaryModel];
-};
@@ -0,0 +1,36 @@
+export const toTokenSet = (
+  text: string,
+  options: { minTokenLength: number; stopWords?: Set<string> },
+): Set<string> => {
+  const tokens = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token.length >= options.minTokenLength && !options.stopWords?.has(token));
+
+  return new Set(tokens);
+};
+
+export const jaccardSimilarity = (left: Set<string>, right: Set<string>): number => {
+  if (left.size === 0 || right.size === 0) return 0;
+  let intersection = 0;
+  for (const token of left) {
+    if (right.has(token)) {
+      intersection += 1;
+    }
+  }
+  const union = left.size + right.size - intersection;
+  return union === 0 ? 0 : intersection / union;
+};
+
+// Share of the smaller set found in the larger one, so an excerpt matches a longer passage that contains it.
+export const overlapCoefficient = (left: Set<string>, right: Set<string>): number => {
+  if (left.size === 0 || right.size === 0) return 0;
+  let intersection = 0;
+  for (const token of left) {
+    if (right.has(token)) {
+      intersection += 1;
+    }
+  }
+  return intersection / Math.min(left.size, right.size);
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { countThreadPostChars, fitThreadPost, isThreadPlatform } from './threadPlatforms';
+
+describe('thread platform lengths', () => {
+  it('weights links and wide characters the way X counts them', () => {
+    const link = 'https://thechatter.zerodha.com/p/the-chatter-q3-fy26-edition-with-a-long-slug';
+
+    expect(countThreadPostChars(`Read it: ${link}`, 'x')).toBe(9 + 23);
+    expect(countThreadPostChars(`Read it: ${link}`, 'threads')).toBe(9 + link.length);
+    expect(countThreadPostChars('Margins — up ₹40', 'x')).toBe(17);
+    expect(countThreadPostChars('मार्जिन', 'x')).toBe(7);
+    expect(countThreadPostChars('需求回升', 'x')).toBe(8);
+    expect(countThreadPostChars('需求回升', 'linkedin')).toBe(4);
+  });
+
+  it('trims to the limit with an ellipsis and leaves short posts alone', () => {
+    const text = 'Demand is recovering across rural markets and premium portfolios alike this quarter.';
+
+    expect(fitThreadPost(text, 'threads', 500)).toBe(text);
+    expect(fitThreadPost(text, 'threads', 40)).toBe('Demand is recovering across rural…');
+    const wide = fitThreadPost('需求'.repeat(200), 'x', 280);
+    expect(countThreadPostChars(wide, 'x')).toBeLessThanOrEqual(280);
+    expect(wide.endsWith('…')).toBe(true);
+  });
+
+  it('recognises only the supported platforms', () => {
+    expect(['x', 'threads', 'linkedin', 'X', 'mastodon', undefined].map(isThreadPlatform)).toEqual([
+      true,
+      true,
+      true,
+      false,
+      false,
+      false,
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+export type ThreadPlatform = "x" | "threads" | "linkedin";
+
+export interface ThreadPlatformSpec {
+  label: string;
+  // "thread" posts each part separately; "single" joins the parts into one post.
+  layout: "thread" | "single";
+  // Limit for one post as the platform counts it (X weights URLs and wide characters).
+  maxPostChars: number;
+  // Limit for one rewritten part; a single-layout post is rewritten one section at a time.
+  maxPartChars: number;
+  maxImagesPerPost: number;
+  rewriteGuidance: string;
+}
+
+export const THREAD_PLATFORMS: ThreadPlatform[] = ["x", "threads", "linkedin"];
+
+export const THREAD_PLATFORM_SPECS: Record<ThreadPlatform, ThreadPlatformSpec> = {
+  x: {
+    label: "X",
+    layout: "thread",
+    maxPostChars: 280,
+    // Matches the thread generator's cap, so an X rewrite never outgrows the composer's own drafts.
+    maxPartChars: 260,
+    maxImagesPerPost: 4,
+    rewriteGuidance: [
+      "- Platform: X (Twitter) thread.",
+      "- Keep under 250 characters; a link counts as 23 characters.",
+      "- 1 to 2 short lines.",
+    ].join("\n"),
+  },
+  threads: {
+    label: "Threads",
+    layout: "thread",
+    maxPostChars: 500,
+    maxPartChars: 500,
+    maxImagesPerPost: 10,
+    rewriteGuidance: [
+      "- Platform: Threads (Meta) thread.",
+      "- Keep under 480 characters.",
+      "- 2 to 4 short lines; add one concrete detail from the quote when it helps.",
+      "- Conversational, but still factual.",
+    ].join("\n"),
+  },
+  linkedin: {
+    label: "LinkedIn",
+    layout: "single",
+    maxPostChars: 3000,
+    maxPartChars: 600,
+    maxImagesPerPost: 20,
+    rewriteGuidance: [
+      "- Platform: one section of a single LinkedIn post; the quote cards go in a carousel below it.",
+      "- Keep under 550 characters.",
+      "- Plain sentences for a professional audience: 1 short paragraph, no thread numbering, no hashtags.",
+      "- Insight sections name the company first.",
+    ].join("\n"),
+  },
+};
+
+const X_URL_WEIGHT = 23;
+const URL_REGEX = /https?:\/\/[^\s]+/gi;
+
+export const isThreadPlatform = (value: unknown): value is ThreadPlatform =>
+  typeof value === "string" && (THREAD_PLATFORMS as string[]).includes(value);
+
+// X's weighted count: links count as a t.co URL and characters outside Latin and general punctuation count twice.
+const xCharWeight = (codePoint: number): number =>
+  codePoint <= 0x10ff ||
+  (codePoint >= 0x2000 && codePoint <= 0x200d) ||
+  (codePoint >= 0x2010 && codePoint <= 0x201f) ||
+  (codePoint >= 0x2032 && codePoint <= 0x2037)
+    ? 1
+    : 2;
+
+export const countThreadPostChars = (text: string, platform: ThreadPlatform): number => {
+  if (platform !== "x") {
+    return Array.from(text).length;
+  }
+
+  let count = 0;
+  for (const part of text.split(URL_REGEX)) {
+    for (const char of part) {
+      count += xCharWeight(char.codePointAt(0) ?? 0);
+    }
+  }
+  return count + (text.match(URL_REGEX)?.length ?? 0) * X_URL_WEIGHT;
+};
+
+// Trims at a word boundary where possible and ends with an ellipsis so the post fits the limit.
+export const fitThreadPost = (text: string, platform: ThreadPlatform, maxChars: number): string => {
+  if (countThreadPostChars(text, platform) <= maxChars) {
+    return text;
+  }
+
+  const chars = Array.from(text);
+  // Outside X every character counts once, so the cut point is known up front.
+  let end = platform === "x" ? chars.length : maxChars - 1;
+  while (end > 0 && countThreadPostChars(`${chars.slice(0, end).join("").trimEnd()}…`, platform) > maxChars) {
+    end--;
+  }
+  const cut = chars.slice(0, end).join("");
+  const wordCut = cut.replace(/\s+\S*$/, "");
+  return `${(wordCut.length >= cut.length * 0.8 ? wordCut : cut).trimEnd()}…`;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findQuoteTurn,
+  formatTranscriptStructureForPrompt,
+  isAnalystAttributedQuote,
+  parseTranscriptStructure,
+} from './transcriptStructure';
+
+// Mirrors parsePdfToText output: one line of text per page behind "--- Page N ---" markers.
+const transcript = [
+  '--- Page 1 ---',
+  'Acme Industries Limited Q3 FY25 Earnings Conference Call MANAGEMENT: MR. RAVI MENON – MANAGING DIRECTOR MS. PRIYA SHAH – CHIEF FINANCIAL OFFICER MODERATOR: MR. KARAN DESAI – AXIS CAPITAL',
+  '',
+  '--- Page 2 ---',
+  'Moderator: Ladies and gentlemen, good day and welcome to the call. I now hand over to Mr. Ravi Menon. Ravi Menon: Thank you. Demand in our core segment stayed resilient this quarter. We expect margins to expand by 150 basis points over the next two years as the new plant ramps up. Priya Shah: Revenue grew 18% year on year, led by exports.',
+  '',
+  '--- Page 3 ---',
+  'Moderator: Thank you. We will now begin the question-and-answer session. The first question is from the line of Amit Verma from Kotak Securities. Please go ahead. Amit Verma: Could you explain whether the export slowdown in Europe will hurt the order book next year? Ravi Menon: Europe is only 12% of exports and our order book is at a record high, so we are comfortable. Moderator: The next question is from Neha Rao of HDFC Securities. Neha Rao: What is the capex plan for FY26? Priya Shah: We will spend around 400 crores, mostly on capacity.',
+].join('\n');
+
+describe('parseTranscriptStructure', () => {
+  it('splits turns by speaker with roles, sections and pages', () => {
+    const structure = parseTranscriptStructure(transcript);
+
+    expect(structure.hasQaSection).toBe(true);
+    expect(structure.qaStartPage).toBe(3);
+    expect(structure.speakers.map((speaker) => [speaker.name, speaker.role])).toEqual([
+      ['Moderator', 'moderator'],
+      ['Ravi Menon', 'management'],
+      ['Priya Shah', 'management'],
+      ['Amit Verma', 'analyst'],
+      ['Neha Rao', 'analyst'],
+    ]);
+
+    const marginTurn = findQuoteTurn(structure, 'We expect margins to expand by 150 basis points over the next two years');
+    expect(marginTurn).toMatchObject({ speaker: 'Ravi Menon', section: 'prepared', page: 2 });
+
+    const capexAnswer = structure.turns.find((turn) => turn.text.startsWith('We will spend around 400 crores'));
+    expect(capexAnswer).toMatchObject({ speaker: 'Priya Shah', role: 'management', section: 'qa', page: 3 });
+
+    const hint = formatTranscriptStructureForPrompt(structure);
+    expect(hint).toContain('Analysts asking questions (never quote them): Amit Verma, Neha Rao');
+    expect(hint).toContain('Q&A section starts on page 3; 2 management answer turns detected there.');
+  });
+
+  it('flags analyst questions even when the model credits them to management', () => {
+    const structure = parseTranscriptStructure(transcript);
+
+    expect(
+      isAnalystAttributedQuote(structure, {
+        quote: 'Could you explain whether the export slowdown in Europe will hurt the order book next year?',
+        speaker: { name: 'Ravi Menon' },
+      }),
+    ).toBe(true);
+    expect(isAnalystAttributedQuote(structure, { quote: 'Some paraphrase not in the text.', speaker: { name: 'Mr. Neha Rao' } })).toBe(
+      true,
+    );
+    expect(
+      isAnalystAttributedQuote(structure, {
+        quote: 'Europe is only 12% of exports and our order book is at a record high, so we are comfortable.',
+        speaker: { name: 'Ravi Menon' },
+      }),
+    ).toBe(false);
+  });
+
+  it('returns an empty structure for text without speaker labels', () => {
+    const structure = parseTranscriptStructure('--- Page 1 ---\nQuarterly results were strong. Margins improved.');
+    expect(structure.turns).toEqual([]);
+    expect(formatTranscriptStructureForPrompt(structure)).toBe('');
+    expect(isAnalystAttributedQuote(structure, { quote: 'Margins improved.', speaker: { name: 'Analyst' } })).toBe(false);
+  });
+});
@@ -0,0 +1,380 @@
+import { toTokenSet } from "./textSimilarity";
+
+export type TranscriptSpeakerRole = "management" | "analyst" | "moderator";
+export type TranscriptSection = "prepared" | "qa";
+
+export interface TranscriptTurn {
+  speaker: string;
+  role: TranscriptSpeakerRole;
+  section: TranscriptSection;
+  page: number | null;
+  text: string;
+}
+
+export interface TranscriptSpeaker {
+  name: string;
+  role: TranscriptSpeakerRole;
+  turnCount: number;
+}
+
+export interface TranscriptStructure {
+  turns: TranscriptTurn[];
+  speakers: TranscriptSpeaker[];
+  qaStartPage: number | null;
+  hasQaSection: boolean;
+}
+
+// Bump when parsing rules change so cached analyses built from older hints are not reused.
+export const TRANSCRIPT_STRUCTURE_VERSION = "1";
+
+const MIN_TURNS_FOR_STRUCTURE = 2;
+const MAX_PROMPT_SPEAKERS = 24;
+const QUOTE_MATCH_MIN_CONTAINMENT = 0.6;
+
+const PAGE_MARKER_PATTERN = /---\s*Page\s+(\d+)(?:\s*\[[^\]]*\])?\s*---/g;
+const HONORIFIC_PATTERN = /^(?:mr|mrs|ms|dr|shri|smt|prof)\.?\s+/i;
+// Initials ("K.") may carry a dot; other words may not, so a label never runs across a sentence end.
+const NAME_WORD = "(?:[A-Z]\\.(?:[A-Z]\\.)*|[A-Z][A-Za-z'’\\-]*)";
+const HONORIFIC_PREFIX = "(?:(?:Mr|Mrs|Ms|Dr|Shri|Smt|Prof|MR|MRS|MS|DR)\\.?\\s+)?";
+
+// pdf.js joins a page into one line, so labels are matched inline rather than at line starts.
+const SPEAKER_LABEL_PATTERN = new RegExp(
+  `(?:^|(?<=[\\s.?!"”)]))(${HONORIFIC_PREFIX}${NAME_WORD}(?:\\s+${NAME_WORD}){0,4})\\s*:\\s+`,
+  "g",
+);
+const ANALYST_INTRO_PATTERN = new RegExp(
+  `question(?:s)?\\s+(?:is|are|comes|come)\\s+from\\s+(?:the\\s+line\\s+of\\s+)?(${HONORIFIC_PREFIX}${NAME_WORD}(?:\\s+${NAME_WORD}){0,3})\\s+(?:from|of|with)\\s`,
+  "gi",
+);
+const MANAGEMENT_ROSTER_PATTERN = /MANAGEMENT\s*:([\s\S]{0,1500}?)(?:MODERATOR\s*:|Moderator\s*:|$)/;
+const MANAGEMENT_ROSTER_NAME_PATTERN = new RegExp(
+  `(?:Mr|Mrs|Ms|Dr|Shri|Smt|MR|MRS|MS|DR|SHRI|SMT)\\.?\\s+(${NAME_WORD}(?:\\s+${NAME_WORD}){0,3})`,
+  "g",
+);
+const QA_START_PATTERN =
+  /question[\s-]*(?:and|&)[\s-]*answer\s+session|q\s*&\s*a\s+session|open\s+the\s+(?:floor|line)\s+(?:for|to)\s+questions|first\s+question\s+(?:is|comes)\s+from/i;
+const QUESTION_INTRO_PATTERN = /(?:next|first|last|following)\s+question|question\s+(?:is|comes)\s+from|please\s+go\s+ahead/i;
+
+const MODERATOR_LABELS = new Set(["moderator", "operator", "coordinator", "host"]);
+const ANALYST_LABELS = new Set([
+  "participant",
+  "analyst",
+  "questioner",
+  "unidentified participant",
+  "unidentified analyst",
+  "unidentified speaker",
+]);
+const MANAGEMENT_LABELS = new Set(["management", "company", "company speaker", "company representative"]);
+const IGNORED_LABELS = new Set([
+  "note",
+  "disclaimer",
+  "safe harbor",
+  "safe harbour",
+  "source",
+  "date",
+  "time",
+  "website",
+  "email",
+  "tel",
+  "phone",
+  "cin",
+  "ref",
+  "subject",
+  "sub",
+  "dear sir",
+  "dear sir madam",
+]);
+
+const normalizeWhitespace = (value: string): string => value.replace(/\s+/g, " ").trim();
+
+export const normalizeSpeakerKey = (name: string): string =>
+  normalizeWhitespace(
+    normalizeWhitespace(name)
+      .replace(HONORIFIC_PATTERN, "")
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, " "),
+  );
+
+const speakerKeysMatch = (left: string, right: string): boolean => {
+  if (!left || !right) return false;
+  if (left === right) return true;
+  const leftTokens = left.split(" ");
+  const rightTokens = right.split(" ");
+  const [shorter, longer] = leftTokens.length <= rightTokens.length ? [leftTokens, rightTokens] : [rightTokens, leftTokens];
+  if (shorter.length < 2) return false;
+  return shorter.every((token) => longer.includes(token));
+};
+
+const matchesAnyKey = (key: string, keys: Iterable<string>): boolean => {
+  for (const candidate of keys) {
+    if (speakerKeysMatch(key, candidate)) return true;
+  }
+  return false;
+};
+
+interface PageAnchor {
+  offset: number;
+  page: number;
+}
+
+const stripPageMarkers = (raw: string): { text: string; anchors: PageAnchor[] } => {
+  const anchors: PageAnchor[] = [];
+  let text = "";
+  let cursor = 0;
+  PAGE_MARKER_PATTERN.lastIndex = 0;
+  for (let match = PAGE_MARKER_PATTERN.exec(raw); match; match = PAGE_MARKER_PATTERN.exec(raw)) {
+    text += raw.slice(cursor, match.index);
+    anchors.push({ offset: text.length, page: Number(match[1]) });
+    text += " ";
+    cursor = match.index + match[0].length;
+  }
+  text += raw.slice(cursor);
+  return { text, anchors };
+};
+
+const pageAtOffset = (anchors: PageAnchor[], offset: number): number | null => {
+  let page: number | null = null;
+  for (const anchor of anchors) {
+    if (anchor.offset > offset) break;
+    page = anchor.page;
+  }
+  return page;
+};
+
+const collectNames = (pattern: RegExp, text: string): Set<string> => {
+  const keys = new Set<string>();
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const key = normalizeSpeakerKey(match[1]);
+    if (key) keys.add(key);
+  }
+  return keys;
+};
+
+interface LabelMatch {
+  label: string;
+  key: string;
+  start: number;
+  contentStart: number;
+}
+
+const classifyFixedLabel = (key: string): TranscriptSpeakerRole | null => {
+  if (MODERATOR_LABELS.has(key)) return "moderator";
+  if (ANALYST_LABELS.has(key)) return "analyst";
+  if (MANAGEMENT_LABELS.has(key)) return "management";
+  return null;
+};
+
+export const parseTranscriptStructure = (rawTranscript: string): TranscriptStructure => {
+  const { text, anchors } = stripPageMarkers(rawTranscript);
+
+  const rosterMatch = MANAGEMENT_ROSTER_PATTERN.exec(text.slice(0, 6000));
+  const managementKeys = rosterMatch ? collectNames(MANAGEMENT_ROSTER_NAME_PATTERN, rosterMatch[1]) : new Set<string>();
+  const introducedAnalystKeys = collectNames(ANALYST_INTRO_PATTERN, text);
+
+  const candidates: LabelMatch[] = [];
+  SPEAKER_LABEL_PATTERN.lastIndex = 0;
+  for (let match = SPEAKER_LABEL_PATTERN.exec(text); match; match = SPEAKER_LABEL_PATTERN.exec(text)) {
+    const label = normalizeWhitespace(match[1]);
+    const key = normalizeSpeakerKey(label);
+    if (!key || IGNORED_LABELS.has(key)) continue;
+    candidates.push({ label, key, start: match.index, contentStart: match.index + match[0].length });
+  }
+
+  const labelCounts = new Map<string, number>();
+  for (const candidate of candidates) {
+    labelCounts.set(candidate.key, (labelCounts.get(candidate.key) ?? 0) + 1);
+  }
+
+  // Without line breaks a label can swallow capitalised words from the previous sentence
+  // ("... in India Sanjiv Mehta:"); trim it back to a suffix that is a known speaker.
+  const isKnownLabelKey = (key: string) => classifyFixedLabel(key) !== null || (labelCounts.get(key) ?? 0) >= 2;
+  for (const candidate of candidates) {
+    if (isKnownLabelKey(candidate.key)) continue;
+    const words = candidate.label.split(" ");
+    for (let skip = 1; skip < words.length; skip++) {
+      const suffix = words.slice(skip).join(" ");
+      const suffixKey = normalizeSpeakerKey(suffix);
+      if (suffixKey && isKnownLabelKey(suffixKey)) {
+        candidate.start += candidate.label.lastIndexOf(suffix);
+        candidate.label = suffix;
+        candidate.key = suffixKey;
+        break;
+      }
+    }
+  }
+
+  // A one-off "Something:" is usually prose; real speakers repeat or are named elsewhere.
+  let labels = candidates.filter(
+    (candidate) =>
+      classifyFixedLabel(candidate.key) !== null ||
+      (labelCounts.get(candidate.key) ?? 0) >= 2 ||
+      matchesAnyKey(candidate.key, introducedAnalystKeys) ||
+      matchesAnyKey(candidate.key, managementKeys),
+  );
+
+  // Cover pages list participants under upper-case labels ("MANAGEMENT: ...", "MODERATOR: ...");
+  // the call itself starts at the moderator's first spoken turn.
+  const isModeratorLabel = (label: LabelMatch) => classifyFixedLabel(label.key) === "moderator";
+  const spokenModeratorIndex = labels.findIndex((label) => isModeratorLabel(label) && label.label !== label.label.toUpperCase());
+  const firstModeratorIndex = spokenModeratorIndex >= 0 ? spokenModeratorIndex : labels.findIndex(isModeratorLabel);
+  if (firstModeratorIndex > 0) {
+    labels = labels.slice(firstModeratorIndex);
+  }
+
+  if (labels.length < MIN_TURNS_FOR_STRUCTURE) {
+    return { turns: [], speakers: [], qaStartPage: null, hasQaSection: false };
+  }
+
+  const rawTurns = labels.map((label, index) => ({
+    label,
+    text: normalizeWhitespace(text.slice(label.contentStart, labels[index + 1]?.start ?? text.length)),
+  }));
+
+  const qaTurnIndex = rawTurns.findIndex(
+    (turn) => classifyFixedLabel(turn.label.key) === "moderator" && QA_START_PATTERN.test(turn.text),
+  );
+  let qaStartOffset = qaTurnIndex >= 0 ? rawTurns[qaTurnIndex].label.start : -1;
+  if (qaStartOffset < 0) {
+    const fallback = QA_START_PATTERN.exec(text);
+    qaStartOffset = fallback ? fallback.index : -1;
+  }
+
+  const roleByKey = new Map<string, TranscriptSpeakerRole>();
+  const resolveRole = (key: string, previousTurnText: string | null, inQa: boolean): TranscriptSpeakerRole => {
+    const fixedRole = classifyFixedLabel(key);
+    if (fixedRole) return fixedRole;
+    if (matchesAnyKey(key, managementKeys)) return "management";
+    if (matchesAnyKey(key, introducedAnalystKeys)) return "analyst";
+    const known = roleByKey.get(key);
+    if (known) return known;
+    // An unknown voice answering the moderator's "next question" prompt is the questioner.
+    if (inQa && previousTurnText !== null && QUESTION_INTRO_PATTERN.test(previousTurnText)) return "analyst";
+    return "management";
+  };
+
+  const turns: TranscriptTurn[] = [];
+  for (let index = 0; index < rawTurns.length; index++) {
+    const { label, text: turnText } = rawTurns[index];
+    const section: TranscriptSection = qaStartOffset >= 0 && label.start >= qaStartOffset ? "qa" : "prepared";
+    const previous = index > 0 ? rawTurns[index - 1] : null;
+    const previousModeratorText =
+      previous && classifyFixedLabel(previous.label.key) === "moderator" ? previous.text : null;
+    const role = resolveRole(label.key, previousModeratorText, section === "qa");
+    if (!roleByKey.has(label.key)) roleByKey.set(label.key, role);
+
+    if (!turnText) continue;
+    turns.push({
+      speaker: label.label,
+      role,
+      section,
+      page: pageAtOffset(anchors, label.contentStart),
+      text: turnText,
+    });
+  }
+
+  const speakersByKey = new Map<string, TranscriptSpeaker>();
+  for (const turn of turns) {
+    const key = normalizeSpeakerKey(turn.speaker);
+    const existing = speakersByKey.get(key);
+    if (existing) {
+      existing.turnCount += 1;
+    } else {
+      speakersByKey.set(key, { name: turn.speaker, role: turn.role, turnCount: 1 });
+    }
+  }
+
+  const firstQaTurn = turns.find((turn) => turn.section === "qa");
+
+  return {
+    turns,
+    speakers: Array.from(speakersByKey.values()),
+    qaStartPage: firstQaTurn?.page ?? (qaStartOffset >= 0 ? pageAtOffset(anchors, qaStartOffset) : null),
+    hasQaSection: qaStartOffset >= 0,
+  };
+};
+
+export const hasTranscriptStructure = (structure: TranscriptStructure): boolean =>
+  structure.turns.length >= MIN_TURNS_FOR_STRUCTURE;
+
+const formatSpeakerList = (speakers: TranscriptSpeaker[]): string =>
+  speakers
+    .slice(0, MAX_PROMPT_SPEAKERS)
+    .map((speaker) => speaker.name)
+    .join(", ");
+
+export const formatTranscriptStructureForPrompt = (structure: TranscriptStructure): string => {
+  if (!hasTranscriptStructure(structure)) return "";
+
+  const management = structure.speakers.filter((speaker) => speaker.role === "management");
+  const analysts = structure.speakers.filter((speaker) => speaker.role === "analyst");
+  const qaManagementTurns = structure.turns.filter((turn) => turn.section === "qa" && turn.role === "management");
+
+  const lines = ["TRANSCRIPT STRUCTURE (auto-detected from speaker labels; use it to attribute quotes)"];
+  if (management.length > 0) lines.push(`- Management speakers (quote only these): ${formatSpeakerList(management)}`);
+  if (analysts.length > 0) lines.push(`- Analysts asking questions (never quote them): ${formatSpeakerList(analysts)}`);
+  if (structure.hasQaSection) {
+    lines.push(
+      `- Q&A section starts${structure.qaStartPage !== null ? ` on page ${structure.qaStartPage}` : ""}; ` +
+        `${qaManagementTurns.length} management answer turn${qaManagementTurns.length === 1 ? "" : "s"} detected there.`,
+    );
+  } else {
+    lines.push("- No Q&A section detected; the Q&A quote target applies only if answers exist.");
+  }
+  return lines.join("\n");
+};
+
+const normalizeForMatch = (value: string): string =>
+  normalizeWhitespace(value.toLowerCase().replace(/[^a-z0-9\s]/g, " "));
+
+const turnMatchCache = new WeakMap<TranscriptTurn, { normalized: string; tokens: Set<string> }>();
+
+const getTurnMatchData = (turn: TranscriptTurn) => {
+  let data = turnMatchCache.get(turn);
+  if (!data) {
+    data = { normalized: normalizeForMatch(turn.text), tokens: toTokenSet(turn.text, { minTokenLength: 3 }) };
+    turnMatchCache.set(turn, data);
+  }
+  return data;
+};
+
+export const findQuoteTurn = (structure: TranscriptStructure, quote: string): TranscriptTurn | null => {
+  const normalizedQuote = normalizeForMatch(quote);
+  if (!normalizedQuote) return null;
+
+  const probe = normalizedQuote.slice(0, 80);
+  const exact = structure.turns.find((turn) => getTurnMatchData(turn).normalized.includes(probe));
+  if (exact) return exact;
+
+  const quoteTokens = toTokenSet(quote, { minTokenLength: 3 });
+  if (quoteTokens.size === 0) return null;
+
+  let best: { turn: TranscriptTurn; containment: number } | null = null;
+  for (const turn of structure.turns) {
+    const turnTokens = getTurnMatchData(turn).tokens;
+    let shared = 0;
+    for (const token of quoteTokens) {
+      if (turnTokens.has(token)) shared += 1;
+    }
+    const containment = shared / quoteTokens.size;
+    if (!best || containment > best.containment) {
+      best = { turn, containment };
+    }
+  }
+  return best && best.containment >= QUOTE_MATCH_MIN_CONTAINMENT ? best.turn : null;
+};
+
+export const isAnalystAttributedQuote = (
+  structure: TranscriptStructure,
+  quote: { quote?: unknown; speaker?: { name?: unknown } },
+): boolean => {
+  if (!hasTranscriptStructure(structure)) return false;
+
+  const turn = typeof quote.quote === "string" ? findQuoteTurn(structure, quote.quote) : null;
+  if (turn) return turn.role === "analyst";
+
+  const speakerKey = typeof quote.speaker?.name === "string" ? normalizeSpeakerKey(quote.speaker.name) : "";
+  if (!speakerKey) return false;
+  const named = structure.speakers.find((speaker) => speakerKeysMatch(normalizeSpeakerKey(speaker.name), speakerKey));
+  return named?.role === "analyst";
+};
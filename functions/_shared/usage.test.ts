@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onRequestPost as chatterAnalyze } from '../api/chatter/analyze';
+import { createUsageTracker, parseModelPrices } from './usage';
+
+const completion = (content: string, promptTokens: number, completionTokens: number) =>
+  new Response(
+    JSON.stringify({
+      choices: [{ message: { content } }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens },
+    }),
+    { status: 200, headers: { 'content-type': 'application/json' } },
+  );
+
+describe('usage tracking', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sums calls per model and prices them from the table', () => {
+    const tracker = createUsageTracker({
+      MODEL_PRICES: JSON.stringify({ 'gemini-2.5-flash': { input: 1, output: 10 }, broken: { input: 'x' } }),
+    });
+    tracker.listenerFor('gemini', 'gemini-2.5-flash')({ inputTokens: 1_000_000, outputTokens: 100_000 });
+    tracker.listenerFor('gemini', 'gemini-2.5-flash')({ inputTokens: 500_000, outputTokens: 0 });
+    tracker.listenerFor('openrouter', 'vendor/unknown-model')({ inputTokens: 200, outputTokens: 50 });
+
+    const usage = tracker.snapshot('gemini-2.5-flash');
+    expect(usage.inputTokens).toBe(1_500_200);
+    expect(usage.outputTokens).toBe(100_050);
+    expect(usage.costUsd).toBeCloseTo(2.5);
+    expect(usage.unpricedTokens).toBe(250);
+    expect(usage.resolvedModel).toBe('gemini-2.5-flash');
+    expect(usage.models.find((entry) => entry.model === 'gemini-2.5-flash')?.calls).toBe(2);
+    expect(parseModelPrices({ MODEL_PRICES: 'not json' })['gemini-2.5-flash']).toEqual({ input: 0.3, output: 2.5 });
+    expect(parseModelPrices({ MODEL_PRICES: '{"broken":{"input":"x"}}' }).broken).toBeUndefined();
+  });
+
+  it('reports tokens from every call a chatter request makes, including the repair pass', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        completion(
+          JSON.stringify({
+            companyName: 'Hindustan Unilever',
+            fiscalPeriod: 'Q3 FY26',
+            nseScrip: 'HINDUNILVR',
+            marketCapCategory: 'Large Cap',
+            industry: 'FMCG',
+            companyDescription: 'Consumer goods maker.',
+            quotes: [
+              {
+                quote: 'Quick commerce is now 6% of our urban sales.',
+                category: 'Competitive Landscape',
+                speaker: { name: 'Rohit Jawa', designation: 'CEO' },
+              },
+            ],
+          }),
+          1200,
+          300,
+        ),
+      )
+      .mockResolvedValueOnce(
+        completion(JSON.stringify({ quotes: [{ index: 0, summary: 'Quick commerce is gaining share.' }] }), 400, 50),
+      );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await chatterAnalyze({
+      request: new Request('https://example.com/api/chatter/analyze', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          provider: 'openai_compatible',
+          transcript: 'Rohit Jawa: Quick commerce is now 6% of our urban sales.',
+        }),
+      }),
+      env: {
+        OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:8000/v1',
+        OPENAI_COMPATIBLE_MODELS: 'qwen2.5:32b',
+      },
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.usage).toMatchObject({
+      inputTokens: 1600,
+      outputTokens: 350,
+      costUsd: 0,
+      unpricedTokens: 0,
+      resolvedModel: 'qwen2.5:32b',
+    });
+    expect(body.usage.models).toEqual([
+      {
+        provider: 'openai_compatible',
+        model: 'qwen2.5:32b',
+        calls: 2,
+        inputTokens: 1600,
+        outputTokens: 350,
+        costUsd: 0,
+      },
+    ]);
+  });
+});
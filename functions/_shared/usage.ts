@@ -0,0 +1,165 @@
+import { OPENAI_COMPATIBLE_PROVIDER, type Provider } from "./providerModels";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageListener = (usage: TokenUsage) => void;
+
+export interface ModelUsage extends TokenUsage {
+  provider: Provider;
+  model: string;
+  calls: number;
+  // Null when the price table has no entry for the model.
+  costUsd: number | null;
+}
+
+export interface RequestUsage extends TokenUsage {
+  costUsd: number;
+  // Tokens spent on models missing from the price table; they are not in costUsd.
+  unpricedTokens: number;
+  // The model that produced the returned result, after any fallbacks.
+  resolvedModel: string | null;
+  models: ModelUsage[];
+}
+
+// USD per million tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageEnv {
+  MODEL_PRICES?: string;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gemini-3-flash-preview": { input: 0.5, output: 3 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-3-pro-preview": { input: 2, output: 12 },
+  "deepseek/deepseek-v3.2": { input: 0.28, output: 0.42 },
+  "minimax/minimax-m2.1": { input: 0.3, output: 1.2 },
+  "anthropic/claude-sonnet-4": { input: 3, output: 15 },
+  "openai/gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "qwen/qwen2.5-vl-32b-instruct": { input: 0.2, output: 0.6 },
+  "minimax/minimax-01": { input: 0.2, output: 1.1 },
+  "minimax/minimax-m2.5": { input: 0.3, output: 1.2 },
+  "mistralai/mistral-large-2512": { input: 0.5, output: 1.5 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+};
+
+const SELF_HOSTED_PRICE: ModelPrice = { input: 0, output: 0 };
+
+const toTokenCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+
+const isModelPrice = (value: any): value is ModelPrice =>
+  Boolean(value) &&
+  typeof value.input === "number" &&
+  typeof value.output === "number" &&
+  value.input >= 0 &&
+  value.output >= 0;
+
+// MODEL_PRICES is a JSON object of model id -> { input, output } in USD per million tokens.
+// Entries override or extend the defaults; malformed entries are ignored.
+export const parseModelPrices = (env?: UsageEnv): Record<string, ModelPrice> => {
+  const raw = env?.MODEL_PRICES?.trim();
+  if (!raw) return DEFAULT_MODEL_PRICES;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return DEFAULT_MODEL_PRICES;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return DEFAULT_MODEL_PRICES;
+
+  const prices = { ...DEFAULT_MODEL_PRICES };
+  for (const [model, price] of Object.entries(parsed as Record<string, unknown>)) {
+    if (isModelPrice(price)) prices[model] = { input: price.input, output: price.output };
+  }
+  return prices;
+};
+
+export const parseGeminiUsage = (payload: any): TokenUsage => ({
+  inputTokens: toTokenCount(payload?.usageMetadata?.promptTokenCount),
+  outputTokens:
+    toTokenCount(payload?.usageMetadata?.candidatesTokenCount) +
+    toTokenCount(payload?.usageMetadata?.thoughtsTokenCount),
+});
+
+export const parseChatCompletionUsage = (payload: any): TokenUsage => ({
+  inputTokens: toTokenCount(payload?.usage?.prompt_tokens),
+  outputTokens: toTokenCount(payload?.usage?.completion_tokens),
+});
+
+export const parseAnthropicUsage = (payload: any): TokenUsage => ({
+  inputTokens:
+    toTokenCount(payload?.usage?.input_tokens) +
+    toTokenCount(payload?.usage?.cache_creation_input_tokens) +
+    toTokenCount(payload?.usage?.cache_read_input_tokens),
+  outputTokens: toTokenCount(payload?.usage?.output_tokens),
+});
+
+export const emptyRequestUsage = (): RequestUsage => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+  unpricedTokens: 0,
+  resolvedModel: null,
+  models: [],
+});
+
+// Collects token counts from every provider call a request makes (retries, fallbacks, repair
+// passes) so the response can report what was actually spent.
+export const createUsageTracker = (env?: UsageEnv) => {
+  const prices = parseModelPrices(env);
+  const byModel = new Map<string, ModelUsage>();
+
+  const priceFor = (provider: Provider, model: string): ModelPrice | null =>
+    prices[model] ?? (provider === OPENAI_COMPATIBLE_PROVIDER ? SELF_HOSTED_PRICE : null);
+
+  const listenerFor =
+    (provider: Provider, model: string): UsageListener =>
+    (usage) => {
+      const key = `${provider}:${model}`;
+      const entry = byModel.get(key) ?? {
+        provider,
+        model,
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: null,
+      };
+      entry.calls += 1;
+      entry.inputTokens += usage.inputTokens;
+      entry.outputTokens += usage.outputTokens;
+      const price = priceFor(provider, model);
+      entry.costUsd = price
+        ? (entry.inputTokens * price.input + entry.outputTokens * price.output) / 1_000_000
+        : null;
+      byModel.set(key, entry);
+    };
+
+  const snapshot = (resolvedModel?: string | null): RequestUsage => {
+    const usage = emptyRequestUsage();
+    usage.resolvedModel = resolvedModel ?? null;
+    for (const entry of byModel.values()) {
+      usage.models.push({ ...entry });
+      usage.inputTokens += entry.inputTokens;
+      usage.outputTokens += entry.outputTokens;
+      if (entry.costUsd === null) {
+        usage.unpricedTokens += entry.inputTokens + entry.outputTokens;
+      } else {
+        usage.costUsd += entry.costUsd;
+      }
+    }
+    return usage;
+  };
+
+  return { listenerFor, snapshot };
+};
+
+export type UsageTracker = ReturnType<typeof createUsageTracker>;
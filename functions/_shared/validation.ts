@@ -3,3 +3,7 @@ export const hasNonEmptyString = (value: unknown): value is string =>
 
 export const isInteger = (value: unknown): value is number =>
   typeof value === "number" && Number.isInteger(value);
+
+// NSE symbols compare by letters and digits only, so "hdfc bank" and "HDFCBANK" match.
+export const normalizeScrip = (value: unknown): string =>
+  typeof value === "string" ? value.trim().toUpperCase().replace(/[^A-Z0-9]/g, "") : "";
@@ -1,23 +1,42 @@
 import {
   callGeminiJson,
+  callOpenAiCompatibleJson,
   callOpenRouterJson,
-  CHATTER_PROMPT,
   CHATTER_REPAIR_PROMPT,
   CHATTER_REPAIR_RESPONSE_SCHEMA,
   CHATTER_RESPONSE_SCHEMA,
   normalizeGeminiProviderPreference,
+  normalizeOpenAiCompatibleJsonMode,
+  type OpenRouterMessageContent,
 } from "../../_shared/gemini";
+import { callAnthropicJson } from "../../_shared/anthropic";
+import {
+  createMockProviderTransport,
+  isMockProviderEnabled,
+  withMockProviderKeys,
+  type MockProviderEnv,
+} from "../../_shared/mockProvider";
+import {
+  buildModelAttemptEvent,
+  respondWithOptionalStream,
+  type StageEmitter,
+} from "../../_shared/progressStream";
+import {
+  getDefaultModel,
+  getModelDefinition,
+  isAllowedTaskModel,
+  type ModelRegistryEnv,
+} from "../../_shared/modelRegistry";
+import { getModelAttemptOrder } from "../../_shared/providerHealth";
+import { resolvePrompt, type PromptRegistryEnv } from "../../_shared/promptRegistry";
 import { parseJsonBodyWithLimit } from "../../_shared/request";
 import { error, json } from "../../_shared/response";
 import {
-  isAllowedProviderModel,
   parseProvider as parseProviderValue,
   resolveRequestedModel,
 } from "../../_shared/providerModels";
 import {
   extractRetryAfterSeconds,
-  getPrimaryBackupAttemptOrder,
-  getPrimarySecondaryTertiaryAttemptOrder,
   isLocationUnsupportedError,
   isOverloadError,
   isSchemaConstraintError,
@@ -26,43 +45,51 @@ import {
   isUpstreamRateLimit as isUpstreamRateLimitBase,
   isUpstreamTransientError as isUpstreamTransientErrorBase,
 } from "../../_shared/retryPolicy";
+import {
+  buildResultCacheKey,
+  derivePromptVersion,
+  isBypassCacheRequested,
+  normalizeCacheText,
+  readCachedResult,
+  resolveResultCacheStore,
+  writeCachedResult,
+  type ResultCacheStore,
+} from "../../_shared/resultCache";
+import {
+  formatTranscriptStructureForPrompt,
+  isAnalystAttributedQuote,
+  parseTranscriptStructure,
+  TRANSCRIPT_STRUCTURE_VERSION,
+  type TranscriptStructure,
+} from "../../_shared/transcriptStructure";
+import {
+  countQuoteVerificationStatuses,
+  QUOTE_VERIFICATION_VERSION,
+  verifyQuotesAgainstTranscript,
+} from "../../_shared/quoteVerification";
 import { hasNonEmptyString } from "../../_shared/validation";
+import { createUsageTracker, emptyRequestUsage, type UsageEnv } from "../../_shared/usage";
 
-interface Env {
+interface Env extends ModelRegistryEnv, PromptRegistryEnv, UsageEnv, MockProviderEnv {
   GEMINI_API_KEY?: string;
   VERTEX_API_KEY?: string;
   GEMINI_PROVIDER?: string;
   OPENROUTER_API_KEY?: string;
   OPENROUTER_SITE_URL?: string;
   OPENROUTER_APP_TITLE?: string;
+  ANTHROPIC_API_KEY?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  OPENAI_COMPATIBLE_JSON_MODE?: string;
+  RESULT_CACHE?: ResultCacheStore;
 }
 
 const MAX_BODY_BYTES = 2 * 1024 * 1024;
 const MAX_TRANSCRIPT_CHARS = 800000;
 const PROVIDER_GEMINI = "gemini";
 const PROVIDER_OPENROUTER = "openrouter";
+const PROVIDER_ANTHROPIC = "anthropic";
+const PROVIDER_OPENAI_COMPATIBLE = "openai_compatible";
 const DEFAULT_PROVIDER = PROVIDER_GEMINI;
-const FLASH_MODEL = "gemini-2.5-flash";
-const FLASH_3_MODEL = "gemini-3-flash-preview";
-const PRO_MODEL = "gemini-3-pro-preview";
-const OPENROUTER_STANDARD_PRIMARY_MODEL = "deepseek/deepseek-v3.2";
-const OPENROUTER_STANDARD_BACKUP_MODEL = "minimax/minimax-m2.1";
-const OPENROUTER_PREMIUM_PRIMARY_MODEL = "anthropic/claude-sonnet-4";
-const OPENROUTER_PREMIUM_BACKUP_MODEL = "openai/gpt-4.1-mini";
-const DEFAULT_MODEL = FLASH_3_MODEL;
-const ALLOWED_MODELS = new Set([FLASH_MODEL, FLASH_3_MODEL, PRO_MODEL]);
-const OPENROUTER_STANDARD_MODELS = new Set([
-  OPENROUTER_STANDARD_PRIMARY_MODEL,
-  OPENROUTER_STANDARD_BACKUP_MODEL,
-]);
-const OPENROUTER_PREMIUM_MODELS = new Set([
-  OPENROUTER_PREMIUM_PRIMARY_MODEL,
-  OPENROUTER_PREMIUM_BACKUP_MODEL,
-]);
-const OPENROUTER_ALLOWED_MODELS = new Set([
-  ...OPENROUTER_STANDARD_MODELS,
-  ...OPENROUTER_PREMIUM_MODELS,
-]);
 const MAX_QUOTES_COUNT = 20;
 const UPSTREAM_DEPENDENCY_STATUS = 424;
 const VALIDATION_STATUS = 422;
@@ -138,28 +165,12 @@ const normalizeCategory = (rawCategory: string): string => {
 const parseProvider = (value: unknown): ReturnType<typeof parseProviderValue> =>
   parseProviderValue(value, DEFAULT_PROVIDER);
 
-const getModelAttemptOrder = (requestedModel: string): string[] =>
-  getPrimarySecondaryTertiaryAttemptOrder(requestedModel, FLASH_MODEL, FLASH_3_MODEL, PRO_MODEL);
-
-const getOpenRouterAttemptOrder = (requestedModel: string): string[] =>
-  OPENROUTER_PREMIUM_MODELS.has(requestedModel)
-    ? getPrimaryBackupAttemptOrder(
-        requestedModel,
-        OPENROUTER_PREMIUM_PRIMARY_MODEL,
-        OPENROUTER_PREMIUM_BACKUP_MODEL,
-      )
-    : getPrimaryBackupAttemptOrder(
-        requestedModel,
-        OPENROUTER_STANDARD_PRIMARY_MODEL,
-        OPENROUTER_STANDARD_BACKUP_MODEL,
-      );
-
 const isUpstreamRateLimit = (message: string): boolean =>
   isUpstreamRateLimitBase(message, { includeFreeTierRateLimitToken: true });
 
 const isUpstreamTransientError = (message: string): boolean => isUpstreamTransientErrorBase(message);
 
-interface OpenRouterRepairCandidate {
+interface ChatterRepairCandidate {
   index: number;
   quote: string;
   summary?: string;
@@ -169,12 +180,12 @@ interface OpenRouterRepairCandidate {
   missingFields: string[];
 }
 
-interface OpenRouterRepairInspection {
+interface ChatterRepairInspection {
   fatalError: string | null;
-  candidates: OpenRouterRepairCandidate[];
+  candidates: ChatterRepairCandidate[];
 }
 
-const inspectOpenRouterRepairability = (result: any): OpenRouterRepairInspection => {
+const inspectChatterRepairability = (result: any): ChatterRepairInspection => {
   if (!result || typeof result !== "object") {
     return { fatalError: "Gemini response is not a JSON object.", candidates: [] };
   }
@@ -207,7 +218,7 @@ const inspectOpenRouterRepairability = (result: any): OpenRouterRepairInspection
     };
   }
 
-  const candidates: OpenRouterRepairCandidate[] = [];
+  const candidates: ChatterRepairCandidate[] = [];
   for (let i = 0; i < result.quotes.length; i++) {
     const quoteItem = result.quotes[i];
     const quoteIndex = i + 1;
@@ -258,16 +269,13 @@ const inspectOpenRouterRepairability = (result: any): OpenRouterRepairInspection
   };
 };
 
-const repairOpenRouterChatterResult = async (params: {
+// Chat-completions providers have no enforced schema, so incomplete quotes get a second, smaller pass.
+const repairChatterResult = async (params: {
   result: any;
-  candidates: OpenRouterRepairCandidate[];
-  model: string;
-  requestId: string;
-  apiKey: string;
-  referer?: string;
-  appTitle?: string;
+  candidates: ChatterRepairCandidate[];
+  callJson: (messageContent: OpenRouterMessageContent, responseSchema: unknown) => Promise<any>;
 }): Promise<{ repairedCount: number }> => {
-  const { result, candidates, model, requestId, apiKey, referer, appTitle } = params;
+  const { result, candidates, callJson } = params;
   if (!Array.isArray(result?.quotes) || candidates.length === 0) {
     return { repairedCount: 0 };
   }
@@ -289,17 +297,12 @@ const repairOpenRouterChatterResult = async (params: {
     })),
   };
 
-  const repairResponse = await callOpenRouterJson({
-    apiKey,
-    model,
-    requestId,
-    referer,
-    appTitle: appTitle || "The Chatter Analyst",
-    messageContent:
-      `${CHATTER_REPAIR_PROMPT}\n\nINPUT JSON:\n${JSON.stringify(repairInput)}\n\n` +
+  const repairResponse = await callJson(
+    `${CHATTER_REPAIR_PROMPT}\n\nINPUT JSON:\n${JSON.stringify(repairInput)}\n\n` +
       `RESPONSE JSON SCHEMA:\n${JSON.stringify(CHATTER_REPAIR_RESPONSE_SCHEMA)}\n\n` +
       "FINAL OUTPUT REQUIREMENT: Return only one valid JSON object. No markdown, no explanation.",
-  });
+    CHATTER_REPAIR_RESPONSE_SCHEMA,
+  );
 
   const repairedItems = Array.isArray(repairResponse?.quotes) ? repairResponse.quotes : [];
   let repairedCount = 0;
@@ -349,7 +352,7 @@ const repairOpenRouterChatterResult = async (params: {
   return { repairedCount };
 };
 
-const validateChatterResult = (result: any): string | null => {
+const validateChatterResult = (result: any, structure: TranscriptStructure): string | null => {
   if (!result || typeof result !== "object") {
     return "Gemini response is not a JSON object.";
   }
@@ -377,6 +380,12 @@ const validateChatterResult = (result: any): string | null => {
     return "Field 'quotes' must contain at least 1 item.";
   }
 
+  const managementQuotes = result.quotes.filter((quoteItem: any) => !isAnalystAttributedQuote(structure, quoteItem ?? {}));
+  if (managementQuotes.length === 0) {
+    return `All ${result.quotes.length} quotes were attributed to analysts; only management remarks may be quoted.`;
+  }
+  result.quotes = managementQuotes;
+
   if (result.quotes.length > MAX_QUOTES_COUNT) {
     return `Field 'quotes' must contain at most ${MAX_QUOTES_COUNT} items, got ${result.quotes.length}.`;
   }
@@ -412,9 +421,9 @@ const validateChatterResult = (result: any): string | null => {
   return null;
 };
 
-export async function onRequestPost(context: any): Promise<Response> {
+async function handleAnalyzeRequest(context: any, emit: StageEmitter): Promise<Response> {
   const request = context.request as Request;
-  const env = context.env as Env;
+  const env = withMockProviderKeys(context.env as Env);
   const requestId = request.headers.get("cf-ray") || crypto.randomUUID();
 
   const parsedBody = await parseJsonBodyWithLimit<any>(request, MAX_BODY_BYTES);
@@ -435,15 +444,30 @@ export async function onRequestPost(context: any): Promise<Response> {
     return error(400, "BAD_REQUEST", "Field 'provider' is invalid.", "INVALID_PROVIDER");
   }
 
+  const openAiCompatibleBaseUrl = env?.OPENAI_COMPATIBLE_BASE_URL?.trim();
+  if (provider === PROVIDER_OPENAI_COMPATIBLE && !openAiCompatibleBaseUrl) {
+    return error(
+      500,
+      "INTERNAL",
+      "Server is missing OPENAI_COMPATIBLE_BASE_URL.",
+      "MISSING_OPENAI_COMPATIBLE_BASE_URL",
+    );
+  }
+
   const model = resolveRequestedModel(body?.model, provider, {
-    gemini: DEFAULT_MODEL,
-    openrouter: OPENROUTER_STANDARD_PRIMARY_MODEL,
+    gemini: getDefaultModel("chatter", PROVIDER_GEMINI),
+    openrouter: getDefaultModel("chatter", PROVIDER_OPENROUTER),
+    anthropic: getDefaultModel("chatter", PROVIDER_ANTHROPIC),
+    openai_compatible: getDefaultModel("chatter", PROVIDER_OPENAI_COMPATIBLE, env),
   });
 
-  if (!isAllowedProviderModel(provider, model, { gemini: ALLOWED_MODELS, openrouter: OPENROUTER_ALLOWED_MODELS })) {
-    return provider === PROVIDER_GEMINI
-      ? error(400, "BAD_REQUEST", "Field 'model' is invalid for provider 'gemini'.", "INVALID_MODEL")
-      : error(400, "BAD_REQUEST", "Field 'model' is invalid for provider 'openrouter'.", "INVALID_MODEL");
+  if (!isAllowedTaskModel("chatter", provider, model, env)) {
+    return error(400, "BAD_REQUEST", `Field 'model' is invalid for provider '${provider}'.`, "INVALID_MODEL");
+  }
+
+  const prompt = resolvePrompt("chatter", body?.promptVersion, env);
+  if ("error" in prompt) {
+    return error(400, "BAD_REQUEST", prompt.error, "INVALID_PROMPT_VERSION");
   }
 
   const primaryApiKey = env?.GEMINI_API_KEY;
@@ -454,12 +478,41 @@ export async function onRequestPost(context: any): Promise<Response> {
   if (provider === PROVIDER_OPENROUTER && !openRouterApiKey) {
     return error(500, "INTERNAL", "Server is missing OPENROUTER_API_KEY.", "MISSING_OPENROUTER_KEY");
   }
+  if (provider === PROVIDER_ANTHROPIC && !env?.ANTHROPIC_API_KEY) {
+    return error(500, "INTERNAL", "Server is missing ANTHROPIC_API_KEY.", "MISSING_ANTHROPIC_KEY");
+  }
+
+  const cacheStore = resolveResultCacheStore(env);
+  // Mock runs neither read nor write the cache, so scripted outputs never mix with real results.
+  const useCache = !isMockProviderEnabled(env);
+  const cacheKey = await buildResultCacheKey({
+    route: "chatter",
+    provider,
+    model,
+    promptVersion: await derivePromptVersion(
+      prompt.text,
+      CHATTER_REPAIR_PROMPT,
+      TRANSCRIPT_STRUCTURE_VERSION,
+      QUOTE_VERIFICATION_VERSION,
+    ),
+    input: normalizeCacheText(transcript.substring(0, MAX_TRANSCRIPT_CHARS)),
+  });
+  if (useCache && !isBypassCacheRequested(body)) {
+    const cachedResult = await readCachedResult<Record<string, unknown>>(cacheStore, cacheKey);
+    if (cachedResult) {
+      console.log(JSON.stringify({ event: "chatter_cache_hit", requestId, provider, requestedModel: model }));
+      emit({ stage: "finalizing", kind: "cache_hit", message: "Reusing a cached result for this transcript.", percent: 95 });
+      return json({ ...cachedResult, promptVersion: prompt.version, cached: true, usage: emptyRequestUsage() });
+    }
+  }
 
-  const modelAttemptOrder =
-    provider === PROVIDER_GEMINI ? getModelAttemptOrder(model) : getOpenRouterAttemptOrder(model);
+  const modelAttemptOrder = getModelAttemptOrder("chatter", provider, model, env);
   const providerPreference =
     provider === PROVIDER_GEMINI ? normalizeGeminiProviderPreference(env?.GEMINI_PROVIDER) : undefined;
-  const inputText = `${CHATTER_PROMPT}\n\nINPUT TRANSCRIPT:\n${transcript.substring(0, MAX_TRANSCRIPT_CHARS)}`;
+  const boundedTranscript = transcript.substring(0, MAX_TRANSCRIPT_CHARS);
+  const transcriptStructure = parseTranscriptStructure(boundedTranscript);
+  const structureHint = formatTranscriptStructureForPrompt(transcriptStructure);
+  const inputText = `${prompt.text}\n\n${structureHint ? `${structureHint}\n\n` : ""}INPUT TRANSCRIPT:\n${boundedTranscript}`;
 
   console.log(
     JSON.stringify({
@@ -467,15 +520,63 @@ export async function onRequestPost(context: any): Promise<Response> {
       requestId,
       provider,
       requestedModel: model,
+      promptVersion: prompt.version,
       providerPreference,
       transcriptChars: transcript.length,
+      speakerTurns: transcriptStructure.turns.length,
+      qaDetected: transcriptStructure.hasQaSection,
     }),
   );
 
+  emit({
+    stage: "uploading",
+    kind: "request_received",
+    message: `Transcript received (${transcript.length.toLocaleString("en-US")} characters).`,
+    percent: 20,
+  });
+
+  const usage = createUsageTracker(env);
+  const transport = createMockProviderTransport(env, "chatter");
   let lastMessage = "Unknown error";
   for (let attemptIndex = 0; attemptIndex < modelAttemptOrder.length; attemptIndex++) {
     const attemptModel = modelAttemptOrder[attemptIndex];
     const hasFallback = attemptIndex < modelAttemptOrder.length - 1;
+    // Schema-enforcing models return complete quotes, so the repair pass only runs for prompt-only JSON.
+    const needsRepairPass = !getModelDefinition(attemptModel, env)?.capabilities.jsonSchema;
+    const onUsage = usage.listenerFor(provider, attemptModel);
+    emit(
+      buildModelAttemptEvent({
+        attemptIndex,
+        attemptCount: modelAttemptOrder.length,
+        attemptModel,
+        previousModel: modelAttemptOrder[attemptIndex - 1],
+        lastMessage,
+      }),
+    );
+
+    const callChatCompletionJson = (messageContent: OpenRouterMessageContent, responseSchema: unknown): Promise<any> =>
+      provider === PROVIDER_OPENAI_COMPATIBLE
+        ? callOpenAiCompatibleJson({
+            baseUrl: openAiCompatibleBaseUrl as string,
+            apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+            model: attemptModel,
+            requestId,
+            jsonMode: normalizeOpenAiCompatibleJsonMode(env.OPENAI_COMPATIBLE_JSON_MODE),
+            responseSchema,
+            messageContent,
+            onUsage,
+            transport,
+          })
+        : callOpenRouterJson({
+            apiKey: openRouterApiKey as string,
+            model: attemptModel,
+            requestId,
+            referer: env.OPENROUTER_SITE_URL,
+            appTitle: env.OPENROUTER_APP_TITLE || "The Chatter Analyst",
+            messageContent,
+            onUsage,
+            transport,
+          });
 
     try {
       const result =
@@ -492,26 +593,34 @@ export async function onRequestPost(context: any): Promise<Response> {
                 },
               ],
               responseSchema: CHATTER_RESPONSE_SCHEMA,
+              onUsage,
+              transport,
             })
-          : await callOpenRouterJson({
-              apiKey: openRouterApiKey as string,
-              model: attemptModel,
-              requestId,
-              referer: env.OPENROUTER_SITE_URL,
-              appTitle: env.OPENROUTER_APP_TITLE || "The Chatter Analyst",
-              messageContent:
+          : provider === PROVIDER_ANTHROPIC
+            ? await callAnthropicJson({
+                apiKey: env.ANTHROPIC_API_KEY as string,
+                model: attemptModel,
+                requestId,
+                messageContent: inputText,
+                responseSchema: CHATTER_RESPONSE_SCHEMA,
+                onUsage,
+                transport,
+              })
+            : await callChatCompletionJson(
                 `${inputText}\n\n` +
-                "FINAL OUTPUT REQUIREMENT: Return only one valid JSON object. No markdown, no explanation.",
-            });
+                  "FINAL OUTPUT REQUIREMENT: Return only one valid JSON object. No markdown, no explanation.",
+                CHATTER_RESPONSE_SCHEMA,
+              );
 
       let repairPhase: "none" | "openrouter_repair" = "none";
-      if (provider === PROVIDER_OPENROUTER) {
-        const inspection = inspectOpenRouterRepairability(result);
+      if (needsRepairPass) {
+        const inspection = inspectChatterRepairability(result);
         if (inspection.fatalError) {
           console.log(
             JSON.stringify({
               event: "chatter_openrouter_validation_issue",
               requestId,
+              provider,
               model: attemptModel,
               phase: "validate_initial",
               fatalError: inspection.fatalError,
@@ -523,6 +632,7 @@ export async function onRequestPost(context: any): Promise<Response> {
               JSON.stringify({
                 event: "chatter_openrouter_fallback_phase",
                 requestId,
+                provider,
                 requestedModel: model,
                 failedModel: attemptModel,
                 phase: "validate_initial",
@@ -533,6 +643,13 @@ export async function onRequestPost(context: any): Promise<Response> {
           }
         } else if (inspection.candidates.length > 0) {
           repairPhase = "openrouter_repair";
+          emit({
+            stage: "analyzing",
+            kind: "repair",
+            message: `Repairing ${inspection.candidates.length} incomplete quote${inspection.candidates.length === 1 ? "" : "s"} with ${attemptModel}...`,
+            percent: 82,
+            model: attemptModel,
+          });
           const missingFieldsCount = inspection.candidates.reduce(
             (sum, candidate) => sum + candidate.missingFields.length,
             0,
@@ -541,6 +658,7 @@ export async function onRequestPost(context: any): Promise<Response> {
             JSON.stringify({
               event: "chatter_openrouter_repair_attempt",
               requestId,
+              provider,
               model: attemptModel,
               candidates: inspection.candidates.length,
               missingFieldsCount,
@@ -548,20 +666,17 @@ export async function onRequestPost(context: any): Promise<Response> {
           );
 
           try {
-            const repairOutcome = await repairOpenRouterChatterResult({
+            const repairOutcome = await repairChatterResult({
               result,
               candidates: inspection.candidates,
-              model: attemptModel,
-              requestId,
-              apiKey: openRouterApiKey as string,
-              referer: env.OPENROUTER_SITE_URL,
-              appTitle: env.OPENROUTER_APP_TITLE,
+              callJson: callChatCompletionJson,
             });
 
             console.log(
               JSON.stringify({
                 event: "chatter_openrouter_repair_success",
                 requestId,
+                provider,
                 model: attemptModel,
                 repairedCount: repairOutcome.repairedCount,
                 candidates: inspection.candidates.length,
@@ -573,6 +688,7 @@ export async function onRequestPost(context: any): Promise<Response> {
               JSON.stringify({
                 event: "chatter_openrouter_repair_failure",
                 requestId,
+                provider,
                 model: attemptModel,
                 message: repairMessage,
               }),
@@ -583,6 +699,7 @@ export async function onRequestPost(context: any): Promise<Response> {
                 JSON.stringify({
                   event: "chatter_openrouter_fallback_phase",
                   requestId,
+                  provider,
                   requestedModel: model,
                   failedModel: attemptModel,
                   phase: "openrouter_repair",
@@ -595,7 +712,9 @@ export async function onRequestPost(context: any): Promise<Response> {
         }
       }
 
-      const validationError = validateChatterResult(result);
+      emit({ stage: "finalizing", kind: "validation", message: "Validating extracted quotes...", percent: 90, model: attemptModel });
+      const quotesBeforeValidation = Array.isArray(result?.quotes) ? result.quotes.length : 0;
+      const validationError = validateChatterResult(result, transcriptStructure);
       if (validationError) {
         const phase = repairPhase === "openrouter_repair" ? "validate_after_repair" : "validate_initial";
         console.log(
@@ -608,11 +727,12 @@ export async function onRequestPost(context: any): Promise<Response> {
           }),
         );
 
-        if (provider === PROVIDER_OPENROUTER && hasFallback) {
+        if (needsRepairPass && hasFallback) {
           console.log(
             JSON.stringify({
               event: "chatter_openrouter_fallback_phase",
               requestId,
+              provider,
               requestedModel: model,
               failedModel: attemptModel,
               phase,
@@ -631,6 +751,15 @@ export async function onRequestPost(context: any): Promise<Response> {
         );
       }
 
+      emit({
+        stage: "finalizing",
+        kind: "quote_verification",
+        message: "Checking quotes against the transcript...",
+        percent: 94,
+        model: attemptModel,
+      });
+      result.quotes = verifyQuotesAgainstTranscript(result.quotes, boundedTranscript);
+
       console.log(
         JSON.stringify({
           event: "chatter_request_success",
@@ -639,6 +768,8 @@ export async function onRequestPost(context: any): Promise<Response> {
           requestedModel: model,
           resolvedModel: attemptModel,
           quotes: Array.isArray(result?.quotes) ? result.quotes.length : null,
+          analystQuotesDropped: quotesBeforeValidation - result.quotes.length,
+          quoteVerification: countQuoteVerificationStatuses(result.quotes),
         }),
       );
 
@@ -654,7 +785,11 @@ export async function onRequestPost(context: any): Promise<Response> {
         );
       }
 
-      return json(result);
+      if (useCache && !(await writeCachedResult(cacheStore, cacheKey, result))) {
+        console.log(JSON.stringify({ event: "chatter_cache_write_failed", requestId }));
+      }
+
+      return json({ ...result, promptVersion: prompt.version, usage: usage.snapshot(attemptModel) });
     } catch (err: any) {
       const message = String(err?.message || "Unknown error");
       lastMessage = message;
@@ -771,3 +906,7 @@ export async function onRequestPost(context: any): Promise<Response> {
     { requestId, provider, model },
   );
 }
+
+export async function onRequestPost(context: any): Promise<Response> {
+  return respondWithOptionalStream(context.request as Request, (emit) => handleAnalyzeRequest(context, emit));
+}
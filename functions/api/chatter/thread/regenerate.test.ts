@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { onRequestPost } from './regenerate';
+
+const longTweet = `${'Quick commerce now sets the pace for urban FMCG distribution and pricing. '.repeat(12)}`.trim();
+
+const regenerate = (body: Record<string, unknown>) =>
+  onRequestPost({
+    request: new Request('https://example.com/api/chatter/thread/regenerate', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ provider: 'gemini', tweetKind: 'intro', currentTweet: 'Old intro.', ...body }),
+    }),
+    env: {
+      MOCK_PROVIDER: '1',
+      MOCK_PROVIDER_SCRIPT: JSON.stringify({ thread_regenerate: [{ kind: 'json', body: { tweet: longTweet } }] }),
+    },
+  });
+
+describe('thread regenerate platforms', () => {
+  it('keeps the 260-character X cap when no platform is sent', async () => {
+    const body = await (await regenerate({})).json();
+
+    expect(body.tweet.length).toBeLessThanOrEqual(260);
+    expect(body.tweet).toMatch(/^Quick commerce now sets the pace for .*\S…$/);
+  });
+
+  it('caps an X rewrite at the same 260 characters as the composer', async () => {
+    const body = await (await regenerate({ platform: 'x' })).json();
+
+    expect(body.tweet.length).toBeLessThanOrEqual(260);
+    expect(body.tweet.length).toBeGreaterThan(200);
+  });
+
+  it('fits the rewrite to the platform limit at a word boundary', async () => {
+    const threads = await (await regenerate({ platform: 'threads' })).json();
+    const linkedin = await (await regenerate({ platform: 'linkedin' })).json();
+
+    expect(threads.tweet.length).toBeLessThanOrEqual(500);
+    expect(threads.tweet.length).toBeGreaterThan(400);
+    expect(threads.tweet).toMatch(/ FMCG…$/);
+    expect(linkedin.tweet.length).toBeLessThanOrEqual(600);
+    expect(linkedin.tweet.length).toBeGreaterThan(500);
+  });
+
+  it('rejects an unknown platform', async () => {
+    const response = await regenerate({ platform: 'mastodon' });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.reasonCode).toBe('INVALID_PLATFORM');
+  });
+});
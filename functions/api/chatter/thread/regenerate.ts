@@ -5,31 +5,44 @@ import {
   THREAD_REGENERATE_PROMPT,
   THREAD_REGENERATE_RESPONSE_SCHEMA,
 } from "../../../_shared/gemini";
+import { callAnthropicJson } from "../../../_shared/anthropic";
+import { createMockProviderTransport, withMockProviderKeys, type MockProviderEnv } from "../../../_shared/mockProvider";
+import {
+  getDefaultModel,
+  isAllowedTaskModel,
+  isProviderAvailableForTask,
+} from "../../../_shared/modelRegistry";
+import { getModelAttemptOrder } from "../../../_shared/providerHealth";
 import { parseJsonBodyWithLimit } from "../../../_shared/request";
 import { error, json } from "../../../_shared/response";
 import {
-  isAllowedProviderModel,
   parseProvider as parseProviderValue,
   resolveRequestedModel,
 } from "../../../_shared/providerModels";
 import {
   extractRetryAfterSeconds,
-  getPrimaryBackupAttemptOrder,
-  getPrimarySecondaryTertiaryAttemptOrder,
   isLocationUnsupportedError,
   isSchemaConstraintError,
   isUpstreamRateLimit,
   isUpstreamTransientError,
 } from "../../../_shared/retryPolicy";
+import {
+  fitThreadPost,
+  isThreadPlatform,
+  THREAD_PLATFORM_SPECS,
+  type ThreadPlatform,
+} from "../../../_shared/threadPlatforms";
 import { hasNonEmptyString } from "../../../_shared/validation";
+import { createUsageTracker, type UsageEnv } from "../../../_shared/usage";
 
-interface Env {
+interface Env extends UsageEnv, MockProviderEnv {
   GEMINI_API_KEY?: string;
   VERTEX_API_KEY?: string;
   GEMINI_PROVIDER?: string;
   OPENROUTER_API_KEY?: string;
   OPENROUTER_SITE_URL?: string;
   OPENROUTER_APP_TITLE?: string;
+  ANTHROPIC_API_KEY?: string;
 }
 
 interface TargetQuoteInput {
@@ -46,53 +59,26 @@ interface TargetQuoteInput {
 const MAX_BODY_BYTES = 1 * 1024 * 1024;
 const PROVIDER_GEMINI = "gemini";
 const PROVIDER_OPENROUTER = "openrouter";
+const PROVIDER_ANTHROPIC = "anthropic";
 const DEFAULT_PROVIDER = PROVIDER_GEMINI;
-const FLASH_MODEL = "gemini-2.5-flash";
-const FLASH_3_MODEL = "gemini-3-flash-preview";
-const PRO_MODEL = "gemini-3-pro-preview";
-const OPENROUTER_STANDARD_PRIMARY_MODEL = "deepseek/deepseek-v3.2";
-const OPENROUTER_STANDARD_BACKUP_MODEL = "minimax/minimax-m2.1";
-const OPENROUTER_PREMIUM_PRIMARY_MODEL = "anthropic/claude-sonnet-4";
-const OPENROUTER_PREMIUM_BACKUP_MODEL = "openai/gpt-4.1-mini";
-const DEFAULT_MODEL = FLASH_3_MODEL;
-const ALLOWED_MODELS = new Set([FLASH_MODEL, FLASH_3_MODEL, PRO_MODEL]);
-const OPENROUTER_PREMIUM_MODELS = new Set([OPENROUTER_PREMIUM_PRIMARY_MODEL, OPENROUTER_PREMIUM_BACKUP_MODEL]);
-const OPENROUTER_ALLOWED_MODELS = new Set([
-  OPENROUTER_STANDARD_PRIMARY_MODEL,
-  OPENROUTER_STANDARD_BACKUP_MODEL,
-  OPENROUTER_PREMIUM_PRIMARY_MODEL,
-  OPENROUTER_PREMIUM_BACKUP_MODEL,
-]);
 const UPSTREAM_DEPENDENCY_STATUS = 424;
 const VALIDATION_STATUS = 422;
-const MAX_TWEET_CHARS = 260;
+const MAX_TWEET_CHARS = THREAD_PLATFORM_SPECS.x.maxPartChars;
 
 const parseProvider = (value: unknown): ReturnType<typeof parseProviderValue> =>
   parseProviderValue(value, DEFAULT_PROVIDER);
 
-const getModelAttemptOrder = (requestedModel: string): string[] =>
-  getPrimarySecondaryTertiaryAttemptOrder(requestedModel, FLASH_MODEL, FLASH_3_MODEL, PRO_MODEL);
-
-const getOpenRouterAttemptOrder = (requestedModel: string): string[] =>
-  OPENROUTER_PREMIUM_MODELS.has(requestedModel)
-    ? getPrimaryBackupAttemptOrder(
-        requestedModel,
-        OPENROUTER_PREMIUM_PRIMARY_MODEL,
-        OPENROUTER_PREMIUM_BACKUP_MODEL,
-      )
-    : getPrimaryBackupAttemptOrder(
-        requestedModel,
-        OPENROUTER_STANDARD_PRIMARY_MODEL,
-        OPENROUTER_STANDARD_BACKUP_MODEL,
-      );
-
-const normalizeTweet = (value: unknown): string => {
+// Without a platform the rewrite keeps the original X thread cap.
+const normalizeTweet = (value: unknown, platform?: ThreadPlatform): string => {
   if (typeof value !== "string") return "";
   const normalized = value
     .replace(/\r/g, "")
     .replace(/\n{3,}/g, "\n\n")
     .replace(/[ ]{2,}/g, " ")
     .trim();
+  if (platform) {
+    return fitThreadPost(normalized, platform, THREAD_PLATFORM_SPECS[platform].maxPartChars);
+  }
   if (normalized.length <= MAX_TWEET_CHARS) {
     return normalized;
   }
@@ -117,7 +103,7 @@ const validateTargetQuote = (quote: any): quote is TargetQuoteInput => {
 
 export async function onRequestPost(context: any): Promise<Response> {
   const request = context.request as Request;
-  const env = context.env as Env;
+  const env = withMockProviderKeys(context.env as Env);
   const requestId = request.headers.get("cf-ray") || crypto.randomUUID();
 
   const parsedBody = await parseJsonBodyWithLimit<any>(request, MAX_BODY_BYTES);
@@ -129,19 +115,18 @@ export async function onRequestPost(context: any): Promise<Response> {
   const body = parsedBody.body;
 
   const provider = parseProvider(body?.provider);
-  if (!provider) {
+  if (!provider || !isProviderAvailableForTask("thread", provider)) {
     return error(400, "BAD_REQUEST", "Field 'provider' is invalid.", "INVALID_PROVIDER");
   }
 
   const model = resolveRequestedModel(body?.model, provider, {
-    gemini: DEFAULT_MODEL,
-    openrouter: OPENROUTER_STANDARD_PRIMARY_MODEL,
+    gemini: getDefaultModel("thread", PROVIDER_GEMINI),
+    openrouter: getDefaultModel("thread", PROVIDER_OPENROUTER),
+    anthropic: getDefaultModel("thread", PROVIDER_ANTHROPIC),
   });
 
-  if (!isAllowedProviderModel(provider, model, { gemini: ALLOWED_MODELS, openrouter: OPENROUTER_ALLOWED_MODELS })) {
-    return provider === PROVIDER_GEMINI
-      ? error(400, "BAD_REQUEST", "Field 'model' is invalid for provider 'gemini'.", "INVALID_MODEL")
-      : error(400, "BAD_REQUEST", "Field 'model' is invalid for provider 'openrouter'.", "INVALID_MODEL");
+  if (!isAllowedTaskModel("thread", provider, model)) {
+    return error(400, "BAD_REQUEST", `Field 'model' is invalid for provider '${provider}'.`, "INVALID_MODEL");
   }
 
   const tweetKind = hasNonEmptyString(body?.tweetKind) ? body.tweetKind.trim().toLowerCase() : "";
@@ -158,6 +143,11 @@ export async function onRequestPost(context: any): Promise<Response> {
     );
   }
 
+  if (body?.platform !== undefined && !isThreadPlatform(body.platform)) {
+    return error(400, "BAD_REQUEST", "Field 'platform' must be x, threads, or linkedin.", "INVALID_PLATFORM");
+  }
+  const platform: ThreadPlatform | undefined = body?.platform;
+
   const usedTweetTexts: string[] = Array.isArray(body?.usedTweetTexts)
     ? body.usedTweetTexts.filter((item: unknown) => hasNonEmptyString(item)).map((item: string) => item.trim())
     : [];
@@ -182,9 +172,11 @@ export async function onRequestPost(context: any): Promise<Response> {
   if (provider === PROVIDER_OPENROUTER && !openRouterApiKey) {
     return error(500, "INTERNAL", "Server is missing OPENROUTER_API_KEY.", "MISSING_OPENROUTER_KEY");
   }
+  if (provider === PROVIDER_ANTHROPIC && !env?.ANTHROPIC_API_KEY) {
+    return error(500, "INTERNAL", "Server is missing ANTHROPIC_API_KEY.", "MISSING_ANTHROPIC_KEY");
+  }
 
-  const modelAttemptOrder =
-    provider === PROVIDER_GEMINI ? getModelAttemptOrder(model) : getOpenRouterAttemptOrder(model);
+  const modelAttemptOrder = getModelAttemptOrder("thread", provider, model);
   const providerPreference =
     provider === PROVIDER_GEMINI ? normalizeGeminiProviderPreference(env?.GEMINI_PROVIDER) : undefined;
 
@@ -196,12 +188,18 @@ export async function onRequestPost(context: any): Promise<Response> {
     targetQuote: tweetKind === "insight" ? body.targetQuote : undefined,
   };
 
-  const inputText = `${THREAD_REGENERATE_PROMPT}\n\nINPUT JSON:\n${JSON.stringify(inputPayload)}`;
+  const platformText = platform
+    ? `\n\nPLATFORM (overrides the length and line limits above)\n${THREAD_PLATFORM_SPECS[platform].rewriteGuidance}`
+    : "";
+  const inputText = `${THREAD_REGENERATE_PROMPT}${platformText}\n\nINPUT JSON:\n${JSON.stringify(inputPayload)}`;
 
+  const usage = createUsageTracker(env);
+  const transport = createMockProviderTransport(env, "thread_regenerate");
   let lastMessage = "Unknown error";
   for (let attemptIndex = 0; attemptIndex < modelAttemptOrder.length; attemptIndex++) {
     const attemptModel = modelAttemptOrder[attemptIndex];
     const hasFallback = attemptIndex < modelAttemptOrder.length - 1;
+    const onUsage = usage.listenerFor(provider, attemptModel);
 
     try {
       const result =
@@ -214,22 +212,36 @@ export async function onRequestPost(context: any): Promise<Response> {
               responseSchema: THREAD_REGENERATE_RESPONSE_SCHEMA,
               providerPreference,
               requestId,
+              onUsage,
+              transport,
             })
-          : await callOpenRouterJson({
-              apiKey: openRouterApiKey as string,
-              model: attemptModel,
-              messageContent: inputText,
-              requestId,
-              referer: env?.OPENROUTER_SITE_URL,
-              appTitle: env?.OPENROUTER_APP_TITLE,
-            });
-
-      const tweet = normalizeTweet(result?.tweet);
+          : provider === PROVIDER_ANTHROPIC
+            ? await callAnthropicJson({
+                apiKey: env.ANTHROPIC_API_KEY as string,
+                model: attemptModel,
+                messageContent: inputText,
+                responseSchema: THREAD_REGENERATE_RESPONSE_SCHEMA,
+                requestId,
+                onUsage,
+                transport,
+              })
+            : await callOpenRouterJson({
+                apiKey: openRouterApiKey as string,
+                model: attemptModel,
+                messageContent: inputText,
+                requestId,
+                referer: env?.OPENROUTER_SITE_URL,
+                appTitle: env?.OPENROUTER_APP_TITLE,
+                onUsage,
+                transport,
+              });
+
+      const tweet = normalizeTweet(result?.tweet, platform);
       if (!tweet) {
         return error(VALIDATION_STATUS, "VALIDATION_FAILED", "Regenerated tweet is empty.", "EMPTY_TWEET");
       }
 
-      return json({ tweet });
+      return json({ tweet, usage: usage.snapshot(attemptModel) });
     } catch (analysisError: any) {
       const message = String(analysisError?.message || "Tweet regeneration failed.");
       lastMessage = message;
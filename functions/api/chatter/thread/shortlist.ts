@@ -5,31 +5,38 @@ import {
   THREAD_SHORTLIST_PROMPT,
   THREAD_SHORTLIST_RESPONSE_SCHEMA,
 } from "../../../_shared/gemini";
+import { callAnthropicJson } from "../../../_shared/anthropic";
+import { createMockProviderTransport, withMockProviderKeys, type MockProviderEnv } from "../../../_shared/mockProvider";
+import {
+  getDefaultModel,
+  isAllowedTaskModel,
+  isProviderAvailableForTask,
+} from "../../../_shared/modelRegistry";
+import { getModelAttemptOrder } from "../../../_shared/providerHealth";
 import { parseJsonBodyWithLimit } from "../../../_shared/request";
 import { error, json } from "../../../_shared/response";
 import {
-  isAllowedProviderModel,
   parseProvider as parseProviderValue,
   resolveRequestedModel,
 } from "../../../_shared/providerModels";
 import {
   extractRetryAfterSeconds,
-  getPrimaryBackupAttemptOrder,
-  getPrimarySecondaryTertiaryAttemptOrder,
   isLocationUnsupportedError,
   isSchemaConstraintError,
   isUpstreamRateLimit,
   isUpstreamTransientError,
 } from "../../../_shared/retryPolicy";
 import { hasNonEmptyString } from "../../../_shared/validation";
+import { createUsageTracker, type UsageEnv } from "../../../_shared/usage";
 
-interface Env {
+interface Env extends UsageEnv, MockProviderEnv {
   GEMINI_API_KEY?: string;
   VERTEX_API_KEY?: string;
   GEMINI_PROVIDER?: string;
   OPENROUTER_API_KEY?: string;
   OPENROUTER_SITE_URL?: string;
   OPENROUTER_APP_TITLE?: string;
+  ANTHROPIC_API_KEY?: string;
 }
 
 interface ThreadQuoteCandidateInput {
@@ -46,23 +53,8 @@ interface ThreadQuoteCandidateInput {
 const MAX_BODY_BYTES = 3 * 1024 * 1024;
 const PROVIDER_GEMINI = "gemini";
 const PROVIDER_OPENROUTER = "openrouter";
+const PROVIDER_ANTHROPIC = "anthropic";
 const DEFAULT_PROVIDER = PROVIDER_GEMINI;
-const FLASH_MODEL = "gemini-2.5-flash";
-const FLASH_3_MODEL = "gemini-3-flash-preview";
-const PRO_MODEL = "gemini-3-pro-preview";
-const OPENROUTER_STANDARD_PRIMARY_MODEL = "deepseek/deepseek-v3.2";
-const OPENROUTER_STANDARD_BACKUP_MODEL = "minimax/minimax-m2.1";
-const OPENROUTER_PREMIUM_PRIMARY_MODEL = "anthropic/claude-sonnet-4";
-const OPENROUTER_PREMIUM_BACKUP_MODEL = "openai/gpt-4.1-mini";
-const DEFAULT_MODEL = FLASH_3_MODEL;
-const ALLOWED_MODELS = new Set([FLASH_MODEL, FLASH_3_MODEL, PRO_MODEL]);
-const OPENROUTER_PREMIUM_MODELS = new Set([OPENROUTER_PREMIUM_PRIMARY_MODEL, OPENROUTER_PREMIUM_BACKUP_MODEL]);
-const OPENROUTER_ALLOWED_MODELS = new Set([
-  OPENROUTER_STANDARD_PRIMARY_MODEL,
-  OPENROUTER_STANDARD_BACKUP_MODEL,
-  OPENROUTER_PREMIUM_PRIMARY_MODEL,
-  OPENROUTER_PREMIUM_BACKUP_MODEL,
-]);
 const UPSTREAM_DEPENDENCY_STATUS = 424;
 const VALIDATION_STATUS = 422;
 const DEFAULT_MAX_CANDIDATES = 25;
@@ -72,22 +64,6 @@ const DEFAULT_MAX_PER_COMPANY = 2;
 const parseProvider = (value: unknown): ReturnType<typeof parseProviderValue> =>
   parseProviderValue(value, DEFAULT_PROVIDER);
 
-const getModelAttemptOrder = (requestedModel: string): string[] =>
-  getPrimarySecondaryTertiaryAttemptOrder(requestedModel, FLASH_MODEL, FLASH_3_MODEL, PRO_MODEL);
-
-const getOpenRouterAttemptOrder = (requestedModel: string): string[] =>
-  OPENROUTER_PREMIUM_MODELS.has(requestedModel)
-    ? getPrimaryBackupAttemptOrder(
-        requestedModel,
-        OPENROUTER_PREMIUM_PRIMARY_MODEL,
-        OPENROUTER_PREMIUM_BACKUP_MODEL,
-      )
-    : getPrimaryBackupAttemptOrder(
-        requestedModel,
-        OPENROUTER_STANDARD_PRIMARY_MODEL,
-        OPENROUTER_STANDARD_BACKUP_MODEL,
-      );
-
 const normalizeText = (value: string, maxChars: number): string => {
   const normalized = value.replace(/\s+/g, " ").trim();
   if (normalized.length <= maxChars) return normalized;
@@ -233,7 +209,7 @@ const normalizeShortlistPayload = (value: any): string[] => {
 
 export async function onRequestPost(context: any): Promise<Response> {
   const request = context.request as Request;
-  const env = context.env as Env;
+  const env = withMockProviderKeys(context.env as Env);
   const requestId = request.headers.get("cf-ray") || crypto.randomUUID();
 
   const parsedBody = await parseJsonBodyWithLimit<any>(request, MAX_BODY_BYTES);
@@ -245,19 +221,18 @@ export async function onRequestPost(context: any): Promise<Response> {
   const body = parsedBody.body;
 
   const provider = parseProvider(body?.provider);
-  if (!provider) {
+  if (!provider || !isProviderAvailableForTask("thread", provider)) {
     return error(400, "BAD_REQUEST", "Field 'provider' is invalid.", "INVALID_PROVIDER");
   }
 
   const model = resolveRequestedModel(body?.model, provider, {
-    gemini: DEFAULT_MODEL,
-    openrouter: OPENROUTER_STANDARD_PRIMARY_MODEL,
+    gemini: getDefaultModel("thread", PROVIDER_GEMINI),
+    openrouter: getDefaultModel("thread", PROVIDER_OPENROUTER),
+    anthropic: getDefaultModel("thread", PROVIDER_ANTHROPIC),
   });
 
-  if (!isAllowedProviderModel(provider, model, { gemini: ALLOWED_MODELS, openrouter: OPENROUTER_ALLOWED_MODELS })) {
-    return provider === PROVIDER_GEMINI
-      ? error(400, "BAD_REQUEST", "Field 'model' is invalid for provider 'gemini'.", "INVALID_MODEL")
-      : error(400, "BAD_REQUEST", "Field 'model' is invalid for provider 'openrouter'.", "INVALID_MODEL");
+  if (!isAllowedTaskModel("thread", provider, model)) {
+    return error(400, "BAD_REQUEST", `Field 'model' is invalid for provider '${provider}'.`, "INVALID_MODEL");
   }
 
   const maxCandidatesRaw = Number(body?.maxCandidates);
@@ -316,12 +291,14 @@ export async function onRequestPost(context: any): Promise<Response> {
   if (provider === PROVIDER_OPENROUTER && !openRouterApiKey) {
     return error(500, "INTERNAL", "Server is missing OPENROUTER_API_KEY.", "MISSING_OPENROUTER_KEY");
   }
+  if (provider === PROVIDER_ANTHROPIC && !env?.ANTHROPIC_API_KEY) {
+    return error(500, "INTERNAL", "Server is missing ANTHROPIC_API_KEY.", "MISSING_ANTHROPIC_KEY");
+  }
 
   const localRanking = buildLocalRanking(normalizedQuotes);
   const fallbackOrder = localRanking.map((quote) => quote.id);
 
-  const modelAttemptOrder =
-    provider === PROVIDER_GEMINI ? getModelAttemptOrder(model) : getOpenRouterAttemptOrder(model);
+  const modelAttemptOrder = getModelAttemptOrder("thread", provider, model);
   const providerPreference =
     provider === PROVIDER_GEMINI ? normalizeGeminiProviderPreference(env?.GEMINI_PROVIDER) : undefined;
 
@@ -342,10 +319,13 @@ export async function onRequestPost(context: any): Promise<Response> {
 
   const inputText = `${THREAD_SHORTLIST_PROMPT}\n\nINPUT JSON:\n${JSON.stringify(shortlistInput)}`;
 
+  const usage = createUsageTracker(env);
+  const transport = createMockProviderTransport(env, "thread_shortlist");
   let lastMessage = "Unknown error";
   for (let attemptIndex = 0; attemptIndex < modelAttemptOrder.length; attemptIndex++) {
     const attemptModel = modelAttemptOrder[attemptIndex];
     const hasFallback = attemptIndex < modelAttemptOrder.length - 1;
+    const onUsage = usage.listenerFor(provider, attemptModel);
 
     try {
       const result =
@@ -358,15 +338,29 @@ export async function onRequestPost(context: any): Promise<Response> {
               responseSchema: THREAD_SHORTLIST_RESPONSE_SCHEMA,
               providerPreference,
               requestId,
+              onUsage,
+              transport,
             })
-          : await callOpenRouterJson({
-              apiKey: openRouterApiKey as string,
-              model: attemptModel,
-              messageContent: inputText,
-              requestId,
-              referer: env?.OPENROUTER_SITE_URL,
-              appTitle: env?.OPENROUTER_APP_TITLE,
-            });
+          : provider === PROVIDER_ANTHROPIC
+            ? await callAnthropicJson({
+                apiKey: env.ANTHROPIC_API_KEY as string,
+                model: attemptModel,
+                messageContent: inputText,
+                responseSchema: THREAD_SHORTLIST_RESPONSE_SCHEMA,
+                requestId,
+                onUsage,
+                transport,
+              })
+            : await callOpenRouterJson({
+                apiKey: openRouterApiKey as string,
+                model: attemptModel,
+                messageContent: inputText,
+                requestId,
+                referer: env?.OPENROUTER_SITE_URL,
+                appTitle: env?.OPENROUTER_APP_TITLE,
+                onUsage,
+                transport,
+              });
 
       const aiIds = normalizeShortlistPayload(result);
       const shortlistedQuoteIds = mergeAndFillIds({
@@ -377,7 +371,7 @@ export async function onRequestPost(context: any): Promise<Response> {
         maxPerCompany,
       });
 
-      return json({ shortlistedQuoteIds });
+      return json({ shortlistedQuoteIds, usage: usage.snapshot(attemptModel) });
     } catch (analysisError: any) {
       const message = String(analysisError?.message || "Thread shortlist generation failed.");
       lastMessage = message;
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { providerHealth } from '../../_shared/providerHealth';
+import { onRequestGet as getHealth } from './gemini';
+
+const completion = (payload: unknown) =>
+  new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(payload) } }] }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+
+const okText = () =>
+  new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: 'OK' }] } }] }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' },
+  });
+
+describe('provider health endpoint', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    providerHealth.reset();
+  });
+
+  it('pings the Gemini models and only the selected OpenRouter model in quick mode', async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.includes('openrouter.ai')
+        ? new Response(JSON.stringify({ error: { message: 'Rate limit exceeded' } }), { status: 429 })
+        : okText(),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await getHealth({
+      request: new Request('https://example.com/api/health/gemini?provider=openrouter&model=minimax/minimax-01'),
+      env: { GEMINI_API_KEY: 'gemini-key', OPENROUTER_API_KEY: 'router-key' },
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.overallState).toBe('ok');
+    expect(body.models.length).toBeGreaterThan(0);
+    expect(body.openRouterModels).toHaveLength(1);
+    expect(body.openRouterModels[0]).toMatchObject({ model: 'minimax/minimax-01', state: 'rate_limited', httpStatus: 429 });
+    expect(body.openRouterState).toBe('rate_limited');
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes('openrouter.ai'))).toHaveLength(1);
+    expect(body.deep).toBeNull();
+  });
+
+  it('runs one schema call per task in deep mode without the quick pings', async () => {
+    const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (!url.includes('openrouter.ai')) return okText();
+      const content = JSON.parse(String(init.body)).messages[0].content;
+      if (Array.isArray(content)) return completion({ slides: [{ selectedPageNumber: 1, context: 'Probe.' }] });
+      // The thread probe returns the wrong shape to exercise output validation.
+      if (content.includes('X thread')) return completion({ tweets: [] });
+      return completion({ quotes: [] });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await getHealth({
+      request: new Request(
+        'https://example.com/api/health/gemini?deep=1&provider=openrouter&model=deepseek/deepseek-v3.2',
+      ),
+      env: { GEMINI_API_KEY: 'gemini-key', OPENROUTER_API_KEY: 'router-key' },
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(body.models).toEqual([]);
+    expect(body.openRouterModels).toEqual([]);
+
+    const tasks = Object.fromEntries(body.deep.tasks.map((task: any) => [task.task, task]));
+    expect(tasks.chatter).toMatchObject({ model: 'deepseek/deepseek-v3.2', state: 'ok' });
+    // deepseek is text-only, so the points probe falls back to the task's default vision model.
+    expect(tasks.points).toMatchObject({ model: 'qwen/qwen2.5-vl-32b-instruct', state: 'ok' });
+    expect(tasks.thread.state).toBe('invalid_output');
+    expect(body.deep.overallState).toBe('invalid_output');
+    expect(body.overallState).toBe('invalid_output');
+  });
+
+  it('keeps deep probe failures out of the shared circuit breakers', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify({ error: { message: 'Rate limit exceeded' } }), { status: 429 })),
+    );
+
+    for (let run = 0; run < 3; run += 1) {
+      const body = await (
+        await getHealth({
+          request: new Request('https://example.com/api/health/gemini?deep=1&provider=openrouter&model=deepseek/deepseek-v3.2'),
+          env: { OPENROUTER_API_KEY: 'router-key' },
+        })
+      ).json();
+      expect(body.deep.tasks[0].state).toBe('rate_limited');
+    }
+
+    expect(providerHealth.snapshot()).toEqual([]);
+  });
+
+  it('rejects an unknown provider in deep mode', async () => {
+    const response = await getHealth({
+      request: new Request('https://example.com/api/health/gemini?deep=1&provider=nope'),
+      env: {},
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
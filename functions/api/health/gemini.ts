@@ -1,12 +1,51 @@
-import { normalizeGeminiProviderPreference } from "../../_shared/gemini";
-import type { GeminiProvider } from "../../_shared/gemini";
-
-interface Env {
+import { callAnthropicJson } from "../../_shared/anthropic";
+import {
+  CHATTER_RESPONSE_SCHEMA,
+  POINTS_RESPONSE_SCHEMA,
+  THREAD_DRAFT_RESPONSE_SCHEMA,
+  callGeminiJson,
+  callOpenAiCompatibleJson,
+  callOpenRouterJson,
+  normalizeGeminiProviderPreference,
+  normalizeOpenAiCompatibleJsonMode,
+} from "../../_shared/gemini";
+import type { GeminiProvider, OpenRouterMessageContent } from "../../_shared/gemini";
+import {
+  getAllowedModels,
+  getDefaultModel,
+  isAllowedTaskModel,
+  type ModelRegistryEnv,
+  type ModelTask,
+} from "../../_shared/modelRegistry";
+import { providerHealth, type CircuitState } from "../../_shared/providerHealth";
+import { error } from "../../_shared/response";
+import {
+  isLocationUnsupportedError,
+  isOverloadError,
+  isStructuredOutputError,
+  isTimeoutError,
+  isUpstreamRateLimit,
+} from "../../_shared/retryPolicy";
+import {
+  ANTHROPIC_PROVIDER,
+  GEMINI_PROVIDER,
+  OPENAI_COMPATIBLE_PROVIDER,
+  OPENROUTER_PROVIDER,
+  parseProvider,
+  type Provider,
+} from "../../_shared/providerModels";
+
+interface Env extends ModelRegistryEnv {
   GEMINI_API_KEY?: string;
   VERTEX_API_KEY?: string;
   GEMINI_PROVIDER?: string;
   OPENROUTER_API_KEY?: string;
   OPENROUTER_MODEL?: string;
+  OPENROUTER_SITE_URL?: string;
+  OPENROUTER_APP_TITLE?: string;
+  ANTHROPIC_API_KEY?: string;
+  OPENAI_COMPATIBLE_API_KEY?: string;
+  OPENAI_COMPATIBLE_JSON_MODE?: string;
 }
 
 type HealthState =
@@ -17,20 +56,75 @@ type HealthState =
   | "overloaded"
   | "timeout"
   | "location_unsupported"
+  | "invalid_output"
   | "upstream_error";
 
+type ProbeTask = Extract<ModelTask, "chatter" | "points" | "thread">;
+
 interface ModelHealth {
   model: string;
-  provider: GeminiProvider;
+  provider: GeminiProvider | typeof OPENROUTER_PROVIDER;
   state: HealthState;
   httpStatus?: number;
   message: string;
+  // Live breaker state from real traffic in this isolate, independent of the probe result.
+  circuitState: CircuitState;
+}
+
+// Deep mode: one schema-constrained call per task through the same client the routes use.
+interface TaskProbe {
+  task: ProbeTask;
+  provider: Provider;
+  model: string;
+  state: HealthState | "skipped";
+  latencyMs?: number;
+  message: string;
 }
 
 const AI_STUDIO_API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
 const VERTEX_EXPRESS_API_BASE = "https://aiplatform.googleapis.com/v1beta1/publishers/google/models";
-const MODELS = ["gemini-2.5-flash", "gemini-3-flash-preview", "gemini-3-pro-preview"] as const;
+const OPENROUTER_API_BASE = "https://openrouter.ai/api/v1/chat/completions";
+const MODELS = Array.from(getAllowedModels("chatter", GEMINI_PROVIDER));
+const OPENROUTER_MODELS = Array.from(
+  new Set(
+    (["chatter", "points", "plotline", "thread"] as ModelTask[]).flatMap((task) =>
+      Array.from(getAllowedModels(task, OPENROUTER_PROVIDER)),
+    ),
+  ),
+);
+const PROBE_TASKS: ProbeTask[] = ["chatter", "points", "thread"];
 const REQUEST_TIMEOUT_MS = 15000;
+const PROBE_IMAGE_DATA_URI =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+const PROBE_QUOTE = "Quick commerce is now 6% of our urban sales and growing faster than any other channel.";
+
+const TASK_PROBE_PROMPTS: Record<ProbeTask, string> = {
+  chatter: [
+    "Health check. Extract the single management quote from this transcript as JSON.",
+    "Use \"Other Material\" as the category and keep every field short.",
+    `TRANSCRIPT:\nRohit Jawa (CEO): ${PROBE_QUOTE}`,
+  ].join("\n"),
+  points: [
+    "Health check. The attached image is page 1 of a one-page investor deck.",
+    "Return the JSON with exactly one slide: selectedPageNumber 1 and a one-sentence context. Use \"Unknown\" for company fields.",
+  ].join("\n"),
+  thread: [
+    "Health check. Draft a very short X thread as JSON for one quote.",
+    `QUOTES:\n[{"quoteId":"q1","company":"Hindustan Unilever","quote":"${PROBE_QUOTE}"}]`,
+  ].join("\n"),
+};
+
+const TASK_PROBE_SCHEMAS: Record<ProbeTask, unknown> = {
+  chatter: CHATTER_RESPONSE_SCHEMA,
+  points: POINTS_RESPONSE_SCHEMA,
+  thread: THREAD_DRAFT_RESPONSE_SCHEMA,
+};
+
+const hasTaskShape = (task: ProbeTask, result: any): boolean => {
+  if (task === "chatter") return Array.isArray(result?.quotes);
+  if (task === "points") return Array.isArray(result?.slides);
+  return typeof result?.introTweet === "string" && Array.isArray(result?.insightTweets);
+};
 
 const json = (payload: unknown, status = 200): Response =>
   new Response(JSON.stringify(payload), {
@@ -49,51 +143,38 @@ const resolveProvider = (value: unknown): GeminiProvider => {
   return normalized === "vertex_express" ? "vertex_express" : "ai_studio";
 };
 
-const isLocationUnsupported = (message: string): boolean => {
-  const normalized = message.toLowerCase();
-  return (
-    normalized.includes("user location is not supported for the api use") ||
-    normalized.includes("location is not supported for the api use")
-  );
-};
-
-const classifyGeminiError = (status: number, message: string): HealthState => {
+const classifyProviderError = (status: number, message: string): HealthState => {
   const normalized = message.toLowerCase();
 
-  if (isLocationUnsupported(message)) {
+  if (isLocationUnsupportedError(message)) {
     return "location_unsupported";
   }
 
+  if (isStructuredOutputError(message)) {
+    return "invalid_output";
+  }
+
   if (
     status === 401 ||
     status === 403 ||
     normalized.includes("api key not valid") ||
     normalized.includes("permission denied") ||
-    normalized.includes("api_key_invalid")
+    normalized.includes("api_key_invalid") ||
+    normalized.includes("no auth credentials")
   ) {
     return "invalid_key";
   }
 
-  if (
-    status === 429 ||
-    normalized.includes("quota") ||
-    normalized.includes("rate limit") ||
-    normalized.includes("too many requests") ||
-    normalized.includes("resource exhausted")
-  ) {
+  // Same needles the routes' retry and circuit logic use, so the probe and real traffic agree on a cause.
+  if (status === 429 || isUpstreamRateLimit(message, { includeFreeTierRateLimitToken: true })) {
     return "rate_limited";
   }
 
-  if (
-    status === 503 ||
-    normalized.includes("high demand") ||
-    normalized.includes("overload") ||
-    normalized.includes("temporarily unavailable")
-  ) {
+  if (status === 503 || isOverloadError(message)) {
     return "overloaded";
   }
 
-  if (normalized.includes("timed out") || normalized.includes("timeout") || normalized.includes("abort")) {
+  if (isTimeoutError(message) || normalized.includes("abort")) {
     return "timeout";
   }
 
@@ -124,7 +205,11 @@ const parseGeminiMessage = async (response: Response): Promise<string> => {
   return `Gemini responded with status ${response.status}.`;
 };
 
-const runModelProbe = async (params: { apiKey: string; model: string; provider: GeminiProvider }): Promise<ModelHealth> => {
+const runModelProbe = async (params: {
+  apiKey: string;
+  model: string;
+  provider: GeminiProvider;
+}): Promise<Omit<ModelHealth, "circuitState">> => {
   const { apiKey, model, provider } = params;
   const endpoint = `${providerBase(provider)}/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(apiKey)}`;
   const controller = new AbortController();
@@ -168,7 +253,7 @@ const runModelProbe = async (params: { apiKey: string; model: string; provider:
     return {
       model,
       provider,
-      state: classifyGeminiError(response.status, message),
+      state: classifyProviderError(response.status, message),
       httpStatus: response.status,
       message,
     };
@@ -189,7 +274,207 @@ const runModelProbe = async (params: { apiKey: string; model: string; provider:
   }
 };
 
-const evaluateOverallState = (results: ModelHealth[]): HealthState => {
+const parseChatCompletionMessage = async (response: Response): Promise<string> => {
+  let payload: any = null;
+  try {
+    payload = await response.json();
+  } catch {
+    // Ignore JSON parse failures; the status alone is reported.
+  }
+  const message = payload?.error?.message || payload?.message;
+  return typeof message === "string" && message.trim()
+    ? message.trim()
+    : `OpenRouter responded with status ${response.status}.`;
+};
+
+const runOpenRouterProbe = async (params: { apiKey: string; model: string }): Promise<ModelHealth> => {
+  const { apiKey, model } = params;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort("timeout"), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(OPENROUTER_API_BASE, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        max_tokens: 8,
+        messages: [{ role: "user", content: "Health check probe. Reply with OK." }],
+      }),
+      signal: controller.signal,
+    });
+
+    if (response.ok) {
+      return {
+        model,
+        provider: OPENROUTER_PROVIDER,
+        state: "ok",
+        httpStatus: response.status,
+        message: "Model responded successfully.",
+        circuitState: providerHealth.getState(OPENROUTER_PROVIDER, model),
+      };
+    }
+
+    const message = await parseChatCompletionMessage(response);
+    return {
+      model,
+      provider: OPENROUTER_PROVIDER,
+      state: classifyProviderError(response.status, message),
+      httpStatus: response.status,
+      message,
+      circuitState: providerHealth.getState(OPENROUTER_PROVIDER, model),
+    };
+  } catch (error: any) {
+    const message = controller.signal.aborted
+      ? "OpenRouter probe timed out."
+      : String(error?.message || "Unknown request failure");
+    return {
+      model,
+      provider: OPENROUTER_PROVIDER,
+      state: controller.signal.aborted ? "timeout" : "upstream_error",
+      message,
+      circuitState: providerHealth.getState(OPENROUTER_PROVIDER, model),
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const resolveProbeModel = (task: ProbeTask, provider: Provider, requestedModel: string, env: Env): string =>
+  requestedModel && isAllowedTaskModel(task, provider, requestedModel, env)
+    ? requestedModel
+    : getDefaultModel(task, provider, env);
+
+const missingProviderCredential = (provider: Provider, env: Env): string | null => {
+  if (provider === GEMINI_PROVIDER && !env?.GEMINI_API_KEY && !env?.VERTEX_API_KEY) {
+    return "GEMINI_API_KEY (or VERTEX_API_KEY) is not configured.";
+  }
+  if (provider === OPENROUTER_PROVIDER && !env?.OPENROUTER_API_KEY) return "OPENROUTER_API_KEY is not configured.";
+  if (provider === ANTHROPIC_PROVIDER && !env?.ANTHROPIC_API_KEY) return "ANTHROPIC_API_KEY is not configured.";
+  if (provider === OPENAI_COMPATIBLE_PROVIDER && !env?.OPENAI_COMPATIBLE_BASE_URL?.trim()) {
+    return "OPENAI_COMPATIBLE_BASE_URL is not configured.";
+  }
+  return null;
+};
+
+// Probes go through the routes' clients but never record into the shared circuit breakers, so a
+// diagnostic run against a struggling provider cannot reorder or block real traffic.
+const callProbeModel = (params: {
+  task: ProbeTask;
+  provider: Provider;
+  model: string;
+  env: Env;
+  requestId: string;
+}): Promise<any> => {
+  const { task, provider, model, env, requestId } = params;
+  const prompt = TASK_PROBE_PROMPTS[task];
+  const responseSchema = TASK_PROBE_SCHEMAS[task];
+  const withImage = task === "points";
+
+  if (provider === GEMINI_PROVIDER) {
+    const parts: unknown[] = [{ text: prompt }];
+    if (withImage) {
+      parts.push({ inlineData: { mimeType: "image/png", data: PROBE_IMAGE_DATA_URI.split(",")[1] } });
+    }
+    return callGeminiJson({
+      apiKey: env.GEMINI_API_KEY || "",
+      vertexApiKey: env.VERTEX_API_KEY,
+      providerPreference: normalizeGeminiProviderPreference(env.GEMINI_PROVIDER),
+      model,
+      requestId,
+      contents: [{ parts }],
+      responseSchema,
+      recordHealth: false,
+    });
+  }
+
+  const messageContent: OpenRouterMessageContent = withImage
+    ? [
+        { type: "text", text: prompt },
+        { type: "image_url", image_url: { url: PROBE_IMAGE_DATA_URI } },
+      ]
+    : prompt;
+
+  if (provider === ANTHROPIC_PROVIDER) {
+    return callAnthropicJson({
+      apiKey: env.ANTHROPIC_API_KEY as string,
+      model,
+      requestId,
+      messageContent,
+      responseSchema,
+      recordHealth: false,
+    });
+  }
+  if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+    return callOpenAiCompatibleJson({
+      baseUrl: env.OPENAI_COMPATIBLE_BASE_URL as string,
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+      model,
+      requestId,
+      jsonMode: normalizeOpenAiCompatibleJsonMode(env.OPENAI_COMPATIBLE_JSON_MODE),
+      responseSchema,
+      messageContent,
+      recordHealth: false,
+    });
+  }
+  return callOpenRouterJson({
+    apiKey: env.OPENROUTER_API_KEY as string,
+    model,
+    requestId,
+    referer: env.OPENROUTER_SITE_URL,
+    appTitle: env.OPENROUTER_APP_TITLE || "The Chatter Analyst",
+    messageContent: withImage
+      ? messageContent
+      : `${prompt}\n\nReturn only one valid JSON object matching this schema: ${JSON.stringify(responseSchema)}`,
+    recordHealth: false,
+  });
+};
+
+const runTaskProbe = async (params: {
+  task: ProbeTask;
+  provider: Provider;
+  requestedModel: string;
+  env: Env;
+  requestId: string;
+}): Promise<TaskProbe> => {
+  const { task, provider, requestedModel, env, requestId } = params;
+  const model = resolveProbeModel(task, provider, requestedModel, env);
+  if (!model) {
+    return { task, provider, model: "", state: "skipped", message: `${provider} does not serve ${task} requests.` };
+  }
+
+  const missingCredential = missingProviderCredential(provider, env);
+  if (missingCredential) {
+    return { task, provider, model, state: "missing_key", message: missingCredential };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const result = await callProbeModel({ task, provider, model, env, requestId });
+    const latencyMs = Date.now() - startedAt;
+    if (!hasTaskShape(task, result)) {
+      return { task, provider, model, state: "invalid_output", latencyMs, message: "Response did not match the task schema." };
+    }
+    return { task, provider, model, state: "ok", latencyMs, message: "Schema-constrained call succeeded." };
+  } catch (error: any) {
+    const message = String(error?.message || "Unknown request failure");
+    const status = Number(message.match(/status (\d{3})/)?.[1] ?? 0);
+    return {
+      task,
+      provider,
+      model,
+      state: classifyProviderError(status, message),
+      latencyMs: Date.now() - startedAt,
+      message,
+    };
+  }
+};
+
+const evaluateOverallState = (results: Array<Pick<ModelHealth, "state">>): HealthState => {
   if (results.every((result) => result.state === "ok")) {
     return "ok";
   }
@@ -208,6 +493,9 @@ const evaluateOverallState = (results: ModelHealth[]): HealthState => {
   if (results.some((result) => result.state === "location_unsupported")) {
     return "location_unsupported";
   }
+  if (results.some((result) => result.state === "invalid_output")) {
+    return "invalid_output";
+  }
   return "upstream_error";
 };
 
@@ -216,14 +504,63 @@ const missingKeyMessage = (provider: GeminiProvider): string =>
     ? "VERTEX_API_KEY (or GEMINI_API_KEY fallback) is required when GEMINI_PROVIDER=vertex_express."
     : "GEMINI_API_KEY is required for ai_studio provider.";
 
+const resolveOpenRouterModel = (env: Env): string =>
+  typeof env?.OPENROUTER_MODEL === "string" && env.OPENROUTER_MODEL.trim()
+    ? env.OPENROUTER_MODEL.trim()
+    : "minimax/minimax-01";
+
+const isDeepModeRequested = (value: string | null): boolean => value === "1" || value === "true";
+
 const handleGeminiHealth = async (context: any): Promise<Response> => {
   const env = context.env as Env;
+  const searchParams = new URL(context.request.url).searchParams;
   const providerPreference = resolveProvider(env?.GEMINI_PROVIDER);
   const apiKey =
     providerPreference === "vertex_express"
       ? env?.VERTEX_API_KEY || env?.GEMINI_API_KEY
       : env?.GEMINI_API_KEY;
 
+  const requestedProvider = parseProvider(searchParams.get("provider"));
+  const requestedModel = searchParams.get("model")?.trim() || "";
+  const openRouterApiKey = env?.OPENROUTER_API_KEY?.trim();
+
+  // Deep mode answers for the selected provider only, so the quick pings are skipped entirely.
+  if (isDeepModeRequested(searchParams.get("deep"))) {
+    if (!requestedProvider) {
+      return error(400, "BAD_REQUEST", "Unknown provider for deep health check.", "INVALID_PROVIDER");
+    }
+    const requestId = crypto.randomUUID().slice(0, 8);
+    const tasks = await Promise.all(
+      PROBE_TASKS.map((task) => runTaskProbe({ task, provider: requestedProvider, requestedModel, env, requestId })),
+    );
+    const probed = tasks.filter((task): task is TaskProbe & { state: HealthState } => task.state !== "skipped");
+    const deepState = evaluateOverallState(probed);
+    return json({
+      service: "gemini",
+      timestamp: new Date().toISOString(),
+      overallState: deepState,
+      keyConfigured: Boolean(apiKey),
+      keyState: apiKey ? "configured" : "missing",
+      providerPreference,
+      openRouterConfigured: Boolean(openRouterApiKey),
+      openRouterModel: resolveOpenRouterModel(env),
+      models: [],
+      openRouterModels: [],
+      deep: { provider: requestedProvider, overallState: deepState, tasks },
+      circuits: providerHealth.snapshot(),
+    });
+  }
+
+  // Each OpenRouter ping is a paid call, so only the selected model (or the configured default) is pinged.
+  const openRouterProbeModel =
+    requestedProvider === OPENROUTER_PROVIDER && OPENROUTER_MODELS.includes(requestedModel)
+      ? requestedModel
+      : resolveOpenRouterModel(env);
+  const openRouterResults = openRouterApiKey
+    ? [await runOpenRouterProbe({ apiKey: openRouterApiKey, model: openRouterProbeModel })]
+    : [];
+  const openRouterState: HealthState = openRouterApiKey ? evaluateOverallState(openRouterResults) : "missing_key";
+
   if (!apiKey) {
     return json({
       service: "gemini",
@@ -232,19 +569,21 @@ const handleGeminiHealth = async (context: any): Promise<Response> => {
       keyConfigured: false,
       keyState: "missing",
       providerPreference,
-      openRouterConfigured: Boolean(env?.OPENROUTER_API_KEY),
-      openRouterModel:
-        typeof env?.OPENROUTER_MODEL === "string" && env.OPENROUTER_MODEL.trim()
-          ? env.OPENROUTER_MODEL.trim()
-          : "minimax/minimax-01",
+      openRouterConfigured: Boolean(openRouterApiKey),
+      openRouterModel: resolveOpenRouterModel(env),
+      openRouterState,
       message: missingKeyMessage(providerPreference),
       models: [],
+      openRouterModels: openRouterResults,
+      deep: null,
+      circuits: providerHealth.snapshot(),
     });
   }
 
   const modelResults: ModelHealth[] = [];
   for (const model of MODELS) {
-    modelResults.push(await runModelProbe({ apiKey, model, provider: providerPreference }));
+    const probe = await runModelProbe({ apiKey, model, provider: providerPreference });
+    modelResults.push({ ...probe, circuitState: providerHealth.getState(providerPreference, model) });
   }
 
   const overallState = evaluateOverallState(modelResults);
@@ -261,6 +600,13 @@ const handleGeminiHealth = async (context: any): Promise<Response> => {
       "Check models[].state for root cause (invalid_key, rate_limited, overloaded, timeout, location_unsupported, or upstream_error).";
   }
 
+  const openCircuits = providerHealth.snapshot().filter((circuit) => circuit.state === "open");
+  if (openCircuits.length > 0) {
+    guidance += ` Open circuits (tried last until they cool down): ${openCircuits
+      .map((circuit) => `${circuit.provider}:${circuit.model}`)
+      .join(", ")}.`;
+  }
+
   return json({
     service: "gemini",
     timestamp: new Date().toISOString(),
@@ -268,12 +614,13 @@ const handleGeminiHealth = async (context: any): Promise<Response> => {
     keyConfigured: true,
     keyState,
     providerPreference,
-    openRouterConfigured: Boolean(env?.OPENROUTER_API_KEY),
-    openRouterModel:
-      typeof env?.OPENROUTER_MODEL === "string" && env.OPENROUTER_MODEL.trim()
-        ? env.OPENROUTER_MODEL.trim()
-        : "minimax/minimax-01",
+    openRouterConfigured: Boolean(openRouterApiKey),
+    openRouterModel: resolveOpenRouterModel(env),
+    openRouterState,
     models: modelResults,
+    openRouterModels: openRouterResults,
+    deep: null,
+    circuits: providerHealth.snapshot(),
     guidance,
   });
 };
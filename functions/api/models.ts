@@ -0,0 +1,33 @@
+import { buildModelCatalog, parseOpenAiCompatibleModels, type ModelRegistryEnv } from "../_shared/modelRegistry";
+import {
+  ANTHROPIC_PROVIDER,
+  GEMINI_PROVIDER,
+  OPENAI_COMPATIBLE_PROVIDER,
+  OPENROUTER_PROVIDER,
+  type Provider,
+} from "../_shared/providerModels";
+
+interface Env extends ModelRegistryEnv {
+  GEMINI_API_KEY?: string;
+  OPENROUTER_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+}
+
+const handleModels = async (context: any): Promise<Response> => {
+  const env = context.env as Env;
+  const configuredProviders = new Set<Provider>();
+  if (env?.GEMINI_API_KEY) configuredProviders.add(GEMINI_PROVIDER);
+  if (env?.OPENROUTER_API_KEY) configuredProviders.add(OPENROUTER_PROVIDER);
+  if (env?.ANTHROPIC_API_KEY) configuredProviders.add(ANTHROPIC_PROVIDER);
+  if (parseOpenAiCompatibleModels(env).length > 0) configuredProviders.add(OPENAI_COMPATIBLE_PROVIDER);
+
+  return new Response(JSON.stringify(buildModelCatalog(configuredProviders, env)), {
+    status: 200,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "public, max-age=300",
+    },
+  });
+};
+
+export const onRequestGet = handleModels;
@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onRequestPost } from './analyze';
+
+const thesis = 'How FMCG companies respond to quick commerce';
+const transcript =
+  'Rohit Jawa: Quick commerce is now 6% of our urban sales and we have set up a separate team to serve the channel. '.repeat(3);
+
+const makeContext = (body: unknown) => ({
+  request: new Request('https://example.com/api/plotline/analyze', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }),
+  env: { OPENROUTER_API_KEY: 'test-key' },
+});
+
+describe('plotline analyze endpoint', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('rejects providers and models outside the plotline allow-list before calling upstream', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const unknownProvider = await onRequestPost(makeContext({ thesis, transcript, provider: 'mistral', model: 'minimax/minimax-m2.5' }));
+    const unlistedModel = await onRequestPost(makeContext({ thesis, transcript, provider: 'openrouter', model: 'test/model' }));
+
+    expect(unknownProvider.status).toBe(400);
+    expect(unlistedModel.status).toBe(400);
+    expect((await unlistedModel.json()).error).toContain('test/model');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,15 +1,39 @@
 import {
   callGeminiJson,
   callOpenRouterJson,
-  PLOTLINE_EXTRACT_PROMPT,
   PLOTLINE_EXTRACT_RESPONSE_SCHEMA,
 } from '../../_shared/gemini';
+import { callAnthropicJson } from '../../_shared/anthropic';
+import { createMockProviderTransport, isMockProviderEnabled, withMockProviderKeys } from '../../_shared/mockProvider';
+import { isAllowedTaskModel } from '../../_shared/modelRegistry';
+import { buildModelAttemptEvent, respondWithOptionalStream, type StageEmitter } from '../../_shared/progressStream';
+import { resolvePrompt } from '../../_shared/promptRegistry';
+import { GEMINI_PROVIDER, parseProvider as parseProviderValue } from '../../_shared/providerModels';
+import {
+  countQuoteVerificationStatuses,
+  QUOTE_VERIFICATION_VERSION,
+  verifyQuotesAgainstTranscript,
+  type QuoteVerification,
+} from '../../_shared/quoteVerification';
+import {
+  buildResultCacheKey,
+  derivePromptVersion,
+  normalizeCacheText,
+  readCachedResult,
+  resolveResultCacheStore,
+  writeCachedResult,
+} from '../../_shared/resultCache';
+import { jaccardSimilarity, toTokenSet } from '../../_shared/textSimilarity';
+import { normalizeScrip } from '../../_shared/validation';
+import { createUsageTracker, emptyRequestUsage } from '../../_shared/usage';
 
 interface PlotlineAnalyzeRequest {
   thesis: string;
   transcript: string;
-  provider: 'gemini' | 'openrouter';
+  provider: 'gemini' | 'openrouter' | 'anthropic';
   model: string;
+  promptVersion?: string;
+  bypassCache?: boolean;
 }
 
 interface PlotlineQuoteRaw {
@@ -18,6 +42,7 @@ interface PlotlineQuoteRaw {
   speakerDesignation: string;
   periodLabel: string;
   periodSortKey: number;
+  verification?: QuoteVerification;
 }
 
 interface PlotlineAnalyzeResponse {
@@ -41,28 +66,16 @@ const STOP_WORDS = new Set([
   'than', 'they', 'them', 'over', 'some', 'such',
 ]);
 
-const toTokenSet = (text: string): Set<string> => {
-  const tokens = text.toLowerCase().split(/\W+/).filter(Boolean);
-  return new Set(tokens.filter(t => t.length >= 3 && !STOP_WORDS.has(t)));
-};
-
-const jaccardSimilarity = (a: Set<string>, b: Set<string>): number => {
-  if (a.size === 0 || b.size === 0) return 0;
-  let overlap = 0;
-  for (const token of a) {
-    if (b.has(token)) overlap++;
-  }
-  const union = a.size + b.size - overlap;
-  return union > 0 ? overlap / union : 0;
-};
+const toQuoteTokens = (text: string): Set<string> =>
+  toTokenSet(text, { minTokenLength: 3, stopWords: STOP_WORDS });
 
 const dedupeQuotes = (quotes: PlotlineQuoteRaw[]): PlotlineQuoteRaw[] => {
   const deduped: PlotlineQuoteRaw[] = [];
   for (const candidate of quotes) {
-    const candidateTokens = toTokenSet(candidate.quote);
+    const candidateTokens = toQuoteTokens(candidate.quote);
     let isDuplicate = false;
     for (const existing of deduped) {
-      if (jaccardSimilarity(candidateTokens, toTokenSet(existing.quote)) >= DEDUPE_STRONG_SIMILARITY) {
+      if (jaccardSimilarity(candidateTokens, toQuoteTokens(existing.quote)) >= DEDUPE_STRONG_SIMILARITY) {
         isDuplicate = true;
         break;
       }
@@ -77,10 +90,7 @@ const sanitizeString = (value: unknown, maxLen: number): string => {
   return value.trim().slice(0, maxLen);
 };
 
-const sanitizeNseScrip = (value: unknown): string => {
-  if (typeof value !== 'string') return '';
-  return value.trim().toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 20);
-};
+const sanitizeNseScrip = (value: unknown): string => normalizeScrip(value).slice(0, 20);
 
 const clampPeriodSortKey = (value: unknown): number => {
   const num = Number(value);
@@ -103,7 +113,7 @@ const sanitizeQuote = (raw: unknown): PlotlineQuoteRaw | null => {
 const buildUserContent = (thesis: string, transcript: string): string =>
   `THESIS\n${thesis}\n\nTRANSCRIPT\n${transcript}`;
 
-export async function onRequestPost(context: any): Promise<Response> {
+async function handleAnalyzeRequest(context: any, emit: StageEmitter): Promise<Response> {
   const requestId = crypto.randomUUID().slice(0, 8);
 
   let body: PlotlineAnalyzeRequest;
@@ -113,7 +123,7 @@ export async function onRequestPost(context: any): Promise<Response> {
     return Response.json({ error: 'Invalid JSON body.' }, { status: 400 });
   }
 
-  const { thesis, transcript, provider, model } = body;
+  const { thesis, transcript, model } = body;
 
   if (!thesis || typeof thesis !== 'string' || thesis.trim().length < 10) {
     return Response.json({ error: 'Thesis must be at least 10 characters.' }, { status: 400 });
@@ -121,13 +131,52 @@ export async function onRequestPost(context: any): Promise<Response> {
   if (!transcript || typeof transcript !== 'string' || transcript.trim().length < 100) {
     return Response.json({ error: 'Transcript must be at least 100 characters.' }, { status: 400 });
   }
+  if (!model || typeof model !== 'string') {
+    return Response.json({ error: 'Model is required.' }, { status: 400 });
+  }
+
+  const provider = parseProviderValue(body.provider, GEMINI_PROVIDER);
+  if (!provider) {
+    return Response.json({ error: 'Provider must be gemini, openrouter or anthropic.' }, { status: 400 });
+  }
+  if (!isAllowedTaskModel('plotline', provider, model, context.env)) {
+    return Response.json({ error: `Model '${model}' is not allowed for provider '${provider}'.` }, { status: 400 });
+  }
+
+  const prompt = resolvePrompt('plotline_extract', body.promptVersion, context.env);
+  if ('error' in prompt) {
+    return Response.json({ error: prompt.error }, { status: 400 });
+  }
 
   const clampedThesis = thesis.trim().slice(0, MAX_THESIS_CHARS);
   const clampedTranscript = transcript.trim().slice(0, MAX_TRANSCRIPT_CHARS);
   const userContent = buildUserContent(clampedThesis, clampedTranscript);
 
+  const cacheStore = resolveResultCacheStore(context.env);
+  // Mock runs neither read nor write the cache, so scripted outputs never mix with real results.
+  const useCache = !isMockProviderEnabled(context.env);
+  const cacheKey = await buildResultCacheKey({
+    route: 'plotline',
+    provider,
+    model,
+    promptVersion: await derivePromptVersion(prompt.text, QUOTE_VERIFICATION_VERSION),
+    input: { thesis: normalizeCacheText(clampedThesis), transcript: normalizeCacheText(clampedTranscript) },
+  });
+  if (useCache && body.bypassCache !== true) {
+    const cachedResult = await readCachedResult<Record<string, unknown>>(cacheStore, cacheKey);
+    if (cachedResult) {
+      console.log(JSON.stringify({ event: 'plotline_cache_hit', requestId, provider, model }));
+      emit({ stage: 'finalizing', kind: 'cache_hit', message: 'Reusing a cached extraction for this transcript.', percent: 95 });
+      return Response.json({ ...cachedResult, promptVersion: prompt.version, cached: true, usage: emptyRequestUsage() });
+    }
+  }
+
   let result: PlotlineAnalyzeResponse;
+  const usage = createUsageTracker(context.env);
+  const onUsage = usage.listenerFor(provider === 'openrouter' || provider === 'anthropic' ? provider : 'gemini', model);
+  const transport = createMockProviderTransport(context.env, 'plotline_extract');
 
+  emit(buildModelAttemptEvent({ attemptIndex: 0, attemptCount: 1, attemptModel: model }));
   try {
     if (provider === 'openrouter') {
       const apiKey = context.env.OPENROUTER_API_KEY;
@@ -138,12 +187,31 @@ export async function onRequestPost(context: any): Promise<Response> {
         apiKey,
         model,
         messageContent: [
-          { type: 'text', text: PLOTLINE_EXTRACT_PROMPT },
+          { type: 'text', text: prompt.text },
           { type: 'text', text: userContent },
         ],
         requestId,
         referer: context.env.OPENROUTER_SITE_URL,
         appTitle: context.env.OPENROUTER_APP_TITLE,
+        onUsage,
+        transport,
+      });
+    } else if (provider === 'anthropic') {
+      const apiKey = context.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        return Response.json({ error: 'Anthropic API key not configured.' }, { status: 500 });
+      }
+      result = await callAnthropicJson({
+        apiKey,
+        model,
+        messageContent: [
+          { type: 'text', text: prompt.text },
+          { type: 'text', text: userContent },
+        ],
+        responseSchema: PLOTLINE_EXTRACT_RESPONSE_SCHEMA,
+        requestId,
+        onUsage,
+        transport,
       });
     } else {
       const apiKey = context.env.GEMINI_API_KEY;
@@ -155,11 +223,13 @@ export async function onRequestPost(context: any): Promise<Response> {
         vertexApiKey: context.env.VERTEX_API_KEY,
         model,
         contents: [
-          { role: 'user', parts: [{ text: PLOTLINE_EXTRACT_PROMPT + '\n\n' + userContent }] },
+          { role: 'user', parts: [{ text: prompt.text + '\n\n' + userContent }] },
         ],
         responseSchema: PLOTLINE_EXTRACT_RESPONSE_SCHEMA,
         providerPreference: (context.env.GEMINI_PROVIDER as any) || 'ai_studio',
         requestId,
+        onUsage,
+        transport,
       });
     }
   } catch (error: any) {
@@ -177,16 +247,37 @@ export async function onRequestPost(context: any): Promise<Response> {
   const marketCapCategory = sanitizeString(result.marketCapCategory, 30);
   const industry = sanitizeString(result.industry, 100);
 
+  emit({ stage: 'finalizing', kind: 'validation', message: 'Checking quotes against the transcript and de-duplicating...', percent: 90, model });
   const rawQuotes = Array.isArray(result.quotes) ? result.quotes : [];
   const sanitizedQuotes = rawQuotes.map(sanitizeQuote).filter((q): q is PlotlineQuoteRaw => q !== null);
-  const dedupedQuotes = dedupeQuotes(sanitizedQuotes);
+  const verifiedQuotes = verifyQuotesAgainstTranscript(sanitizedQuotes, clampedTranscript);
+  const dedupedQuotes = dedupeQuotes(verifiedQuotes);
+  console.log(
+    JSON.stringify({
+      event: 'plotline_quote_verification',
+      requestId,
+      quotes: dedupedQuotes.length,
+      ...countQuoteVerificationStatuses(dedupedQuotes),
+    }),
+  );
 
-  return Response.json({
+  const response = {
     companyName,
     fiscalPeriod,
     nseScrip,
     marketCapCategory,
     industry,
     quotes: dedupedQuotes,
-  });
-};
+  };
+  if (useCache && !(await writeCachedResult(cacheStore, cacheKey, response))) {
+    console.log(JSON.stringify({ event: 'plotline_cache_write_failed', requestId }));
+  }
+
+  return Response.json({ ...response, promptVersion: prompt.version, usage: usage.snapshot(model) });
+}
+
+export async function onRequestPost(context: any): Promise<Response> {
+  return respondWithOptionalStream(context.request as Request, (emit) =>
+    handleAnalyzeRequest({ ...context, env: withMockProviderKeys(context.env) }, emit),
+  );
+}
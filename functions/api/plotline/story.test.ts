@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onRequestPost } from './story';
+
+const companyGroups = [
+  {
+    companyKey: 'HUL',
+    companyName: 'Hindustan Unilever',
+    nseScrip: 'HINDUNILVR',
+    industry: 'FMCG',
+    periods: ['Q2 FY26', 'Q3 FY26'],
+    quotes: [
+      {
+        quoteId: 'HUL-202509-0',
+        quote: 'Quick commerce is now 6% of our urban sales.',
+        speakerName: 'Rohit Jawa',
+        speakerDesignation: 'CEO',
+        periodLabel: 'Q2 FY26',
+        periodSortKey: 202509,
+        selected: true,
+      },
+      {
+        quoteId: 'HUL-202512-1',
+        quote: 'We have set up a separate team for quick commerce.',
+        speakerName: 'Ritesh Tiwari',
+        speakerDesignation: 'CFO',
+        periodLabel: 'Q3 FY26',
+        periodSortKey: 202512,
+        selected: true,
+      },
+      {
+        quoteId: 'HUL-202512-2',
+        quote: 'This quote was deselected by the editor.',
+        speakerName: 'Ritesh Tiwari',
+        speakerDesignation: 'CFO',
+        periodLabel: 'Q3 FY26',
+        periodSortKey: 202512,
+        selected: false,
+      },
+    ],
+  },
+];
+
+const plan = {
+  title: 'Quick commerce rewires FMCG distribution',
+  dek: 'Companies are carving out dedicated teams.',
+  chronologyMode: 'evolution',
+  sections: [
+    {
+      companyKey: 'HUL',
+      subhead: 'From channel experiment to dedicated team',
+      framing: 'evolution',
+      quoteIds: ['HUL-202509-0', 'HUL-202512-1', 'HUL-202512-2'],
+    },
+  ],
+  skippedCompanyKeys: [],
+};
+
+const makeContext = (body: unknown) => ({
+  request: new Request('https://example.com/api/plotline/story', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }),
+  env: { OPENROUTER_API_KEY: 'test-key' },
+});
+
+const stubOpenRouterResponse = (payload: unknown) => {
+  const fetchMock = vi.fn(async () =>
+    new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(payload) } }] }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    }),
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('plotline story endpoint', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('rebuilds quote blocks from evidence and ignores unknown or deselected quote ids', async () => {
+    const fetchMock = stubOpenRouterResponse({
+      title: 'Quick commerce gets its own team',
+      dek: 'HUL moved from measuring the channel to organising around it.',
+      sections: [
+        {
+          companyKey: 'HUL',
+          paragraphs: ['First it was a number.', 'Then it became an org chart.'],
+          quoteIds: ['HUL-202509-0', 'made-up-id', 'HUL-202512-1'],
+        },
+      ],
+      watchNext: ['Whether the separate team gets its own P&L.'],
+    });
+
+    const response = await onRequestPost(
+      makeContext({ thesis: 'How FMCG companies respond to quick commerce', companyGroups, provider: 'openrouter', model: 'minimax/minimax-m2.5', plan }),
+    );
+    const story = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(story.planSource).toBe('client');
+    expect(story.writerFallbackUsed).toBe(false);
+    expect(story.sections).toHaveLength(1);
+    expect(story.sections[0].quoteBlocks.map((block: any) => block.quoteId)).toEqual(['HUL-202509-0', 'HUL-202512-1']);
+    expect(story.sections[0].quoteBlocks[0].quote).toBe('Quick commerce is now 6% of our urban sales.');
+  });
+
+  it('falls back to a deterministic story when the writer returns nothing usable', async () => {
+    stubOpenRouterResponse({ sections: [], watchNext: [] });
+
+    const response = await onRequestPost(
+      makeContext({ thesis: 'How FMCG companies respond to quick commerce', companyGroups, provider: 'openrouter', model: 'minimax/minimax-m2.5', plan }),
+    );
+    const story = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(story.writerFallbackUsed).toBe(true);
+    expect(story.title).toBe(plan.title);
+    expect(story.sections[0].paragraphs.length).toBeGreaterThan(0);
+    expect(story.sections[0].quoteBlocks).toHaveLength(2);
+    expect(story.watchNext.length).toBeGreaterThan(0);
+  });
+
+  it('rejects providers and models outside the plotline allow-list before calling upstream', async () => {
+    const fetchMock = stubOpenRouterResponse({});
+    const thesis = 'How FMCG companies respond to quick commerce';
+
+    const unknownProvider = await onRequestPost(makeContext({ thesis, companyGroups, provider: 'mistral', model: 'minimax/minimax-m2.5', plan }));
+    const unlistedModel = await onRequestPost(makeContext({ thesis, companyGroups, provider: 'openrouter', model: 'test/model', plan }));
+
+    expect(unknownProvider.status).toBe(400);
+    expect(unlistedModel.status).toBe(400);
+    expect((await unlistedModel.json()).error).toContain('test/model');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
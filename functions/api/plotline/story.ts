@@ -0,0 +1,493 @@
+import {
+  callGeminiJson,
+  callOpenRouterJson,
+  PLOTLINE_STORY_PLAN_PROMPT,
+  PLOTLINE_STORY_PLAN_RESPONSE_SCHEMA,
+  PLOTLINE_STORY_WRITER_PROMPT,
+  PLOTLINE_STORY_WRITER_RESPONSE_SCHEMA,
+} from '../../_shared/gemini';
+import { callAnthropicJson } from '../../_shared/anthropic';
+import { createMockProviderTransport, withMockProviderKeys, type ProviderTransport } from '../../_shared/mockProvider';
+import { isAllowedTaskModel } from '../../_shared/modelRegistry';
+import { GEMINI_PROVIDER, parseProvider as parseProviderValue } from '../../_shared/providerModels';
+import { createUsageTracker, type UsageListener } from '../../_shared/usage';
+
+type StoryFraming = 'evolution' | 'contrast';
+
+interface PlotlineStoryRequest {
+  thesis: string;
+  companyGroups: unknown;
+  provider: 'gemini' | 'openrouter' | 'anthropic';
+  model: string;
+  plan?: unknown;
+}
+
+interface EvidenceQuote {
+  quoteId: string;
+  quote: string;
+  speakerName: string;
+  speakerDesignation: string;
+  periodLabel: string;
+  periodSortKey: number;
+}
+
+interface EvidenceCompany {
+  companyKey: string;
+  companyName: string;
+  nseScrip: string;
+  industry: string;
+  periods: string[];
+  quotes: EvidenceQuote[];
+}
+
+interface StorySectionPlan {
+  companyKey: string;
+  subhead: string;
+  framing: StoryFraming;
+  quoteIds: string[];
+}
+
+interface StoryPlan {
+  title: string;
+  dek: string;
+  chronologyMode: StoryFraming;
+  sections: StorySectionPlan[];
+  skippedCompanyKeys: string[];
+}
+
+interface StoryQuoteBlock {
+  quoteId: string;
+  quote: string;
+  speakerName: string;
+  speakerDesignation: string;
+  periodLabel: string;
+}
+
+interface StorySection {
+  companyKey: string;
+  companyName: string;
+  nseScrip: string;
+  industry: string;
+  subhead: string;
+  framing: StoryFraming;
+  paragraphs: string[];
+  quoteBlocks: StoryQuoteBlock[];
+}
+
+const MAX_THESIS_CHARS = 2_000;
+const MAX_COMPANIES = 20;
+const MAX_QUOTES_PER_COMPANY = 15;
+const MAX_QUOTES_PER_SECTION = 3;
+const MAX_PARAGRAPHS_PER_SECTION = 4;
+const MAX_WATCH_LINES = 5;
+
+const sanitizeString = (value: unknown, maxLen: number): string => {
+  if (typeof value !== 'string') return '';
+  return value.trim().slice(0, maxLen);
+};
+
+const normalizeFraming = (value: unknown): StoryFraming | null => {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  if (normalized.startsWith('evolution')) return 'evolution';
+  if (normalized.includes('contrast')) return 'contrast';
+  return null;
+};
+
+const buildEvidence = (rawGroups: unknown): EvidenceCompany[] => {
+  if (!Array.isArray(rawGroups)) return [];
+
+  const companies: EvidenceCompany[] = [];
+  const seenKeys = new Set<string>();
+  const seenQuoteIds = new Set<string>();
+
+  for (const raw of rawGroups) {
+    if (!raw || typeof raw !== 'object') continue;
+    const group = raw as Record<string, unknown>;
+    const companyKey = sanitizeString(group.companyKey, 120);
+    const companyName = sanitizeString(group.companyName, 200);
+    if (!companyKey || !companyName || seenKeys.has(companyKey)) continue;
+
+    const rawQuotes = Array.isArray(group.quotes) ? group.quotes : [];
+    const quotes: EvidenceQuote[] = [];
+    for (const rawQuote of rawQuotes) {
+      if (!rawQuote || typeof rawQuote !== 'object') continue;
+      const q = rawQuote as Record<string, unknown>;
+      if (q.selected === false) continue;
+      const quoteId = sanitizeString(q.quoteId, 160);
+      const quote = sanitizeString(q.quote, 1500);
+      const speakerName = sanitizeString(q.speakerName, 200);
+      if (!quoteId || !quote || !speakerName || seenQuoteIds.has(quoteId)) continue;
+      const periodSortKey = Number(q.periodSortKey);
+      seenQuoteIds.add(quoteId);
+      quotes.push({
+        quoteId,
+        quote,
+        speakerName,
+        speakerDesignation: sanitizeString(q.speakerDesignation, 200),
+        periodLabel: sanitizeString(q.periodLabel, 30),
+        periodSortKey: Number.isFinite(periodSortKey) ? Math.round(periodSortKey) : 0,
+      });
+      if (quotes.length >= MAX_QUOTES_PER_COMPANY) break;
+    }
+    if (quotes.length === 0) continue;
+
+    seenKeys.add(companyKey);
+    companies.push({
+      companyKey,
+      companyName,
+      nseScrip: sanitizeString(group.nseScrip, 20),
+      industry: sanitizeString(group.industry, 100),
+      periods: Array.isArray(group.periods)
+        ? group.periods.map(p => sanitizeString(p, 30)).filter(Boolean)
+        : [],
+      quotes: quotes.sort((a, b) => a.periodSortKey - b.periodSortKey),
+    });
+    if (companies.length >= MAX_COMPANIES) break;
+  }
+
+  return companies;
+};
+
+const deriveFraming = (company: EvidenceCompany, quoteIds: string[]): StoryFraming => {
+  const sortKeys = new Set(
+    company.quotes.filter(q => quoteIds.includes(q.quoteId)).map(q => q.periodSortKey),
+  );
+  return sortKeys.size > 1 ? 'evolution' : 'contrast';
+};
+
+const deriveChronologyMode = (sections: StorySectionPlan[]): StoryFraming => {
+  const evolutionCount = sections.filter(s => s.framing === 'evolution').length;
+  return evolutionCount > sections.length / 2 ? 'evolution' : 'contrast';
+};
+
+const pickCompanyQuoteIds = (company: EvidenceCompany, rawIds: unknown): string[] => {
+  if (!Array.isArray(rawIds)) return [];
+  const validIds = new Set(company.quotes.map(q => q.quoteId));
+  const picked: string[] = [];
+  for (const rawId of rawIds) {
+    const id = sanitizeString(rawId, 160);
+    if (!validIds.has(id) || picked.includes(id)) continue;
+    picked.push(id);
+    if (picked.length >= MAX_QUOTES_PER_SECTION) break;
+  }
+  return picked;
+};
+
+const normalizePlan = (raw: unknown, evidence: EvidenceCompany[], thesis: string): StoryPlan => {
+  const record = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const companyByKey = new Map(evidence.map(c => [c.companyKey, c]));
+  const rawSections = Array.isArray(record.sections) ? record.sections : [];
+
+  const sections: StorySectionPlan[] = [];
+  for (const rawSection of rawSections) {
+    if (!rawSection || typeof rawSection !== 'object') continue;
+    const section = rawSection as Record<string, unknown>;
+    const company = companyByKey.get(sanitizeString(section.companyKey, 120));
+    if (!company || sections.some(s => s.companyKey === company.companyKey)) continue;
+
+    const quoteIds = pickCompanyQuoteIds(company, section.quoteIds);
+    if (quoteIds.length === 0) continue;
+
+    sections.push({
+      companyKey: company.companyKey,
+      subhead: sanitizeString(section.subhead, 160) || company.companyName,
+      framing: normalizeFraming(section.framing) ?? deriveFraming(company, quoteIds),
+      quoteIds,
+    });
+  }
+
+  const plannedKeys = new Set(sections.map(s => s.companyKey));
+
+  return {
+    title: sanitizeString(record.title, 200) || thesis.split(/[.!?\n]/)[0].trim().slice(0, 200),
+    dek: sanitizeString(record.dek, 400),
+    chronologyMode: normalizeFraming(record.chronologyMode) ?? deriveChronologyMode(sections),
+    sections,
+    skippedCompanyKeys: evidence.filter(c => !plannedKeys.has(c.companyKey)).map(c => c.companyKey),
+  };
+};
+
+const buildFallbackParagraphs = (company: EvidenceCompany, section: StorySectionPlan): string[] => {
+  const chosen = company.quotes.filter(q => section.quoteIds.includes(q.quoteId));
+  const labels = [...new Set(chosen.map(q => q.periodLabel).filter(Boolean))];
+  const context = company.industry ? `${company.companyName} (${company.industry})` : company.companyName;
+
+  const framingLine =
+    section.framing === 'evolution' && labels.length > 1
+      ? `Management commentary from ${labels[0]} to ${labels[labels.length - 1]} shows how the position has moved.`
+      : `Management commentary${labels[0] ? ` from ${labels[0]}` : ''} sets out how its approach differs from peers in this story.`;
+
+  return [`${context}: ${section.subhead}.`.replace(/\.\.$/, '.'), framingLine];
+};
+
+const buildFallbackWatchNext = (sections: StorySection[]): string[] =>
+  sections
+    .slice(0, MAX_WATCH_LINES)
+    .map(s => `Whether ${s.companyName} follows through next quarter: ${s.subhead}`.replace(/\.?$/, '.'));
+
+const toQuoteBlock = (quote: EvidenceQuote): StoryQuoteBlock => ({
+  quoteId: quote.quoteId,
+  quote: quote.quote,
+  speakerName: quote.speakerName,
+  speakerDesignation: quote.speakerDesignation,
+  periodLabel: quote.periodLabel,
+});
+
+const rehydrateQuoteBlocks = (company: EvidenceCompany, quoteIds: string[]): StoryQuoteBlock[] =>
+  quoteIds
+    .map(id => company.quotes.find(q => q.quoteId === id))
+    .filter((q): q is EvidenceQuote => q !== undefined)
+    .map(toQuoteBlock);
+
+const buildStorySections = (
+  plan: StoryPlan,
+  evidence: EvidenceCompany[],
+  writerSections: Map<string, Record<string, unknown>>,
+): { sections: StorySection[]; fallbackSectionCount: number } => {
+  const companyByKey = new Map(evidence.map(c => [c.companyKey, c]));
+  const sections: StorySection[] = [];
+  let fallbackSectionCount = 0;
+
+  for (const planned of plan.sections) {
+    const company = companyByKey.get(planned.companyKey);
+    if (!company) continue;
+
+    const written = writerSections.get(planned.companyKey);
+    const paragraphs = (Array.isArray(written?.paragraphs) ? written.paragraphs : [])
+      .map(p => sanitizeString(p, 2500))
+      .filter(Boolean)
+      .slice(0, MAX_PARAGRAPHS_PER_SECTION);
+    const writtenQuoteIds = pickCompanyQuoteIds(company, written?.quoteIds);
+    const quoteIds = writtenQuoteIds.length > 0 ? writtenQuoteIds : planned.quoteIds;
+
+    const usedFallback = paragraphs.length === 0;
+    if (usedFallback) fallbackSectionCount++;
+
+    sections.push({
+      companyKey: company.companyKey,
+      companyName: company.companyName,
+      nseScrip: company.nseScrip,
+      industry: company.industry,
+      subhead: planned.subhead,
+      framing: planned.framing,
+      paragraphs: usedFallback ? buildFallbackParagraphs(company, planned) : paragraphs,
+      quoteBlocks: rehydrateQuoteBlocks(company, quoteIds),
+    });
+  }
+
+  return { sections, fallbackSectionCount };
+};
+
+const buildEvidencePayload = (evidence: EvidenceCompany[]) =>
+  evidence.map(c => ({
+    companyKey: c.companyKey,
+    companyName: c.companyName,
+    industry: c.industry,
+    periods: c.periods,
+    quotes: c.quotes.map(q => ({
+      quoteId: q.quoteId,
+      periodLabel: q.periodLabel,
+      periodSortKey: q.periodSortKey,
+      speaker: q.speakerDesignation ? `${q.speakerName}, ${q.speakerDesignation}` : q.speakerName,
+      quote: q.quote,
+    })),
+  }));
+
+const callStoryModel = async (
+  context: any,
+  body: PlotlineStoryRequest,
+  prompt: string,
+  userContent: string,
+  responseSchema: unknown,
+  requestId: string,
+  onUsage: UsageListener,
+  transport?: ProviderTransport,
+): Promise<any> => {
+  if (body.provider === 'openrouter') {
+    return callOpenRouterJson({
+      apiKey: context.env.OPENROUTER_API_KEY,
+      model: body.model,
+      messageContent: [
+        { type: 'text', text: prompt },
+        { type: 'text', text: userContent },
+      ],
+      requestId,
+      referer: context.env.OPENROUTER_SITE_URL,
+      appTitle: context.env.OPENROUTER_APP_TITLE,
+      onUsage,
+      transport,
+    });
+  }
+
+  if (body.provider === 'anthropic') {
+    return callAnthropicJson({
+      apiKey: context.env.ANTHROPIC_API_KEY,
+      model: body.model,
+      messageContent: [
+        { type: 'text', text: prompt },
+        { type: 'text', text: userContent },
+      ],
+      responseSchema,
+      requestId,
+      onUsage,
+      transport,
+    });
+  }
+
+  return callGeminiJson({
+    apiKey: context.env.GEMINI_API_KEY,
+    vertexApiKey: context.env.VERTEX_API_KEY,
+    model: body.model,
+    contents: [
+      { role: 'user', parts: [{ text: prompt + '\n\n' + userContent }] },
+    ],
+    responseSchema,
+    providerPreference: (context.env.GEMINI_PROVIDER as any) || 'ai_studio',
+    requestId,
+    onUsage,
+    transport,
+  });
+};
+
+export async function onRequestPost(context: any): Promise<Response> {
+  context = { ...context, env: withMockProviderKeys(context.env) };
+  const requestId = crypto.randomUUID().slice(0, 8);
+
+  let body: PlotlineStoryRequest;
+  try {
+    body = await context.request.json();
+  } catch {
+    return Response.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  const { thesis } = body;
+
+  if (!thesis || typeof thesis !== 'string' || thesis.trim().length < 10) {
+    return Response.json({ error: 'Thesis must be at least 10 characters.' }, { status: 400 });
+  }
+  if (!body.model || typeof body.model !== 'string') {
+    return Response.json({ error: 'Model is required.' }, { status: 400 });
+  }
+
+  const provider = parseProviderValue(body.provider, GEMINI_PROVIDER);
+  if (!provider) {
+    return Response.json({ error: 'Provider must be gemini, openrouter or anthropic.' }, { status: 400 });
+  }
+  if (!isAllowedTaskModel('plotline', provider, body.model)) {
+    return Response.json({ error: `Model '${body.model}' is not allowed for provider '${provider}'.` }, { status: 400 });
+  }
+  body = { ...body, provider: provider as PlotlineStoryRequest['provider'] };
+
+  const evidence = buildEvidence(body.companyGroups);
+  if (evidence.length === 0) {
+    return Response.json({ error: 'At least one company with selected quotes is required.' }, { status: 400 });
+  }
+
+  if (provider === 'openrouter' && !context.env.OPENROUTER_API_KEY) {
+    return Response.json({ error: 'OpenRouter API key not configured.' }, { status: 500 });
+  }
+  if (provider === 'anthropic' && !context.env.ANTHROPIC_API_KEY) {
+    return Response.json({ error: 'Anthropic API key not configured.' }, { status: 500 });
+  }
+  if (provider !== 'openrouter' && provider !== 'anthropic' && !context.env.GEMINI_API_KEY) {
+    return Response.json({ error: 'Gemini API key not configured.' }, { status: 500 });
+  }
+
+  const clampedThesis = thesis.trim().slice(0, MAX_THESIS_CHARS);
+  const evidenceJson = JSON.stringify(buildEvidencePayload(evidence));
+  const usage = createUsageTracker(context.env);
+  const onUsage = usage.listenerFor(provider === 'openrouter' || provider === 'anthropic' ? provider : 'gemini', body.model);
+  const transport = createMockProviderTransport(context.env, 'plotline_story');
+
+  let rawPlan: unknown = body.plan;
+  const planSource = body.plan ? 'client' : 'model';
+  if (!rawPlan) {
+    try {
+      rawPlan = await callStoryModel(
+        context,
+        body,
+        PLOTLINE_STORY_PLAN_PROMPT,
+        `THESIS\n${clampedThesis}\n\nEVIDENCE\n${evidenceJson}`,
+        PLOTLINE_STORY_PLAN_RESPONSE_SCHEMA,
+        requestId,
+        onUsage,
+        transport,
+      );
+    } catch (error: any) {
+      const message = error?.message || 'Unknown story planning error.';
+      const isRetriable = /rate|limit|timeout|503|429|500/i.test(message);
+      return Response.json(
+        { error: message, stage: 'plan', retriable: isRetriable },
+        { status: isRetriable ? 503 : 500 },
+      );
+    }
+  }
+
+  const plan = normalizePlan(rawPlan, evidence, clampedThesis);
+  if (plan.sections.length === 0) {
+    return Response.json(
+      { error: 'Story plan has no sections with valid evidence.', stage: 'plan', retriable: true },
+      { status: 422 },
+    );
+  }
+
+  let rawStory: Record<string, unknown> | null = null;
+  try {
+    rawStory = await callStoryModel(
+      context,
+      body,
+      PLOTLINE_STORY_WRITER_PROMPT,
+      `THESIS\n${clampedThesis}\n\nPLAN\n${JSON.stringify(plan)}\n\nEVIDENCE\n${evidenceJson}`,
+      PLOTLINE_STORY_WRITER_RESPONSE_SCHEMA,
+      requestId,
+      onUsage,
+      transport,
+    );
+  } catch (error: any) {
+    console.log(JSON.stringify({
+      event: 'plotline_story_writer_failed',
+      requestId,
+      provider,
+      model: body.model,
+      message: String(error?.message || 'Unknown story writer error.'),
+    }));
+  }
+
+  const writerSections = new Map<string, Record<string, unknown>>();
+  const rawWriterSections = Array.isArray(rawStory?.sections) ? rawStory.sections : [];
+  for (const rawSection of rawWriterSections) {
+    if (!rawSection || typeof rawSection !== 'object') continue;
+    const key = sanitizeString((rawSection as Record<string, unknown>).companyKey, 120);
+    if (key && !writerSections.has(key)) writerSections.set(key, rawSection as Record<string, unknown>);
+  }
+
+  const { sections, fallbackSectionCount } = buildStorySections(plan, evidence, writerSections);
+  const sectionsWithEvidence = sections.filter(s => s.paragraphs.length > 0 && s.quoteBlocks.length > 0);
+  if (sectionsWithEvidence.length === 0) {
+    return Response.json(
+      { error: 'Story writer returned no sections with valid evidence.', stage: 'write', retriable: true },
+      { status: 422 },
+    );
+  }
+
+  const watchNext = (Array.isArray(rawStory?.watchNext) ? rawStory.watchNext : [])
+    .map(line => sanitizeString(line, 400))
+    .filter(Boolean)
+    .slice(0, MAX_WATCH_LINES);
+
+  const companyNameByKey = new Map(evidence.map(c => [c.companyKey, c.companyName]));
+  const writerFallbackUsed = rawStory === null || fallbackSectionCount > 0 || watchNext.length === 0;
+
+  return Response.json({
+    title: sanitizeString(rawStory?.title, 200) || plan.title,
+    dek: sanitizeString(rawStory?.dek, 400) || plan.dek,
+    chronologyMode: plan.chronologyMode,
+    sections: sectionsWithEvidence,
+    watchNext: watchNext.length > 0 ? watchNext : buildFallbackWatchNext(sectionsWithEvidence),
+    skippedCompanies: plan.skippedCompanyKeys.map(key => companyNameByKey.get(key) || key),
+    planSource,
+    writerFallbackUsed,
+    usage: usage.snapshot(body.model),
+  });
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { onRequestPost } from './analyze';
+
+// The bundled points recordings answer the main call, the context rewrite and the slide review in that order;
+// the fourth call is the metric extraction for the one selected slide.
+const analyze = (metricsStep: unknown) =>
+  onRequestPost({
+    request: new Request('https://example.com/api/points/analyze', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        provider: 'gemini',
+        bypassCache: true,
+        pageImages: ['data:image/jpeg;base64,AAAA', 'data:image/jpeg;base64,BBBB'],
+      }),
+    }),
+    env: {
+      MOCK_PROVIDER: '1',
+      MOCK_PROVIDER_SCRIPT: JSON.stringify({
+        points: [{ kind: 'recorded' }, { kind: 'recorded' }, { kind: 'recorded' }, metricsStep],
+      }),
+    },
+  });
+
+describe('points metric extraction', () => {
+  it('attaches normalized figures to each selected slide', async () => {
+    const response = await analyze({
+      kind: 'json',
+      body: {
+        metrics: [
+          { metric: ' Revenue ', value: '15,818.5', unit: 'INR crore', period: 'Q3 FY26', yoyChange: '+2.1%', qoqChange: '' },
+          { metric: 'EBITDA margin', value: 'n/a', unit: '%', period: 'Q3 FY26' },
+          { metric: '', value: 4, unit: '%', period: 'Q3 FY26' },
+        ],
+      },
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.slides[0].metrics).toEqual([
+      { metric: 'Revenue', value: 15818.5, unit: 'INR crore', period: 'Q3 FY26', yoyChange: '+2.1%' },
+    ]);
+    expect(body.usage.models[0].calls).toBe(4);
+  });
+
+  it('leaves slides without printed numbers untouched', async () => {
+    const response = await analyze({ kind: 'json', body: { metrics: [] } });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.slides).toHaveLength(1);
+    expect(body.slides[0].metrics).toBeUndefined();
+  });
+});
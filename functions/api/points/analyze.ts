@@ -1,21 +1,37 @@
 import {
   callGeminiJson,
   callOpenRouterJson,
-  POINTS_PROMPT,
   POINTS_RESPONSE_SCHEMA,
   normalizeGeminiProviderPreference,
 } from "../../_shared/gemini";
+import { callAnthropicJson } from "../../_shared/anthropic";
+import {
+  createMockProviderTransport,
+  isMockProviderEnabled,
+  withMockProviderKeys,
+  type MockProviderEnv,
+  type ProviderTransport,
+} from "../../_shared/mockProvider";
+import {
+  buildModelAttemptEvent,
+  respondWithOptionalStream,
+  type StageEmitter,
+} from "../../_shared/progressStream";
+import {
+  getDefaultModel,
+  isAllowedTaskModel,
+  isProviderAvailableForTask,
+} from "../../_shared/modelRegistry";
+import { getModelAttemptOrder } from "../../_shared/providerHealth";
+import { resolvePrompt, type PromptRegistryEnv } from "../../_shared/promptRegistry";
 import { parseJsonBodyWithLimit } from "../../_shared/request";
 import { error, json } from "../../_shared/response";
 import {
-  isAllowedProviderModel,
   parseProvider as parseProviderValue,
   resolveRequestedModel,
 } from "../../_shared/providerModels";
 import {
   extractRetryAfterSeconds,
-  getPrimaryBackupAttemptOrder,
-  getPrimarySecondaryTertiaryAttemptOrder,
   isImageProcessingError,
   isLocationUnsupportedError,
   isOverloadError,
@@ -25,15 +41,33 @@ import {
   isUpstreamRateLimit as isUpstreamRateLimitBase,
   isUpstreamTransientError as isUpstreamTransientErrorBase,
 } from "../../_shared/retryPolicy";
+import {
+  buildResultCacheKey,
+  derivePromptVersion,
+  isBypassCacheRequested,
+  readCachedResult,
+  resolveResultCacheStore,
+  writeCachedResult,
+  type ResultCacheStore,
+} from "../../_shared/resultCache";
+import { jaccardSimilarity, toTokenSet } from "../../_shared/textSimilarity";
 import { hasNonEmptyString, isInteger } from "../../_shared/validation";
+import {
+  createUsageTracker,
+  emptyRequestUsage,
+  type UsageEnv,
+  type UsageListener,
+} from "../../_shared/usage";
 
-interface Env {
+interface Env extends PromptRegistryEnv, UsageEnv, MockProviderEnv {
   GEMINI_API_KEY?: string;
   VERTEX_API_KEY?: string;
   GEMINI_PROVIDER?: string;
   OPENROUTER_API_KEY?: string;
   OPENROUTER_SITE_URL?: string;
   OPENROUTER_APP_TITLE?: string;
+  ANTHROPIC_API_KEY?: string;
+  RESULT_CACHE?: ResultCacheStore;
 }
 
 const MAX_BODY_BYTES = 25 * 1024 * 1024;
@@ -41,15 +75,8 @@ const MAX_PAGES = 60;
 const MAX_TOTAL_IMAGE_CHARS = 20 * 1024 * 1024;
 const PROVIDER_GEMINI = "gemini";
 const PROVIDER_OPENROUTER = "openrouter";
+const PROVIDER_ANTHROPIC = "anthropic";
 const DEFAULT_PROVIDER = PROVIDER_GEMINI;
-const FLASH_MODEL = "gemini-2.5-flash";
-const FLASH_3_MODEL = "gemini-3-flash-preview";
-const PRO_MODEL = "gemini-3-pro-preview";
-const OPENROUTER_PRIMARY_MODEL = "qwen/qwen2.5-vl-32b-instruct";
-const OPENROUTER_BACKUP_MODEL = "minimax/minimax-01";
-const DEFAULT_MODEL = FLASH_3_MODEL;
-const ALLOWED_MODELS = new Set([FLASH_MODEL, FLASH_3_MODEL, PRO_MODEL]);
-const OPENROUTER_ALLOWED_MODELS = new Set([OPENROUTER_PRIMARY_MODEL, OPENROUTER_BACKUP_MODEL]);
 const IS_STRICT_VALIDATION: boolean = false;
 const UPSTREAM_DEPENDENCY_STATUS = 424;
 const VALIDATION_STATUS = 422;
@@ -59,6 +86,8 @@ const MAX_CONTEXT_CHARACTERS = 420;
 const MAX_CONTEXT_REWRITE_CANDIDATES = 6;
 const MIN_REVIEW_CONFIDENCE = 0.58;
 const HIGH_CONFIDENCE_DROP_THRESHOLD = 0.78;
+const MAX_METRICS_PER_SLIDE = 12;
+const MAX_METRIC_TEXT_CHARACTERS = 80;
 
 const POINTS_CONTEXT_REWRITE_SCHEMA = {
   type: "OBJECT",
@@ -99,6 +128,28 @@ const POINTS_SLIDE_REVIEW_SCHEMA = {
   required: ["reviews"],
 };
 
+const POINTS_SLIDE_METRICS_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    metrics: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          metric: { type: "STRING" },
+          value: { type: "NUMBER" },
+          unit: { type: "STRING" },
+          period: { type: "STRING" },
+          yoyChange: { type: "STRING" },
+          qoqChange: { type: "STRING" },
+        },
+        required: ["metric", "value", "unit", "period"],
+      },
+    },
+  },
+  required: ["metrics"],
+};
+
 interface ChunkRange {
   startPage: number;
   endPage: number;
@@ -112,12 +163,6 @@ interface PointsValidationResult {
 const parseProvider = (value: unknown): ReturnType<typeof parseProviderValue> =>
   parseProviderValue(value, DEFAULT_PROVIDER);
 
-const getModelAttemptOrder = (requestedModel: string): string[] =>
-  getPrimarySecondaryTertiaryAttemptOrder(requestedModel, FLASH_MODEL, FLASH_3_MODEL, PRO_MODEL);
-
-const getOpenRouterAttemptOrder = (requestedModel: string): string[] =>
-  getPrimaryBackupAttemptOrder(requestedModel, OPENROUTER_PRIMARY_MODEL, OPENROUTER_BACKUP_MODEL);
-
 const isUpstreamRateLimit = (message: string): boolean =>
   isUpstreamRateLimitBase(message, { includeFreeTierRateLimitToken: true });
 
@@ -311,6 +356,15 @@ interface SlideEntry {
   context: string;
 }
 
+interface SlideMetric {
+  metric: string;
+  value: number;
+  unit: string;
+  period: string;
+  yoyChange?: string;
+  qoqChange?: string;
+}
+
 interface ContextRewriteCandidate {
   selectedPageNumber: number;
   context: string;
@@ -439,31 +493,9 @@ const scoreContextQuality = (value: string): number => {
   );
 };
 
-const toTokenSet = (value: string): Set<string> => {
-  const tokens = value
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .split(/\s+/)
-    .filter((token) => token.length >= 4 && !STOP_WORDS.has(token));
-
-  return new Set(tokens);
-};
-
-const jaccardSimilarity = (left: Set<string>, right: Set<string>): number => {
-  if (left.size === 0 || right.size === 0) return 0;
-  let intersection = 0;
-  for (const token of left) {
-    if (right.has(token)) {
-      intersection += 1;
-    }
-  }
-  const union = left.size + right.size - intersection;
-  return union === 0 ? 0 : intersection / union;
-};
-
 const areContextsNearDuplicate = (left: string, right: string): boolean => {
-  const leftSet = toTokenSet(left);
-  const rightSet = toTokenSet(right);
+  const leftSet = toTokenSet(left, { minTokenLength: 4, stopWords: STOP_WORDS });
+  const rightSet = toTokenSet(right, { minTokenLength: 4, stopWords: STOP_WORDS });
   return jaccardSimilarity(leftSet, rightSet) >= 0.68;
 };
 
@@ -608,6 +640,65 @@ const buildSlideReviewPrompt = (
   ].join("\n");
 };
 
+const buildSlideMetricsPrompt = (companyName: string, fiscalPeriod: string): string =>
+  [
+    "You are extracting the key numbers from one investor presentation slide into a data table.",
+    `Company: ${companyName || "Unknown"}`,
+    `Reporting period of the deck: ${fiscalPeriod || "Unknown"}`,
+    "",
+    "Return one row per metric that is printed on the slide (chart labels, table cells, callouts).",
+    "- metric: short name, e.g. \"Revenue\", \"EBITDA margin\", \"Quick commerce share of urban sales\".",
+    "- value: the number only, without thousands separators, currency symbols or units.",
+    "- unit: what the value is measured in, e.g. \"INR crore\", \"%\", \"USD mn\", \"x\", \"stores\".",
+    "- period: the period the value refers to as shown, e.g. \"Q3 FY26\", \"9M FY26\", \"FY25\".",
+    "- yoyChange / qoqChange: only when the slide shows them, copied as shown, e.g. \"+12.4%\", \"-80 bps\". Omit otherwise.",
+    "",
+    "Never compute, estimate or convert numbers that are not printed on the slide.",
+    `Return at most ${MAX_METRICS_PER_SLIDE} rows, most important first. Return an empty list when the slide has no numbers.`,
+    "",
+    "Return JSON only:",
+    '{"metrics": [{"metric": "string", "value": 0, "unit": "string", "period": "string", "yoyChange": "string", "qoqChange": "string"}]}',
+  ].join("\n");
+
+const normalizeMetricText = (value: unknown): string =>
+  typeof value === "string" ? value.replace(/\s+/g, " ").trim().slice(0, MAX_METRIC_TEXT_CHARACTERS) : "";
+
+const parseMetricValue = (value: unknown): number | null => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const cleaned = value.replace(/[,\s]/g, "");
+  if (!/^[-+]?\d*\.?\d+$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+const normalizeSlideMetricsPayload = (value: any): SlideMetric[] => {
+  if (!value || typeof value !== "object" || !Array.isArray(value.metrics)) {
+    return [];
+  }
+
+  const metrics: SlideMetric[] = [];
+  for (const item of value.metrics) {
+    if (!item || typeof item !== "object") continue;
+    const metric = normalizeMetricText(item.metric);
+    const parsedValue = parseMetricValue(item.value);
+    if (!metric || parsedValue === null) continue;
+
+    const yoyChange = normalizeMetricText(item.yoyChange);
+    const qoqChange = normalizeMetricText(item.qoqChange);
+    metrics.push({
+      metric,
+      value: parsedValue,
+      unit: normalizeMetricText(item.unit),
+      period: normalizeMetricText(item.period),
+      ...(yoyChange ? { yoyChange } : {}),
+      ...(qoqChange ? { qoqChange } : {}),
+    });
+    if (metrics.length >= MAX_METRICS_PER_SLIDE) break;
+  }
+
+  return metrics;
+};
+
 const selectBestSlides = (slides: SlideEntry[]): SlideEntry[] => {
   const dedupByPage = new Map<number, SlideEntry>();
   for (const slide of slides) {
@@ -702,7 +793,7 @@ const parseChunkRange = (
   };
 };
 
-const buildPointsPrompt = (chunkPageCount: number, chunkRange: ChunkRange | null): string => {
+const buildPointsPrompt = (basePrompt: string, chunkPageCount: number, chunkRange: ChunkRange | null): string => {
   const chunkGuidance =
     chunkRange === null
       ? [
@@ -719,7 +810,7 @@ const buildPointsPrompt = (chunkPageCount: number, chunkRange: ChunkRange | null
           `- Return no more than ${MAX_SELECTED_SLIDES} slides in this response.`,
         ];
 
-  return `${POINTS_PROMPT}\n\n${chunkGuidance.join("\n")}`;
+  return `${basePrompt}\n\n${chunkGuidance.join("\n")}`;
 };
 
 const normalizeSelectedPageNumber = (
@@ -847,6 +938,9 @@ const applySlideReviewIfNeeded = async (params: {
   openRouterApiKey?: string;
   openRouterSiteUrl?: string;
   openRouterAppTitle?: string;
+  anthropicApiKey?: string;
+  onUsage?: UsageListener;
+  transport?: ProviderTransport;
   companyName: string;
   industry: string;
   slides: SlideEntry[];
@@ -862,6 +956,9 @@ const applySlideReviewIfNeeded = async (params: {
     openRouterApiKey,
     openRouterSiteUrl,
     openRouterAppTitle,
+    anthropicApiKey,
+    onUsage,
+    transport,
     companyName,
     industry,
     slides,
@@ -923,24 +1020,44 @@ const applySlideReviewIfNeeded = async (params: {
               },
             ],
             responseSchema: POINTS_SLIDE_REVIEW_SCHEMA,
+            onUsage,
+            transport,
           })
-        : await callOpenRouterJson({
-            apiKey: openRouterApiKey as string,
-            model,
-            requestId,
-            referer: openRouterSiteUrl,
-            appTitle: openRouterAppTitle || "The Chatter Analyst",
-            messageContent: [
-              {
-                type: "text",
-                text: reviewPrompt,
-              },
-              ...reviewCandidates.map((slide) => ({
-                type: "image_url" as const,
-                image_url: { url: slide.pageAsImage },
-              })),
-            ],
-          });
+        : provider === PROVIDER_ANTHROPIC
+          ? await callAnthropicJson({
+              apiKey: anthropicApiKey as string,
+              model,
+              requestId,
+              messageContent: [
+                { type: "text", text: reviewPrompt },
+                ...reviewCandidates.map((slide) => ({
+                  type: "image_url" as const,
+                  image_url: { url: slide.pageAsImage },
+                })),
+              ],
+              responseSchema: POINTS_SLIDE_REVIEW_SCHEMA,
+              onUsage,
+              transport,
+            })
+          : await callOpenRouterJson({
+              apiKey: openRouterApiKey as string,
+              model,
+              requestId,
+              referer: openRouterSiteUrl,
+              appTitle: openRouterAppTitle || "The Chatter Analyst",
+              messageContent: [
+                {
+                  type: "text",
+                  text: reviewPrompt,
+                },
+                ...reviewCandidates.map((slide) => ({
+                  type: "image_url" as const,
+                  image_url: { url: slide.pageAsImage },
+                })),
+              ],
+              onUsage,
+              transport,
+            });
   } catch (reviewError: any) {
     console.log(
       JSON.stringify({
@@ -1053,6 +1170,9 @@ const applyContextRewriteIfNeeded = async (params: {
   openRouterApiKey?: string;
   openRouterSiteUrl?: string;
   openRouterAppTitle?: string;
+  anthropicApiKey?: string;
+  onUsage?: UsageListener;
+  transport?: ProviderTransport;
   companyName: string;
   industry: string;
   slides: SlideEntry[];
@@ -1067,6 +1187,9 @@ const applyContextRewriteIfNeeded = async (params: {
     openRouterApiKey,
     openRouterSiteUrl,
     openRouterAppTitle,
+    anthropicApiKey,
+    onUsage,
+    transport,
     companyName,
     industry,
     slides,
@@ -1110,15 +1233,29 @@ const applyContextRewriteIfNeeded = async (params: {
             model,
             contents: [{ parts: [{ text: rewritePrompt }] }],
             responseSchema: POINTS_CONTEXT_REWRITE_SCHEMA,
+            onUsage,
+            transport,
           })
-        : await callOpenRouterJson({
-            apiKey: openRouterApiKey as string,
-            model,
-            requestId,
-            referer: openRouterSiteUrl,
-            appTitle: openRouterAppTitle || "The Chatter Analyst",
-            messageContent: rewritePrompt,
-          });
+        : provider === PROVIDER_ANTHROPIC
+          ? await callAnthropicJson({
+              apiKey: anthropicApiKey as string,
+              model,
+              requestId,
+              messageContent: rewritePrompt,
+              responseSchema: POINTS_CONTEXT_REWRITE_SCHEMA,
+              onUsage,
+              transport,
+            })
+          : await callOpenRouterJson({
+              apiKey: openRouterApiKey as string,
+              model,
+              requestId,
+              referer: openRouterSiteUrl,
+              appTitle: openRouterAppTitle || "The Chatter Analyst",
+              messageContent: rewritePrompt,
+              onUsage,
+              transport,
+            });
   } catch (rewriteError: any) {
     console.log(
       JSON.stringify({
@@ -1170,9 +1307,132 @@ const applyContextRewriteIfNeeded = async (params: {
   };
 };
 
-export async function onRequestPost(context: any): Promise<Response> {
+// One vision call per selected slide so each table only reads numbers from its own image. A failed call leaves
+// that slide without metrics instead of failing the analysis.
+const applySlideMetricExtraction = async (params: {
+  provider: string;
+  requestId: string;
+  model: string;
+  providerPreference?: ReturnType<typeof normalizeGeminiProviderPreference>;
+  geminiApiKey?: string;
+  vertexApiKey?: string;
+  openRouterApiKey?: string;
+  openRouterSiteUrl?: string;
+  openRouterAppTitle?: string;
+  anthropicApiKey?: string;
+  onUsage?: UsageListener;
+  transport?: ProviderTransport;
+  companyName: string;
+  fiscalPeriod: string;
+  slides: SlideEntry[];
+  pageImages: string[];
+}): Promise<{ slides: Array<SlideEntry & { metrics?: SlideMetric[] }>; extractedCount: number }> => {
+  const {
+    provider,
+    requestId,
+    model,
+    providerPreference,
+    geminiApiKey,
+    vertexApiKey,
+    openRouterApiKey,
+    openRouterSiteUrl,
+    openRouterAppTitle,
+    anthropicApiKey,
+    onUsage,
+    transport,
+    companyName,
+    fiscalPeriod,
+    slides,
+    pageImages,
+  } = params;
+
+  const metricsPrompt = buildSlideMetricsPrompt(companyName, fiscalPeriod);
+  let extractedCount = 0;
+
+  const slidesWithMetrics = await Promise.all(
+    slides.map(async (slide) => {
+      const pageImage = pageImages[slide.selectedPageNumber - 1];
+      if (!hasNonEmptyString(pageImage)) {
+        return slide;
+      }
+
+      let metricsRaw: any;
+      try {
+        metricsRaw =
+          provider === PROVIDER_GEMINI
+            ? await callGeminiJson({
+                apiKey: geminiApiKey as string,
+                vertexApiKey,
+                providerPreference,
+                requestId,
+                model,
+                contents: [
+                  {
+                    parts: [
+                      { text: metricsPrompt },
+                      { inlineData: { mimeType: extractMimeType(pageImage), data: extractBase64(pageImage) } },
+                    ],
+                  },
+                ],
+                responseSchema: POINTS_SLIDE_METRICS_SCHEMA,
+                onUsage,
+                transport,
+              })
+            : provider === PROVIDER_ANTHROPIC
+              ? await callAnthropicJson({
+                  apiKey: anthropicApiKey as string,
+                  model,
+                  requestId,
+                  messageContent: [
+                    { type: "text", text: metricsPrompt },
+                    { type: "image_url" as const, image_url: { url: pageImage } },
+                  ],
+                  responseSchema: POINTS_SLIDE_METRICS_SCHEMA,
+                  onUsage,
+                  transport,
+                })
+              : await callOpenRouterJson({
+                  apiKey: openRouterApiKey as string,
+                  model,
+                  requestId,
+                  referer: openRouterSiteUrl,
+                  appTitle: openRouterAppTitle || "The Chatter Analyst",
+                  messageContent: [
+                    { type: "text", text: metricsPrompt },
+                    { type: "image_url" as const, image_url: { url: pageImage } },
+                  ],
+                  onUsage,
+                  transport,
+                });
+      } catch (metricsError: any) {
+        console.log(
+          JSON.stringify({
+            event: "points_metric_extraction_failed",
+            requestId,
+            model,
+            provider,
+            selectedPageNumber: slide.selectedPageNumber,
+            message: String(metricsError?.message || "Unknown metric extraction failure"),
+          }),
+        );
+        return slide;
+      }
+
+      const metrics = normalizeSlideMetricsPayload(metricsRaw);
+      if (metrics.length === 0) {
+        return slide;
+      }
+      extractedCount += 1;
+      return { ...slide, metrics };
+    }),
+  );
+
+  return { slides: slidesWithMetrics, extractedCount };
+};
+
+async function handleAnalyzeRequest(context: any, emit: StageEmitter): Promise<Response> {
   const request = context.request as Request;
-  const env = context.env as Env;
+  const env = withMockProviderKeys(context.env as Env);
   const requestId = request.headers.get("cf-ray") || crypto.randomUUID();
 
   const parsedBody = await parseJsonBodyWithLimit<any>(request, MAX_BODY_BYTES);
@@ -1189,18 +1449,22 @@ export async function onRequestPost(context: any): Promise<Response> {
   }
 
   const provider = parseProvider(body?.provider);
-  if (!provider) {
+  if (!provider || !isProviderAvailableForTask("points", provider)) {
     return error(400, "BAD_REQUEST", "Field 'provider' is invalid.", "INVALID_PROVIDER");
   }
 
   const model = resolveRequestedModel(body?.model, provider, {
-    gemini: DEFAULT_MODEL,
-    openrouter: OPENROUTER_PRIMARY_MODEL,
+    gemini: getDefaultModel("points", PROVIDER_GEMINI),
+    openrouter: getDefaultModel("points", PROVIDER_OPENROUTER),
+    anthropic: getDefaultModel("points", PROVIDER_ANTHROPIC),
   });
-  if (!isAllowedProviderModel(provider, model, { gemini: ALLOWED_MODELS, openrouter: OPENROUTER_ALLOWED_MODELS })) {
-    return provider === PROVIDER_GEMINI
-      ? error(400, "BAD_REQUEST", "Field 'model' is invalid for provider 'gemini'.", "INVALID_MODEL")
-      : error(400, "BAD_REQUEST", "Field 'model' is invalid for provider 'openrouter'.", "INVALID_MODEL");
+  if (!isAllowedTaskModel("points", provider, model)) {
+    return error(400, "BAD_REQUEST", `Field 'model' is invalid for provider '${provider}'.`, "INVALID_MODEL");
+  }
+
+  const prompt = resolvePrompt("points", body?.promptVersion, env);
+  if ("error" in prompt) {
+    return error(400, "BAD_REQUEST", prompt.error, "INVALID_PROMPT_VERSION");
   }
 
   const primaryApiKey = env?.GEMINI_API_KEY;
@@ -1211,6 +1475,9 @@ export async function onRequestPost(context: any): Promise<Response> {
   if (provider === PROVIDER_OPENROUTER && !openRouterApiKey) {
     return error(500, "INTERNAL", "Server is missing OPENROUTER_API_KEY.", "MISSING_OPENROUTER_KEY");
   }
+  if (provider === PROVIDER_ANTHROPIC && !env?.ANTHROPIC_API_KEY) {
+    return error(500, "INTERNAL", "Server is missing ANTHROPIC_API_KEY.", "MISSING_ANTHROPIC_KEY");
+  }
 
   const providerPreference =
     provider === PROVIDER_GEMINI ? normalizeGeminiProviderPreference(env?.GEMINI_PROVIDER) : undefined;
@@ -1237,7 +1504,32 @@ export async function onRequestPost(context: any): Promise<Response> {
     return error(413, "BAD_REQUEST", "Total image payload is too large.", "PAYLOAD_TOO_LARGE");
   }
 
-  const promptText = buildPointsPrompt(pageImages.length, chunkRange);
+  const cacheStore = resolveResultCacheStore(env);
+  // Mock runs neither read nor write the cache, so scripted outputs never mix with real results.
+  const useCache = !isMockProviderEnabled(env);
+  const cacheKey = await buildResultCacheKey({
+    route: "points",
+    provider,
+    model,
+    // The metrics prompt is keyed as its company-neutral template so a change to it (or to the extraction
+    // being added at all) invalidates results cached without it.
+    promptVersion: await derivePromptVersion(prompt.text, buildSlideMetricsPrompt("", "")),
+    input: {
+      chunkStartPage: chunkRange?.startPage ?? null,
+      chunkEndPage: chunkRange?.endPage ?? null,
+      pageImages,
+    },
+  });
+  if (useCache && !isBypassCacheRequested(body)) {
+    const cachedResult = await readCachedResult<Record<string, unknown>>(cacheStore, cacheKey);
+    if (cachedResult) {
+      console.log(JSON.stringify({ event: "points_cache_hit", requestId, provider, requestedModel: model }));
+      emit({ stage: "finalizing", kind: "cache_hit", message: "Reusing a cached result for these slides.", percent: 95 });
+      return json({ ...cachedResult, promptVersion: prompt.version, cached: true, usage: emptyRequestUsage() });
+    }
+  }
+
+  const promptText = buildPointsPrompt(prompt.text, pageImages.length, chunkRange);
 
   const imageParts = pageImages.map((dataUri) => ({
     inlineData: {
@@ -1260,13 +1552,31 @@ export async function onRequestPost(context: any): Promise<Response> {
     }),
   );
 
-  const modelAttemptOrder =
-    provider === PROVIDER_GEMINI ? getModelAttemptOrder(model) : getOpenRouterAttemptOrder(model);
+  emit({
+    stage: "uploading",
+    kind: "request_received",
+    message: `Received ${pageImages.length} page image${pageImages.length === 1 ? "" : "s"}.`,
+    percent: 20,
+  });
+
+  const modelAttemptOrder = getModelAttemptOrder("points", provider, model);
+  const usage = createUsageTracker(env);
+  const transport = createMockProviderTransport(env, "points");
   let lastMessage = "Unknown error";
 
   for (let attemptIndex = 0; attemptIndex < modelAttemptOrder.length; attemptIndex++) {
     const attemptModel = modelAttemptOrder[attemptIndex];
     const hasFallback = attemptIndex < modelAttemptOrder.length - 1;
+    const onUsage = usage.listenerFor(provider, attemptModel);
+    emit(
+      buildModelAttemptEvent({
+        attemptIndex,
+        attemptCount: modelAttemptOrder.length,
+        attemptModel,
+        previousModel: modelAttemptOrder[attemptIndex - 1],
+        lastMessage,
+      }),
+    );
 
     try {
       const result =
@@ -1283,26 +1593,46 @@ export async function onRequestPost(context: any): Promise<Response> {
                 },
               ],
               responseSchema: POINTS_RESPONSE_SCHEMA,
+              onUsage,
+              transport,
             })
-          : await callOpenRouterJson({
-              apiKey: openRouterApiKey as string,
-              model: attemptModel,
-              requestId,
-              referer: env.OPENROUTER_SITE_URL,
-              appTitle: env.OPENROUTER_APP_TITLE || "The Chatter Analyst",
-              messageContent: [
-                {
-                  type: "text",
-                  text:
-                    `${promptText}\n\n` +
-                    "FINAL OUTPUT REQUIREMENT: Return only one valid JSON object. No markdown, no explanation.",
-                },
-                ...pageImages.map((dataUri) => ({
-                  type: "image_url" as const,
-                  image_url: { url: dataUri },
-                })),
-              ],
-            });
+          : provider === PROVIDER_ANTHROPIC
+            ? await callAnthropicJson({
+                apiKey: env.ANTHROPIC_API_KEY as string,
+                model: attemptModel,
+                requestId,
+                messageContent: [
+                  { type: "text", text: promptText },
+                  ...pageImages.map((dataUri) => ({
+                    type: "image_url" as const,
+                    image_url: { url: dataUri },
+                  })),
+                ],
+                responseSchema: POINTS_RESPONSE_SCHEMA,
+                onUsage,
+                transport,
+              })
+            : await callOpenRouterJson({
+                apiKey: openRouterApiKey as string,
+                model: attemptModel,
+                requestId,
+                referer: env.OPENROUTER_SITE_URL,
+                appTitle: env.OPENROUTER_APP_TITLE || "The Chatter Analyst",
+                messageContent: [
+                  {
+                    type: "text",
+                    text:
+                      `${promptText}\n\n` +
+                      "FINAL OUTPUT REQUIREMENT: Return only one valid JSON object. No markdown, no explanation.",
+                  },
+                  ...pageImages.map((dataUri) => ({
+                    type: "image_url" as const,
+                    image_url: { url: dataUri },
+                  })),
+                ],
+                onUsage,
+                transport,
+              });
 
       const validation = validatePointsResult(result, pageImages.length, chunkRange);
       if (validation.error) {
@@ -1338,6 +1668,13 @@ export async function onRequestPost(context: any): Promise<Response> {
           context: clampContextLength(sanitizeContext(slide.context)),
         }));
 
+      emit({
+        stage: "analyzing",
+        kind: "context_rewrite",
+        message: `Checking context wording for ${initialSlides.length} candidate slide${initialSlides.length === 1 ? "" : "s"}...`,
+        percent: 70,
+        model: attemptModel,
+      });
       const rewriteOutcome = await applyContextRewriteIfNeeded({
         provider,
         requestId,
@@ -1348,6 +1685,9 @@ export async function onRequestPost(context: any): Promise<Response> {
         openRouterApiKey,
         openRouterSiteUrl: env.OPENROUTER_SITE_URL,
         openRouterAppTitle: env.OPENROUTER_APP_TITLE,
+        anthropicApiKey: env.ANTHROPIC_API_KEY,
+        onUsage,
+        transport,
         companyName: hasNonEmptyString(result?.companyName) ? result.companyName : "",
         industry: hasNonEmptyString(result?.industry) ? result.industry : "",
         slides: initialSlides,
@@ -1361,6 +1701,13 @@ export async function onRequestPost(context: any): Promise<Response> {
       const prefilterOutcome = applyMarketingPrefilter(normalizedSlides);
       const selectedSlides = selectBestSlides(prefilterOutcome.slides);
 
+      emit({
+        stage: "finalizing",
+        kind: "slide_review",
+        message: `${rewriteOutcome.rewriteAppliedCount > 0 ? `Rewrote ${rewriteOutcome.rewriteAppliedCount} context${rewriteOutcome.rewriteAppliedCount === 1 ? "" : "s"}. ` : ""}Reviewing ${selectedSlides.length} selected slide${selectedSlides.length === 1 ? "" : "s"} against page images...`,
+        percent: 82,
+        model: attemptModel,
+      });
       const reviewOutcome = await applySlideReviewIfNeeded({
         provider,
         requestId,
@@ -1371,6 +1718,9 @@ export async function onRequestPost(context: any): Promise<Response> {
         openRouterApiKey,
         openRouterSiteUrl: env.OPENROUTER_SITE_URL,
         openRouterAppTitle: env.OPENROUTER_APP_TITLE,
+        anthropicApiKey: env.ANTHROPIC_API_KEY,
+        onUsage,
+        transport,
         companyName: hasNonEmptyString(result?.companyName) ? result.companyName : "",
         industry: hasNonEmptyString(result?.industry) ? result.industry : "",
         slides: selectedSlides,
@@ -1405,7 +1755,33 @@ export async function onRequestPost(context: any): Promise<Response> {
         );
       }
 
-      result.slides = reviewedSelectedSlides;
+      emit({
+        stage: "finalizing",
+        kind: "metric_extraction",
+        message: `Extracting figures from ${reviewedSelectedSlides.length} slide${reviewedSelectedSlides.length === 1 ? "" : "s"}...`,
+        percent: 90,
+        model: attemptModel,
+      });
+      const metricsOutcome = await applySlideMetricExtraction({
+        provider,
+        requestId,
+        model: attemptModel,
+        providerPreference,
+        geminiApiKey: primaryApiKey,
+        vertexApiKey: env.VERTEX_API_KEY,
+        openRouterApiKey,
+        openRouterSiteUrl: env.OPENROUTER_SITE_URL,
+        openRouterAppTitle: env.OPENROUTER_APP_TITLE,
+        anthropicApiKey: env.ANTHROPIC_API_KEY,
+        onUsage,
+        transport,
+        companyName: hasNonEmptyString(result?.companyName) ? result.companyName : "",
+        fiscalPeriod: hasNonEmptyString(result?.fiscalPeriod) ? result.fiscalPeriod : "",
+        slides: reviewedSelectedSlides,
+        pageImages,
+      });
+
+      result.slides = metricsOutcome.slides;
 
       if (prefilterOutcome.droppedCount > 0 || reviewOutcome.droppedCount > 0) {
         console.log(
@@ -1454,6 +1830,7 @@ export async function onRequestPost(context: any): Promise<Response> {
           reviewMismatchDropped: reviewOutcome.mismatchDropped,
           reviewMarketingDropped: reviewOutcome.marketingDropped,
           reviewWeakSignalDropped: reviewOutcome.weakSignalDropped,
+          metricSlides: metricsOutcome.extractedCount,
           normalizedPageCount: validation.normalizedPageCount,
           chunkStartPage: chunkRange?.startPage ?? null,
           chunkEndPage: chunkRange?.endPage ?? null,
@@ -1472,7 +1849,11 @@ export async function onRequestPost(context: any): Promise<Response> {
         );
       }
 
-      return json(result);
+      if (useCache && !(await writeCachedResult(cacheStore, cacheKey, result))) {
+        console.log(JSON.stringify({ event: "points_cache_write_failed", requestId }));
+      }
+
+      return json({ ...result, promptVersion: prompt.version, usage: usage.snapshot(attemptModel) });
     } catch (err: any) {
       const message = String(err?.message || "Unknown error");
       lastMessage = message;
@@ -1615,3 +1996,7 @@ export async function onRequestPost(context: any): Promise<Response> {
     { requestId, provider, model },
   );
 }
+
+export async function onRequestPost(context: any): Promise<Response> {
+  return respondWithOptionalStream(context.request as Request, (emit) => handleAnalyzeRequest(context, emit));
+}
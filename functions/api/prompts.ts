@@ -0,0 +1,15 @@
+import { buildPromptCatalog, type PromptRegistryEnv } from "../_shared/promptRegistry";
+
+const handlePrompts = async (context: any): Promise<Response> => {
+  const env = context.env as PromptRegistryEnv;
+
+  return new Response(JSON.stringify({ prompts: buildPromptCatalog(env) }), {
+    status: 200,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "public, max-age=300",
+    },
+  });
+};
+
+export const onRequestGet = handlePrompts;
@@ -1,25 +1,36 @@
 import {
   ChatterAnalysisResult,
   ModelType,
+  PlotlineCompanyGroup,
   PlotlineFileResult,
   PlotlineQuote,
+  PlotlineStoryPlan,
+  PlotlineStoryResult,
   PointsAndFiguresResult,
+  ProgressActivity,
   ProgressEvent,
+  ProviderHealthReport,
   ProviderType,
+  QuoteVerification,
+  RequestUsage,
   SelectedSlide,
+  SlideMetric,
   ThreadDraftResult,
   ThreadEditionSource,
   ThreadQuoteCandidate,
   ThreadShortlistResult,
 } from "../types";
+import type { ThreadPlatform } from "../functions/_shared/threadPlatforms";
 
 const CHATTER_ANALYZE_ENDPOINT = "/api/chatter/analyze";
 const POINTS_ANALYZE_ENDPOINT = "/api/points/analyze";
 const PLOTLINE_ANALYZE_ENDPOINT = "/api/plotline/analyze";
+const PLOTLINE_STORY_ENDPOINT = "/api/plotline/story";
 const CHATTER_THREAD_INGEST_ENDPOINT = "/api/chatter/thread/ingest";
 const CHATTER_THREAD_GENERATE_ENDPOINT = "/api/chatter/thread/generate";
 const CHATTER_THREAD_REGENERATE_ENDPOINT = "/api/chatter/thread/regenerate";
 const CHATTER_THREAD_SHORTLIST_ENDPOINT = "/api/chatter/thread/shortlist";
+const PROVIDER_HEALTH_ENDPOINT = "/api/health/gemini";
 
 interface ApiErrorPayload {
   error?: {
@@ -31,9 +42,18 @@ interface ApiErrorPayload {
   message?: string;
 }
 
+interface ServerStageEvent {
+  stage: Exclude<ProgressEvent["stage"], "idle" | "complete" | "error">;
+  kind: string;
+  message: string;
+  percent?: number;
+  model?: string;
+}
+
 interface PointsAnalyzeApiSlide {
   selectedPageNumber: number;
   context: string;
+  metrics?: SlideMetric[];
 }
 
 interface PointsAnalyzeApiResult {
@@ -45,6 +65,7 @@ interface PointsAnalyzeApiResult {
   companyDescription: string;
   zerodhaStockUrl?: string;
   slides: PointsAnalyzeApiSlide[];
+  usage?: RequestUsage;
 }
 
 interface ThreadGenerateInsightApiItem {
@@ -56,6 +77,7 @@ interface ThreadGenerateApiResult {
   introTweet: string;
   insightTweets: ThreadGenerateInsightApiItem[];
   outroTweet: string;
+  usage?: RequestUsage;
 }
 
 interface PlotlineAnalyzeApiResult {
@@ -72,7 +94,9 @@ interface PlotlineAnalyzeApiResult {
     matchedKeywords: string[];
     periodLabel: string;
     periodSortKey: number;
+    verification?: QuoteVerification;
   }>;
+  usage?: RequestUsage;
 }
 
 interface PdfImageConversionOptions {
@@ -186,6 +210,96 @@ const postJson = async <T>(url: string, body: unknown): Promise<T> => {
   }
 };
 
+const parseSseFrame = (frame: string): { event: string; data: string } | null => {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+  }
+  return dataLines.length > 0 ? { event, data: dataLines.join("\n") } : null;
+};
+
+// Asks the analyze endpoints for Server-Sent Events and falls back to a plain JSON
+// response when the server (or a proxy in between) does not stream.
+const postJsonWithStageEvents = async <T>(
+  url: string,
+  body: unknown,
+  onStageEvent: (event: ServerStageEvent) => void,
+): Promise<T> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      accept: "text/event-stream, application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  const isEventStream = (response.headers.get("content-type") || "").includes("text/event-stream");
+  if (!response.ok || !isEventStream || !response.body) {
+    if (!response.ok) {
+      throw new Error(await parseApiErrorMessage(response));
+    }
+    try {
+      return (await response.json()) as T;
+    } catch {
+      throw new Error("Server returned invalid JSON.");
+    }
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let finalResult: { status: number; body: unknown } | null = null;
+
+  const handleFrame = (rawFrame: string) => {
+    const frame = parseSseFrame(rawFrame.replace(/\r/g, ""));
+    if (!frame) return;
+    let data: any;
+    try {
+      data = JSON.parse(frame.data);
+    } catch {
+      return;
+    }
+    if (frame.event === "stage") {
+      onStageEvent(data as ServerStageEvent);
+    } else if (frame.event === "result") {
+      finalResult = data;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (value) {
+      buffer += decoder.decode(value, { stream: true });
+      let separatorIndex = buffer.indexOf("\n\n");
+      while (separatorIndex >= 0) {
+        handleFrame(buffer.slice(0, separatorIndex));
+        buffer = buffer.slice(separatorIndex + 2);
+        separatorIndex = buffer.indexOf("\n\n");
+      }
+    }
+    if (done) break;
+  }
+  if (buffer.trim()) handleFrame(buffer);
+
+  const result = finalResult as { status: number; body: unknown } | null;
+  if (!result) {
+    throw new Error("Connection closed before the analysis finished. Please retry.");
+  }
+  if (result.status >= 400) {
+    throw new Error(
+      await parseApiErrorMessage(
+        new Response(typeof result.body === "string" ? result.body : JSON.stringify(result.body), {
+          status: result.status,
+        }),
+      ),
+    );
+  }
+  return result.body as T;
+};
+
 const transcriptProgressDefaults: ProgressEvent[] = [
   { stage: "preparing", message: "Normalizing transcript and validating structure...", percent: 8 },
   { stage: "uploading", message: "Sending transcript to provider...", percent: 22 },
@@ -193,6 +307,44 @@ const transcriptProgressDefaults: ProgressEvent[] = [
   { stage: "finalizing", message: "Structuring insights for output...", percent: 88 },
 ];
 
+// Shows simulated stages until the server starts streaming real ones, then mirrors those
+// and keeps a running activity log for the progress panel.
+const createStageProgressTracker = (onProgress?: (event: ProgressEvent) => void) => {
+  const activity: ProgressActivity[] = [];
+  let progressInterval: ReturnType<typeof setInterval> | undefined;
+  let index = 0;
+  let lastPercent = 0;
+
+  const stopSimulation = () => {
+    if (progressInterval) {
+      clearInterval(progressInterval);
+      progressInterval = undefined;
+    }
+  };
+
+  if (onProgress) {
+    onProgress(transcriptProgressDefaults[0]);
+    progressInterval = setInterval(() => {
+      index = Math.min(index + 1, transcriptProgressDefaults.length - 1);
+      onProgress(transcriptProgressDefaults[index]);
+    }, 1500);
+  }
+
+  return {
+    handleStageEvent: (event: ServerStageEvent) => {
+      stopSimulation();
+      activity.push({ kind: event.kind, message: event.message, at: Date.now() });
+      lastPercent = Math.max(lastPercent, event.percent ?? lastPercent);
+      onProgress?.({ stage: event.stage, message: event.message, percent: lastPercent, activity: [...activity] });
+    },
+    finish: (event: ProgressEvent) => {
+      stopSimulation();
+      onProgress?.(activity.length > 0 ? { ...event, activity: [...activity] } : event);
+    },
+    stop: stopSimulation,
+  };
+};
+
 // --- PDF Processing ---
 
 const getPdfDocument = async (file: File) => {
@@ -404,38 +556,36 @@ export const analyzeTranscript = async (
   provider: ProviderType = ProviderType.GEMINI,
   modelId: ModelType = ModelType.FLASH_3,
   onProgress?: (event: ProgressEvent) => void,
+  promptVersion?: string,
+  // Forces a fresh model call when the server would otherwise answer from its result cache.
+  bypassCache = false,
 ): Promise<ChatterAnalysisResult> => {
   if (!transcript.trim()) {
     throw new Error("Transcript is empty.");
   }
 
-  let progressInterval: ReturnType<typeof setInterval> | undefined;
-  let index = 0;
-
-  if (onProgress) {
-    onProgress(transcriptProgressDefaults[0]);
-    progressInterval = setInterval(() => {
-      index = Math.min(index + 1, transcriptProgressDefaults.length - 1);
-      onProgress(transcriptProgressDefaults[index]);
-    }, 1500);
-  }
+  const tracker = createStageProgressTracker(onProgress);
 
   try {
-    const result = await postJson<ChatterAnalysisResult>(CHATTER_ANALYZE_ENDPOINT, {
-      provider,
-      transcript,
-      model: modelId,
-    });
-
-    onProgress?.({ stage: "complete", message: "Insights ready.", percent: 100 });
+    const result = await postJsonWithStageEvents<ChatterAnalysisResult>(
+      CHATTER_ANALYZE_ENDPOINT,
+      {
+        provider,
+        transcript,
+        model: modelId,
+        ...(promptVersion ? { promptVersion } : {}),
+        ...(bypassCache ? { bypassCache: true } : {}),
+      },
+      tracker.handleStageEvent,
+    );
+
+    tracker.finish({ stage: "complete", message: "Insights ready.", percent: 100 });
     return result;
   } catch (error) {
-    onProgress?.({ stage: "error", message: "Analysis failed. Please retry.", percent: 100 });
+    tracker.finish({ stage: "error", message: "Analysis failed. Please retry.", percent: 100 });
     throw error;
   } finally {
-    if (progressInterval) {
-      clearInterval(progressInterval);
-    }
+    tracker.stop();
   }
 };
 
@@ -453,30 +603,25 @@ export const analyzePlotlineTranscript = async (
     throw new Error("Thesis description is required.");
   }
 
-  let progressInterval: ReturnType<typeof setInterval> | undefined;
-  let index = 0;
-
-  if (onProgress) {
-    onProgress(transcriptProgressDefaults[0]);
-    progressInterval = setInterval(() => {
-      index = Math.min(index + 1, transcriptProgressDefaults.length - 1);
-      onProgress(transcriptProgressDefaults[index]);
-    }, 1500);
-  }
+  const tracker = createStageProgressTracker(onProgress);
 
   try {
-    const result = await postJson<PlotlineAnalyzeApiResult>(PLOTLINE_ANALYZE_ENDPOINT, {
-      provider,
-      model: modelId,
-      transcript,
-      thesis,
-    });
+    const result = await postJsonWithStageEvents<PlotlineAnalyzeApiResult>(
+      PLOTLINE_ANALYZE_ENDPOINT,
+      {
+        provider,
+        model: modelId,
+        transcript,
+        thesis,
+      },
+      tracker.handleStageEvent,
+    );
 
     if (!Array.isArray(result?.quotes)) {
       throw new Error("Plotline analysis returned an invalid payload.");
     }
 
-    onProgress?.({ stage: "complete", message: "Plotline extraction ready.", percent: 100 });
+    tracker.finish({ stage: "complete", message: "Plotline extraction ready.", percent: 100 });
     return {
       companyName: result.companyName,
       fiscalPeriod: result.fiscalPeriod,
@@ -491,14 +636,81 @@ export const analyzePlotlineTranscript = async (
         periodLabel: q.periodLabel,
         periodSortKey: q.periodSortKey,
         selected: true,
+        verification: q.verification,
       })),
+      usage: result.usage,
     };
   } catch (error) {
-    onProgress?.({ stage: "error", message: "Plotline extraction failed. Please retry.", percent: 100 });
+    tracker.finish({ stage: "error", message: "Plotline extraction failed. Please retry.", percent: 100 });
     throw error;
   } finally {
-    if (progressInterval) clearInterval(progressInterval);
+    tracker.stop();
+  }
+};
+
+// The story route tags failures of its model calls with the stage that failed. A failed plan can be
+// retried with a locally built one; validation and configuration errors carry no stage.
+export interface PlotlineStoryError extends Error {
+  stage?: "plan" | "write";
+}
+
+export const isPlotlineStoryPlanFailure = (error: unknown): boolean =>
+  (error as PlotlineStoryError | null)?.stage === "plan";
+
+export const generatePlotlineStory = async (
+  thesis: string,
+  companyGroups: PlotlineCompanyGroup[],
+  provider: ProviderType = ProviderType.GEMINI,
+  modelId: ModelType = ModelType.FLASH_3,
+  plan?: PlotlineStoryPlan,
+): Promise<PlotlineStoryResult> => {
+  if (!thesis.trim()) {
+    throw new Error("Thesis description is required.");
+  }
+
+  const selectedGroups = companyGroups
+    .map((group) => ({ ...group, quotes: group.quotes.filter((quote) => quote.selected) }))
+    .filter((group) => group.quotes.length > 0);
+  if (selectedGroups.length === 0) {
+    throw new Error("Select at least one quote to write the story.");
   }
+
+  const response = await fetch(PLOTLINE_STORY_ENDPOINT, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+    },
+    body: JSON.stringify({
+      provider,
+      model: modelId,
+      thesis,
+      companyGroups: selectedGroups,
+      plan,
+    }),
+  });
+
+  if (!response.ok) {
+    const payload = (await response
+      .clone()
+      .json()
+      .catch(() => null)) as { error?: unknown; stage?: unknown } | null;
+    const message = typeof payload?.error === "string" ? payload.error : await parseApiErrorMessage(response);
+    const stage = payload?.stage === "plan" || payload?.stage === "write" ? payload.stage : undefined;
+    throw Object.assign(new Error(message), { stage }) as PlotlineStoryError;
+  }
+
+  let result: PlotlineStoryResult;
+  try {
+    result = (await response.json()) as PlotlineStoryResult;
+  } catch {
+    throw new Error("Server returned invalid JSON.");
+  }
+
+  if (!Array.isArray(result?.sections) || result.sections.length === 0 || !Array.isArray(result.watchNext)) {
+    throw new Error("Plotline story returned an invalid payload.");
+  }
+
+  return result;
 };
 
 // --- "Points & Figures" Analysis ---
@@ -516,13 +728,17 @@ export const analyzePresentation = async (
   }
 
   onProgress("Analyzing slides with AI...");
-  const result = await postJson<PointsAnalyzeApiResult>(POINTS_ANALYZE_ENDPOINT, {
-    provider,
-    pageImages,
-    model: modelId,
-    chunkStartPage: chunkRange?.startPage,
-    chunkEndPage: chunkRange?.endPage,
-  });
+  const result = await postJsonWithStageEvents<PointsAnalyzeApiResult>(
+    POINTS_ANALYZE_ENDPOINT,
+    {
+      provider,
+      pageImages,
+      model: modelId,
+      chunkStartPage: chunkRange?.startPage,
+      chunkEndPage: chunkRange?.endPage,
+    },
+    (event) => onProgress(event.message),
+  );
 
   if (!result.slides || result.slides.length === 0) {
     throw new Error("AI did not return any selected slides.");
@@ -557,6 +773,7 @@ export const analyzePresentation = async (
     companyDescription: result.companyDescription,
     zerodhaStockUrl: result.zerodhaStockUrl,
     slides: sortedSlides,
+    usage: result.usage,
   };
 };
 
@@ -618,6 +835,7 @@ export const generateThreadDraft = async (
       tweet: item.tweet,
     })),
     outroTweet: result.outroTweet,
+    usage: result.usage,
   };
 };
 
@@ -645,6 +863,7 @@ export const shortlistThreadCandidates = async (
 
   return {
     shortlistedQuoteIds: result.shortlistedQuoteIds.filter((id) => typeof id === "string" && id.trim().length > 0),
+    usage: result.usage,
   };
 };
 
@@ -658,13 +877,16 @@ export const regenerateThreadTweet = async (params: {
     editionDate?: string;
   };
   targetQuote?: ThreadQuoteCandidate;
+  // Rewrites for that platform's length and voice; omitted, the tweet keeps the X thread cap.
+  platform?: ThreadPlatform;
   provider?: ProviderType;
   modelId?: ModelType;
+  onUsage?: (usage: RequestUsage) => void;
 }): Promise<string> => {
   const provider = params.provider ?? ProviderType.GEMINI;
   const modelId = params.modelId ?? ModelType.FLASH_3;
 
-  const result = await postJson<{ tweet: string }>(CHATTER_THREAD_REGENERATE_ENDPOINT, {
+  const result = await postJson<{ tweet: string; usage?: RequestUsage }>(CHATTER_THREAD_REGENERATE_ENDPOINT, {
     provider,
     model: modelId,
     tweetKind: params.tweetKind,
@@ -672,11 +894,31 @@ export const regenerateThreadTweet = async (params: {
     usedTweetTexts: params.usedTweetTexts,
     editionMetadata: params.editionMetadata,
     targetQuote: params.targetQuote,
+    platform: params.platform,
   });
 
+  if (result?.usage) {
+    params.onUsage?.(result.usage);
+  }
   if (!result?.tweet || typeof result.tweet !== "string") {
     throw new Error("Regenerated tweet is empty.");
   }
 
   return result.tweet;
 };
+
+// The quick check pings every Gemini model and the chosen (or default) OpenRouter model; deep mode
+// instead runs one tiny schema-constrained call per task (chatter, points vision, thread) on the chosen model.
+export const checkProviderHealth = async (params: {
+  deep?: boolean;
+  provider?: ProviderType;
+  modelId?: ModelType | string;
+} = {}): Promise<ProviderHealthReport> => {
+  const query = new URLSearchParams();
+  if (params.deep) {
+    query.set("deep", "1");
+  }
+  query.set("provider", params.provider ?? ProviderType.GEMINI);
+  if (params.modelId) query.set("model", params.modelId);
+  return postJson<ProviderHealthReport>(`${PROVIDER_HEALTH_ENDPOINT}?${query.toString()}`, {});
+};
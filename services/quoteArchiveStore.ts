@@ -0,0 +1,127 @@
+import type { ArchivedQuote } from "../types";
+import { isQuotaExceededError, type PersistSaveStatus } from "./sessionStore";
+
+const DB_NAME = "chatter-analyst-quote-archive-db";
+const DB_VERSION = 1;
+const STORE_NAME = "quotes";
+
+const INDEXES: Array<keyof ArchivedQuote> = ["nseScrip", "fiscalPeriod", "category", "speakerName"];
+
+const isIndexedDbAvailable = (): boolean =>
+  typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
+
+const openDatabase = async (): Promise<IDBDatabase | null> => {
+  if (!isIndexedDbAvailable()) {
+    return null;
+  }
+
+  return new Promise((resolve) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        for (const field of INDEXES) {
+          store.createIndex(field, field, { unique: false });
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(null);
+    request.onblocked = () => resolve(null);
+  });
+};
+
+// Callers fire and forget, so every failure, including a throwing open() or transaction(), resolves to a status.
+export const archiveQuotes = async (records: ArchivedQuote[]): Promise<PersistSaveStatus> => {
+  if (records.length === 0) return "ok";
+  try {
+    const db = await openDatabase();
+    if (!db) return "unsupported";
+
+    return await new Promise((resolve) => {
+      let tx: IDBTransaction;
+      try {
+        tx = db.transaction(STORE_NAME, "readwrite");
+        const store = tx.objectStore(STORE_NAME);
+        for (const record of records) {
+          store.put(record);
+        }
+      } catch (error) {
+        db.close();
+        resolve(isQuotaExceededError(error) ? "quota_exceeded" : "error");
+        return;
+      }
+
+      const fail = () => {
+        const error = tx.error;
+        db.close();
+        resolve(isQuotaExceededError(error) ? "quota_exceeded" : "error");
+      };
+
+      tx.oncomplete = () => {
+        db.close();
+        resolve("ok");
+      };
+      tx.onerror = fail;
+      tx.onabort = fail;
+    });
+  } catch {
+    return "error";
+  }
+};
+
+export const loadArchivedQuotes = async (): Promise<ArchivedQuote[]> => {
+  try {
+    const db = await openDatabase();
+    if (!db) return [];
+
+    return await new Promise((resolve) => {
+      try {
+        const tx = db.transaction(STORE_NAME, "readonly");
+        const request = tx.objectStore(STORE_NAME).getAll();
+
+        request.onsuccess = () => resolve((request.result as ArchivedQuote[] | undefined) ?? []);
+        request.onerror = () => resolve([]);
+        tx.onabort = () => {
+          db.close();
+          resolve([]);
+        };
+        tx.oncomplete = () => db.close();
+      } catch {
+        db.close();
+        resolve([]);
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const clearQuoteArchive = async (): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+
+    await new Promise<void>((resolve) => {
+      const finish = () => {
+        db.close();
+        resolve();
+      };
+
+      try {
+        const tx = db.transaction(STORE_NAME, "readwrite");
+        tx.objectStore(STORE_NAME).clear();
+        tx.oncomplete = finish;
+        tx.onabort = finish;
+        tx.onerror = finish;
+      } catch {
+        finish();
+      }
+    });
+  } catch {
+    // Nothing to clear when the archive cannot be opened.
+  }
+};
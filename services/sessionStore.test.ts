@@ -0,0 +1,89 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_SESSION_NAME,
+  deletePersistedSession,
+  duplicatePersistedSession,
+  getNextWorkspaceName,
+  getUniqueSessionName,
+  listPersistedSessions,
+  loadPersistedSession,
+  renamePersistedSession,
+  savePersistedSession,
+} from './sessionStore';
+
+let indexedDB: IDBFactory;
+
+// Writes a record as the pre-workspace app did: no name or savedAt, only the payload.
+const putLegacyRecord = async (payload: unknown) => {
+  await listPersistedSessions();
+  const db = await new Promise<IDBDatabase>((resolve) => {
+    const request = indexedDB.open('chatter-analyst-session-db', 1);
+    request.onsuccess = () => resolve(request.result);
+  });
+  await new Promise<void>((resolve) => {
+    const tx = db.transaction('sessions', 'readwrite');
+    tx.objectStore('sessions').put({ id: 'latest', payload });
+    tx.oncomplete = () => resolve();
+  });
+  db.close();
+};
+
+describe('sessionStore', () => {
+  beforeEach(() => {
+    indexedDB = new IDBFactory();
+    vi.stubGlobal('window', { indexedDB });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('lists saved workspaces newest first', async () => {
+    const now = vi.spyOn(Date, 'now');
+    now.mockReturnValue(1_000);
+    await savePersistedSession('session-a', 'Q2 banks', { savedAt: 1_000 });
+    now.mockReturnValue(2_000);
+    await savePersistedSession('session-b', '  ', { savedAt: 2_000 });
+    now.mockRestore();
+
+    expect(await listPersistedSessions()).toEqual([
+      { id: 'session-b', name: DEFAULT_SESSION_NAME, savedAt: 2_000 },
+      { id: 'session-a', name: 'Q2 banks', savedAt: 1_000 },
+    ]);
+  });
+
+  it('renames, duplicates and deletes workspaces', async () => {
+    await savePersistedSession('session-a', 'Q2 banks', { notes: 'hdfc' });
+
+    expect(await renamePersistedSession('session-a', 'Q3 banks')).toBe('ok');
+    expect(await renamePersistedSession('missing', 'Q3 banks')).toBe('error');
+
+    const copy = await duplicatePersistedSession('session-a', 'Q3 banks copy');
+    expect(copy?.name).toBe('Q3 banks copy');
+    expect(copy?.id).not.toBe('session-a');
+    expect(await loadPersistedSession(copy!.id)).toEqual({ notes: 'hdfc' });
+    expect(await duplicatePersistedSession('missing', 'Nothing')).toBeNull();
+
+    await deletePersistedSession('session-a');
+    expect((await listPersistedSessions()).map((session) => session.name)).toEqual(['Q3 banks copy']);
+    expect(await loadPersistedSession('session-a')).toBeNull();
+  });
+
+  it('surfaces the legacy "latest" record as a default-named workspace', async () => {
+    await putLegacyRecord({ schemaVersion: 1, savedAt: 1_700_000_000_000 });
+
+    expect(await listPersistedSessions()).toEqual([
+      { id: 'latest', name: DEFAULT_SESSION_NAME, savedAt: 1_700_000_000_000 },
+    ]);
+    expect(await loadPersistedSession('latest')).toEqual({ schemaVersion: 1, savedAt: 1_700_000_000_000 });
+  });
+
+  it('derives workspace names that do not collide with saved ones', () => {
+    expect(getNextWorkspaceName([])).toBe('Workspace 1');
+    expect(getNextWorkspaceName(['Workspace 2', 'Q3 banks'])).toBe('Workspace 3');
+    expect(getNextWorkspaceName(['Workspace 3', 'workspace 4', 'Q3 banks'])).toBe('Workspace 5');
+    expect(getUniqueSessionName('Q3 banks copy', ['Q3 banks'])).toBe('Q3 banks copy');
+    expect(getUniqueSessionName('Q3 banks copy', ['Q3 banks copy', 'Q3 banks copy 2'])).toBe('Q3 banks copy 3');
+  });
+});
@@ -1,19 +1,30 @@
 const DB_NAME = "chatter-analyst-session-db";
 const DB_VERSION = 1;
 const STORE_NAME = "sessions";
-const SESSION_KEY = "latest";
+export const DEFAULT_SESSION_NAME = "Untitled workspace";
+const ACTIVE_SESSION_STORAGE_KEY = "chatter-active-session-id";
 
+// Sessions saved before named workspaces existed live under the legacy "latest" id
+// and surface as a regular workspace with the default name.
 type SessionRecord<T> = {
   id: string;
+  name?: string;
+  savedAt?: number;
   payload: T;
 };
 
 export type PersistSaveStatus = "ok" | "unsupported" | "quota_exceeded" | "error";
 
+export interface PersistedSessionSummary {
+  id: string;
+  name: string;
+  savedAt: number;
+}
+
 const isIndexedDbAvailable = (): boolean =>
   typeof window !== "undefined" && typeof window.indexedDB !== "undefined";
 
-const isQuotaExceededError = (error: unknown): boolean => {
+export const isQuotaExceededError = (error: unknown): boolean => {
   if (!error || typeof error !== "object") return false;
   const name = String((error as any).name || "");
   const message = String((error as any).message || "").toLowerCase();
@@ -46,92 +57,190 @@ const openDatabase = async (): Promise<IDBDatabase | null> => {
   });
 };
 
-export const loadPersistedSession = async <T>(): Promise<T | null> => {
+const toSummary = (record: SessionRecord<unknown>): PersistedSessionSummary => {
+  const payloadSavedAt = Number((record.payload as { savedAt?: unknown } | null)?.savedAt);
+  return {
+    id: record.id,
+    name: record.name?.trim() || DEFAULT_SESSION_NAME,
+    savedAt: Number.isFinite(record.savedAt) ? Number(record.savedAt) : Number.isFinite(payloadSavedAt) ? payloadSavedAt : 0,
+  };
+};
+
+const readRecord = async <T>(db: IDBDatabase, id: string): Promise<SessionRecord<T> | null> =>
+  new Promise((resolve) => {
+    const tx = db.transaction(STORE_NAME, "readonly");
+    const request = tx.objectStore(STORE_NAME).get(id);
+    request.onsuccess = () => resolve((request.result as SessionRecord<T> | undefined) ?? null);
+    request.onerror = () => resolve(null);
+    tx.onabort = () => resolve(null);
+  });
+
+const writeRecord = async <T>(db: IDBDatabase, record: SessionRecord<T>): Promise<PersistSaveStatus> =>
+  new Promise((resolve) => {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    tx.objectStore(STORE_NAME).put(record);
+
+    const fail = () => {
+      resolve(isQuotaExceededError(tx.error) ? "quota_exceeded" : "error");
+    };
+
+    tx.oncomplete = () => resolve("ok");
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+
+export const createSessionId = (): string =>
+  `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isSessionNameTaken = (name: string, existingNames: string[]): boolean =>
+  existingNames.some((existing) => existing.trim().toLowerCase() === name.trim().toLowerCase());
+
+// "Q3 banks copy" becomes "Q3 banks copy 2" when a workspace already carries that name.
+export const getUniqueSessionName = (baseName: string, existingNames: string[]): string => {
+  let name = baseName;
+  for (let suffix = 2; isSessionNameTaken(name, existingNames); suffix += 1) {
+    name = `${baseName} ${suffix}`;
+  }
+  return name;
+};
+
+export const getNextWorkspaceName = (existingNames: string[]): string => {
+  let index = existingNames.length + 1;
+  while (isSessionNameTaken(`Workspace ${index}`, existingNames)) {
+    index += 1;
+  }
+  return `Workspace ${index}`;
+};
+
+export const getLastActiveSessionId = (): string | null => {
+  try {
+    return window.localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const rememberActiveSessionId = (id: string | null): void => {
+  try {
+    if (id) {
+      window.localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, id);
+    } else {
+      window.localStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+    }
+  } catch {
+    // Ignore storage access failures (private mode, disabled storage).
+  }
+};
+
+export const listPersistedSessions = async (): Promise<PersistedSessionSummary[]> => {
   const db = await openDatabase();
-  if (!db) return null;
+  if (!db) return [];
 
   return new Promise((resolve) => {
     const tx = db.transaction(STORE_NAME, "readonly");
-    const store = tx.objectStore(STORE_NAME);
-    const request = store.get(SESSION_KEY);
+    const request = tx.objectStore(STORE_NAME).getAll();
 
     request.onsuccess = () => {
-      const record = request.result as SessionRecord<T> | undefined;
-      resolve(record?.payload ?? null);
+      const records = (request.result as SessionRecord<unknown>[] | undefined) ?? [];
+      resolve(records.map(toSummary).sort((a, b) => b.savedAt - a.savedAt));
     };
-    request.onerror = () => resolve(null);
-    tx.onabort = () => resolve(null);
+    request.onerror = () => resolve([]);
+    tx.onabort = () => resolve([]);
     tx.oncomplete = () => db.close();
   });
 };
 
-export const savePersistedSession = async <T>(payload: T): Promise<PersistSaveStatus> => {
+export const loadPersistedSession = async <T>(id: string): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  const record = await readRecord<T>(db, id);
+  db.close();
+  return record?.payload ?? null;
+};
+
+export const savePersistedSession = async <T>(id: string, name: string, payload: T): Promise<PersistSaveStatus> => {
   const db = await openDatabase();
   if (!db) return "unsupported";
 
-  return new Promise((resolve) => {
-    const tx = db.transaction(STORE_NAME, "readwrite");
-    const store = tx.objectStore(STORE_NAME);
-    const request = store.put({
-      id: SESSION_KEY,
-      payload,
-    } as SessionRecord<T>);
+  const status = await writeRecord(db, {
+    id,
+    name: name.trim() || DEFAULT_SESSION_NAME,
+    savedAt: Date.now(),
+    payload,
+  });
+  db.close();
+  return status;
+};
 
-    request.onsuccess = () => {
-      // no-op
-    };
+export const renamePersistedSession = async (id: string, name: string): Promise<PersistSaveStatus> => {
+  const db = await openDatabase();
+  if (!db) return "unsupported";
 
-    request.onerror = () => {
-      const error = request.error;
-      if (isQuotaExceededError(error)) {
-        resolve("quota_exceeded");
-      } else {
-        resolve("error");
-      }
-    };
+  const record = await readRecord<unknown>(db, id);
+  if (!record) {
+    db.close();
+    return "error";
+  }
+
+  const status = await writeRecord(db, { ...record, name: name.trim() || DEFAULT_SESSION_NAME });
+  db.close();
+  return status;
+};
+
+export const duplicatePersistedSession = async (
+  id: string,
+  name: string,
+): Promise<PersistedSessionSummary | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  const record = await readRecord<unknown>(db, id);
+  if (!record) {
+    db.close();
+    return null;
+  }
 
+  const copy: SessionRecord<unknown> = {
+    id: createSessionId(),
+    name: name.trim() || DEFAULT_SESSION_NAME,
+    savedAt: Date.now(),
+    payload: record.payload,
+  };
+  const status = await writeRecord(db, copy);
+  db.close();
+  return status === "ok" ? toSummary(copy) : null;
+};
+
+export const deletePersistedSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  await new Promise<void>((resolve) => {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    tx.objectStore(STORE_NAME).delete(id);
     tx.oncomplete = () => {
       db.close();
-      resolve("ok");
+      resolve();
     };
-
-    tx.onerror = () => {
-      const error = tx.error;
+    tx.onabort = () => {
       db.close();
-      if (isQuotaExceededError(error)) {
-        resolve("quota_exceeded");
-      } else {
-        resolve("error");
-      }
+      resolve();
     };
-
-    tx.onabort = () => {
-      const error = tx.error;
+    tx.onerror = () => {
       db.close();
-      if (isQuotaExceededError(error)) {
-        resolve("quota_exceeded");
-      } else {
-        resolve("error");
-      }
+      resolve();
     };
   });
 };
 
-export const clearPersistedSession = async (): Promise<void> => {
+export const clearPersistedSessions = async (): Promise<void> => {
   const db = await openDatabase();
   if (!db) return;
 
   await new Promise<void>((resolve) => {
     const tx = db.transaction(STORE_NAME, "readwrite");
-    const store = tx.objectStore(STORE_NAME);
-    const request = store.delete(SESSION_KEY);
-
-    request.onsuccess = () => {
-      // no-op
-    };
-    request.onerror = () => {
-      // no-op
-    };
+    tx.objectStore(STORE_NAME).clear();
     tx.oncomplete = () => {
       db.close();
       resolve();
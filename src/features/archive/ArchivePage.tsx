@@ -0,0 +1,176 @@
+import React from "react";
+import { useQuoteArchive } from "./useQuoteArchive";
+
+const RECENT_PERIOD_OPTIONS = [2, 4, 8];
+
+const selectClassName = "rounded-z-sm border border-line bg-white px-3 py-2 text-sm text-ink";
+
+export const ArchivePage: React.FC = () => {
+  const {
+    records,
+    loading,
+    query,
+    setQuery,
+    filters,
+    updateFilter,
+    resetFilters,
+    facets,
+    matches,
+    visibleMatches,
+    clearArchive,
+  } = useQuoteArchive();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p className="text-stone">Loading archive...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 min-h-screen">
+      {/* Header */}
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-ink">Quote Archive</h1>
+          <p className="text-sm text-stone mt-1">
+            {records.length} quote{records.length === 1 ? "" : "s"} from every transcript analyzed in this browser
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <a
+            href="/"
+            className="px-4 py-2 rounded-z-md border border-line text-sm font-semibold text-stone hover:text-ink"
+          >
+            Back to Studio
+          </a>
+          <button
+            onClick={() => {
+              if (window.confirm("Delete every archived quote from this browser?")) {
+                void clearArchive();
+              }
+            }}
+            disabled={records.length === 0}
+            className="px-4 py-2 rounded-z-md border border-line text-sm font-semibold text-stone hover:text-rose-700 disabled:opacity-50"
+          >
+            Clear Archive
+          </button>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="rounded-z-md border border-line bg-white p-4 mb-6 space-y-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder='Search quotes, e.g. deposits "cost of funds"'
+          className="w-full rounded-z-sm border border-line bg-brand-soft px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-brand"
+        />
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={filters.nseScrip ?? ""}
+            onChange={(event) => updateFilter("nseScrip", event.target.value)}
+            className={selectClassName}
+          >
+            <option value="">All companies</option>
+            {facets.companies.map((company) => (
+              <option key={company.nseScrip} value={company.nseScrip}>
+                {company.companyName} ({company.nseScrip})
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.fiscalPeriod ?? ""}
+            onChange={(event) => updateFilter("fiscalPeriod", event.target.value)}
+            className={selectClassName}
+          >
+            <option value="">All periods</option>
+            {facets.periods.map((period) => (
+              <option key={period} value={period}>
+                {period}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.recentPeriods ?? ""}
+            onChange={(event) => updateFilter("recentPeriods", Number(event.target.value))}
+            className={selectClassName}
+          >
+            <option value="">Any time</option>
+            {RECENT_PERIOD_OPTIONS.map((count) => (
+              <option key={count} value={count}>
+                Last {count} quarters
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.category ?? ""}
+            onChange={(event) => updateFilter("category", event.target.value)}
+            className={selectClassName}
+          >
+            <option value="">All categories</option>
+            {facets.categories.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.speakerName ?? ""}
+            onChange={(event) => updateFilter("speakerName", event.target.value)}
+            className={selectClassName}
+          >
+            <option value="">All speakers</option>
+            {facets.speakers.map((speaker) => (
+              <option key={speaker} value={speaker}>
+                {speaker}
+              </option>
+            ))}
+          </select>
+          <button onClick={resetFilters} className="text-sm font-semibold text-brand hover:text-ink px-2">
+            Reset
+          </button>
+        </div>
+        <p className="text-xs text-stone">
+          {matches.length} match{matches.length === 1 ? "" : "es"}
+          {matches.length > visibleMatches.length ? ` · showing first ${visibleMatches.length}` : ""}
+        </p>
+      </div>
+
+      {/* Results */}
+      {records.length === 0 ? (
+        <div className="rounded-z-md border border-dashed border-line bg-white/70 p-10 text-center">
+          <p className="text-sm text-stone">
+            Nothing archived yet. Quotes are saved here automatically after each Chatter or Plotline analysis.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleMatches.map((record) => (
+            <div key={record.id} className="rounded-z-md border border-line bg-white p-4">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-stone mb-2">
+                <span className="font-semibold text-ink">{record.companyName}</span>
+                {record.nseScrip && <span>{record.nseScrip}</span>}
+                <span>· {record.fiscalPeriod}</span>
+                {record.category && (
+                  <span className="inline-flex items-center rounded-full border border-line bg-canvas px-2 py-0.5">
+                    {record.category}
+                  </span>
+                )}
+                <span className="ml-auto capitalize">{record.source}</span>
+              </div>
+              {record.summary && <p className="text-sm font-semibold text-ink">{record.summary}</p>}
+              <p className="text-sm text-ink/80 italic mt-1 leading-relaxed">"{record.quote}"</p>
+              <p className="text-xs text-stone mt-2">
+                &mdash; {record.speakerName || "Unknown speaker"}
+                {record.speakerDesignation ? `, ${record.speakerDesignation}` : ""}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { ArchivePage } from "./ArchivePage";
+export type { ArchiveSearchFilters, ArchiveFacets } from "./quoteArchive";
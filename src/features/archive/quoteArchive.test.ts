@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { ChatterAnalysisResult } from "../../../types";
+import { makeQuote, makeResult } from "../chatter/chatterTestFixtures";
+import {
+  buildArchiveFacets,
+  buildArchiveRecordsFromChatter,
+  parseSearchQuery,
+  searchArchivedQuotes,
+} from "./quoteArchive";
+
+// One HDFC Bank quote per result; the lower-case scrip checks that records normalise it.
+const depositResult = (fiscalPeriod: string, quote: string, summary = "Deposit growth"): ChatterAnalysisResult =>
+  makeResult({ fiscalPeriod, nseScrip: "hdfcbank", quotes: [makeQuote({ quote, summary })] });
+
+const archive = [
+  ...buildArchiveRecordsFromChatter(depositResult("Q1 FY26", "Deposits grew 14% while the cost of funds eased.")),
+  ...buildArchiveRecordsFromChatter(depositResult("Q2 FY26", "Retail deposits were steady this quarter.")),
+  ...buildArchiveRecordsFromChatter(depositResult("Q3 FY26", "The cost of funds on deposits should fall further.")),
+  ...buildArchiveRecordsFromChatter(depositResult("Q3 FY26", "Unsecured lending stays muted.", "Lending caution")),
+];
+
+describe("quoteArchive", () => {
+  it("builds stable ids so re-analysis upserts the same quote", () => {
+    const first = buildArchiveRecordsFromChatter(depositResult("Q3 FY26", "Deposits grew 14%."), 1);
+    const second = buildArchiveRecordsFromChatter(depositResult("Q3 FY26", "Deposits  grew 14%."), 2);
+    expect(first[0].id).toBe(second[0].id);
+    expect(first[0].nseScrip).toBe("HDFCBANK");
+  });
+
+  it("parses quoted phrases separately from loose terms", () => {
+    expect(parseSearchQuery('Deposits "Cost of  Funds" fall')).toEqual({
+      phrases: ["cost of funds"],
+      terms: ["deposits", "fall"],
+    });
+  });
+
+  it("matches phrases and terms and limits to the most recent quarters", () => {
+    const phraseMatches = searchArchivedQuotes(archive, '"cost of funds"');
+    expect(phraseMatches.map((record) => record.fiscalPeriod)).toEqual(["Q3 FY26", "Q1 FY26"]);
+
+    const recent = searchArchivedQuotes(archive, "deposits", { nseScrip: "HDFCBANK", recentPeriods: 2 });
+    expect(recent.map((record) => record.fiscalPeriod)).toEqual(["Q3 FY26", "Q2 FY26"]);
+
+    expect(buildArchiveFacets(archive).periods).toEqual(["Q3 FY26", "Q2 FY26", "Q1 FY26"]);
+  });
+});
@@ -0,0 +1,179 @@
+import { normalizeScrip } from "../../../functions/_shared/validation";
+import type { ArchivedQuote, ChatterAnalysisResult, PlotlineFileResult } from "../../../types";
+import { toFiscalPeriodSortKey } from "../chatter/chatterComparison";
+
+export interface ArchiveSearchFilters {
+  nseScrip?: string;
+  fiscalPeriod?: string;
+  category?: string;
+  speakerName?: string;
+  recentPeriods?: number;
+}
+
+export interface ArchiveSearchQuery {
+  phrases: string[];
+  terms: string[];
+}
+
+export interface ArchiveFacets {
+  companies: Array<{ nseScrip: string; companyName: string }>;
+  periods: string[];
+  categories: string[];
+  speakers: string[];
+}
+
+const normalizeText = (value: string): string => value.toLowerCase().replace(/\s+/g, " ").trim();
+
+// FNV-1a keeps ids stable across re-analysis so the same quote upserts instead of duplicating.
+const hashText = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const buildArchiveId = (nseScrip: string, companyName: string, fiscalPeriod: string, quote: string): string => {
+  const companyKey = normalizeScrip(nseScrip) || normalizeText(companyName);
+  return `${companyKey}:${hashText(`${normalizeText(fiscalPeriod)}|${normalizeText(quote)}`)}`;
+};
+
+export const buildArchiveRecordsFromChatter = (
+  result: ChatterAnalysisResult,
+  archivedAt = Date.now(),
+): ArchivedQuote[] =>
+  result.quotes
+    .filter((quote) => quote.quote?.trim())
+    .map((quote) => ({
+      id: buildArchiveId(result.nseScrip, result.companyName, result.fiscalPeriod, quote.quote),
+      source: "chatter",
+      companyName: result.companyName,
+      nseScrip: normalizeScrip(result.nseScrip),
+      industry: result.industry,
+      fiscalPeriod: result.fiscalPeriod,
+      category: quote.category,
+      speakerName: quote.speaker?.name || "",
+      speakerDesignation: quote.speaker?.designation || "",
+      quote: quote.quote,
+      summary: quote.summary,
+      archivedAt,
+    }));
+
+export const buildArchiveRecordsFromPlotline = (
+  result: PlotlineFileResult,
+  archivedAt = Date.now(),
+): ArchivedQuote[] =>
+  result.quotes
+    .filter((quote) => quote.quote?.trim())
+    .map((quote) => {
+      const fiscalPeriod = quote.periodLabel || result.fiscalPeriod;
+      return {
+        id: buildArchiveId(result.nseScrip, result.companyName, fiscalPeriod, quote.quote),
+        source: "plotline",
+        companyName: result.companyName,
+        nseScrip: normalizeScrip(result.nseScrip),
+        industry: result.industry,
+        fiscalPeriod,
+        category: "",
+        speakerName: quote.speakerName || "",
+        speakerDesignation: quote.speakerDesignation || "",
+        quote: quote.quote,
+        summary: "",
+        archivedAt,
+      };
+    });
+
+export const parseSearchQuery = (input: string): ArchiveSearchQuery => {
+  const phrases: string[] = [];
+  const remainder = input.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const normalized = normalizeText(phrase);
+    if (normalized) phrases.push(normalized);
+    return " ";
+  });
+  const terms = normalizeText(remainder.replace(/"/g, " "))
+    .split(" ")
+    .filter(Boolean);
+  return { phrases, terms };
+};
+
+const buildHaystack = (record: ArchivedQuote): string =>
+  normalizeText(
+    [record.quote, record.summary, record.companyName, record.nseScrip, record.speakerName, record.speakerDesignation, record.category].join(
+      " ",
+    ),
+  );
+
+const periodKey = (record: ArchivedQuote): number => toFiscalPeriodSortKey(record.fiscalPeriod) ?? -1;
+
+const applyRecentPeriods = (records: ArchivedQuote[], recentPeriods: number): ArchivedQuote[] => {
+  const keys = Array.from(new Set(records.map(periodKey).filter((key) => key >= 0))).sort((a, b) => b - a);
+  const allowed = new Set(keys.slice(0, recentPeriods));
+  return records.filter((record) => allowed.has(periodKey(record)));
+};
+
+export const searchArchivedQuotes = (
+  records: ArchivedQuote[],
+  query: string,
+  filters: ArchiveSearchFilters = {},
+): ArchivedQuote[] => {
+  let scoped = records.filter(
+    (record) =>
+      (!filters.nseScrip || record.nseScrip === filters.nseScrip) &&
+      (!filters.fiscalPeriod || record.fiscalPeriod === filters.fiscalPeriod) &&
+      (!filters.category || record.category === filters.category) &&
+      (!filters.speakerName || record.speakerName === filters.speakerName),
+  );
+  if (filters.recentPeriods && filters.recentPeriods > 0) {
+    scoped = applyRecentPeriods(scoped, filters.recentPeriods);
+  }
+
+  const { phrases, terms } = parseSearchQuery(query);
+  const scored: Array<{ record: ArchivedQuote; score: number }> = [];
+  for (const record of scoped) {
+    const haystack = buildHaystack(record);
+    if (!phrases.every((phrase) => haystack.includes(phrase))) continue;
+    if (!terms.every((term) => haystack.includes(term))) continue;
+
+    const quoteText = normalizeText(record.quote);
+    const summaryText = normalizeText(record.summary);
+    let score = 0;
+    for (const needle of [...phrases, ...terms]) {
+      if (quoteText.includes(needle)) score += 3;
+      if (summaryText.includes(needle)) score += 2;
+    }
+    scored.push({ record, score });
+  }
+
+  return scored
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        periodKey(b.record) - periodKey(a.record) ||
+        a.record.companyName.localeCompare(b.record.companyName),
+    )
+    .map((entry) => entry.record);
+};
+
+const uniqueSorted = (values: string[]): string[] =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+export const buildArchiveFacets = (records: ArchivedQuote[]): ArchiveFacets => {
+  const companies = new Map<string, string>();
+  for (const record of records) {
+    if (record.nseScrip) companies.set(record.nseScrip, record.companyName);
+  }
+
+  const periods = Array.from(new Set(records.map((record) => record.fiscalPeriod).filter(Boolean))).sort(
+    (a, b) => (toFiscalPeriodSortKey(b) ?? -1) - (toFiscalPeriodSortKey(a) ?? -1) || a.localeCompare(b),
+  );
+
+  return {
+    companies: Array.from(companies.entries())
+      .map(([nseScrip, companyName]) => ({ nseScrip, companyName }))
+      .sort((a, b) => a.companyName.localeCompare(b.companyName)),
+    periods,
+    categories: uniqueSorted(records.map((record) => record.category)),
+    speakers: uniqueSorted(records.map((record) => record.speakerName)),
+  };
+};
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { ArchivedQuote } from "../../../types";
+import { clearQuoteArchive, loadArchivedQuotes } from "../../../services/quoteArchiveStore";
+import { buildArchiveFacets, searchArchivedQuotes, type ArchiveSearchFilters } from "./quoteArchive";
+
+const MAX_VISIBLE_RESULTS = 200;
+
+export function useQuoteArchive() {
+  const [records, setRecords] = useState<ArchivedQuote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<ArchiveSearchFilters>({});
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRecords(await loadArchivedQuotes());
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const updateFilter = useCallback(
+    <K extends keyof ArchiveSearchFilters>(key: K, value: ArchiveSearchFilters[K]) => {
+      setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+    },
+    [],
+  );
+
+  const clearArchive = useCallback(async () => {
+    await clearQuoteArchive();
+    setRecords([]);
+    setFilters({});
+  }, []);
+
+  const facets = useMemo(() => buildArchiveFacets(records), [records]);
+  const matches = useMemo(() => searchArchivedQuotes(records, query, filters), [records, query, filters]);
+
+  return {
+    records,
+    loading,
+    query,
+    setQuery,
+    filters,
+    updateFilter,
+    resetFilters: () => setFilters({}),
+    facets,
+    matches,
+    visibleMatches: matches.slice(0, MAX_VISIBLE_RESULTS),
+    reload,
+    clearArchive,
+  };
+}
@@ -0,0 +1,121 @@
+import React from 'react';
+import type { ExtractedQuote } from '../../../types';
+import type { ChatterQuoteChangeStatus } from './chatterComparison';
+import type { ChatterFeatureController } from './useChatterFeature';
+
+interface ChatterComparisonPanelProps {
+  feature: ChatterFeatureController;
+}
+
+const changeLabels: Record<ChatterQuoteChangeStatus, string> = {
+  guidance_changed: 'Guidance changed',
+  new: 'New',
+  dropped: 'Dropped',
+  continued: 'Continued',
+};
+
+const changeStyles: Record<ChatterQuoteChangeStatus, string> = {
+  guidance_changed: 'border-amber-200 bg-amber-50 text-amber-700',
+  new: 'border-emerald-200 bg-emerald-50 text-emerald-700',
+  dropped: 'border-rose-200 bg-rose-50 text-rose-700',
+  continued: 'border-line bg-canvas text-stone',
+};
+
+const ComparisonQuote: React.FC<{ quote: ExtractedQuote | null }> = ({ quote }) => {
+  if (!quote) {
+    return <div className="rounded-z-sm border border-dashed border-line bg-canvas/60 p-3 text-xs text-stone">Not discussed</div>;
+  }
+
+  return (
+    <div className="rounded-z-sm border border-line bg-white p-3">
+      <p className="text-sm font-semibold text-ink">{quote.summary}</p>
+      <p className="text-sm text-ink/80 italic mt-2 leading-relaxed">"{quote.quote}"</p>
+      <p className="text-xs text-stone mt-2">
+        &mdash; {quote.speaker?.name}
+        {quote.speaker?.designation ? `, ${quote.speaker.designation}` : ''}
+      </p>
+    </div>
+  );
+};
+
+export const ChatterComparisonPanel: React.FC<ChatterComparisonPanelProps> = ({ feature }) => {
+  const { comparisonCandidates, comparisonScrip, comparison, comparisonCopyStatus, setComparisonScrip, handleCopyComparison } =
+    feature;
+
+  if (comparisonCandidates.length === 0 || !comparison) {
+    return (
+      <div className="studio-empty rounded-z-md border border-dashed border-line bg-white/70 p-10 text-center shadow-panel">
+        <h3 className="text-2xl text-ink">Nothing to compare yet</h3>
+        <p className="text-sm text-stone mt-2">
+          Analyze two or more transcripts for the same NSE scrip to see what changed quarter over quarter.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-z-md border border-line bg-white shadow-panel studio-panel p-4 sm:p-5 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <select
+            value={comparisonScrip}
+            onChange={(event) => setComparisonScrip(event.target.value)}
+            className="rounded-z-sm border border-line bg-white px-3 py-2 text-sm text-ink"
+          >
+            {comparisonCandidates.map((candidate) => (
+              <option key={candidate.nseScrip} value={candidate.nseScrip}>
+                {candidate.companyName} ({candidate.nseScrip})
+              </option>
+            ))}
+          </select>
+          <p className="text-sm text-stone">{comparison.periods.join(' → ')}</p>
+        </div>
+        <button
+          onClick={() => {
+            void handleCopyComparison();
+          }}
+          className={`inline-flex items-center justify-center rounded-z-md border px-4 py-2 text-sm font-semibold transition ${
+            comparisonCopyStatus === 'copied'
+              ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+              : 'border-brand bg-brand text-white hover:bg-brand/90'
+          }`}
+        >
+          {comparisonCopyStatus === 'copied' ? 'Copied Summary' : comparisonCopyStatus === 'error' ? 'Copy Failed' : 'Copy Summary'}
+        </button>
+      </div>
+
+      {comparison.diffs.map((diff) => (
+        <div key={`${diff.previousPeriod}-${diff.currentPeriod}`} className="space-y-4">
+          <div>
+            <h2 className="text-3xl text-ink">
+              {diff.previousPeriod} → {diff.currentPeriod}
+            </h2>
+            <p className="text-sm text-stone mt-1">
+              New themes: {diff.newThemes.length > 0 ? diff.newThemes.join(', ') : 'None'} · Dropped themes:{' '}
+              {diff.droppedThemes.length > 0 ? diff.droppedThemes.join(', ') : 'None'}
+            </p>
+          </div>
+
+          {diff.alignments.map((alignment, index) => (
+            <div key={index} className="rounded-z-md border border-line bg-canvas/40 p-3">
+              <div className="flex items-center gap-2 mb-3">
+                <span
+                  className={`inline-flex items-center rounded-full border px-2.5 py-1 text-[11px] font-semibold ${
+                    changeStyles[alignment.status]
+                  }`}
+                >
+                  {changeLabels[alignment.status]}
+                </span>
+                <span className="text-xs text-stone">{alignment.category}</span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <ComparisonQuote quote={alignment.previous} />
+                <ComparisonQuote quote={alignment.current} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
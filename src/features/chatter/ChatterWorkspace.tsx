@@ -2,9 +2,17 @@ import React from 'react';
 import AnalysisProgressPanel from '../../../components/AnalysisProgressPanel';
 import QuoteCard from '../../../components/QuoteCard';
 import ThreadComposer from '../../../components/ThreadComposer';
-import { ModelType, ProviderType } from '../../../types';
+import { ModelType, ProviderType, type RequestUsage } from '../../../types';
+import { downloadChatterExport } from '../../../utils/chatterCopyExport';
+import { formatUsageSummary, hasUsage } from '../../../utils/usage';
+import { ExportFileButtons } from '../../shared/ui/ExportFileButtons';
 import { statusLabels, statusStyles } from '../../shared/ui/batchStatus';
 import { QuoteSkeleton } from '../../shared/ui/skeletons';
+import { GEMINI_MODEL_OPTIONS } from '../../shared/config/modelOptions';
+import { ChatterComparisonPanel } from './ChatterComparisonPanel';
+import { EditionBuilderPanel } from './EditionBuilderPanel';
+import { buildChatterEdition } from './editionBuilder';
+import { PromptExperimentPanel } from './PromptExperimentPanel';
 import type { ChatterFeatureController } from './useChatterFeature';
 
 interface ChatterWorkspaceProps {
@@ -12,6 +20,8 @@ interface ChatterWorkspaceProps {
   provider: ProviderType;
   selectedModel: ModelType;
   disabled: boolean;
+  sessionRevision?: number;
+  onUsage?: (usage: RequestUsage) => void;
 }
 
 export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
@@ -19,7 +29,14 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
   provider,
   selectedModel,
   disabled,
+  sessionRevision = 0,
+  onUsage,
 }) => {
+  // Thread drafting has no self-hosted route, so that provider drafts with the default Gemini model.
+  const isSelfHosted = provider === ProviderType.OPENAI_COMPATIBLE;
+  const threadProvider = isSelfHosted ? ProviderType.GEMINI : provider;
+  const threadModel = isSelfHosted ? GEMINI_MODEL_OPTIONS[0].value : selectedModel;
+
   const {
     inputMode,
     chatterPane,
@@ -44,7 +61,10 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
     handleCopyAllChatter,
     removeBatchFile,
     retryBatchFile,
+    rerunBatchFile,
     clearChatter,
+    editionDraft,
+    editionCompanies,
   } = feature;
 
   return (
@@ -119,6 +139,9 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
                         {file.progress?.message && file.status === 'analyzing' && (
                           <p className="text-xs text-stone mt-1 truncate">{file.progress.message}</p>
                         )}
+                        {hasUsage(file.result?.usage) && (
+                          <p className="text-xs text-stone mt-1 truncate">{formatUsageSummary(file.result.usage)}</p>
+                        )}
                       </div>
                       <span
                         className={`inline-flex items-center rounded-full border px-2.5 py-1 text-[11px] font-semibold ${
@@ -137,6 +160,16 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
                           Retry
                         </button>
                       )}
+                      {file.status === 'complete' && file.result?.cached && file.content.trim().length > 0 && (
+                        <button
+                          onClick={() => rerunBatchFile(file.id)}
+                          disabled={disabled || isAnalyzingBatch}
+                          className="text-xs font-semibold text-brand hover:text-ink"
+                          title="Served from the result cache. Queue the file to run the model again."
+                        >
+                          Re-run
+                        </button>
+                      )}
                       <button
                         onClick={() => removeBatchFile(file.id)}
                         disabled={disabled || isAnalyzingBatch}
@@ -155,6 +188,9 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
                   </div>
                 ))}
               </div>
+              {!isAnalyzingBatch && hasUsage(batchProgress?.usage) && (
+                <p className="mt-3 text-xs text-stone">Last batch: {formatUsageSummary(batchProgress.usage)}</p>
+              )}
             </>
           )}
 
@@ -201,6 +237,30 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
           >
             Quote Analysis
           </button>
+          <button
+            onClick={() => setChatterPane('compare')}
+            className={`rounded-z-sm px-4 py-2 text-sm font-semibold transition ${
+              chatterPane === 'compare' ? 'bg-canvas text-ink shadow-sm' : 'text-stone hover:text-ink'
+            }`}
+          >
+            Quarter Compare
+          </button>
+          <button
+            onClick={() => setChatterPane('experiment')}
+            className={`rounded-z-sm px-4 py-2 text-sm font-semibold transition ${
+              chatterPane === 'experiment' ? 'bg-canvas text-ink shadow-sm' : 'text-stone hover:text-ink'
+            }`}
+          >
+            Prompt A/B
+          </button>
+          <button
+            onClick={() => setChatterPane('edition')}
+            className={`rounded-z-sm px-4 py-2 text-sm font-semibold transition ${
+              chatterPane === 'edition' ? 'bg-canvas text-ink shadow-sm' : 'text-stone hover:text-ink'
+            }`}
+          >
+            Edition
+          </button>
           <button
             onClick={() => setChatterPane('thread')}
             className={`rounded-z-sm px-4 py-2 text-sm font-semibold transition ${
@@ -212,7 +272,26 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
         </div>
 
         {chatterPane === 'thread' ? (
-          <ThreadComposer provider={provider} model={selectedModel} disabled={disabled} />
+          <ThreadComposer
+            key={sessionRevision}
+            provider={threadProvider}
+            model={threadModel}
+            disabled={disabled}
+            onUsage={onUsage}
+            sessionEdition={editionCompanies.length > 0 ? buildChatterEdition(editionDraft, editionCompanies) : null}
+          />
+        ) : chatterPane === 'compare' ? (
+          <ChatterComparisonPanel feature={feature} />
+        ) : chatterPane === 'edition' ? (
+          <EditionBuilderPanel feature={feature} />
+        ) : chatterPane === 'experiment' ? (
+          <PromptExperimentPanel
+            feature={feature}
+            provider={provider}
+            selectedModel={selectedModel}
+            disabled={disabled}
+            onUsage={onUsage}
+          />
         ) : (
           <>
             {completedResults.length > 0 && (
@@ -220,18 +299,21 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
                 <p className="text-sm text-stone">
                   {completedResults.length} compan{completedResults.length === 1 ? 'y' : 'ies'} ready for newsletter export.
                 </p>
-                <button
-                  onClick={() => {
-                    void handleCopyAllChatter();
-                  }}
-                  className={`inline-flex items-center justify-center rounded-z-md border px-4 py-2 text-sm font-semibold transition ${
-                    copyAllStatus === 'copied'
-                      ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
-                      : 'border-brand bg-brand text-white hover:bg-brand/90'
-                  }`}
-                >
-                  {copyAllStatus === 'copied' ? 'Copied All' : 'Copy All'}
-                </button>
+                <div className="flex flex-wrap items-center gap-2">
+                  <ExportFileButtons onExport={(format) => downloadChatterExport(completedResults, format)} />
+                  <button
+                    onClick={() => {
+                      void handleCopyAllChatter();
+                    }}
+                    className={`inline-flex items-center justify-center rounded-z-md border px-4 py-2 text-sm font-semibold transition ${
+                      copyAllStatus === 'copied'
+                        ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                        : 'border-brand bg-brand text-white hover:bg-brand/90'
+                    }`}
+                  >
+                    {copyAllStatus === 'copied' ? 'Copied All' : 'Copy All'}
+                  </button>
+                </div>
               </div>
             )}
 
@@ -263,6 +345,7 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
                     failed: batchProgress.failed,
                     total: batchProgress.total,
                     currentLabel: batchProgress.currentLabel,
+                    usage: batchProgress.usage,
                   }}
                 />
                 <QuoteSkeleton />
@@ -290,6 +373,20 @@ export const ChatterWorkspace: React.FC<ChatterWorkspaceProps> = ({
                 <div>
                   <h2 className="text-3xl text-ink">{chatterSingleState.result.companyName}</h2>
                   <p className="text-sm text-stone">{chatterSingleState.result.fiscalPeriod}</p>
+                  {chatterSingleState.result.cached && (
+                    <p className="mt-1 text-xs text-stone">
+                      Served from the result cache.{' '}
+                      <button
+                        onClick={() => {
+                          void handleAnalyzeText(true);
+                        }}
+                        disabled={isTextLoading || disabled}
+                        className="font-semibold text-brand hover:text-ink disabled:opacity-50"
+                      >
+                        Re-run
+                      </button>
+                    </p>
+                  )}
                 </div>
                 <div className="space-y-4">
                   {chatterSingleState.result.quotes.map((quote, index) => (
@@ -0,0 +1,307 @@
+import React, { useMemo, useState } from 'react';
+import { buildEditionCoverageSentence } from '../../../functions/_shared/editionFormat';
+import { buildChatterEditionDocx, buildChatterEditionExport } from '../../../utils/chatterCopyExport';
+import { downloadBlob, toFileSlug, type ExportFileFormat } from '../../../utils/fileDownload';
+import { ExportFileButtons } from '../../shared/ui/ExportFileButtons';
+import {
+  buildChatterEdition,
+  computeEditionCoverage,
+  findEditionWarnings,
+  groupEditionCompanies,
+  moveEditionCompany,
+  moveEditionQuote,
+  type EditionCompany,
+  type EditionGrouping,
+} from './editionBuilder';
+import type { ChatterFeatureController } from './useChatterFeature';
+
+interface EditionBuilderPanelProps {
+  feature: ChatterFeatureController;
+}
+
+type DragItem = { kind: 'company'; id: string; sectionKey: string } | { kind: 'quote'; companyId: string; position: number };
+
+const groupingOptions: Array<{ value: EditionGrouping; label: string }> = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'industry', label: 'Group by industry' },
+  { value: 'marketCapCategory', label: 'Group by market cap' },
+];
+
+const moveButtonClassName = 'px-1.5 text-xs text-stone hover:text-ink disabled:opacity-30';
+
+export const EditionBuilderPanel: React.FC<EditionBuilderPanelProps> = ({ feature }) => {
+  const { editionDraft, editionCompanies, setEditionDraft } = feature;
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+
+  const sections = useMemo(
+    () => groupEditionCompanies(editionCompanies, editionDraft.grouping),
+    [editionCompanies, editionDraft.grouping],
+  );
+  const coverage = useMemo(() => computeEditionCoverage(editionCompanies), [editionCompanies]);
+  const warnings = useMemo(() => findEditionWarnings(editionCompanies), [editionCompanies]);
+
+  if (editionCompanies.length === 0) {
+    return (
+      <div className="studio-empty rounded-z-md border border-dashed border-line bg-white/70 p-10 text-center shadow-panel">
+        <h3 className="text-2xl text-ink">No companies for the edition yet</h3>
+        <p className="text-sm text-stone mt-2">
+          Analyze a batch of transcripts, then order companies and quotes here into a publish-ready edition.
+        </p>
+      </div>
+    );
+  }
+
+  const buildExport = () => buildChatterEditionExport(buildChatterEdition(editionDraft, editionCompanies));
+  const fileSlug = toFileSlug(`${editionDraft.title} ${editionDraft.date}`, 'chatter-edition');
+
+  const handleCopy = async () => {
+    const { html, markdown } = buildExport();
+    try {
+      const ClipboardItemCtor = (window as { ClipboardItem?: typeof ClipboardItem }).ClipboardItem;
+      if (ClipboardItemCtor && window.isSecureContext) {
+        await navigator.clipboard.write([
+          new ClipboardItemCtor({
+            'text/html': new Blob([html], { type: 'text/html' }),
+            'text/plain': new Blob([markdown], { type: 'text/plain' }),
+          }),
+        ]);
+      } else {
+        await navigator.clipboard.writeText(markdown);
+      }
+      setCopyStatus('copied');
+      setTimeout(() => setCopyStatus('idle'), 1800);
+    } catch {
+      setCopyStatus('error');
+      setTimeout(() => setCopyStatus('idle'), 3500);
+    }
+  };
+
+  const handleDownload = (format: ExportFileFormat) => {
+    if (format === 'docx') {
+      downloadBlob(buildChatterEditionDocx(buildChatterEdition(editionDraft, editionCompanies)), `${fileSlug}.docx`);
+      return;
+    }
+    const { html, markdown } = buildExport();
+    const blob =
+      format === 'md'
+        ? new Blob([markdown], { type: 'text/markdown;charset=utf-8' })
+        : new Blob([html], { type: 'text/html;charset=utf-8' });
+    downloadBlob(blob, `${fileSlug}.${format}`);
+  };
+
+  const moveCompany = (company: EditionCompany, offset: number, sectionCompanies: EditionCompany[]) => {
+    const target = sectionCompanies[sectionCompanies.indexOf(company) + offset];
+    if (!target) return;
+    setEditionDraft((draft) => moveEditionCompany(draft, editionCompanies, company.id, target.id));
+  };
+
+  const toggleExpanded = (id: string) =>
+    setExpandedIds((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+
+  const inputClassName = 'w-full rounded-z-sm border border-line bg-white px-3 py-2 text-sm text-ink';
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-z-md border border-line bg-white shadow-panel studio-panel p-4 sm:p-5 space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="text-xs font-semibold text-stone space-y-1 sm:col-span-2">
+            <span>Title</span>
+            <input
+              value={editionDraft.title}
+              onChange={(event) => setEditionDraft((draft) => ({ ...draft, title: event.target.value }))}
+              className={inputClassName}
+            />
+          </label>
+          <label className="text-xs font-semibold text-stone space-y-1">
+            <span>Date</span>
+            <input
+              value={editionDraft.date}
+              onChange={(event) => setEditionDraft((draft) => ({ ...draft, date: event.target.value }))}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+        <label className="block text-xs font-semibold text-stone space-y-1">
+          <span>Intro</span>
+          <textarea
+            value={editionDraft.intro}
+            onChange={(event) => setEditionDraft((draft) => ({ ...draft, intro: event.target.value }))}
+            rows={4}
+            placeholder="Set up the edition: what stood out this week, which themes repeat across companies."
+            className={inputClassName}
+          />
+        </label>
+        <p className="text-sm text-ink">
+          {buildEditionCoverageSentence(coverage.companiesCovered, coverage.industriesCovered)}{' '}
+          <span className="text-stone">({coverage.quoteCount} quotes)</span>
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-1">
+          <select
+            value={editionDraft.grouping}
+            onChange={(event) => setEditionDraft((draft) => ({ ...draft, grouping: event.target.value as EditionGrouping }))}
+            className="rounded-z-sm border border-line bg-white px-3 py-2 text-sm text-ink"
+          >
+            {groupingOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <div className="flex flex-wrap gap-2">
+            <ExportFileButtons onExport={handleDownload} />
+            <button
+              onClick={() => {
+                void handleCopy();
+              }}
+              className={`inline-flex items-center justify-center rounded-z-md border px-4 py-2 text-sm font-semibold transition ${
+                copyStatus === 'copied'
+                  ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                  : 'border-brand bg-brand text-white hover:bg-brand/90'
+              }`}
+            >
+              {copyStatus === 'copied' ? 'Copied' : copyStatus === 'error' ? 'Copy failed' : 'Copy Edition'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="rounded-z-md border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800 space-y-1">
+          {warnings.map((warning) => (
+            <p key={warning}>{warning}</p>
+          ))}
+        </div>
+      )}
+
+      {sections.map((section) => (
+        <section key={section.key} className="space-y-3">
+          {section.heading && <h3 className="text-xs font-semibold uppercase tracking-[0.12em] text-stone">{section.heading}</h3>}
+          {section.companies.map((company, companyPosition) => {
+            const isExpanded = expandedIds.includes(company.id);
+            return (
+              <article
+                key={company.id}
+                draggable
+                onDragStart={(event) => {
+                  event.stopPropagation();
+                  setDragItem({ kind: 'company', id: company.id, sectionKey: section.key });
+                }}
+                onDragOver={(event) => {
+                  if (dragItem?.kind === 'company' && dragItem.sectionKey === section.key) event.preventDefault();
+                }}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  if (dragItem?.kind === 'company' && dragItem.id !== company.id) {
+                    setEditionDraft((draft) => moveEditionCompany(draft, editionCompanies, dragItem.id, company.id));
+                  }
+                  setDragItem(null);
+                }}
+                onDragEnd={() => setDragItem(null)}
+                className={`rounded-z-md border bg-white shadow-panel studio-panel ${
+                  dragItem?.kind === 'company' && dragItem.id === company.id ? 'border-brand opacity-60' : 'border-line'
+                }`}
+              >
+                <header className="flex items-center justify-between gap-3 px-4 py-3 cursor-grab">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-ink truncate">
+                      <span className="text-stone mr-2" aria-hidden>
+                        ⋮⋮
+                      </span>
+                      {company.label}
+                    </p>
+                    <p className="text-xs text-stone">
+                      {company.result.fiscalPeriod} | {company.result.marketCapCategory} | {company.result.industry} ·{' '}
+                      {company.quoteIndexes.length} quotes
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => moveCompany(company, -1, section.companies)}
+                      disabled={companyPosition === 0}
+                      className={moveButtonClassName}
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveCompany(company, 1, section.companies)}
+                      disabled={companyPosition === section.companies.length - 1}
+                      className={moveButtonClassName}
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => toggleExpanded(company.id)}
+                      className="ml-2 text-xs font-semibold text-brand hover:text-ink"
+                    >
+                      {isExpanded ? 'Hide quotes' : 'Order quotes'}
+                    </button>
+                  </div>
+                </header>
+
+                {isExpanded && (
+                  <ol className="border-t border-line px-4 py-3 space-y-2">
+                    {company.quoteIndexes.map((quoteIndex, position) => {
+                      const quote = company.result.quotes[quoteIndex];
+                      return (
+                        <li
+                          key={quoteIndex}
+                          draggable
+                          onDragStart={(event) => {
+                            event.stopPropagation();
+                            setDragItem({ kind: 'quote', companyId: company.id, position });
+                          }}
+                          onDragOver={(event) => {
+                            if (dragItem?.kind === 'quote' && dragItem.companyId === company.id) {
+                              event.preventDefault();
+                              event.stopPropagation();
+                            }
+                          }}
+                          onDrop={(event) => {
+                            if (dragItem?.kind !== 'quote' || dragItem.companyId !== company.id) return;
+                            event.preventDefault();
+                            event.stopPropagation();
+                            setEditionDraft((draft) => moveEditionQuote(draft, company, dragItem.position, position));
+                            setDragItem(null);
+                          }}
+                          onDragEnd={() => setDragItem(null)}
+                          className="flex items-start justify-between gap-3 rounded-z-sm border border-line bg-canvas/60 p-3 cursor-grab"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-semibold text-ink">{quote.summary}</p>
+                            <p className="text-xs text-stone mt-1 line-clamp-2">"{quote.quote}"</p>
+                          </div>
+                          <div className="flex shrink-0">
+                            <button
+                              onClick={() => setEditionDraft((draft) => moveEditionQuote(draft, company, position, position - 1))}
+                              disabled={position === 0}
+                              className={moveButtonClassName}
+                              title="Move up"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => setEditionDraft((draft) => moveEditionQuote(draft, company, position, position + 1))}
+                              disabled={position === company.quoteIndexes.length - 1}
+                              className={moveButtonClassName}
+                              title="Move down"
+                            >
+                              ↓
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </article>
+            );
+          })}
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { analyzeTranscript } from '../../../services/geminiService';
+import type { ChatterAnalysisResult, ExtractedQuote, ModelType, ProviderType, RequestUsage } from '../../../types';
+import { usePromptCatalog } from '../../shared/config/usePromptCatalog';
+import {
+  buildPromptExperimentStats,
+  buildPromptExperimentSummary,
+  formatShare,
+  type PromptExperimentRun,
+} from './promptExperiment';
+import type { ChatterFeatureController } from './useChatterFeature';
+
+interface PromptExperimentPanelProps {
+  feature: ChatterFeatureController;
+  provider: ProviderType;
+  selectedModel: ModelType;
+  disabled: boolean;
+  onUsage?: (usage: RequestUsage) => void;
+}
+
+interface ExperimentSource {
+  id: string;
+  label: string;
+  transcript: string;
+}
+
+type ExperimentStatus = 'idle' | 'running_a' | 'running_b' | 'complete' | 'error';
+
+const TEXT_SOURCE_ID = 'text-input';
+
+const ExperimentQuote: React.FC<{ quote: ExtractedQuote; shared: boolean }> = ({ quote, shared }) => (
+  <div className={`rounded-z-sm border p-3 ${shared ? 'border-emerald-200 bg-emerald-50/60' : 'border-line bg-white'}`}>
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-[11px] font-semibold text-stone">{quote.category}</span>
+      <span className="text-[11px] font-semibold text-stone">{shared ? 'Shared' : 'Unique'}</span>
+    </div>
+    <p className="text-sm font-semibold text-ink mt-1">{quote.summary}</p>
+    <p className="text-sm text-ink/80 italic mt-2 leading-relaxed">"{quote.quote}"</p>
+    <p className="text-xs text-stone mt-2">
+      &mdash; {quote.speaker?.name}
+      {quote.speaker?.designation ? `, ${quote.speaker.designation}` : ''}
+      {quote.verification?.status === 'unverified' ? ' · not found in transcript' : ''}
+    </p>
+  </div>
+);
+
+const ExperimentColumn: React.FC<{ title: string; run: PromptExperimentRun; shared: boolean[] }> = ({ title, run, shared }) => (
+  <div className="space-y-3">
+    <p className="text-sm font-semibold text-ink">
+      {title} <span className="text-stone font-normal">· {run.version} · {run.result.quotes.length} quotes</span>
+    </p>
+    {run.result.quotes.map((quote, index) => (
+      <ExperimentQuote key={`${run.version}-${index}`} quote={quote} shared={shared[index] ?? false} />
+    ))}
+  </div>
+);
+
+export const PromptExperimentPanel: React.FC<PromptExperimentPanelProps> = ({
+  feature,
+  provider,
+  selectedModel,
+  disabled,
+  onUsage,
+}) => {
+  const catalog = usePromptCatalog();
+  const { batchFiles, textInput } = feature;
+
+  const sources = useMemo((): ExperimentSource[] => {
+    const items: ExperimentSource[] = batchFiles
+      .filter((file) => file.content.trim())
+      .map((file) => ({ id: file.id, label: file.name, transcript: file.content }));
+    if (textInput.trim()) {
+      items.unshift({ id: TEXT_SOURCE_ID, label: 'Pasted transcript', transcript: textInput });
+    }
+    return items;
+  }, [batchFiles, textInput]);
+
+  const versions = catalog?.chatter.versions ?? [];
+  const [sourceId, setSourceId] = useState('');
+  const [versionA, setVersionA] = useState('');
+  const [versionB, setVersionB] = useState('');
+  const [status, setStatus] = useState<ExperimentStatus>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [runs, setRuns] = useState<[PromptExperimentRun, PromptExperimentRun] | null>(null);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+
+  // Default to the promoted version against the newest candidate, which is the comparison editorial usually wants.
+  useEffect(() => {
+    if (!catalog || versionA) return;
+    const defaultVersion = catalog.chatter.defaultVersion;
+    const candidate = [...catalog.chatter.versions].reverse().find((version) => version.id !== defaultVersion);
+    setVersionA(defaultVersion);
+    setVersionB(candidate?.id ?? defaultVersion);
+  }, [catalog, versionA]);
+
+  const source = sources.find((item) => item.id === sourceId) ?? sources[0];
+  const isRunning = status === 'running_a' || status === 'running_b';
+  const stats = useMemo(() => (runs ? buildPromptExperimentStats(runs[0].result, runs[1].result) : null), [runs]);
+
+  const runExperiment = async () => {
+    if (!source || !versionA || !versionB) return;
+    setErrorMessage('');
+    setRuns(null);
+    setCopyStatus('idle');
+
+    // Sequential on purpose: both runs draw on the same provider quota as a normal analysis.
+    const runVersion = async (version: string): Promise<PromptExperimentRun> => {
+      const result: ChatterAnalysisResult = await analyzeTranscript(
+        source.transcript,
+        provider,
+        selectedModel,
+        undefined,
+        version,
+      );
+      if (result.usage) onUsage?.(result.usage);
+      return { version: result.promptVersion ?? version, result };
+    };
+
+    try {
+      setStatus('running_a');
+      const runA = await runVersion(versionA);
+      setStatus('running_b');
+      const runB = await runVersion(versionB);
+      setRuns([runA, runB]);
+      setStatus('complete');
+    } catch (error: any) {
+      setErrorMessage(error?.message || 'Prompt experiment failed.');
+      setStatus('error');
+    }
+  };
+
+  const handleCopySummary = async () => {
+    if (!runs || !stats) return;
+    try {
+      await navigator.clipboard.writeText(buildPromptExperimentSummary(runs[0], runs[1], stats));
+      setCopyStatus('copied');
+      setTimeout(() => setCopyStatus('idle'), 2000);
+    } catch {
+      setCopyStatus('error');
+    }
+  };
+
+  if (!catalog) {
+    return (
+      <div className="studio-empty rounded-z-md border border-dashed border-line bg-white/70 p-10 text-center shadow-panel">
+        <h3 className="text-2xl text-ink">Prompt registry unavailable</h3>
+        <p className="text-sm text-stone mt-2">Prompt experiments need the Functions runtime to list prompt versions.</p>
+      </div>
+    );
+  }
+
+  if (sources.length === 0) {
+    return (
+      <div className="studio-empty rounded-z-md border border-dashed border-line bg-white/70 p-10 text-center shadow-panel">
+        <h3 className="text-2xl text-ink">No transcript to test yet</h3>
+        <p className="text-sm text-stone mt-2">
+          Paste a transcript or upload a PDF, then run two prompt versions on it side by side.
+        </p>
+      </div>
+    );
+  }
+
+  const selectClassName = 'rounded-z-sm border border-line bg-white px-3 py-2 text-sm text-ink';
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-z-md border border-line bg-white shadow-panel studio-panel p-4 sm:p-5 space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="text-xs font-semibold text-stone space-y-1">
+            <span>Transcript</span>
+            <select value={source?.id ?? ''} onChange={(event) => setSourceId(event.target.value)} className={`${selectClassName} w-full`}>
+              {sources.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-semibold text-stone space-y-1">
+            <span>Prompt A</span>
+            <select value={versionA} onChange={(event) => setVersionA(event.target.value)} className={`${selectClassName} w-full`}>
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>
+                  {version.id} · {version.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-semibold text-stone space-y-1">
+            <span>Prompt B</span>
+            <select value={versionB} onChange={(event) => setVersionB(event.target.value)} className={`${selectClassName} w-full`}>
+              {versions.map((version) => (
+                <option key={version.id} value={version.id}>
+                  {version.id} · {version.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="text-xs text-stone">
+          {versions.find((version) => version.id === versionB)?.description} Default: {catalog.chatter.defaultVersion}.
+        </p>
+        <button
+          onClick={() => {
+            void runExperiment();
+          }}
+          disabled={disabled || isRunning || !source || versionA === versionB}
+          className="w-full rounded-z-md bg-brand text-white text-sm font-semibold py-2.5 px-4 disabled:opacity-50 hover:bg-brand/90 transition"
+        >
+          {status === 'running_a'
+            ? `Running ${versionA}...`
+            : status === 'running_b'
+              ? `Running ${versionB}...`
+              : versionA === versionB
+                ? 'Pick two different versions'
+                : 'Run Experiment'}
+        </button>
+      </div>
+
+      {status === 'error' && errorMessage && (
+        <div className="rounded-z-md border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">{errorMessage}</div>
+      )}
+
+      {runs && stats && (
+        <>
+          <div className="rounded-z-md border border-line bg-white shadow-panel studio-panel p-4 sm:p-5 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-stone">
+              <span>
+                Shared <strong className="text-ink">{stats.sharedQuotes}</strong>
+              </span>
+              <span>
+                Only A <strong className="text-ink">{stats.onlyA}</strong>
+              </span>
+              <span>
+                Only B <strong className="text-ink">{stats.onlyB}</strong>
+              </span>
+              <span>
+                Quote overlap <strong className="text-ink">{formatShare(stats.overlapRatio)}</strong>
+              </span>
+              <span>
+                Category overlap <strong className="text-ink">{formatShare(stats.categoryOverlap)}</strong>
+              </span>
+              <span>
+                Verified A/B{' '}
+                <strong className="text-ink">
+                  {formatShare(stats.verifiedShareA)} / {formatShare(stats.verifiedShareB)}
+                </strong>
+              </span>
+            </div>
+            <button
+              onClick={() => {
+                void handleCopySummary();
+              }}
+              className={`inline-flex items-center justify-center rounded-z-md border px-4 py-2 text-sm font-semibold transition ${
+                copyStatus === 'copied'
+                  ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                  : 'border-line bg-white text-ink hover:bg-canvas'
+              }`}
+            >
+              {copyStatus === 'copied' ? 'Copied' : copyStatus === 'error' ? 'Copy failed' : 'Copy Summary'}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <ExperimentColumn title="Prompt A" run={runs[0]} shared={stats.sharedInA} />
+            <ExperimentColumn title="Prompt B" run={runs[1]} shared={stats.sharedInB} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildChatterComparison,
+  buildChatterComparisonSummary,
+  groupComparableResults,
+  toFiscalPeriodSortKey,
+} from './chatterComparison';
+import { makeQuote, makeResult } from './chatterTestFixtures';
+
+describe('chatterComparison', () => {
+  it('parses common fiscal period labels into sortable keys', () => {
+    expect(toFiscalPeriodSortKey('Q3 FY26')).toBe(20263);
+    expect(toFiscalPeriodSortKey('Q1FY2026')).toBe(20261);
+    expect(toFiscalPeriodSortKey("Q2 FY'25")).toBe(20252);
+    expect(toFiscalPeriodSortKey('Annual Report')).toBeNull();
+  });
+
+  it('only offers scrips with at least two results, ordered by fiscal period', () => {
+    const candidates = groupComparableResults([
+      makeResult({ fiscalPeriod: 'Q3 FY26' }),
+      makeResult({ fiscalPeriod: 'Q2 FY26' }),
+      makeResult({ fiscalPeriod: 'Q3 FY26', nseScrip: 'TCS' }),
+    ]);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].results.map((result) => result.fiscalPeriod)).toEqual(['Q2 FY26', 'Q3 FY26']);
+  });
+
+  it('puts unparseable periods after the parseable ones in upload order', () => {
+    const [candidate] = groupComparableResults([
+      makeResult({ fiscalPeriod: 'Annual Report' }),
+      makeResult({ fiscalPeriod: 'Q3 FY26' }),
+      makeResult({ fiscalPeriod: 'Investor Day' }),
+      makeResult({ fiscalPeriod: 'Q1 FY26' }),
+      makeResult({ fiscalPeriod: 'Q2 FY26' }),
+    ]);
+
+    expect(candidate.results.map((result) => result.fiscalPeriod)).toEqual([
+      'Q1 FY26',
+      'Q2 FY26',
+      'Q3 FY26',
+      'Annual Report',
+      'Investor Day',
+    ]);
+  });
+
+  it('flags new themes, dropped themes and changed guidance', () => {
+    const comparison = buildChatterComparison([
+      makeResult({
+        fiscalPeriod: 'Q3 FY26',
+        quotes: [
+          makeQuote({
+            category: 'Financial Guidance',
+            summary: 'Loan growth guidance trimmed',
+            quote: 'We now expect loan growth of around 12% for the year, deposit growth will track it.',
+          }),
+          makeQuote({
+            category: 'Tech & Disruption',
+            summary: 'New digital lending stack',
+            quote: 'We launched our new digital lending stack for small businesses this quarter.',
+          }),
+        ],
+      }),
+      makeResult({
+        fiscalPeriod: 'Q2 FY26',
+        quotes: [
+          makeQuote({
+            category: 'Financial Guidance',
+            summary: 'Loan growth guidance held',
+            quote: 'We expect loan growth of around 15% for the year, deposit growth will track it.',
+          }),
+          makeQuote({
+            category: 'Regulation & Policy',
+            summary: 'LCR rules impact',
+            quote: 'The revised liquidity coverage norms will cost us some margin next year.',
+          }),
+        ],
+      }),
+    ]);
+
+    expect(comparison).not.toBeNull();
+    const diff = comparison!.diffs[0];
+    expect(diff.previousPeriod).toBe('Q2 FY26');
+    expect(diff.currentPeriod).toBe('Q3 FY26');
+    expect(diff.newThemes).toEqual(['Tech & Disruption']);
+    expect(diff.droppedThemes).toEqual(['Regulation & Policy']);
+    expect(diff.alignments.map((item) => item.status)).toEqual(['guidance_changed', 'new', 'dropped']);
+
+    const summary = buildChatterComparisonSummary(comparison!);
+    expect(summary).toContain('## Q2 FY26 -> Q3 FY26');
+    expect(summary).toContain('### Changed guidance');
+    expect(summary).toContain('- [Tech & Disruption] New digital lending stack');
+  });
+});
@@ -0,0 +1,231 @@
+import { jaccardSimilarity, toTokenSet } from '../../../functions/_shared/textSimilarity';
+import { normalizeScrip } from '../../../functions/_shared/validation';
+import type { ChatterAnalysisResult, ExtractedQuote } from '../../../types';
+
+export type ChatterQuoteChangeStatus = 'continued' | 'guidance_changed' | 'new' | 'dropped';
+
+export interface ChatterQuoteAlignment {
+  category: ExtractedQuote['category'];
+  status: ChatterQuoteChangeStatus;
+  similarity: number;
+  previous: ExtractedQuote | null;
+  current: ExtractedQuote | null;
+}
+
+export interface ChatterPeriodDiff {
+  previousPeriod: string;
+  currentPeriod: string;
+  newThemes: ExtractedQuote['category'][];
+  droppedThemes: ExtractedQuote['category'][];
+  alignments: ChatterQuoteAlignment[];
+}
+
+export interface ChatterComparison {
+  nseScrip: string;
+  companyName: string;
+  periods: string[];
+  diffs: ChatterPeriodDiff[];
+}
+
+export interface ChatterComparisonCandidate {
+  nseScrip: string;
+  companyName: string;
+  results: ChatterAnalysisResult[];
+}
+
+const SAME_CATEGORY_MIN_SIMILARITY = 0.12;
+const CROSS_CATEGORY_MIN_SIMILARITY = 0.3;
+const SAME_CATEGORY_BONUS = 0.1;
+const GUIDANCE_CATEGORY: ExtractedQuote['category'] = 'Financial Guidance';
+
+const STOP_WORDS = new Set([
+  'this', 'that', 'with', 'from', 'there', 'their', 'which', 'while', 'have',
+  'been', 'were', 'will', 'would', 'about', 'into', 'your', 'also', 'just',
+  'more', 'than', 'they', 'them', 'over', 'some', 'such', 'what', 'when',
+]);
+
+const NUMBER_PATTERN = /\d+(?:\.\d+)?%?/g;
+
+const toQuoteTokens = (quote: ExtractedQuote): Set<string> =>
+  toTokenSet(`${quote.summary} ${quote.quote}`, { minTokenLength: 4, stopWords: STOP_WORDS });
+
+const toNumberSet = (quote: ExtractedQuote): Set<string> => new Set(quote.quote.match(NUMBER_PATTERN) ?? []);
+
+
+export const toFiscalPeriodSortKey = (fiscalPeriod: string): number | null => {
+  const match = /Q\s*([1-4])\s*FY\s*'?(\d{2,4})(?:\s*[-/]\s*(\d{2,4}))?/i.exec(fiscalPeriod);
+  if (!match) return null;
+  let year = Number(match[3] ?? match[2]);
+  if (year < 100) year += 2000;
+  return year * 10 + Number(match[1]);
+};
+
+// Parseable periods come first in fiscal order; unparseable ones follow in upload order.
+const sortByFiscalPeriod = (results: ChatterAnalysisResult[]): ChatterAnalysisResult[] =>
+  results
+    .map((result, index) => ({ result, index, key: toFiscalPeriodSortKey(result.fiscalPeriod) }))
+    .sort((a, b) => {
+      if (a.key !== null && b.key !== null && a.key !== b.key) return a.key - b.key;
+      if ((a.key === null) !== (b.key === null)) return a.key === null ? 1 : -1;
+      return a.index - b.index;
+    })
+    .map((entry) => entry.result);
+
+export const groupComparableResults = (results: ChatterAnalysisResult[]): ChatterComparisonCandidate[] => {
+  const byScrip = new Map<string, ChatterAnalysisResult[]>();
+  for (const result of results) {
+    const scrip = normalizeScrip(result.nseScrip);
+    if (!scrip) continue;
+    byScrip.set(scrip, [...(byScrip.get(scrip) ?? []), result]);
+  }
+
+  return Array.from(byScrip.entries())
+    .filter(([, group]) => group.length >= 2)
+    .map(([nseScrip, group]) => {
+      const sorted = sortByFiscalPeriod(group);
+      return { nseScrip, companyName: sorted[sorted.length - 1].companyName, results: sorted };
+    })
+    .sort((a, b) => a.companyName.localeCompare(b.companyName));
+};
+
+const hasGuidanceChanged = (previous: ExtractedQuote, current: ExtractedQuote): boolean => {
+  if (previous.category !== GUIDANCE_CATEGORY && current.category !== GUIDANCE_CATEGORY) return false;
+  const previousNumbers = toNumberSet(previous);
+  const currentNumbers = toNumberSet(current);
+  if (previousNumbers.size === 0 && currentNumbers.size === 0) return false;
+  if (previousNumbers.size !== currentNumbers.size) return true;
+  for (const value of previousNumbers) {
+    if (!currentNumbers.has(value)) return true;
+  }
+  return false;
+};
+
+const alignQuotes = (previous: ExtractedQuote[], current: ExtractedQuote[]): ChatterQuoteAlignment[] => {
+  const previousTokens = previous.map(toQuoteTokens);
+  const currentTokens = current.map(toQuoteTokens);
+
+  const candidates: Array<{ previousIndex: number; currentIndex: number; similarity: number; rank: number }> = [];
+  previous.forEach((previousQuote, previousIndex) => {
+    current.forEach((currentQuote, currentIndex) => {
+      const similarity = jaccardSimilarity(previousTokens[previousIndex], currentTokens[currentIndex]);
+      const sameCategory = previousQuote.category === currentQuote.category;
+      const threshold = sameCategory ? SAME_CATEGORY_MIN_SIMILARITY : CROSS_CATEGORY_MIN_SIMILARITY;
+      if (similarity < threshold) return;
+      candidates.push({
+        previousIndex,
+        currentIndex,
+        similarity,
+        rank: similarity + (sameCategory ? SAME_CATEGORY_BONUS : 0),
+      });
+    });
+  });
+  candidates.sort((a, b) => b.rank - a.rank);
+
+  const matchedPrevious = new Map<number, { currentIndex: number; similarity: number }>();
+  const matchedCurrent = new Set<number>();
+  for (const candidate of candidates) {
+    if (matchedPrevious.has(candidate.previousIndex) || matchedCurrent.has(candidate.currentIndex)) continue;
+    matchedPrevious.set(candidate.previousIndex, candidate);
+    matchedCurrent.add(candidate.currentIndex);
+  }
+
+  const alignments: ChatterQuoteAlignment[] = [];
+  previous.forEach((previousQuote, previousIndex) => {
+    const match = matchedPrevious.get(previousIndex);
+    if (!match) {
+      alignments.push({ category: previousQuote.category, status: 'dropped', similarity: 0, previous: previousQuote, current: null });
+      return;
+    }
+    const currentQuote = current[match.currentIndex];
+    alignments.push({
+      category: currentQuote.category,
+      status: hasGuidanceChanged(previousQuote, currentQuote) ? 'guidance_changed' : 'continued',
+      similarity: match.similarity,
+      previous: previousQuote,
+      current: currentQuote,
+    });
+  });
+  current.forEach((currentQuote, currentIndex) => {
+    if (matchedCurrent.has(currentIndex)) return;
+    alignments.push({ category: currentQuote.category, status: 'new', similarity: 0, previous: null, current: currentQuote });
+  });
+
+  const statusOrder: Record<ChatterQuoteChangeStatus, number> = { guidance_changed: 0, new: 1, dropped: 2, continued: 3 };
+  return alignments.sort(
+    (a, b) => statusOrder[a.status] - statusOrder[b.status] || a.category.localeCompare(b.category),
+  );
+};
+
+const buildPeriodDiff = (previous: ChatterAnalysisResult, current: ChatterAnalysisResult): ChatterPeriodDiff => {
+  const previousThemes = new Set(previous.quotes.map((quote) => quote.category));
+  const currentThemes = new Set(current.quotes.map((quote) => quote.category));
+
+  return {
+    previousPeriod: previous.fiscalPeriod,
+    currentPeriod: current.fiscalPeriod,
+    newThemes: [...currentThemes].filter((theme) => !previousThemes.has(theme)),
+    droppedThemes: [...previousThemes].filter((theme) => !currentThemes.has(theme)),
+    alignments: alignQuotes(previous.quotes, current.quotes),
+  };
+};
+
+export const buildChatterComparison = (results: ChatterAnalysisResult[]): ChatterComparison | null => {
+  if (results.length < 2) return null;
+  const sorted = sortByFiscalPeriod(results);
+  const diffs: ChatterPeriodDiff[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    diffs.push(buildPeriodDiff(sorted[i - 1], sorted[i]));
+  }
+
+  return {
+    nseScrip: normalizeScrip(sorted[sorted.length - 1].nseScrip),
+    companyName: sorted[sorted.length - 1].companyName,
+    periods: sorted.map((result) => result.fiscalPeriod),
+    diffs,
+  };
+};
+
+const formatSpeaker = (quote: ExtractedQuote): string =>
+  quote.speaker?.designation ? `${quote.speaker.name}, ${quote.speaker.designation}` : quote.speaker?.name || 'N/A';
+
+export const buildChatterComparisonSummary = (comparison: ChatterComparison): string => {
+  const lines: string[] = [`# ${comparison.companyName} (${comparison.nseScrip}): what changed`, ''];
+
+  for (const diff of comparison.diffs) {
+    const byStatus = (status: ChatterQuoteChangeStatus) => diff.alignments.filter((item) => item.status === status);
+    lines.push(`## ${diff.previousPeriod} -> ${diff.currentPeriod}`, '');
+    lines.push(`New themes: ${diff.newThemes.length > 0 ? diff.newThemes.join(', ') : 'None'}`);
+    lines.push(`Dropped themes: ${diff.droppedThemes.length > 0 ? diff.droppedThemes.join(', ') : 'None'}`);
+    lines.push(`Continued talking points: ${byStatus('continued').length}`, '');
+
+    const guidance = byStatus('guidance_changed');
+    if (guidance.length > 0) {
+      lines.push('### Changed guidance');
+      for (const item of guidance) {
+        lines.push(`- ${diff.previousPeriod}: "${item.previous?.quote}" (${item.previous ? formatSpeaker(item.previous) : ''})`);
+        lines.push(`  ${diff.currentPeriod}: "${item.current?.quote}" (${item.current ? formatSpeaker(item.current) : ''})`);
+      }
+      lines.push('');
+    }
+
+    const added = byStatus('new');
+    if (added.length > 0) {
+      lines.push('### New talking points');
+      for (const item of added) {
+        lines.push(`- [${item.category}] ${item.current?.summary}`);
+      }
+      lines.push('');
+    }
+
+    const dropped = byStatus('dropped');
+    if (dropped.length > 0) {
+      lines.push('### Dropped talking points');
+      for (const item of dropped) {
+        lines.push(`- [${item.category}] ${item.previous?.summary}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n').trim();
+};
@@ -0,0 +1,21 @@
+import type { ChatterAnalysisResult, ExtractedQuote } from '../../../types';
+
+// Shared by the Chatter and archive tests; each test overrides only the fields it exercises.
+export const makeQuote = (overrides: Partial<ExtractedQuote> = {}): ExtractedQuote => ({
+  quote: 'Deposits grew 14% this quarter.',
+  summary: 'Deposit growth',
+  category: 'Financial Guidance',
+  speaker: { name: 'Sashidhar Jagdishan', designation: 'MD & CEO' },
+  ...overrides,
+});
+
+export const makeResult = (overrides: Partial<ChatterAnalysisResult> = {}): ChatterAnalysisResult => ({
+  companyName: 'HDFC Bank',
+  fiscalPeriod: 'Q3 FY26',
+  nseScrip: 'HDFCBANK',
+  marketCapCategory: 'Large Cap',
+  industry: 'Banking',
+  companyDescription: 'Private sector bank.',
+  quotes: [],
+  ...overrides,
+});
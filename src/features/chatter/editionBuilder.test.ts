@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { onRequestPost as ingestEdition } from '../../../functions/api/chatter/thread/ingest';
+import type { BatchFile, ChatterAnalysisResult } from '../../../types';
+import { buildChatterEditionExport } from '../../../utils/chatterCopyExport';
+import { makeQuote, makeResult } from './chatterTestFixtures';
+import {
+  buildChatterEdition,
+  computeEditionCoverage,
+  createEditionDraft,
+  findEditionWarnings,
+  groupEditionCompanies,
+  moveEditionCompany,
+  moveEditionQuote,
+  resolveEditionCompanies,
+  type EditionDraft,
+} from './editionBuilder';
+
+const companyResult = (
+  companyName: string,
+  industry: string,
+  marketCapCategory: string,
+  quotes: Array<[summary: string, quote: string, speaker: string]>,
+): ChatterAnalysisResult =>
+  makeResult({
+    companyName,
+    nseScrip: companyName.toUpperCase().replace(/[^A-Z]/g, ''),
+    marketCapCategory,
+    industry,
+    companyDescription: `${companyName} is a listed ${industry} company.`,
+    concallUrl: 'https://example.com/concall.pdf',
+    quotes: quotes.map(([summary, quote, speaker]) => makeQuote({ summary, quote, speaker: { name: speaker, designation: 'CEO' } })),
+  });
+
+const makeFile = (id: string, result: ChatterAnalysisResult, status: BatchFile['status'] = 'complete'): BatchFile => ({
+  id,
+  name: `${id}.pdf`,
+  content: '',
+  status,
+  result,
+});
+
+const batchFiles: BatchFile[] = [
+  makeFile(
+    'hul',
+    companyResult('Hindustan Unilever', 'FMCG', 'Large Cap', [
+      ['Quick commerce has its own team.', 'Quick commerce is now 6% of our urban sales.', 'Rohit Jawa'],
+      ['Price growth stays low.', 'We expect "low single digit" price growth for two quarters.', 'Rohit Jawa'],
+    ]),
+  ),
+  makeFile(
+    'tcs',
+    companyResult('TCS', 'IT Services', 'Large Cap', [
+      ['Deal wins held up.', 'Our order book crossed 10 billion dollars this quarter.', 'K Krithivasan'],
+    ]),
+  ),
+  makeFile(
+    'dabur',
+    companyResult('Dabur', 'FMCG', 'Mid Cap', [
+      ['Rural demand is back.', 'Rural growth outpaced urban for the second quarter in a row.', 'Mohit Malhotra'],
+    ]),
+  ),
+  makeFile('pending', companyResult('Pending Co', 'Retail', 'Small Cap', []), 'analyzing'),
+];
+
+const ingestText = async (editionText: string) => {
+  const response = await ingestEdition({
+    request: new Request('https://example.com/api/chatter/thread/ingest', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ editionText }),
+    }),
+  });
+  return response.json();
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('editionBuilder', () => {
+  it('orders completed companies and quotes by the draft, appending new files in batch order', () => {
+    let draft = createEditionDraft(new Date('2026-10-19T00:00:00Z'));
+    let companies = resolveEditionCompanies(draft, batchFiles);
+    expect(companies.map((company) => company.id)).toEqual(['hul', 'tcs', 'dabur']);
+
+    draft = moveEditionCompany(draft, companies, 'dabur', 'hul');
+    companies = resolveEditionCompanies(draft, batchFiles);
+    draft = moveEditionQuote(draft, companies[1], 1, 0);
+    companies = resolveEditionCompanies(draft, batchFiles);
+
+    expect(companies.map((company) => company.id)).toEqual(['dabur', 'hul', 'tcs']);
+    expect(companies[1].quoteIndexes).toEqual([1, 0]);
+    expect(draft.date).toBe('October 19, 2026');
+
+    // A stale quote order (e.g. after a retry changed the quote count) falls back to the model order.
+    const retried = resolveEditionCompanies({ ...draft, quoteOrder: { hul: [0, 1, 2] } }, batchFiles);
+    expect(retried[1].quoteIndexes).toEqual([0, 1]);
+  });
+
+  it('groups by first appearance and counts coverage', () => {
+    const companies = resolveEditionCompanies(createEditionDraft(), batchFiles);
+
+    expect(groupEditionCompanies(companies, 'industry').map((section) => [section.heading, section.companies.length])).toEqual([
+      ['FMCG', 2],
+      ['IT Services', 1],
+    ]);
+    expect(computeEditionCoverage(companies)).toEqual({ companiesCovered: 3, industriesCovered: 2, quoteCount: 4 });
+    expect(findEditionWarnings([{ ...companies[0], result: { ...companies[0].result, marketCapCategory: 'N/A' } }])).toHaveLength(1);
+  });
+
+  it('exports Markdown and HTML that the thread ingest parser reads back', async () => {
+    let draft: EditionDraft = {
+      ...createEditionDraft(new Date('2026-10-19T00:00:00Z')),
+      grouping: 'industry',
+      intro: 'Consumer names sounded better than IT this week.\n\nHere is what management said.',
+    };
+    const companies = resolveEditionCompanies(draft, batchFiles);
+    draft = moveEditionQuote(draft, companies[0], 1, 0);
+    const { markdown, html } = buildChatterEditionExport(
+      buildChatterEdition(draft, resolveEditionCompanies(draft, batchFiles)),
+    );
+
+    const expectedCompanies = [
+      {
+        companyName: 'Hindustan Unilever',
+        marketCapCategory: 'Large Cap',
+        industry: 'FMCG',
+        quotes: [
+          { quote: "We expect 'low single digit' price growth for two quarters.", speakerName: 'Rohit Jawa' },
+          { quote: 'Quick commerce is now 6% of our urban sales.', speakerName: 'Rohit Jawa' },
+        ],
+      },
+      { companyName: 'Dabur', marketCapCategory: 'Mid Cap', industry: 'FMCG' },
+      { companyName: 'TCS', marketCapCategory: 'Large Cap', industry: 'IT Services' },
+    ];
+
+    const fromMarkdown = await ingestText(markdown);
+    expect(fromMarkdown).toMatchObject({
+      editionTitle: 'The Chatter',
+      editionDate: 'October 19, 2026',
+      companiesCovered: 3,
+      industriesCovered: 2,
+      companies: expectedCompanies,
+    });
+    expect(fromMarkdown.companies[0].quotes[0]).toMatchObject({
+      summary: 'Price growth stays low.',
+      speakerDesignation: 'CEO',
+      companyDescription: 'Hindustan Unilever is a listed FMCG company.',
+    });
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(html, { status: 200 })));
+    const response = await ingestEdition({
+      request: new Request('https://example.com/api/chatter/thread/ingest', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ substackUrl: 'https://thechatter.substack.com/p/edition' }),
+      }),
+    });
+    expect(await response.json()).toMatchObject({ companiesCovered: 3, industriesCovered: 2, companies: expectedCompanies });
+  });
+});
@@ -0,0 +1,174 @@
+import { EDITION_MARKET_CAPS } from '../../../functions/_shared/editionFormat';
+import type { BatchFile, ChatterAnalysisResult } from '../../../types';
+import type { ChatterEdition } from '../../../utils/chatterCopyExport';
+
+export type EditionGrouping = 'none' | 'industry' | 'marketCapCategory';
+
+// Only the editor's choices are stored; companies and quotes are re-derived from the batch so a retried
+// or removed file never leaves a stale entry behind.
+export interface EditionDraft {
+  title: string;
+  date: string;
+  intro: string;
+  grouping: EditionGrouping;
+  companyOrder: string[];
+  quoteOrder: Record<string, number[]>;
+}
+
+export interface EditionCompany {
+  id: string;
+  label: string;
+  result: ChatterAnalysisResult;
+  quoteIndexes: number[];
+}
+
+export interface EditionSection {
+  key: string;
+  heading: string | null;
+  companies: EditionCompany[];
+}
+
+export interface EditionCoverage {
+  companiesCovered: number;
+  industriesCovered: number;
+  quoteCount: number;
+}
+
+const UNGROUPED_HEADING = 'Other';
+
+export const formatEditionDate = (date: Date): string =>
+  date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+export const createEditionDraft = (now = new Date()): EditionDraft => ({
+  title: 'The Chatter',
+  date: formatEditionDate(now),
+  intro: '',
+  grouping: 'none',
+  companyOrder: [],
+  quoteOrder: {},
+});
+
+export const moveItem = <T>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= items.length || toIndex < 0 || toIndex >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+};
+
+const isPermutation = (indexes: number[] | undefined, length: number): indexes is number[] =>
+  Array.isArray(indexes) &&
+  indexes.length === length &&
+  new Set(indexes).size === length &&
+  indexes.every((index) => Number.isInteger(index) && index >= 0 && index < length);
+
+export const resolveEditionCompanies = (draft: EditionDraft, batchFiles: BatchFile[]): EditionCompany[] => {
+  const completed = batchFiles.filter(
+    (file): file is BatchFile & { result: ChatterAnalysisResult } =>
+      file.status === 'complete' && Boolean(file.result) && (file.result?.quotes.length ?? 0) > 0,
+  );
+  const rank = new Map(draft.companyOrder.map((id, index) => [id, index]));
+  const ordered = completed
+    .map((file, index) => ({ file, index }))
+    .sort((a, b) => {
+      const rankA = rank.get(a.file.id) ?? draft.companyOrder.length + a.index;
+      const rankB = rank.get(b.file.id) ?? draft.companyOrder.length + b.index;
+      return rankA - rankB;
+    })
+    .map((entry) => entry.file);
+
+  return ordered.map((file) => {
+    const quoteCount = file.result.quotes.length;
+    const savedOrder = draft.quoteOrder[file.id];
+    return {
+      id: file.id,
+      label: file.result.companyName || file.name,
+      result: file.result,
+      quoteIndexes: isPermutation(savedOrder, quoteCount) ? savedOrder : file.result.quotes.map((_, index) => index),
+    };
+  });
+};
+
+export const moveEditionCompany = (
+  draft: EditionDraft,
+  companies: EditionCompany[],
+  draggedId: string,
+  targetId: string,
+): EditionDraft => {
+  const ids = companies.map((company) => company.id);
+  return { ...draft, companyOrder: moveItem(ids, ids.indexOf(draggedId), ids.indexOf(targetId)) };
+};
+
+export const moveEditionQuote = (
+  draft: EditionDraft,
+  company: EditionCompany,
+  fromPosition: number,
+  toPosition: number,
+): EditionDraft => ({
+  ...draft,
+  quoteOrder: { ...draft.quoteOrder, [company.id]: moveItem(company.quoteIndexes, fromPosition, toPosition) },
+});
+
+const groupLabelFor = (company: EditionCompany, grouping: EditionGrouping): string => {
+  const value = grouping === 'industry' ? company.result.industry : company.result.marketCapCategory;
+  return value?.trim() || UNGROUPED_HEADING;
+};
+
+// Groups follow the first appearance of each label in the company order, so dragging still decides the layout.
+export const groupEditionCompanies = (companies: EditionCompany[], grouping: EditionGrouping): EditionSection[] => {
+  if (grouping === 'none') {
+    return companies.length > 0 ? [{ key: 'all', heading: null, companies }] : [];
+  }
+
+  const sections = new Map<string, EditionSection>();
+  for (const company of companies) {
+    const heading = groupLabelFor(company, grouping);
+    const key = heading.toLowerCase();
+    const section = sections.get(key) ?? { key, heading, companies: [] };
+    section.companies.push(company);
+    sections.set(key, section);
+  }
+  return Array.from(sections.values());
+};
+
+export const computeEditionCoverage = (companies: EditionCompany[]): EditionCoverage => ({
+  companiesCovered: companies.length,
+  industriesCovered: new Set(
+    companies.map((company) => company.result.industry?.trim().toLowerCase()).filter((industry) => Boolean(industry)),
+  ).size,
+  quoteCount: companies.reduce((sum, company) => sum + company.quoteIndexes.length, 0),
+});
+
+export const findEditionWarnings = (companies: EditionCompany[]): string[] =>
+  companies
+    .filter(
+      (company) =>
+        !EDITION_MARKET_CAPS.some(
+          (label) => label.toLowerCase() === company.result.marketCapCategory?.trim().toLowerCase(),
+        ),
+    )
+    .map(
+      (company) =>
+        `${company.label}: market cap "${company.result.marketCapCategory || 'missing'}" is not one of ` +
+        `${EDITION_MARKET_CAPS.join(', ')}, so the thread composer will skip this company when ingesting the edition.`,
+    );
+
+export const buildChatterEdition = (draft: EditionDraft, companies: EditionCompany[]): ChatterEdition => {
+  const coverage = computeEditionCoverage(companies);
+  return {
+    title: draft.title,
+    date: draft.date,
+    intro: draft.intro,
+    companiesCovered: coverage.companiesCovered,
+    industriesCovered: coverage.industriesCovered,
+    sections: groupEditionCompanies(companies, draft.grouping).map((section) => ({
+      heading: section.heading ?? undefined,
+      results: section.companies.map((company) => ({
+        ...company.result,
+        quotes: company.quoteIndexes.map((index) => company.result.quotes[index]),
+      })),
+    })),
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractedQuote } from '../../../types';
+import { makeQuote, makeResult } from './chatterTestFixtures';
+import { buildPromptExperimentStats, buildPromptExperimentSummary } from './promptExperiment';
+
+const quoteWithStatus = (
+  quote: string,
+  category: ExtractedQuote['category'],
+  status?: 'verified' | 'unverified',
+): ExtractedQuote =>
+  makeQuote({
+    quote,
+    category,
+    verification: status ? { status, score: status === 'verified' ? 1 : 0.2, page: 3 } : undefined,
+  });
+
+describe('promptExperiment', () => {
+  it('matches the same passage across prompts even with different surrounding sentences', () => {
+    const resultA = makeResult({
+      quotes: [
+        quoteWithStatus(
+          'Quick commerce is now 6% of our urban sales. We expect that share to double within two years.',
+          'Competitive Landscape',
+          'verified',
+        ),
+        quoteWithStatus('Palm oil prices have eased and we will pass some of that on to consumers.', 'Cost & Supply Chain', 'verified'),
+        quoteWithStatus('We will spend more on advertising in the coming quarters to defend share.', 'Capital Allocation', 'unverified'),
+      ],
+    });
+    const resultB = makeResult({
+      quotes: [
+        quoteWithStatus(
+          'Let me be candid on channels. Quick commerce is now 6% of our urban sales. We expect that share to double.',
+          'Competitive Landscape',
+          'verified',
+        ),
+        quoteWithStatus('Rural demand recovery remains uneven across states and categories.', 'Macro & Geopolitics', 'verified'),
+      ],
+    });
+
+    const stats = buildPromptExperimentStats(resultA, resultB);
+
+    expect(stats).toMatchObject({
+      quoteCountA: 3,
+      quoteCountB: 2,
+      sharedQuotes: 1,
+      onlyA: 2,
+      onlyB: 1,
+      overlapRatio: 0.25,
+      categoryOverlap: 0.25,
+      verifiedShareB: 1,
+      sharedInA: [true, false, false],
+      sharedInB: [true, false],
+    });
+    expect(stats.verifiedShareA).toBeCloseTo(2 / 3);
+    expect(buildPromptExperimentSummary({ version: 'v1', result: resultA }, { version: 'v2', result: resultB }, stats)).toContain(
+      'Shared quotes: 1 | Only A: 2 | Only B: 1',
+    );
+  });
+
+  it('treats two empty results as identical', () => {
+    const stats = buildPromptExperimentStats(makeResult(), makeResult());
+
+    expect(stats.overlapRatio).toBe(1);
+    expect(stats.verifiedShareA).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { overlapCoefficient, toTokenSet } from '../../../functions/_shared/textSimilarity';
+import type { ChatterAnalysisResult, ExtractedQuote } from '../../../types';
+
+export interface PromptExperimentRun {
+  version: string;
+  result: ChatterAnalysisResult;
+}
+
+export interface PromptExperimentStats {
+  quoteCountA: number;
+  quoteCountB: number;
+  sharedQuotes: number;
+  onlyA: number;
+  onlyB: number;
+  // Shared quotes over the union of both quote sets (1 = identical picks).
+  overlapRatio: number;
+  categoryOverlap: number;
+  verifiedShareA: number | null;
+  verifiedShareB: number | null;
+  // Index-aligned with each result's quotes; true when the other prompt picked the same passage.
+  sharedInA: boolean[];
+  sharedInB: boolean[];
+}
+
+// Both prompts ask for 2-4 sentence verbatim excerpts, so the same statement often comes back with
+// a different sentence of context on either side. Overlap against the shorter excerpt tolerates that.
+const SHARED_QUOTE_MIN_OVERLAP = 0.6;
+
+const toQuoteTokens = (quote: ExtractedQuote): Set<string> => toTokenSet(quote.quote, { minTokenLength: 3 });
+
+const verifiedShare = (quotes: ExtractedQuote[]): number | null => {
+  const checked = quotes.filter((quote) => quote.verification);
+  if (checked.length === 0) return null;
+  return checked.filter((quote) => quote.verification?.status !== 'unverified').length / checked.length;
+};
+
+export const buildPromptExperimentStats = (
+  resultA: ChatterAnalysisResult,
+  resultB: ChatterAnalysisResult,
+): PromptExperimentStats => {
+  const quotesA = resultA.quotes ?? [];
+  const quotesB = resultB.quotes ?? [];
+  const tokensA = quotesA.map(toQuoteTokens);
+  const tokensB = quotesB.map(toQuoteTokens);
+
+  const candidates: Array<{ indexA: number; indexB: number; overlap: number }> = [];
+  tokensA.forEach((left, indexA) => {
+    tokensB.forEach((right, indexB) => {
+      const overlap = overlapCoefficient(left, right);
+      if (overlap >= SHARED_QUOTE_MIN_OVERLAP) candidates.push({ indexA, indexB, overlap });
+    });
+  });
+  candidates.sort((left, right) => right.overlap - left.overlap);
+
+  const sharedInA = quotesA.map(() => false);
+  const sharedInB = quotesB.map(() => false);
+  let sharedQuotes = 0;
+  for (const candidate of candidates) {
+    if (sharedInA[candidate.indexA] || sharedInB[candidate.indexB]) continue;
+    sharedInA[candidate.indexA] = true;
+    sharedInB[candidate.indexB] = true;
+    sharedQuotes += 1;
+  }
+
+  const categoriesA = new Set(quotesA.map((quote) => quote.category));
+  const categoriesB = new Set(quotesB.map((quote) => quote.category));
+  const sharedCategories = [...categoriesA].filter((category) => categoriesB.has(category)).length;
+  const categoryUnion = categoriesA.size + categoriesB.size - sharedCategories;
+  const quoteUnion = quotesA.length + quotesB.length - sharedQuotes;
+
+  return {
+    quoteCountA: quotesA.length,
+    quoteCountB: quotesB.length,
+    sharedQuotes,
+    onlyA: quotesA.length - sharedQuotes,
+    onlyB: quotesB.length - sharedQuotes,
+    overlapRatio: quoteUnion === 0 ? 1 : sharedQuotes / quoteUnion,
+    categoryOverlap: categoryUnion === 0 ? 1 : sharedCategories / categoryUnion,
+    verifiedShareA: verifiedShare(quotesA),
+    verifiedShareB: verifiedShare(quotesB),
+    sharedInA,
+    sharedInB,
+  };
+};
+
+export const formatShare = (value: number | null): string => (value === null ? 'n/a' : `${Math.round(value * 100)}%`);
+
+export const buildPromptExperimentSummary = (
+  runA: PromptExperimentRun,
+  runB: PromptExperimentRun,
+  stats: PromptExperimentStats,
+): string =>
+  [
+    `# Prompt experiment: ${runA.result.companyName} (${runA.result.fiscalPeriod})`,
+    '',
+    `Prompt A: ${runA.version} (${stats.quoteCountA} quotes, ${formatShare(stats.verifiedShareA)} verified)`,
+    `Prompt B: ${runB.version} (${stats.quoteCountB} quotes, ${formatShare(stats.verifiedShareB)} verified)`,
+    `Shared quotes: ${stats.sharedQuotes} | Only A: ${stats.onlyA} | Only B: ${stats.onlyB}`,
+    `Quote overlap: ${formatShare(stats.overlapRatio)} | Category overlap: ${formatShare(stats.categoryOverlap)}`,
+  ].join('\n');
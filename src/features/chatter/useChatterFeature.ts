@@ -3,6 +3,7 @@ import AnalysisProgressPanel from '../../../components/AnalysisProgressPanel';
 import QuoteCard from '../../../components/QuoteCard';
 import ThreadComposer from '../../../components/ThreadComposer';
 import { analyzeTranscript, parsePdfToText } from '../../../services/geminiService';
+import { archiveQuotes } from '../../../services/quoteArchiveStore';
 import type {
   BatchFile,
   ChatterAnalysisResult,
@@ -10,8 +11,10 @@ import type {
   ModelType,
   ProviderType,
   ProgressEvent,
+  RequestUsage,
 } from '../../../types';
 import { buildChatterClipboardExport } from '../../../utils/chatterCopyExport';
+import { sumUsageTotals } from '../../../utils/usage';
 import type { BatchProgressState, ChatterSessionSlice } from '../../shared/state/sessionTypes';
 import {
   CHATTER_MAX_RETRIES,
@@ -23,15 +26,27 @@ import {
 } from '../../shared/utils/retry';
 import { statusLabels, statusStyles } from '../../shared/ui/batchStatus';
 import { QuoteSkeleton } from '../../shared/ui/skeletons';
+import { buildArchiveRecordsFromChatter } from '../archive/quoteArchive';
+import {
+  buildChatterComparison,
+  buildChatterComparisonSummary,
+  groupComparableResults,
+  type ChatterComparison,
+  type ChatterComparisonCandidate,
+} from './chatterComparison';
+import { createEditionDraft, resolveEditionCompanies, type EditionCompany, type EditionDraft } from './editionBuilder';
+
+export type ChatterPane = 'analysis' | 'compare' | 'experiment' | 'edition' | 'thread';
 
 interface UseChatterFeatureParams {
   provider: ProviderType;
   selectedModel: ModelType;
+  onUsage?: (usage: RequestUsage) => void;
 }
 
 export interface ChatterFeatureController {
   inputMode: 'text' | 'file';
-  chatterPane: 'analysis' | 'thread';
+  chatterPane: ChatterPane;
   textInput: string;
   batchFiles: BatchFile[];
   isAnalyzingBatch: boolean;
@@ -44,23 +59,37 @@ export interface ChatterFeatureController {
   readyCount: number;
   isTextLoading: boolean;
   isChatterLoading: boolean;
+  comparisonCandidates: ChatterComparisonCandidate[];
+  comparisonScrip: string;
+  comparison: ChatterComparison | null;
+  comparisonCopyStatus: 'idle' | 'copied' | 'error';
+  editionDraft: EditionDraft;
+  editionCompanies: EditionCompany[];
   setInputMode: React.Dispatch<React.SetStateAction<'text' | 'file'>>;
-  setChatterPane: React.Dispatch<React.SetStateAction<'analysis' | 'thread'>>;
+  setChatterPane: React.Dispatch<React.SetStateAction<ChatterPane>>;
+  setComparisonScrip: React.Dispatch<React.SetStateAction<string>>;
+  setEditionDraft: React.Dispatch<React.SetStateAction<EditionDraft>>;
   setTextInput: React.Dispatch<React.SetStateAction<string>>;
-  handleAnalyzeText: () => Promise<void>;
+  handleAnalyzeText: (bypassCache?: boolean) => Promise<void>;
   handleAnalyzeBatch: () => Promise<void>;
   handleChatterFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => Promise<void>;
   handleCopyAllChatter: () => Promise<void>;
+  handleCopyComparison: () => Promise<void>;
   removeBatchFile: (id: string) => void;
   retryBatchFile: (id: string) => void;
+  rerunBatchFile: (id: string) => void;
   clearChatter: () => void;
   sessionSlice: ChatterSessionSlice;
   restoreFromSessionSlice: (slice: ChatterSessionSlice) => void;
 }
 
-export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeatureParams): ChatterFeatureController => {
+export const useChatterFeature = ({
+  provider,
+  selectedModel,
+  onUsage,
+}: UseChatterFeatureParams): ChatterFeatureController => {
   const [inputMode, setInputMode] = useState<'text' | 'file'>('file');
-  const [chatterPane, setChatterPane] = useState<'analysis' | 'thread'>('analysis');
+  const [chatterPane, setChatterPane] = useState<ChatterPane>('analysis');
   const [textInput, setTextInput] = useState('');
 
   const [batchFiles, setBatchFiles] = useState<BatchFile[]>([]);
@@ -69,6 +98,9 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
   const [chatterSingleState, setChatterSingleState] = useState<ChatterAnalysisState>({ status: 'idle' });
   const [copyAllStatus, setCopyAllStatus] = useState<'idle' | 'copied' | 'error'>('idle');
   const [copyAllErrorMessage, setCopyAllErrorMessage] = useState('');
+  const [comparisonScrip, setComparisonScrip] = useState('');
+  const [comparisonCopyStatus, setComparisonCopyStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+  const [editionDraft, setEditionDraft] = useState<EditionDraft>(() => createEditionDraft());
 
   const chatterFileInputRef = useRef<HTMLInputElement>(null);
 
@@ -88,6 +120,16 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
     return results;
   }, [batchFiles, chatterSingleState]);
 
+  const comparisonCandidates = useMemo(() => groupComparableResults(completedResults), [completedResults]);
+
+  const editionCompanies = useMemo(() => resolveEditionCompanies(editionDraft, batchFiles), [batchFiles, editionDraft]);
+
+  const comparison = useMemo((): ChatterComparison | null => {
+    const candidate =
+      comparisonCandidates.find((item) => item.nseScrip === comparisonScrip) ?? comparisonCandidates[0];
+    return candidate ? buildChatterComparison(candidate.results) : null;
+  }, [comparisonCandidates, comparisonScrip]);
+
   const runTranscriptWithRetry = useCallback(
     async (
       transcript: string,
@@ -95,11 +137,12 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
       modelId: ModelType,
       onProgress: (progress: ProgressEvent) => void,
       onRetryNotice: (message: string) => void,
+      bypassCache = false,
     ): Promise<ChatterAnalysisResult> => {
       let lastError: unknown = null;
       for (let attempt = 0; attempt <= CHATTER_MAX_RETRIES; attempt++) {
         try {
-          return await analyzeTranscript(transcript, providerType, modelId, onProgress);
+          return await analyzeTranscript(transcript, providerType, modelId, onProgress, undefined, bypassCache);
         } catch (error: unknown) {
           lastError = error;
           const errorMessage = String((error as { message?: string })?.message || 'Analysis failed.');
@@ -122,7 +165,7 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
     [],
   );
 
-  const handleAnalyzeText = useCallback(async () => {
+  const handleAnalyzeText = useCallback(async (bypassCache = false) => {
     if (!textInput.trim()) return;
 
     setCopyAllStatus('idle');
@@ -159,7 +202,10 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
             },
           }));
         },
+        bypassCache,
       );
+      void archiveQuotes(buildArchiveRecordsFromChatter(result));
+      if (result.usage) onUsage?.(result.usage);
 
       setChatterSingleState({
         status: 'complete',
@@ -173,7 +219,7 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
         progress: { stage: 'error', message: 'Analysis failed.', percent: 100 },
       });
     }
-  }, [provider, runTranscriptWithRetry, selectedModel, textInput]);
+  }, [onUsage, provider, runTranscriptWithRetry, selectedModel, textInput]);
 
   const handleAnalyzeBatch = useCallback(async () => {
     const pendingIndexes = batchFiles
@@ -191,6 +237,7 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
     const getCounts = () => ({
       completed: pendingIndexes.filter((index) => nextFiles[index].status === 'complete').length,
       failed: pendingIndexes.filter((index) => nextFiles[index].status === 'error').length,
+      usage: sumUsageTotals(pendingIndexes.map((index) => nextFiles[index].result?.usage)),
     });
 
     setBatchProgress({
@@ -233,7 +280,7 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
             };
             setBatchFiles([...nextFiles]);
 
-            const { completed, failed } = getCounts();
+            const { completed, failed, usage } = getCounts();
             const inFileRatio = (progress.percent ?? 0) / 100;
             const overallPercent = Math.round(((queueIndex + inFileRatio) / pendingIndexes.length) * 100);
 
@@ -241,6 +288,7 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
               total: pendingIndexes.length,
               completed,
               failed,
+              usage,
               currentLabel: nextFiles[fileIndex].name,
               progress: {
                 ...progress,
@@ -260,12 +308,13 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
             };
             setBatchFiles([...nextFiles]);
 
-            const { completed, failed } = getCounts();
+            const { completed, failed, usage } = getCounts();
             const overallPercent = Math.round(((queueIndex + 0.92) / pendingIndexes.length) * 100);
             setBatchProgress({
               total: pendingIndexes.length,
               completed,
               failed,
+              usage,
               currentLabel: nextFiles[fileIndex].name,
               progress: {
                 stage: 'analyzing',
@@ -274,12 +323,16 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
               },
             });
           },
+          file.bypassCache,
         );
+        void archiveQuotes(buildArchiveRecordsFromChatter(result));
+        if (result.usage) onUsage?.(result.usage);
 
         nextFiles[fileIndex] = {
           ...nextFiles[fileIndex],
           status: 'complete',
           result,
+          bypassCache: undefined,
           progress: {
             stage: 'complete',
             message: 'Insights ready.',
@@ -300,13 +353,14 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
       }
 
       setBatchFiles([...nextFiles]);
-      const { completed, failed } = getCounts();
+      const { completed, failed, usage } = getCounts();
       const completedQueueItems = queueIndex + 1;
 
       setBatchProgress({
         total: pendingIndexes.length,
         completed,
         failed,
+        usage,
         currentLabel:
           completedQueueItems < pendingIndexes.length
             ? nextFiles[pendingIndexes[queueIndex + 1]].name
@@ -320,7 +374,7 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
     }
 
     setIsAnalyzingBatch(false);
-  }, [batchFiles, provider, runTranscriptWithRetry, selectedModel]);
+  }, [batchFiles, onUsage, provider, runTranscriptWithRetry, selectedModel]);
 
   const handleChatterFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -404,6 +458,19 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
     }
   }, [completedResults]);
 
+  const handleCopyComparison = useCallback(async () => {
+    if (!comparison) return;
+
+    try {
+      await navigator.clipboard.writeText(buildChatterComparisonSummary(comparison));
+      setComparisonCopyStatus('copied');
+      setTimeout(() => setComparisonCopyStatus('idle'), 1800);
+    } catch {
+      setComparisonCopyStatus('error');
+      setTimeout(() => setComparisonCopyStatus('idle'), 3500);
+    }
+  }, [comparison]);
+
   const removeBatchFile = useCallback((id: string) => {
     setBatchFiles((prev) => prev.filter((file) => file.id !== id));
   }, []);
@@ -428,6 +495,20 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
     [isAnalyzingBatch],
   );
 
+  const rerunBatchFile = useCallback(
+    (id: string) => {
+      if (isAnalyzingBatch) return;
+      setBatchFiles((prev) =>
+        prev.map((file) =>
+          file.id !== id || !file.content.trim()
+            ? file
+            : { ...file, status: 'ready', error: undefined, result: undefined, progress: undefined, bypassCache: true },
+        ),
+      );
+    },
+    [isAnalyzingBatch],
+  );
+
   const clearChatter = useCallback(() => {
     setBatchFiles([]);
     setTextInput('');
@@ -479,15 +560,25 @@ export const useChatterFeature = ({ provider, selectedModel }: UseChatterFeature
     readyCount,
     isTextLoading,
     isChatterLoading,
+    comparisonCandidates,
+    comparisonScrip: comparison?.nseScrip ?? '',
+    comparison,
+    comparisonCopyStatus,
+    editionDraft,
+    editionCompanies,
     setInputMode,
     setChatterPane,
+    setComparisonScrip,
+    setEditionDraft,
     setTextInput,
     handleAnalyzeText,
     handleAnalyzeBatch,
     handleChatterFileUpload,
     handleCopyAllChatter,
+    handleCopyComparison,
     removeBatchFile,
     retryBatchFile,
+    rerunBatchFile,
     clearChatter,
     sessionSlice,
     restoreFromSessionSlice,
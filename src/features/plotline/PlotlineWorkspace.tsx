@@ -1,6 +1,8 @@
 import React from 'react';
+import QuoteVerificationBadge from '../../../components/QuoteVerificationBadge';
+import { formatUsageCost, formatUsageSummary, hasUsage } from '../../../utils/usage';
 import type { PlotlineFeatureController } from './usePlotlineFeature';
-import type { PlotlineCompanyGroup, PlotlineQuote } from '../../../types';
+import type { PlotlineCompanyGroup, PlotlineQuote, PlotlineStoryResult, PlotlineStorySection } from '../../../types';
 
 interface PlotlineWorkspaceProps {
   feature: PlotlineFeatureController;
@@ -68,13 +70,16 @@ export const PlotlineWorkspace = ({ feature, disabled }: PlotlineWorkspaceProps)
                 <li key={file.id} className="flex items-center justify-between text-sm">
                   <span className="truncate max-w-[260px]">{file.name}</span>
                   <div className="flex items-center gap-2">
-                    <span className={`text-xs ${
-                      file.status === 'complete' ? 'text-green-600' :
-                      file.status === 'error' ? 'text-red-500' :
-                      file.status === 'analyzing' ? 'text-brand' :
-                      'text-stone'
-                    }`}>
-                      {file.status === 'complete' ? `${file.result?.quotes.length ?? 0} quotes` :
+                    <span
+                      title={hasUsage(file.result?.usage) ? formatUsageSummary(file.result.usage) : undefined}
+                      className={`text-xs ${
+                        file.status === 'complete' ? 'text-green-600' :
+                        file.status === 'error' ? 'text-red-500' :
+                        file.status === 'analyzing' ? 'text-brand' :
+                        'text-stone'
+                      }`}
+                    >
+                      {file.status === 'complete' ? `${file.result?.quotes.length ?? 0} quotes${hasUsage(file.result?.usage) ? ` · ~${formatUsageCost(file.result.usage.costUsd)}` : ''}` :
                        file.status === 'error' ? 'Error' :
                        file.status === 'analyzing' ? 'Analyzing...' :
                        file.status === 'parsing' ? 'Parsing...' :
@@ -115,6 +120,9 @@ export const PlotlineWorkspace = ({ feature, disabled }: PlotlineWorkspaceProps)
           </button>
         </div>
 
+        {feature.plotlineBatchProgress && !feature.isAnalyzingPlotlineBatch && hasUsage(feature.plotlineBatchProgress.usage) && (
+          <p className="text-xs text-stone">Last batch: {formatUsageSummary(feature.plotlineBatchProgress.usage)}</p>
+        )}
         {feature.plotlineBatchProgress && feature.isAnalyzingPlotlineBatch && (
           <div className="text-xs text-stone">
             {feature.plotlineBatchProgress.currentLabel && (
@@ -173,6 +181,13 @@ export const PlotlineWorkspace = ({ feature, disabled }: PlotlineWorkspaceProps)
                 >
                   Select All
                 </button>
+                <button
+                  className="px-4 py-2 text-sm font-medium text-brand border border-brand/40 rounded-z-sm hover:bg-blue-50 transition disabled:opacity-50"
+                  onClick={feature.handleGenerateStory}
+                  disabled={disabled || feature.selectedQuoteCount === 0 || feature.storyStatus === 'loading'}
+                >
+                  {feature.storyStatus === 'loading' ? 'Writing...' : feature.story ? 'Rewrite Story' : 'Write Story'}
+                </button>
                 <button
                   className="px-4 py-2 text-sm font-medium text-white bg-brand rounded-z-sm hover:bg-brand/90 transition disabled:opacity-50"
                   onClick={feature.handleCopyBrief}
@@ -180,11 +195,17 @@ export const PlotlineWorkspace = ({ feature, disabled }: PlotlineWorkspaceProps)
                 >
                   {feature.plotlineCopyStatus === 'copied' ? 'Copied!' :
                    feature.plotlineCopyStatus === 'error' ? 'Copy Failed' :
-                   'Copy Brief'}
+                   feature.story ? 'Copy Story' : 'Copy Brief'}
                 </button>
               </div>
             </div>
 
+            {feature.storyStatus === 'error' && (
+              <p className="text-sm text-red-600">{feature.storyError}</p>
+            )}
+
+            {feature.story && <StoryPanel story={feature.story} />}
+
             {/* Quote Groups */}
             {feature.groupingMode === 'company' ? (
               feature.companyGroups.map((group) => (
@@ -210,6 +231,65 @@ export const PlotlineWorkspace = ({ feature, disabled }: PlotlineWorkspaceProps)
 
 /* ---- Sub-components ---- */
 
+const StorySectionBody: React.FC<{ section: PlotlineStorySection }> = ({ section }) => {
+  const count = Math.max(section.paragraphs.length, section.quoteBlocks.length);
+  return (
+    <>
+      {Array.from({ length: count }, (_, i) => (
+        <React.Fragment key={i}>
+          {section.paragraphs[i] && (
+            <p className="text-sm text-gray-800 leading-relaxed mb-3">{section.paragraphs[i]}</p>
+          )}
+          {section.quoteBlocks[i] && (
+            <blockquote className="ml-6 mb-4 pl-4 border-l-2 border-brand/40">
+              <p className="text-sm italic text-gray-800 leading-relaxed">"{section.quoteBlocks[i].quote}"</p>
+              <p className="text-xs text-stone mt-1.5">
+                &mdash; {section.quoteBlocks[i].speakerName}
+                {section.quoteBlocks[i].speakerDesignation ? `, ${section.quoteBlocks[i].speakerDesignation}` : ''}
+                <span className="ml-2">{section.quoteBlocks[i].periodLabel}</span>
+              </p>
+            </blockquote>
+          )}
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+const StoryPanel: React.FC<{ story: PlotlineStoryResult }> = ({ story }) => (
+  <article className="bg-white rounded-z-md shadow-panel p-6">
+    <p className="text-xs text-stone uppercase tracking-wider mb-1">
+      Story &middot; {story.chronologyMode === 'evolution' ? 'Evolution' : 'Cross-company contrast'}
+      {story.writerFallbackUsed ? ' · Draft fallback' : ''}
+    </p>
+    <h3 className="text-2xl font-medium text-gray-900">{story.title}</h3>
+    {story.dek && <p className="text-base text-gray-700 mt-2">{story.dek}</p>}
+
+    {story.sections.map((section) => (
+      <section key={section.companyKey} className="mt-6">
+        <h4 className="text-lg font-semibold text-gray-900">{section.subhead}</h4>
+        <p className="text-xs text-stone mb-3">
+          {section.companyName}{section.nseScrip ? ` (${section.nseScrip})` : ''}
+        </p>
+        <StorySectionBody section={section} />
+      </section>
+    ))}
+
+    <section className="mt-6">
+      <h4 className="text-lg font-semibold text-gray-900 mb-2">What to watch</h4>
+      <ul className="list-disc pl-5 flex flex-col gap-1.5">
+        {story.watchNext.map((line, index) => (
+          <li key={index} className="text-sm text-gray-800">{line}</li>
+        ))}
+      </ul>
+    </section>
+
+    {story.skippedCompanies.length > 0 && (
+      <p className="text-xs text-stone mt-4">Skipped for weak evidence: {story.skippedCompanies.join(', ')}</p>
+    )}
+  </article>
+);
+
 const CompanyQuoteGroup: React.FC<{
   group: PlotlineCompanyGroup;
   onToggle: (companyKey: string, quoteId: string) => void;
@@ -318,6 +398,11 @@ const QuoteCard: React.FC<{
         &mdash; {quote.speakerName}{quote.speakerDesignation ? `, ${quote.speakerDesignation}` : ''}
         <span className="ml-2">{quote.periodLabel}</span>
       </p>
+      {quote.verification && quote.verification.status !== 'verified' && (
+        <div className="mt-1.5">
+          <QuoteVerificationBadge verification={quote.verification} compact />
+        </div>
+      )}
     </div>
   </label>
 );
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { PlotlineCompanyGroup, PlotlineQuote } from '../../../types';
+import { buildFallbackStoryPlan } from './usePlotlineFeature';
+
+const makeQuote = (quoteId: string, quote: string, periodSortKey: number, selected = true): PlotlineQuote => ({
+  quoteId,
+  quote,
+  speakerName: 'Speaker',
+  speakerDesignation: 'CEO',
+  periodLabel: `P${periodSortKey}`,
+  periodSortKey,
+  selected,
+});
+
+const makeGroup = (companyKey: string, quotes: PlotlineQuote[]): PlotlineCompanyGroup => ({
+  companyKey,
+  companyName: companyKey,
+  nseScrip: companyKey,
+  industry: 'FMCG',
+  periods: [],
+  quotes,
+});
+
+describe('buildFallbackStoryPlan', () => {
+  const thesis = 'Quick commerce is rewiring FMCG distribution. More detail follows.';
+
+  it('orders companies by evidence strength and skips thin evidence', () => {
+    const plan = buildFallbackStoryPlan(thesis, [
+      makeGroup('THIN', [makeQuote('thin-1', 'We are watching the channel closely.', 202512)]),
+      makeGroup('MID', [
+        makeQuote('mid-1', 'The channel is growing fast.', 202512),
+        makeQuote('mid-2', 'We have a dedicated team.', 202512),
+      ]),
+      makeGroup('STRONG', [
+        makeQuote('strong-1', 'Quick commerce is 6% of urban sales.', 202509),
+        makeQuote('strong-2', 'It is now 9% of urban sales.', 202512),
+        makeQuote('strong-3', 'Margins are in line with modern trade.', 202512),
+      ]),
+    ]);
+
+    expect(plan.title).toBe('Quick commerce is rewiring FMCG distribution');
+    expect(plan.sections.map(s => s.companyKey)).toEqual(['STRONG', 'MID']);
+    expect(plan.skippedCompanyKeys).toEqual(['THIN']);
+  });
+
+  it('uses evolution framing for multi-period companies and contrast for single-period ones', () => {
+    const plan = buildFallbackStoryPlan(thesis, [
+      makeGroup('MULTI', [
+        makeQuote('multi-1', 'Year one.', 202409),
+        makeQuote('multi-2', 'Year two with 12% growth.', 202509),
+        makeQuote('multi-3', 'Year two again with 4 new cities.', 202509),
+        makeQuote('multi-4', 'Year three.', 202609),
+      ]),
+      makeGroup('SINGLE', [
+        makeQuote('single-1', 'Quarter view with 3 launches.', 202512),
+        makeQuote('single-2', 'Another quarter view.', 202512),
+      ]),
+    ]);
+
+    const multi = plan.sections.find(s => s.companyKey === 'MULTI');
+    const single = plan.sections.find(s => s.companyKey === 'SINGLE');
+    expect(multi?.framing).toBe('evolution');
+    expect(multi?.quoteIds).toHaveLength(3);
+    expect(multi?.quoteIds[0]).toBe('multi-1');
+    expect(multi?.quoteIds[multi.quoteIds.length - 1]).toBe('multi-4');
+    expect(single?.framing).toBe('contrast');
+    expect(single?.quoteIds).toHaveLength(2);
+  });
+
+  it('ignores deselected quotes', () => {
+    const plan = buildFallbackStoryPlan(thesis, [
+      makeGroup('A', [
+        makeQuote('a-1', 'Kept 10%.', 202512),
+        makeQuote('a-2', 'Dropped 20%.', 202512, false),
+      ]),
+      makeGroup('B', [makeQuote('b-1', 'Dropped.', 202512, false)]),
+    ]);
+
+    expect(plan.sections).toHaveLength(1);
+    expect(plan.sections[0].quoteIds).toEqual(['a-1']);
+    expect(plan.skippedCompanyKeys).toEqual([]);
+  });
+});
@@ -4,11 +4,25 @@ import type {
   PlotlineCompanyGroup,
   PlotlineQuote,
   PlotlineFileResult,
+  PlotlineStoryPlan,
+  PlotlineStoryResult,
+  PlotlineStorySectionPlan,
   ProgressEvent,
+  RequestUsage,
+  UsageTotals,
 } from '../../../types';
 import { ProviderType, ModelType } from '../../../types';
 import type { PlotlineSessionSlice, BatchProgressState } from '../../shared/state/sessionTypes';
-import { analyzePlotlineTranscript, parsePdfToText } from '../../../services/geminiService';
+import { addUsageTotals, EMPTY_USAGE_TOTALS } from '../../../utils/usage';
+import {
+  analyzePlotlineTranscript,
+  generatePlotlineStory,
+  isPlotlineStoryPlanFailure,
+  parsePdfToText,
+} from '../../../services/geminiService';
+import { buildPlotlineStoryClipboardExport } from '../../../utils/plotlineStoryExport';
+import { archiveQuotes } from '../../../services/quoteArchiveStore';
+import { buildArchiveRecordsFromPlotline } from '../archive/quoteArchive';
 
 const MAX_RETRIES = 2;
 const RETRY_BASE_DELAY_MS = 2000;
@@ -16,9 +30,11 @@ const RETRY_BASE_DELAY_MS = 2000;
 interface UsePlotlineFeatureParams {
   provider: ProviderType;
   selectedModel: ModelType;
+  onUsage?: (usage: RequestUsage) => void;
 }
 
 export type PlotlineGroupingMode = 'company' | 'period';
+export type PlotlineStoryStatus = 'idle' | 'loading' | 'ready' | 'error';
 
 export interface PlotlineFeatureController {
   // State
@@ -33,6 +49,9 @@ export interface PlotlineFeatureController {
   plotlineReadyCount: number;
   selectedQuoteCount: number;
   totalQuoteCount: number;
+  story: PlotlineStoryResult | null;
+  storyStatus: PlotlineStoryStatus;
+  storyError: string;
 
   // Actions
   setThesis: (value: string) => void;
@@ -42,6 +61,7 @@ export interface PlotlineFeatureController {
   toggleQuote: (companyKey: string, quoteId: string) => void;
   deselectCompany: (companyKey: string) => void;
   selectAllQuotes: () => void;
+  handleGenerateStory: () => Promise<void>;
   handleCopyBrief: () => Promise<void>;
   removePlotlineBatchFile: (id: string) => void;
   clearPlotline: () => void;
@@ -101,6 +121,102 @@ const aggregateCompanyGroups = (files: PlotlineBatchFile[]): PlotlineCompanyGrou
   );
 };
 
+const MIN_STORY_QUOTES_PER_COMPANY = 2;
+const MAX_STORY_QUOTES_PER_COMPANY = 3;
+const NUMERIC_CONTENT_PATTERN = /\d/;
+
+interface CompanyEvidenceStrength {
+  group: PlotlineCompanyGroup;
+  quotes: PlotlineQuote[];
+  numericQuoteCount: number;
+  periodSpread: number;
+  score: number;
+}
+
+const scoreCompanyEvidence = (group: PlotlineCompanyGroup): CompanyEvidenceStrength => {
+  const quotes = group.quotes.filter(q => q.selected);
+  const numericQuoteCount = quotes.filter(q => NUMERIC_CONTENT_PATTERN.test(q.quote)).length;
+  const periodSpread = new Set(quotes.map(q => q.periodSortKey)).size;
+  return {
+    group,
+    quotes,
+    numericQuoteCount,
+    periodSpread,
+    score: quotes.length * 2 + numericQuoteCount * 3 + (periodSpread - 1) * 2,
+  };
+};
+
+const pickStoryQuotes = (quotes: PlotlineQuote[]): PlotlineQuote[] => {
+  const byStrength = [...quotes].sort((a, b) => {
+    const numericDelta =
+      Number(NUMERIC_CONTENT_PATTERN.test(b.quote)) - Number(NUMERIC_CONTENT_PATTERN.test(a.quote));
+    return numericDelta !== 0 ? numericDelta : b.quote.length - a.quote.length;
+  });
+
+  const picked: PlotlineQuote[] = [];
+  const chronological = [...quotes].sort((a, b) => a.periodSortKey - b.periodSortKey);
+  const earliest = chronological[0];
+  const latest = chronological[chronological.length - 1];
+  if (earliest && latest && earliest.periodSortKey !== latest.periodSortKey) {
+    // Anchor evolution sections on both ends of the period range.
+    picked.push(
+      byStrength.find(q => q.periodSortKey === earliest.periodSortKey) ?? earliest,
+      byStrength.find(q => q.periodSortKey === latest.periodSortKey) ?? latest,
+    );
+  }
+
+  for (const quote of byStrength) {
+    if (picked.length >= MAX_STORY_QUOTES_PER_COMPANY) break;
+    if (!picked.includes(quote)) picked.push(quote);
+  }
+
+  return picked.sort((a, b) => a.periodSortKey - b.periodSortKey);
+};
+
+const buildFallbackSubhead = (quotes: PlotlineQuote[], framing: PlotlineStorySectionPlan['framing']): string => {
+  const labels = [...new Set(quotes.map(q => q.periodLabel).filter(Boolean))];
+  if (framing === 'evolution' && labels.length > 1) {
+    return `How the message moved from ${labels[0]} to ${labels[labels.length - 1]}`;
+  }
+  return labels[0] ? `Where management stood in ${labels[0]}` : 'Where management stands';
+};
+
+export const buildFallbackStoryPlan = (thesis: string, groups: PlotlineCompanyGroup[]): PlotlineStoryPlan => {
+  const ranked = groups
+    .map(scoreCompanyEvidence)
+    .filter(entry => entry.quotes.length > 0)
+    .sort((a, b) => b.score - a.score || a.group.companyName.localeCompare(b.group.companyName));
+
+  // A lone quote with no numbers is too thin for a section, unless it is all we have.
+  const strong = ranked.filter(
+    entry => entry.quotes.length >= MIN_STORY_QUOTES_PER_COMPANY || entry.numericQuoteCount > 0,
+  );
+  const included = strong.length > 0 ? strong : ranked.slice(0, 1);
+
+  const sections: PlotlineStorySectionPlan[] = included.map(entry => {
+    const quotes = pickStoryQuotes(entry.quotes);
+    const framing = entry.periodSpread > 1 ? 'evolution' : 'contrast';
+    return {
+      companyKey: entry.group.companyKey,
+      subhead: buildFallbackSubhead(quotes, framing),
+      framing,
+      quoteIds: quotes.map(q => q.quoteId),
+    };
+  });
+
+  const evolutionCount = sections.filter(s => s.framing === 'evolution').length;
+  const names = included.map(entry => entry.group.companyName);
+  const title = thesis.trim().split(/[.!?\n]/)[0].trim().slice(0, 200);
+
+  return {
+    title,
+    dek: names.length > 0 ? `What management at ${names.join(', ')} said on the record.` : '',
+    chronologyMode: evolutionCount > sections.length / 2 ? 'evolution' : 'contrast',
+    sections,
+    skippedCompanyKeys: ranked.filter(entry => !included.includes(entry)).map(entry => entry.group.companyKey),
+  };
+};
+
 const buildClipboardBrief = (thesis: string, groups: PlotlineCompanyGroup[]): string => {
   const selectedGroups = groups
     .map(g => ({
@@ -144,6 +260,7 @@ const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 export const usePlotlineFeature = ({
   provider,
   selectedModel,
+  onUsage,
 }: UsePlotlineFeatureParams): PlotlineFeatureController => {
   const [thesis, setThesis] = useState('');
   const [batchFiles, setBatchFiles] = useState<PlotlineBatchFile[]>([]);
@@ -152,6 +269,9 @@ export const usePlotlineFeature = ({
   const [batchProgress, setBatchProgress] = useState<BatchProgressState | null>(null);
   const [groupingMode, setGroupingMode] = useState<PlotlineGroupingMode>('company');
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied' | 'error'>('idle');
+  const [story, setStory] = useState<PlotlineStoryResult | null>(null);
+  const [storyStatus, setStoryStatus] = useState<PlotlineStoryStatus>('idle');
+  const [storyError, setStoryError] = useState('');
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const readyCount = useMemo(
@@ -209,10 +329,14 @@ export const usePlotlineFeature = ({
     if (!thesis.trim() || readyCount === 0) return;
 
     setIsAnalyzing(true);
+    setStory(null);
+    setStoryStatus('idle');
+    setStoryError('');
     const readyFiles = batchFiles.filter(f => f.status === 'ready');
     const total = readyFiles.length;
     let completed = 0;
     let failed = 0;
+    let usage: UsageTotals = EMPTY_USAGE_TOTALS;
 
     setBatchProgress({ total, completed: 0, failed: 0 });
 
@@ -220,7 +344,7 @@ export const usePlotlineFeature = ({
       setBatchFiles(prev =>
         prev.map(f => f.id === file.id ? { ...f, status: 'analyzing' as const } : f),
       );
-      setBatchProgress({ total, completed, failed, currentLabel: file.name });
+      setBatchProgress({ total, completed, failed, usage, currentLabel: file.name });
 
       let attempt = 0;
       let success = false;
@@ -238,6 +362,9 @@ export const usePlotlineFeature = ({
               );
             },
           );
+          void archiveQuotes(buildArchiveRecordsFromPlotline(result));
+          usage = addUsageTotals(usage, result.usage);
+          if (result.usage) onUsage?.(result.usage);
 
           setBatchFiles(prev =>
             prev.map(f => f.id === file.id
@@ -263,7 +390,7 @@ export const usePlotlineFeature = ({
         }
       }
 
-      setBatchProgress({ total, completed, failed });
+      setBatchProgress({ total, completed, failed, usage });
     }
 
     // Aggregate after all files processed
@@ -274,7 +401,7 @@ export const usePlotlineFeature = ({
     });
 
     setIsAnalyzing(false);
-  }, [thesis, batchFiles, readyCount, provider, selectedModel]);
+  }, [thesis, batchFiles, readyCount, provider, selectedModel, onUsage]);
 
   const toggleQuote = useCallback((companyKey: string, quoteId: string) => {
     setCompanyGroups(prev =>
@@ -309,7 +436,54 @@ export const usePlotlineFeature = ({
     );
   }, []);
 
+  const handleGenerateStory = useCallback(async () => {
+    if (!thesis.trim() || selectedQuoteCount === 0) return;
+
+    setStoryStatus('loading');
+    setStoryError('');
+    try {
+      let result: PlotlineStoryResult;
+      try {
+        result = await generatePlotlineStory(thesis, companyGroups, provider, selectedModel);
+      } catch (planError) {
+        // Only a failed model plan is worth a second request; a rejected request would fail the same way.
+        if (!isPlotlineStoryPlanFailure(planError)) throw planError;
+        const fallbackPlan = buildFallbackStoryPlan(thesis, companyGroups);
+        result = await generatePlotlineStory(thesis, companyGroups, provider, selectedModel, fallbackPlan);
+      }
+      if (result.usage) onUsage?.(result.usage);
+      setStory(result);
+      setStoryStatus('ready');
+    } catch (err: any) {
+      setStoryStatus('error');
+      setStoryError(err?.message || 'Story generation failed.');
+    }
+  }, [thesis, companyGroups, selectedQuoteCount, provider, selectedModel, onUsage]);
+
   const handleCopyBrief = useCallback(async () => {
+    if (story) {
+      const { html, text } = buildPlotlineStoryClipboardExport(story);
+      try {
+        const ClipboardItemCtor = (window as { ClipboardItem?: typeof ClipboardItem }).ClipboardItem;
+        if (ClipboardItemCtor && window.isSecureContext) {
+          await navigator.clipboard.write([
+            new ClipboardItemCtor({
+              'text/html': new Blob([html], { type: 'text/html' }),
+              'text/plain': new Blob([text], { type: 'text/plain' }),
+            }),
+          ]);
+        } else {
+          await navigator.clipboard.writeText(text);
+        }
+        setCopyStatus('copied');
+        setTimeout(() => setCopyStatus('idle'), 1800);
+      } catch {
+        setCopyStatus('error');
+        setTimeout(() => setCopyStatus('idle'), 3500);
+      }
+      return;
+    }
+
     const brief = buildClipboardBrief(thesis, companyGroups);
     if (!brief) return;
 
@@ -321,7 +495,7 @@ export const usePlotlineFeature = ({
       setCopyStatus('error');
       setTimeout(() => setCopyStatus('idle'), 3500);
     }
-  }, [thesis, companyGroups]);
+  }, [thesis, companyGroups, story]);
 
   const removeBatchFile = useCallback((id: string) => {
     setBatchFiles(prev => prev.filter(f => f.id !== id));
@@ -334,18 +508,25 @@ export const usePlotlineFeature = ({
     setIsAnalyzing(false);
     setBatchProgress(null);
     setCopyStatus('idle');
+    setStory(null);
+    setStoryStatus('idle');
+    setStoryError('');
   }, []);
 
   const sessionSlice: PlotlineSessionSlice = useMemo(() => ({
     batchFiles,
     thesis,
     companyGroups,
-  }), [batchFiles, thesis, companyGroups]);
+    story,
+  }), [batchFiles, thesis, companyGroups, story]);
 
   const restoreFromSessionSlice = useCallback((slice: PlotlineSessionSlice) => {
     setBatchFiles(slice.batchFiles || []);
     setThesis(slice.thesis || '');
     setCompanyGroups(slice.companyGroups || []);
+    setStory(slice.story || null);
+    setStoryStatus(slice.story ? 'ready' : 'idle');
+    setStoryError('');
   }, []);
 
   return {
@@ -360,6 +541,9 @@ export const usePlotlineFeature = ({
     plotlineReadyCount: readyCount,
     selectedQuoteCount,
     totalQuoteCount,
+    story,
+    storyStatus,
+    storyError,
     setThesis,
     setGroupingMode,
     handlePlotlineFileUpload: handleFileUpload,
@@ -367,6 +551,7 @@ export const usePlotlineFeature = ({
     toggleQuote,
     deselectCompany,
     selectAllQuotes,
+    handleGenerateStory,
     handleCopyBrief,
     removePlotlineBatchFile: removeBatchFile,
     clearPlotline,
@@ -1,6 +1,10 @@
 import React from 'react';
 import AnalysisProgressPanel from '../../../components/AnalysisProgressPanel';
 import PointsCard from '../../../components/PointsCard';
+import { downloadPointsExport } from '../../../utils/pointsCopyExport';
+import { downloadPointsMetricsCsv, hasSlideMetrics } from '../../../utils/pointsMetricsExport';
+import { formatUsageSummary, hasUsage } from '../../../utils/usage';
+import { ExportFileButtons } from '../../shared/ui/ExportFileButtons';
 import { statusLabels, statusStyles } from '../../shared/ui/batchStatus';
 import { SlideSkeleton } from '../../shared/ui/skeletons';
 import type { PointsFeatureController } from './usePointsFeature';
@@ -16,6 +20,7 @@ export const PointsWorkspace: React.FC<PointsWorkspaceProps> = ({ feature, disab
     pointsBatchProgress,
     pointsCopyAllStatus,
     pointsCopyAllErrorMessage,
+    pointsDeckExport,
     pointsFileInputRef,
     completedPointsResults,
     pointsReadyCount,
@@ -23,6 +28,7 @@ export const PointsWorkspace: React.FC<PointsWorkspaceProps> = ({ feature, disab
     handlePointsFileUpload,
     handleAnalyzePointsBatch,
     handleCopyAllPoints,
+    handleDownloadPointsDeck,
     removePointsBatchFile,
     retryPointsBatchFile,
     clearPoints,
@@ -71,6 +77,9 @@ export const PointsWorkspace: React.FC<PointsWorkspaceProps> = ({ feature, disab
                     {file.progress?.message && file.status === 'analyzing' && (
                       <p className="text-xs text-stone mt-1 truncate">{file.progress.message}</p>
                     )}
+                    {hasUsage(file.result?.usage) && (
+                      <p className="text-xs text-stone mt-1 truncate">{formatUsageSummary(file.result.usage)}</p>
+                    )}
                   </div>
                   <span
                     className={`inline-flex items-center rounded-full border px-2.5 py-1 text-[11px] font-semibold ${
@@ -107,6 +116,9 @@ export const PointsWorkspace: React.FC<PointsWorkspaceProps> = ({ feature, disab
               </div>
             ))}
           </div>
+          {!isPointsLoading && hasUsage(pointsBatchProgress?.usage) && (
+            <p className="mt-3 text-xs text-stone">Last batch: {formatUsageSummary(pointsBatchProgress.usage)}</p>
+          )}
 
           <div className="mt-5 pt-4 border-t border-line flex gap-3">
             <button
@@ -135,18 +147,21 @@ export const PointsWorkspace: React.FC<PointsWorkspaceProps> = ({ feature, disab
             <p className="text-sm text-stone">
               {completedPointsResults.length} compan{completedPointsResults.length === 1 ? 'y' : 'ies'} ready for Points export.
             </p>
-            <button
-              onClick={() => {
-                void handleCopyAllPoints();
-              }}
-              className={`inline-flex items-center justify-center rounded-z-md border px-4 py-2 text-sm font-semibold transition ${
-                pointsCopyAllStatus === 'copied'
-                  ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
-                  : 'border-brand bg-brand text-white hover:bg-brand/90'
-              }`}
-            >
-              {pointsCopyAllStatus === 'copied' ? 'Copied All' : 'Copy All'}
-            </button>
+            <div className="flex flex-wrap items-center gap-2">
+              <ExportFileButtons onExport={(format) => downloadPointsExport(completedPointsResults, format)} />
+              <button
+                onClick={() => {
+                  void handleCopyAllPoints();
+                }}
+                className={`inline-flex items-center justify-center rounded-z-md border px-4 py-2 text-sm font-semibold transition ${
+                  pointsCopyAllStatus === 'copied'
+                    ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                    : 'border-brand bg-brand text-white hover:bg-brand/90'
+                }`}
+              >
+                {pointsCopyAllStatus === 'copied' ? 'Copied All' : 'Copy All'}
+              </button>
+            </div>
           </div>
         )}
 
@@ -165,6 +180,7 @@ export const PointsWorkspace: React.FC<PointsWorkspaceProps> = ({ feature, disab
                 failed: pointsBatchProgress?.failed ?? 0,
                 total: pointsBatchProgress?.total ?? 0,
                 currentLabel: pointsBatchProgress?.currentLabel,
+                usage: pointsBatchProgress?.usage,
               }}
             />
             <SlideSkeleton />
@@ -185,15 +201,55 @@ export const PointsWorkspace: React.FC<PointsWorkspaceProps> = ({ feature, disab
           .filter((file) => file.result)
           .map((file) => (
             <div key={file.id} className="space-y-5">
-              <header>
-                <h2 className="text-3xl text-ink">{file.result?.companyName}</h2>
-                <p className="text-sm text-stone">
-                  {file.result?.fiscalPeriod} | {file.result?.marketCapCategory} | {file.result?.industry}
-                </p>
+              <header className="flex flex-wrap items-end justify-between gap-3">
+                <div>
+                  <h2 className="text-3xl text-ink">{file.result?.companyName}</h2>
+                  <p className="text-sm text-stone">
+                    {file.result?.fiscalPeriod} | {file.result?.marketCapCategory} | {file.result?.industry}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {file.result?.slides.some(hasSlideMetrics) && (
+                    <button
+                      onClick={() => file.result && downloadPointsMetricsCsv(file.result)}
+                      className="rounded-z-md border border-line px-3 py-1.5 text-xs font-semibold text-stone hover:text-ink"
+                    >
+                      Export figures CSV
+                    </button>
+                  )}
+                  {(['pdf', 'zip'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => void handleDownloadPointsDeck(file.id, format)}
+                      disabled={pointsDeckExport?.status === 'rendering'}
+                      title={
+                        format === 'pdf'
+                          ? 'Download the selected slides with captions as one PDF'
+                          : 'Download the selected slides with captions as PNG images in a ZIP'
+                      }
+                      className="rounded-z-md border border-line px-3 py-1.5 text-xs font-semibold text-stone hover:text-ink disabled:opacity-50"
+                    >
+                      {format === 'pdf' ? 'Deck PDF' : 'Deck ZIP'}
+                    </button>
+                  ))}
+                </div>
               </header>
+              {pointsDeckExport?.fileId === file.id && (
+                <p
+                  className={`text-xs ${pointsDeckExport.status === 'error' ? 'text-red-600' : 'text-stone'}`}
+                  role="status"
+                >
+                  {pointsDeckExport.message}
+                </p>
+              )}
               <div className="space-y-5">
                 {file.result?.slides.map((slide, index) => (
-                  <PointsCard key={`${file.id}-${slide.selectedPageNumber}-${index}`} slide={slide} index={index + 1} />
+                  <PointsCard
+                    key={`${file.id}-${slide.selectedPageNumber}-${index}`}
+                    slide={slide}
+                    index={index + 1}
+                    onExportMetrics={() => file.result && downloadPointsMetricsCsv(file.result, [slide])}
+                  />
                 ))}
               </div>
             </div>
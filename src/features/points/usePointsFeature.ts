@@ -7,8 +7,17 @@ import {
   getPdfPageCount,
   renderPdfPagesHighQuality,
 } from '../../../services/geminiService';
-import type { ModelType, PointsAndFiguresResult, PointsBatchFile, ProviderType, ProgressEvent } from '../../../types';
+import type {
+  ModelType,
+  PointsAndFiguresResult,
+  PointsBatchFile,
+  ProviderType,
+  ProgressEvent,
+  RequestUsage,
+} from '../../../types';
 import { buildPointsClipboardExport } from '../../../utils/pointsCopyExport';
+import { downloadPointsDeck, type PointsDeckFormat, type PointsDeckSlide } from '../../../utils/pointsDeckExport';
+import { mergeRequestUsage, sumUsageTotals } from '../../../utils/usage';
 import type { BatchProgressState, PointsSessionSlice } from '../../shared/state/sessionTypes';
 import {
   POINTS_CHUNK_MAX_RETRIES,
@@ -104,6 +113,7 @@ const mergePointsChunkResults = (results: PointsAndFiguresResult[]): PointsAndFi
     companyDescription: firstNonEmpty(...results.map((result) => result.companyDescription)) || base.companyDescription,
     zerodhaStockUrl: firstNonEmpty(...results.map((result) => result.zerodhaStockUrl)),
     slides: sortedSlides,
+    usage: mergeRequestUsage(results.map((result) => result.usage)),
   };
 };
 
@@ -114,9 +124,17 @@ const getDynamicChunkSize = (fileSizeBytes: number, pageCount: number): number =
   return POINTS_CHUNK_SIZE;
 };
 
+export interface PointsDeckExportState {
+  fileId: string;
+  format: PointsDeckFormat;
+  status: 'rendering' | 'done' | 'error';
+  message: string;
+}
+
 interface UsePointsFeatureParams {
   provider: ProviderType;
   selectedModel: ModelType;
+  onUsage?: (usage: RequestUsage) => void;
 }
 
 export interface PointsFeatureController {
@@ -125,6 +143,7 @@ export interface PointsFeatureController {
   pointsBatchProgress: BatchProgressState | null;
   pointsCopyAllStatus: 'idle' | 'copied' | 'error';
   pointsCopyAllErrorMessage: string;
+  pointsDeckExport: PointsDeckExportState | null;
   pointsFileInputRef: React.RefObject<HTMLInputElement>;
   completedPointsResults: PointsAndFiguresResult[];
   pointsReadyCount: number;
@@ -132,6 +151,7 @@ export interface PointsFeatureController {
   handlePointsFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
   handleAnalyzePointsBatch: () => Promise<void>;
   handleCopyAllPoints: () => Promise<void>;
+  handleDownloadPointsDeck: (fileId: string, format: PointsDeckFormat) => Promise<void>;
   removePointsBatchFile: (id: string) => void;
   retryPointsBatchFile: (id: string) => void;
   clearPoints: () => void;
@@ -139,12 +159,17 @@ export interface PointsFeatureController {
   restoreFromSessionSlice: (slice: PointsSessionSlice) => void;
 }
 
-export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeatureParams): PointsFeatureController => {
+export const usePointsFeature = ({
+  provider,
+  selectedModel,
+  onUsage,
+}: UsePointsFeatureParams): PointsFeatureController => {
   const [pointsBatchFiles, setPointsBatchFiles] = useState<PointsBatchFile[]>([]);
   const [isAnalyzingPointsBatch, setIsAnalyzingPointsBatch] = useState(false);
   const [pointsBatchProgress, setPointsBatchProgress] = useState<BatchProgressState | null>(null);
   const [pointsCopyAllStatus, setPointsCopyAllStatus] = useState<'idle' | 'copied' | 'error'>('idle');
   const [pointsCopyAllErrorMessage, setPointsCopyAllErrorMessage] = useState('');
+  const [pointsDeckExport, setPointsDeckExport] = useState<PointsDeckExportState | null>(null);
 
   const pointsFileInputRef = useRef<HTMLInputElement>(null);
 
@@ -191,6 +216,7 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
     const getCounts = () => ({
       completed: pendingIndexes.filter((index) => nextFiles[index].status === 'complete').length,
       failed: pendingIndexes.filter((index) => nextFiles[index].status === 'error').length,
+      usage: sumUsageTotals(pendingIndexes.map((index) => nextFiles[index].result?.usage)),
     });
 
     setPointsBatchProgress({
@@ -261,13 +287,14 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
             };
             setPointsBatchFiles([...nextFiles]);
 
-            const { completed, failed } = getCounts();
+            const { completed, failed, usage } = getCounts();
             const overallPercent = Math.round(((queueIndex + filePercent / 100) / pendingIndexes.length) * 100);
 
             setPointsBatchProgress({
               total: pendingIndexes.length,
               completed,
               failed,
+              usage,
               currentLabel: nextFiles[fileIndex].name,
               progress: {
                 ...mappedProgress,
@@ -398,12 +425,13 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
           };
           setPointsBatchFiles([...nextFiles]);
 
-          const { completed, failed } = getCounts();
+          const { completed, failed, usage } = getCounts();
           const overallPercent = Math.round(((queueIndex + boundedPercent / 100) / pendingIndexes.length) * 100);
           setPointsBatchProgress({
             total: pendingIndexes.length,
             completed,
             failed,
+            usage,
             currentLabel: nextFiles[fileIndex].name,
             progress: {
               stage: 'finalizing',
@@ -485,6 +513,8 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
               ? 'Analysis complete with recoverable warnings.'
               : 'Analysis complete.';
 
+        if (result.usage) onUsage?.(result.usage);
+
         nextFiles[fileIndex] = {
           ...nextFiles[fileIndex],
           status: 'complete',
@@ -510,13 +540,14 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
       }
 
       setPointsBatchFiles([...nextFiles]);
-      const { completed, failed } = getCounts();
+      const { completed, failed, usage } = getCounts();
       const completedQueueItems = queueIndex + 1;
 
       setPointsBatchProgress({
         total: pendingIndexes.length,
         completed,
         failed,
+        usage,
         currentLabel:
           completedQueueItems < pendingIndexes.length
             ? nextFiles[pendingIndexes[queueIndex + 1]].name
@@ -531,7 +562,7 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
     }
 
     setIsAnalyzingPointsBatch(false);
-  }, [pointsBatchFiles, provider, selectedModel]);
+  }, [onUsage, pointsBatchFiles, provider, selectedModel]);
 
   const handleCopyAllPoints = useCallback(async () => {
     if (completedPointsResults.length === 0) return;
@@ -577,6 +608,67 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
     }
   }, [completedPointsResults]);
 
+  const handleDownloadPointsDeck = useCallback(
+    async (fileId: string, format: PointsDeckFormat) => {
+      const file = pointsBatchFiles.find((item) => item.id === fileId);
+      const result = file?.result;
+      if (!result || result.slides.length === 0) return;
+
+      const setDeckState = (status: PointsDeckExportState['status'], message: string) =>
+        setPointsDeckExport({ fileId, format, status, message });
+      setDeckState('rendering', 'Preparing deck...');
+
+      try {
+        const warnings: string[] = [];
+        let imagesByPage: Record<number, string> = {};
+        if (file.file instanceof File) {
+          try {
+            const render = await renderPdfPagesHighQuality(
+              file.file,
+              result.slides.map((slide) => slide.selectedPageNumber),
+              {
+                scale: 2.0,
+                pngDataUrlMaxChars: 4_800_000,
+                jpegFallbackQuality: 0.92,
+                onProgress: ({ current, total, pageNumber }) =>
+                  setDeckState('rendering', `Rendering slide ${current}/${total} (page ${pageNumber})...`),
+              },
+            );
+            imagesByPage = render.imagesByPage;
+            if (render.failedPages.length > 0) {
+              warnings.push(`Used the stored image for ${render.failedPages.length} slide(s) that failed to render.`);
+            }
+          } catch (error: unknown) {
+            warnings.push(
+              `High-quality render failed (${String((error as { message?: string })?.message || 'unknown error')}); used the stored slide images.`,
+            );
+          }
+        } else {
+          warnings.push('Original PDF is not available in this session; used the stored slide images.');
+        }
+
+        const deckSlides = result.slides
+          .map((slide): PointsDeckSlide => ({
+            slide,
+            imageDataUrl: imagesByPage[slide.selectedPageNumber] || slide.pageAsImage,
+          }))
+          .filter((deckSlide) => Boolean(deckSlide.imageDataUrl));
+        const skipped = result.slides.length - deckSlides.length;
+        if (skipped > 0) {
+          warnings.push(`Skipped ${skipped} slide(s) without an image.`);
+        }
+
+        await downloadPointsDeck(result, deckSlides, format, (current, total) =>
+          setDeckState('rendering', `Laying out page ${current}/${total}...`),
+        );
+        setDeckState('done', [`Deck downloaded with ${deckSlides.length} slide(s).`, ...warnings].join(' '));
+      } catch (error: unknown) {
+        setDeckState('error', (error as { message?: string })?.message || 'Deck export failed.');
+      }
+    },
+    [pointsBatchFiles],
+  );
+
   const removePointsBatchFile = useCallback((id: string) => {
     setPointsBatchFiles((prev) => prev.filter((file) => file.id !== id));
   }, []);
@@ -615,6 +707,7 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
     setPointsBatchProgress(null);
     setPointsCopyAllStatus('idle');
     setPointsCopyAllErrorMessage('');
+    setPointsDeckExport(null);
     if (pointsFileInputRef.current) pointsFileInputRef.current.value = '';
   }, []);
 
@@ -624,6 +717,7 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
     setPointsBatchProgress(null);
     setPointsCopyAllStatus('idle');
     setPointsCopyAllErrorMessage('');
+    setPointsDeckExport(null);
   }, []);
 
   const sessionSlice = useMemo<PointsSessionSlice>(
@@ -642,6 +736,7 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
     pointsBatchProgress,
     pointsCopyAllStatus,
     pointsCopyAllErrorMessage,
+    pointsDeckExport,
     pointsFileInputRef,
     completedPointsResults,
     pointsReadyCount,
@@ -649,6 +744,7 @@ export const usePointsFeature = ({ provider, selectedModel }: UsePointsFeaturePa
     handlePointsFileUpload,
     handleAnalyzePointsBatch,
     handleCopyAllPoints,
+    handleDownloadPointsDeck,
     removePointsBatchFile,
     retryPointsBatchFile,
     clearPoints,
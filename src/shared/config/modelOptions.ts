@@ -1,4 +1,9 @@
-import { ModelType, type AppMode } from '../../../types';
+import { ModelType, ProviderType, type AppMode } from '../../../types';
+import {
+  buildModelCatalog,
+  type ModelCatalog,
+  type ModelCatalogChain,
+} from '../../../functions/_shared/modelRegistry';
 
 export interface ModelOption {
   value: ModelType;
@@ -7,44 +12,72 @@ export interface ModelOption {
 
 export type OpenRouterChatterTier = 'standard' | 'premium';
 
-export const GEMINI_MODEL_OPTIONS: ModelOption[] = [
-  { value: ModelType.FLASH_3, label: 'Gemini 3 Flash (Balanced)' },
-  { value: ModelType.FLASH, label: 'Gemini 2.5 Flash (Fast)' },
-  { value: ModelType.PRO, label: 'Gemini 3 Pro (Deep)' },
-];
+// Used until /api/models responds, and as the source of truth for restoring saved sessions.
+export const BUNDLED_MODEL_CATALOG: ModelCatalog = buildModelCatalog();
 
-export const OPENROUTER_CHATTER_TIER_OPTIONS: Array<{
-  value: OpenRouterChatterTier;
-  label: string;
-}> = [
-  { value: 'standard', label: 'Standard' },
-  { value: 'premium', label: 'Premium' },
-];
+const getCatalogChains = (catalog: ModelCatalog, mode: AppMode, provider: ProviderType): ModelCatalogChain[] =>
+  catalog.tasks[mode]?.[provider]?.chains ?? [];
 
-export const OPENROUTER_CHATTER_STANDARD_MODEL_OPTIONS: ModelOption[] = [
-  { value: ModelType.OPENROUTER_DEEPSEEK_V32, label: 'DeepSeek V3.2 (OpenRouter)' },
-  { value: ModelType.OPENROUTER_MINIMAX_M21, label: 'MiniMax M2.1 (OpenRouter)' },
-];
+const toModelOptions = (chains: ModelCatalogChain[]): ModelOption[] =>
+  chains.flatMap((chain) => chain.models.map((model) => ({ value: model.id as ModelType, label: model.label })));
 
-export const OPENROUTER_CHATTER_PREMIUM_MODEL_OPTIONS: ModelOption[] = [
-  { value: ModelType.OPENROUTER_CLAUDE_SONNET_4, label: 'Claude Sonnet 4 (OpenRouter)' },
-  { value: ModelType.OPENROUTER_GPT_41_MINI, label: 'GPT 4.1 Mini (OpenRouter)' },
-];
+const getBundledChain = (mode: AppMode, provider: ProviderType, chainId: string): ModelCatalogChain =>
+  getCatalogChains(BUNDLED_MODEL_CATALOG, mode, provider).find((chain) => chain.id === chainId) as ModelCatalogChain;
+
+const getBundledDefaultModel = (mode: AppMode, provider: ProviderType): ModelType =>
+  BUNDLED_MODEL_CATALOG.tasks[mode][provider]?.defaultModel as ModelType;
+
+export const getModelOptionsFromCatalog = (
+  catalog: ModelCatalog,
+  mode: AppMode,
+  provider: ProviderType,
+  chainId?: string,
+): ModelOption[] => {
+  const chains = getCatalogChains(catalog, mode, provider);
+  const selectedChain = chainId ? chains.find((chain) => chain.id === chainId) : undefined;
+  return toModelOptions(selectedChain ? [selectedChain] : chains);
+};
+
+export const getOpenRouterChatterTierOptionsFromCatalog = (
+  catalog: ModelCatalog,
+): Array<{ value: OpenRouterChatterTier; label: string }> =>
+  getCatalogChains(catalog, 'chatter', ProviderType.OPENROUTER).map((chain) => ({
+    value: chain.id as OpenRouterChatterTier,
+    label: chain.label,
+  }));
+
+export const GEMINI_MODEL_OPTIONS: ModelOption[] = getModelOptionsFromCatalog(
+  BUNDLED_MODEL_CATALOG,
+  'chatter',
+  ProviderType.GEMINI,
+);
+
+export const OPENROUTER_CHATTER_TIER_OPTIONS = getOpenRouterChatterTierOptionsFromCatalog(BUNDLED_MODEL_CATALOG);
+
+export const OPENROUTER_CHATTER_STANDARD_MODEL_OPTIONS: ModelOption[] = toModelOptions([
+  getBundledChain('chatter', ProviderType.OPENROUTER, 'standard'),
+]);
+
+export const OPENROUTER_CHATTER_PREMIUM_MODEL_OPTIONS: ModelOption[] = toModelOptions([
+  getBundledChain('chatter', ProviderType.OPENROUTER, 'premium'),
+]);
 
 export const OPENROUTER_CHATTER_MODEL_OPTIONS: ModelOption[] = [
   ...OPENROUTER_CHATTER_STANDARD_MODEL_OPTIONS,
   ...OPENROUTER_CHATTER_PREMIUM_MODEL_OPTIONS,
 ];
 
-export const OPENROUTER_POINTS_MODEL_OPTIONS: ModelOption[] = [
-  { value: ModelType.OPENROUTER_QWEN25_VL_32B, label: 'Qwen2.5 VL 32B (OpenRouter)' },
-  { value: ModelType.OPENROUTER_MINIMAX, label: 'MiniMax-01 (OpenRouter)' },
-];
+export const OPENROUTER_POINTS_MODEL_OPTIONS: ModelOption[] = getModelOptionsFromCatalog(
+  BUNDLED_MODEL_CATALOG,
+  'points',
+  ProviderType.OPENROUTER,
+);
 
-export const OPENROUTER_PLOTLINE_MODEL_OPTIONS: ModelOption[] = [
-  { value: ModelType.OPENROUTER_MINIMAX_M25, label: 'MiniMax M2.5 (OpenRouter)' },
-  { value: ModelType.OPENROUTER_MISTRAL_LARGE_2512, label: 'Mistral Large 2512 (OpenRouter)' },
-];
+export const OPENROUTER_PLOTLINE_MODEL_OPTIONS: ModelOption[] = getModelOptionsFromCatalog(
+  BUNDLED_MODEL_CATALOG,
+  'plotline',
+  ProviderType.OPENROUTER,
+);
 
 export const OPENROUTER_CHATTER_MODEL_VALUES = new Set<ModelType>(
   OPENROUTER_CHATTER_MODEL_OPTIONS.map((option) => option.value),
@@ -64,17 +97,33 @@ export const OPENROUTER_PLOTLINE_MODEL_VALUES = new Set<ModelType>(
   OPENROUTER_PLOTLINE_MODEL_OPTIONS.map((option) => option.value),
 );
 
-export const OPENROUTER_CHATTER_DEFAULT_TIER: OpenRouterChatterTier = 'standard';
-export const OPENROUTER_CHATTER_STANDARD_DEFAULT_MODEL = ModelType.OPENROUTER_DEEPSEEK_V32;
-export const OPENROUTER_CHATTER_PREMIUM_DEFAULT_MODEL = ModelType.OPENROUTER_CLAUDE_SONNET_4;
-export const OPENROUTER_CHATTER_DEFAULT_MODEL = OPENROUTER_CHATTER_STANDARD_DEFAULT_MODEL;
-export const OPENROUTER_POINTS_DEFAULT_MODEL = ModelType.OPENROUTER_QWEN25_VL_32B;
-export const OPENROUTER_PLOTLINE_DEFAULT_MODEL = ModelType.OPENROUTER_MINIMAX_M25;
+export const OPENROUTER_CHATTER_DEFAULT_TIER = BUNDLED_MODEL_CATALOG.tasks.chatter.openrouter
+  ?.defaultChain as OpenRouterChatterTier;
+export const OPENROUTER_CHATTER_STANDARD_DEFAULT_MODEL = getBundledChain('chatter', ProviderType.OPENROUTER, 'standard')
+  .defaultModel as ModelType;
+export const OPENROUTER_CHATTER_PREMIUM_DEFAULT_MODEL = getBundledChain('chatter', ProviderType.OPENROUTER, 'premium')
+  .defaultModel as ModelType;
+export const OPENROUTER_CHATTER_DEFAULT_MODEL = getBundledDefaultModel('chatter', ProviderType.OPENROUTER);
+export const OPENROUTER_POINTS_DEFAULT_MODEL = getBundledDefaultModel('points', ProviderType.OPENROUTER);
+export const OPENROUTER_PLOTLINE_DEFAULT_MODEL = getBundledDefaultModel('plotline', ProviderType.OPENROUTER);
+
+// Direct Anthropic models enforce the response schema via tool use; each mode keeps its own pick.
+export const getAnthropicModelOptions = (mode: AppMode): ModelOption[] =>
+  getModelOptionsFromCatalog(BUNDLED_MODEL_CATALOG, mode, ProviderType.ANTHROPIC);
+
+export const ANTHROPIC_CHATTER_MODEL_VALUES = new Set<ModelType>(
+  getAnthropicModelOptions('chatter').map((option) => option.value),
+);
+export const ANTHROPIC_POINTS_MODEL_VALUES = new Set<ModelType>(
+  getAnthropicModelOptions('points').map((option) => option.value),
+);
+export const ANTHROPIC_PLOTLINE_MODEL_VALUES = new Set<ModelType>(
+  getAnthropicModelOptions('plotline').map((option) => option.value),
+);
 
-const OPENROUTER_OPTIONS_BY_MODE: Record<Exclude<AppMode, 'chatter'>, ModelOption[]> = {
-  points: OPENROUTER_POINTS_MODEL_OPTIONS,
-  plotline: OPENROUTER_PLOTLINE_MODEL_OPTIONS,
-};
+export const ANTHROPIC_CHATTER_DEFAULT_MODEL = getBundledDefaultModel('chatter', ProviderType.ANTHROPIC);
+export const ANTHROPIC_POINTS_DEFAULT_MODEL = getBundledDefaultModel('points', ProviderType.ANTHROPIC);
+export const ANTHROPIC_PLOTLINE_DEFAULT_MODEL = getBundledDefaultModel('plotline', ProviderType.ANTHROPIC);
 
 export const isOpenRouterChatterModelInTier = (
   model: ModelType,
@@ -94,11 +143,15 @@ export const inferOpenRouterChatterTierForModel = (model: ModelType): OpenRouter
 export const getOpenRouterModelOptions = (
   mode: AppMode,
   chatterTier: OpenRouterChatterTier = OPENROUTER_CHATTER_DEFAULT_TIER,
-): ModelOption[] => {
-  if (mode === 'chatter') {
-    return chatterTier === 'premium'
-      ? OPENROUTER_CHATTER_PREMIUM_MODEL_OPTIONS
-      : OPENROUTER_CHATTER_STANDARD_MODEL_OPTIONS;
-  }
-  return OPENROUTER_OPTIONS_BY_MODE[mode];
+): ModelOption[] =>
+  getModelOptionsFromCatalog(
+    BUNDLED_MODEL_CATALOG,
+    mode,
+    ProviderType.OPENROUTER,
+    mode === 'chatter' ? chatterTier : undefined,
+  );
+
+export const isModelCatalog = (value: unknown): value is ModelCatalog => {
+  const record = value as ModelCatalog | null;
+  return Boolean(record && Array.isArray(record.providers) && record.tasks && typeof record.tasks === 'object');
 };
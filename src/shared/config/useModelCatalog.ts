@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import type { ModelCatalog } from '../../../functions/_shared/modelRegistry';
+import { BUNDLED_MODEL_CATALOG, isModelCatalog } from './modelOptions';
+
+const MODELS_ENDPOINT = '/api/models';
+
+// Starts from the bundled registry so the picker renders immediately, then switches to what
+// the deployed server reports (which also says which providers have keys configured).
+export const useModelCatalog = (): ModelCatalog => {
+  const [catalog, setCatalog] = useState<ModelCatalog>(BUNDLED_MODEL_CATALOG);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCatalog = async () => {
+      try {
+        const response = await fetch(MODELS_ENDPOINT);
+        if (!response.ok) return;
+        const payload: unknown = await response.json();
+        if (!cancelled && isModelCatalog(payload)) {
+          setCatalog(payload);
+        }
+      } catch {
+        // Keep the bundled catalog when the Functions runtime is unavailable (e.g. plain `vite dev`).
+      }
+    };
+
+    void loadCatalog();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return catalog;
+};
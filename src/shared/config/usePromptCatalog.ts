@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import type { PromptCatalog } from '../../../functions/_shared/promptRegistry';
+
+const PROMPTS_ENDPOINT = '/api/prompts';
+
+const isPromptCatalog = (value: unknown): value is PromptCatalog => {
+  if (!value || typeof value !== 'object') return false;
+  const chatter = (value as Record<string, any>).chatter;
+  return Boolean(chatter) && typeof chatter.defaultVersion === 'string' && Array.isArray(chatter.versions);
+};
+
+// Unlike the model catalog there is no bundled fallback: prompt text only lives server-side, so
+// without the Functions runtime there is nothing to experiment with and callers render a notice.
+export const usePromptCatalog = (): PromptCatalog | null => {
+  const [catalog, setCatalog] = useState<PromptCatalog | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCatalog = async () => {
+      try {
+        const response = await fetch(PROMPTS_ENDPOINT);
+        if (!response.ok) return;
+        const payload: unknown = await response.json();
+        const prompts = payload && typeof payload === 'object' ? (payload as { prompts?: unknown }).prompts : null;
+        if (!cancelled && isPromptCatalog(prompts)) {
+          setCatalog(prompts);
+        }
+      } catch {
+        // Leave the catalog empty when the Functions runtime is unavailable.
+      }
+    };
+
+    void loadCatalog();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return catalog;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ModelType, ProviderType } from '../../../types';
+import { buildSessionBundle, buildSessionBundleFileName, parseSessionBundle } from './sessionBundle';
+import { migratePersistedSessionSnapshot } from './sessionMigration';
+import type { PersistedAppSessionV2 } from './sessionTypes';
+
+const makeSession = (): PersistedAppSessionV2 => {
+  const session = migratePersistedSessionSnapshot({
+    schemaVersion: 2,
+    savedAt: 1,
+    appMode: 'points',
+    provider: ProviderType.GEMINI,
+    models: { geminiModel: ModelType.FLASH },
+  })!;
+
+  return {
+    ...session,
+    chatter: {
+      ...session.chatter,
+      batchFiles: [
+        { id: 'c1', name: 'hdfc.pdf', content: 'transcript text', status: 'analyzing' },
+      ],
+    },
+    points: {
+      batchFiles: [
+        { id: 'p1', name: 'deck.pdf', status: 'ready' },
+        {
+          id: 'p2',
+          name: 'done.pdf',
+          status: 'complete',
+          result: {
+            companyName: 'TCS',
+            fiscalPeriod: 'Q3 FY26',
+            nseScrip: 'TCS',
+            marketCapCategory: 'Large Cap',
+            industry: 'IT Services',
+            companyDescription: 'IT services.',
+            slides: [{ selectedPageNumber: 4, context: 'Margins', pageAsImage: 'data:image/png;base64,AAAA' }],
+          },
+        },
+      ],
+    },
+  };
+};
+
+describe('sessionBundle', () => {
+  it('round-trips a session and reports what could not be restored', () => {
+    const threadComposer = { schemaVersion: 1, substackUrl: '', source: null, selectedQuoteIds: [], tweets: [] };
+    const bundle = buildSessionBundle(makeSession(), 'Q3 edition', threadComposer, Date.UTC(2026, 0, 15));
+    const serialized = JSON.parse(JSON.stringify(bundle));
+
+    expect(serialized.session.points.batchFiles[1].result.slides[0].pageAsImage).toBeUndefined();
+
+    const imported = parseSessionBundle(serialized);
+    if ('error' in imported) throw new Error(imported.error);
+
+    expect(imported.workspaceName).toBe('Q3 edition');
+    expect(imported.session.appMode).toBe('points');
+    expect(imported.session.models.geminiModel).toBe(ModelType.FLASH);
+    expect(imported.session.chatter.batchFiles[0].status).toBe('ready');
+    expect(imported.session.points.batchFiles[0].status).toBe('error');
+    expect(imported.threadComposer).toEqual(threadComposer);
+    expect(imported.warnings).toHaveLength(3);
+    expect(imported.warnings[0]).toContain('deck.pdf');
+  });
+
+  it('rejects files that are not bundles or come from a newer version', () => {
+    expect(parseSessionBundle({ schemaVersion: 2 })).toEqual({ ok: false, error: 'This file is not a Chatter session bundle.' });
+    expect(parseSessionBundle({ format: 'chatter-session-bundle', version: 99, session: {} }).ok).toBe(false);
+  });
+
+  it('builds a slugged file name', () => {
+    expect(buildSessionBundleFileName('Q3 FY26 / Banks', Date.UTC(2026, 0, 15))).toBe('q3-fy26-banks-2026-01-15.chatter.json');
+  });
+});
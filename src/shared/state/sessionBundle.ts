@@ -0,0 +1,133 @@
+import { downloadBlob, toFileSlug } from '../../../utils/fileDownload';
+import { migratePersistedSessionSnapshot } from './sessionMigration';
+import { buildPersistableSession, POINTS_REUPLOAD_REQUIRED_MESSAGE } from './sessionPersistence';
+import type { PersistedAppSessionV2 } from './sessionTypes';
+
+export const SESSION_BUNDLE_FORMAT = 'chatter-session-bundle';
+export const SESSION_BUNDLE_VERSION = 1;
+export const SESSION_BUNDLE_EXTENSION = '.chatter.json';
+
+export interface SessionBundleV1 {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: 1;
+  exportedAt: number;
+  workspaceName: string;
+  session: PersistedAppSessionV2;
+  threadComposer: unknown | null;
+}
+
+export type SessionBundleImportResult =
+  | {
+      ok: true;
+      workspaceName: string;
+      session: PersistedAppSessionV2;
+      threadComposer: unknown | null;
+      warnings: string[];
+    }
+  | { ok: false; error: string };
+
+const asRecord = (value: unknown): Record<string, unknown> | null => {
+  if (!value || typeof value !== 'object') return null;
+  return value as Record<string, unknown>;
+};
+
+export const buildSessionBundle = (
+  session: PersistedAppSessionV2,
+  workspaceName: string,
+  threadComposer: unknown | null,
+  exportedAt = Date.now(),
+): SessionBundleV1 => {
+  const persistable = buildPersistableSession({ ...session, savedAt: exportedAt });
+
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt,
+    workspaceName,
+    session: {
+      ...persistable,
+      points: {
+        ...persistable.points,
+        // File handles cannot travel between browsers.
+        batchFiles: persistable.points.batchFiles.map(({ file: _file, ...rest }) => rest),
+      },
+    },
+    threadComposer: asRecord(threadComposer)?.schemaVersion === 1 ? threadComposer : null,
+  };
+};
+
+const pluralize = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const collectImportWarnings = (session: PersistedAppSessionV2, rawThreadComposer: unknown): string[] => {
+  const warnings: string[] = [];
+
+  const reuploadFiles = session.points.batchFiles.filter(
+    (file) => file.status === 'error' && file.error === POINTS_REUPLOAD_REQUIRED_MESSAGE,
+  );
+  if (reuploadFiles.length > 0) {
+    warnings.push(
+      `${pluralize(reuploadFiles.length, 'Points PDF')} must be re-uploaded before analysis: ${reuploadFiles
+        .map((file) => file.name)
+        .join(', ')}.`,
+    );
+  }
+
+  const pointsResultsWithSlides = session.points.batchFiles.filter((file) => (file.result?.slides.length ?? 0) > 0);
+  if (pointsResultsWithSlides.length > 0) {
+    warnings.push(
+      `Slide images are not included in bundles. ${pluralize(pointsResultsWithSlides.length, 'Points result')} will show context without page renders until re-analyzed.`,
+    );
+  }
+
+  const interruptedFiles = [...session.chatter.batchFiles, ...session.plotline.batchFiles].filter(
+    (file) => file.status === 'ready' && file.error?.startsWith('Interrupted'),
+  );
+  if (interruptedFiles.length > 0) {
+    warnings.push(`${pluralize(interruptedFiles.length, 'transcript')} were mid-analysis when exported and are queued to run again.`);
+  }
+
+  if (rawThreadComposer !== null && rawThreadComposer !== undefined && asRecord(rawThreadComposer)?.schemaVersion !== 1) {
+    warnings.push('Tweet Generator state in this bundle uses an unknown format and was skipped.');
+  }
+
+  return warnings;
+};
+
+export const parseSessionBundle = (raw: unknown): SessionBundleImportResult => {
+  const record = asRecord(raw);
+  if (!record || record.format !== SESSION_BUNDLE_FORMAT) {
+    return { ok: false, error: 'This file is not a Chatter session bundle.' };
+  }
+
+  const version = Number(record.version);
+  if (!Number.isFinite(version) || version > SESSION_BUNDLE_VERSION) {
+    return { ok: false, error: 'This bundle was exported by a newer version of the app. Update and try again.' };
+  }
+
+  const session = migratePersistedSessionSnapshot(record.session);
+  if (!session) {
+    return { ok: false, error: 'The session inside this bundle could not be restored.' };
+  }
+
+  const threadComposer = asRecord(record.threadComposer)?.schemaVersion === 1 ? record.threadComposer : null;
+  const workspaceName =
+    typeof record.workspaceName === 'string' && record.workspaceName.trim() ? record.workspaceName.trim() : 'Imported workspace';
+
+  return {
+    ok: true,
+    workspaceName,
+    session,
+    threadComposer,
+    warnings: collectImportWarnings(session, record.threadComposer ?? null),
+  };
+};
+
+export const buildSessionBundleFileName = (workspaceName: string, exportedAt: number): string => {
+  const date = new Date(exportedAt).toISOString().slice(0, 10);
+  return `${toFileSlug(workspaceName, 'workspace')}-${date}${SESSION_BUNDLE_EXTENSION}`;
+};
+
+export const downloadSessionBundle = (bundle: SessionBundleV1): void => {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, buildSessionBundleFileName(bundle.workspaceName, bundle.exportedAt));
+};
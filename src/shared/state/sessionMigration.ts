@@ -5,9 +5,17 @@ import {
   type ChatterAnalysisState,
   type PlotlineBatchFile,
   type PlotlineCompanyGroup,
+  type PlotlineStoryResult,
   type PointsBatchFile,
+  type UsageTotals,
 } from '../../../types';
 import {
+  ANTHROPIC_CHATTER_DEFAULT_MODEL,
+  ANTHROPIC_CHATTER_MODEL_VALUES,
+  ANTHROPIC_PLOTLINE_DEFAULT_MODEL,
+  ANTHROPIC_PLOTLINE_MODEL_VALUES,
+  ANTHROPIC_POINTS_DEFAULT_MODEL,
+  ANTHROPIC_POINTS_MODEL_VALUES,
   getDefaultOpenRouterChatterModelForTier,
   inferOpenRouterChatterTierForModel,
   isOpenRouterChatterModelInTier,
@@ -19,6 +27,7 @@ import {
   OPENROUTER_POINTS_MODEL_VALUES,
   type OpenRouterChatterTier,
 } from '../config/modelOptions';
+import { POINTS_REUPLOAD_REQUIRED_MESSAGE } from './sessionPersistence';
 import type { ChatterSessionSlice, PersistedAppSessionV2, PlotlineSessionSlice, PointsSessionSlice } from './sessionTypes';
 
 export const CURRENT_SESSION_SCHEMA_VERSION = 2;
@@ -48,7 +57,6 @@ interface LegacyPersistedAppSessionV1 {
 const MODEL_TYPE_VALUES = new Set<string>(Object.values(ModelType) as string[]);
 const PROVIDER_TYPE_VALUES = new Set<string>(Object.values(ProviderType) as string[]);
 const APP_MODE_VALUES = new Set<string>(['chatter', 'points', 'plotline']);
-const POINTS_REUPLOAD_REQUIRED_MESSAGE = 'Original PDF cannot be restored automatically. Re-upload to analyze.';
 
 const asRecord = (value: unknown): Record<string, unknown> | null => {
   if (!value || typeof value !== 'object') return null;
@@ -60,6 +68,22 @@ const resolveSavedAt = (value: unknown): number => {
   return Number.isFinite(parsed) ? parsed : Date.now();
 };
 
+const resolveTokenCount = (value: unknown): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const resolveUsageTotals = (value: unknown): UsageTotals | undefined => {
+  const record = asRecord(value);
+  if (!record) return undefined;
+  return {
+    inputTokens: resolveTokenCount(record.inputTokens),
+    outputTokens: resolveTokenCount(record.outputTokens),
+    costUsd: resolveTokenCount(record.costUsd),
+    unpricedTokens: resolveTokenCount(record.unpricedTokens),
+  };
+};
+
 const normalizeRecoveredChatterFile = (file: BatchFile): BatchFile => {
   if (file.status === 'parsing' || file.status === 'analyzing') {
     if (file.content.trim()) {
@@ -160,7 +184,7 @@ const resolveProvider = (value: unknown): ProviderType =>
 const resolveModel = (value: unknown, fallback: ModelType): ModelType =>
   typeof value === 'string' && MODEL_TYPE_VALUES.has(value) ? (value as ModelType) : fallback;
 
-const resolveScopedOpenRouterModel = (
+const resolveScopedModel = (
   value: unknown,
   fallback: ModelType,
   allowedModels: Set<ModelType>,
@@ -171,6 +195,9 @@ const resolveScopedOpenRouterModel = (
   return allowedModels.has(parsed) ? parsed : fallback;
 };
 
+const resolveOpenAiCompatibleModel = (value: unknown): ModelType | undefined =>
+  typeof value === 'string' && value.trim() ? (value.trim() as ModelType) : undefined;
+
 const resolveOpenRouterChatterTier = (
   value: unknown,
   chatterModel: ModelType,
@@ -231,11 +258,14 @@ const normalizePlotlineSlice = (candidate: Record<string, unknown>): PlotlineSes
   const batchFiles = toArray<PlotlineBatchFile>(candidate.batchFiles).map(normalizeRecoveredPlotlineFile);
   const thesis = typeof candidate.thesis === 'string' ? candidate.thesis : '';
   const companyGroups = toArray<PlotlineCompanyGroup>(candidate.companyGroups);
+  const storyRecord = asRecord(candidate.story);
+  const story = storyRecord && Array.isArray(storyRecord.sections) ? (storyRecord as unknown as PlotlineStoryResult) : null;
 
   return {
     batchFiles,
     thesis,
     companyGroups,
+    story,
   };
 };
 
@@ -244,7 +274,7 @@ const normalizeV2Session = (candidate: Record<string, unknown>): PersistedAppSes
   const chatter = asRecord(candidate.chatter) || {};
   const points = asRecord(candidate.points) || {};
   const plotline = asRecord(candidate.plotline) || {};
-  const parsedOpenRouterChatterModel = resolveScopedOpenRouterModel(
+  const parsedOpenRouterChatterModel = resolveScopedModel(
     models.openRouterModel,
     OPENROUTER_CHATTER_DEFAULT_MODEL,
     OPENROUTER_CHATTER_MODEL_VALUES,
@@ -267,21 +297,38 @@ const normalizeV2Session = (candidate: Record<string, unknown>): PersistedAppSes
       openRouterChatterTier,
       openRouterModel: openRouterChatterModel,
       geminiPointsModel: resolveModel(models.geminiPointsModel, ModelType.FLASH_3),
-      openRouterPointsModel: resolveScopedOpenRouterModel(
+      openRouterPointsModel: resolveScopedModel(
         models.openRouterPointsModel,
         OPENROUTER_POINTS_DEFAULT_MODEL,
         OPENROUTER_POINTS_MODEL_VALUES,
       ),
       geminiPlotlineModel: resolveModel(models.geminiPlotlineModel, ModelType.FLASH_3),
-      openRouterPlotlineModel: resolveScopedOpenRouterModel(
+      openRouterPlotlineModel: resolveScopedModel(
         models.openRouterPlotlineModel,
         OPENROUTER_PLOTLINE_DEFAULT_MODEL,
         OPENROUTER_PLOTLINE_MODEL_VALUES,
       ),
+      anthropicModel: resolveScopedModel(
+        models.anthropicModel,
+        ANTHROPIC_CHATTER_DEFAULT_MODEL,
+        ANTHROPIC_CHATTER_MODEL_VALUES,
+      ),
+      anthropicPointsModel: resolveScopedModel(
+        models.anthropicPointsModel,
+        ANTHROPIC_POINTS_DEFAULT_MODEL,
+        ANTHROPIC_POINTS_MODEL_VALUES,
+      ),
+      anthropicPlotlineModel: resolveScopedModel(
+        models.anthropicPlotlineModel,
+        ANTHROPIC_PLOTLINE_DEFAULT_MODEL,
+        ANTHROPIC_PLOTLINE_MODEL_VALUES,
+      ),
+      openAiCompatibleModel: resolveOpenAiCompatibleModel(models.openAiCompatibleModel),
     },
     chatter: normalizeChatterSlice(chatter),
     points: normalizePointsSlice(points),
     plotline: normalizePlotlineSlice(plotline),
+    usage: resolveUsageTotals(candidate.usage),
   };
 };
 
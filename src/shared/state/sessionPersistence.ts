@@ -11,7 +11,8 @@ import type { PersistedAppSessionV2 } from './sessionTypes';
 
 const MAX_CHATTER_CONTENT_CHARS = 700_000;
 const MAX_PLOTLINE_CONTENT_CHARS = 800_000;
-const POINTS_REUPLOAD_REQUIRED_MESSAGE = 'Original PDF cannot be restored automatically. Re-upload to analyze.';
+// Restored Points files carry this as their error; the session bundle matches on it to list files to re-upload.
+export const POINTS_REUPLOAD_REQUIRED_MESSAGE = 'Original PDF cannot be restored automatically. Re-upload to analyze.';
 
 const clampText = (value: string, maxChars: number): string => {
   if (!value) return '';
@@ -69,6 +70,7 @@ const sanitizePointsSlideForPersistence = (slide: SelectedSlide): SelectedSlide
   selectedPageNumber: slide.selectedPageNumber,
   context: slide.context,
   pageAsImage: undefined,
+  metrics: slide.metrics,
 });
 
 const sanitizePointsResultForPersistence = (result: PointsAndFiguresResult): PointsAndFiguresResult => ({
@@ -146,5 +148,6 @@ export const buildPersistableSession = (snapshot: PersistedAppSessionV2): Persis
     batchFiles: snapshot.plotline.batchFiles.map((file) => sanitizePlotlineBatchFile(file)),
     thesis: snapshot.plotline.thesis || '',
     companyGroups: snapshot.plotline.companyGroups || [],
+    story: snapshot.plotline.story ?? null,
   },
 });
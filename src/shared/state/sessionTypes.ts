@@ -6,8 +6,10 @@ import type {
   PointsBatchFile,
   PlotlineBatchFile,
   PlotlineCompanyGroup,
+  PlotlineStoryResult,
   ProviderType,
   ProgressEvent,
+  UsageTotals,
 } from '../../../types';
 import type { OpenRouterChatterTier } from '../config/modelOptions';
 
@@ -17,6 +19,8 @@ export interface BatchProgressState {
   failed: number;
   currentLabel?: string;
   progress?: ProgressEvent;
+  // Tokens and estimated cost for the files finished so far in this batch.
+  usage?: UsageTotals;
 }
 
 export interface SessionModelState {
@@ -27,6 +31,11 @@ export interface SessionModelState {
   openRouterPointsModel: ModelType;
   geminiPlotlineModel: ModelType;
   openRouterPlotlineModel: ModelType;
+  anthropicModel: ModelType;
+  anthropicPointsModel: ModelType;
+  anthropicPlotlineModel: ModelType;
+  // Self-hosted model ids come from server env, so they are kept as saved rather than checked against ModelType.
+  openAiCompatibleModel?: ModelType;
 }
 
 export interface ChatterSessionSlice {
@@ -44,6 +53,7 @@ export interface PlotlineSessionSlice {
   batchFiles: PlotlineBatchFile[];
   thesis: string;
   companyGroups: PlotlineCompanyGroup[];
+  story?: PlotlineStoryResult | null;
 }
 
 export interface PersistedAppSessionV2 {
@@ -55,4 +65,6 @@ export interface PersistedAppSessionV2 {
   chatter: ChatterSessionSlice;
   points: PointsSessionSlice;
   plotline: PlotlineSessionSlice;
+  // Running total for every model call made while this session was open.
+  usage?: UsageTotals;
 }
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { ExportFileFormat } from '../../../utils/fileDownload';
+
+interface ExportFileButtonsProps {
+  onExport: (format: ExportFileFormat) => void;
+  disabled?: boolean;
+}
+
+const formats: Array<{ format: ExportFileFormat; label: string; title: string }> = [
+  { format: 'md', label: '.md', title: 'Download Markdown' },
+  { format: 'docx', label: '.docx', title: 'Download a Word document (opens in Google Docs)' },
+  { format: 'html', label: '.html', title: 'Download a standalone HTML page' },
+];
+
+export const ExportFileButtons: React.FC<ExportFileButtonsProps> = ({ onExport, disabled = false }) => (
+  <div className="inline-flex rounded-z-md border border-line bg-white" role="group" aria-label="Download export">
+    {formats.map((item, index) => (
+      <button
+        key={item.format}
+        onClick={() => onExport(item.format)}
+        disabled={disabled}
+        title={item.title}
+        className={`px-3 py-2 text-sm font-semibold text-stone hover:text-ink disabled:opacity-50 ${
+          index > 0 ? 'border-l border-line' : ''
+        }`}
+      >
+        {item.label}
+      </button>
+    ))}
+  </div>
+);
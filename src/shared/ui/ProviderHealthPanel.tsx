@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { checkProviderHealth } from '../../../services/geminiService';
+import type { ModelProbeResult, ProviderHealthReport, ProviderHealthState, ProviderType, TaskProbeResult } from '../../../types';
+
+interface ProviderHealthPanelProps {
+  provider: ProviderType;
+  model: string;
+  disabled: boolean;
+}
+
+type CheckStatus = 'idle' | 'checking' | 'error';
+
+const stateLabels: Record<ProviderHealthState | 'skipped', string> = {
+  ok: 'OK',
+  missing_key: 'No key',
+  invalid_key: 'Invalid key',
+  rate_limited: 'Rate limited',
+  overloaded: 'Overloaded',
+  timeout: 'Timeout',
+  location_unsupported: 'Location blocked',
+  invalid_output: 'Bad output',
+  upstream_error: 'Error',
+  skipped: 'n/a',
+};
+
+const stateTone = (state: ProviderHealthState | 'skipped'): string => {
+  if (state === 'ok') return 'border-emerald-200 bg-emerald-50 text-emerald-700';
+  if (state === 'skipped' || state === 'missing_key') return 'border-line bg-canvas text-stone';
+  if (state === 'rate_limited' || state === 'overloaded' || state === 'timeout' || state === 'location_unsupported') {
+    return 'border-amber-200 bg-amber-50 text-amber-700';
+  }
+  return 'border-rose-200 bg-rose-50 text-rose-700';
+};
+
+const taskLabels: Record<TaskProbeResult['task'], string> = {
+  chatter: 'Chatter JSON',
+  points: 'Points vision',
+  thread: 'Thread draft',
+};
+
+// The pill answers "will my pick work?": the deep result when there is one, else the chosen model's ping.
+const resolveHeadlineState = (report: ProviderHealthReport, model: string): ProviderHealthState => {
+  if (report.deep) return report.deep.overallState;
+  const probe = [...report.models, ...report.openRouterModels].find((entry) => entry.model === model);
+  return probe?.state ?? report.overallState;
+};
+
+const StatePill: React.FC<{ state: ProviderHealthState | 'skipped' }> = ({ state }) => (
+  <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[11px] font-semibold ${stateTone(state)}`}>
+    {stateLabels[state]}
+  </span>
+);
+
+const ModelRows: React.FC<{ title: string; results: ModelProbeResult[] }> = ({ title, results }) =>
+  results.length === 0 ? null : (
+    <div>
+      <p className="px-1 text-[11px] font-semibold text-stone">{title}</p>
+      <ul className="mt-1 space-y-1">
+        {results.map((result) => (
+          <li
+            key={`${result.provider}-${result.model}`}
+            className="flex items-center justify-between gap-2 rounded-z-sm px-1 text-xs"
+            title={result.message}
+          >
+            <span className="truncate text-ink">{result.model}</span>
+            <span className="flex shrink-0 items-center gap-1">
+              {result.circuitState !== 'closed' && (
+                <span className="text-[11px] text-amber-700">
+                  {result.circuitState === 'open' ? 'circuit open' : 'recovering'}
+                </span>
+              )}
+              <StatePill state={result.state} />
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+export const ProviderHealthPanel: React.FC<ProviderHealthPanelProps> = ({ provider, model, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<CheckStatus>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [report, setReport] = useState<ProviderHealthReport | null>(null);
+
+  const runCheck = async (deep: boolean) => {
+    setStatus('checking');
+    setErrorMessage('');
+    try {
+      setReport(await checkProviderHealth({ deep, provider, modelId: model }));
+      setStatus('idle');
+    } catch (error: any) {
+      setErrorMessage(error?.message || 'Health check failed.');
+      setStatus('error');
+    }
+  };
+
+  const headlineState = report ? resolveHeadlineState(report, model) : null;
+  const openCircuits = report?.circuits.filter((circuit) => circuit.state === 'open') ?? [];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        disabled={disabled}
+        className="ghost-btn px-3 py-1.5 text-sm font-semibold inline-flex items-center gap-2 disabled:opacity-50"
+        title="Check whether the configured models respond"
+      >
+        Status
+        {status === 'checking' ? (
+          <span className="text-[11px] text-stone">checking...</span>
+        ) : headlineState ? (
+          <StatePill state={headlineState} />
+        ) : null}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 rounded-z-md border border-line bg-white shadow-panel p-3 z-30 space-y-3">
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                void runCheck(false);
+              }}
+              disabled={status === 'checking'}
+              className="flex-1 rounded-z-sm border border-line px-3 py-1.5 text-xs font-semibold text-ink hover:bg-canvas disabled:opacity-50"
+              title="Ping every Gemini model and the selected OpenRouter model"
+            >
+              Quick check
+            </button>
+            <button
+              onClick={() => {
+                void runCheck(true);
+              }}
+              disabled={status === 'checking'}
+              className="flex-1 rounded-z-sm border border-brand bg-brand px-3 py-1.5 text-xs font-semibold text-white hover:bg-brand/90 disabled:opacity-50"
+              title="Run a tiny chatter, points and thread call on the selected model"
+            >
+              Deep check
+            </button>
+          </div>
+          <p className="text-[11px] text-stone truncate">
+            Selected: {provider} / {model || 'default'}
+          </p>
+
+          {status === 'error' && <p className="text-xs text-rose-700 break-words">{errorMessage}</p>}
+          {!report && status !== 'error' && (
+            <p className="text-xs text-stone">Run a check before queuing a large batch.</p>
+          )}
+
+          {report && (
+            <div className="max-h-[360px] overflow-y-auto thin-scrollbar space-y-3">
+              {report.deep && (
+                <div>
+                  <p className="px-1 text-[11px] font-semibold text-stone">Deep check ({report.deep.provider})</p>
+                  <ul className="mt-1 space-y-1">
+                    {report.deep.tasks.map((task) => (
+                      <li
+                        key={task.task}
+                        className="flex items-center justify-between gap-2 px-1 text-xs"
+                        title={task.message}
+                      >
+                        <span className="truncate text-ink">
+                          {taskLabels[task.task]}
+                          {task.model && <span className="text-stone"> · {task.model}</span>}
+                        </span>
+                        <span className="flex shrink-0 items-center gap-1">
+                          {typeof task.latencyMs === 'number' && (
+                            <span className="text-[11px] text-stone tabular-nums">
+                              {(task.latencyMs / 1000).toFixed(1)}s
+                            </span>
+                          )}
+                          <StatePill state={task.state} />
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {report.message && <p className="px-1 text-xs text-stone">{report.message}</p>}
+              <ModelRows title={`Gemini (${report.providerPreference})`} results={report.models} />
+              {report.openRouterConfigured ? (
+                <ModelRows title="OpenRouter" results={report.openRouterModels} />
+              ) : (
+                <p className="px-1 text-xs text-stone">OpenRouter is not configured.</p>
+              )}
+              {openCircuits.length > 0 && (
+                <p className="px-1 text-xs text-amber-700">
+                  Tried last until they cool down:{' '}
+                  {openCircuits.map((circuit) => `${circuit.provider}:${circuit.model}`).join(', ')}
+                </p>
+              )}
+              <p className="px-1 text-[11px] text-stone">Checked {new Date(report.timestamp).toLocaleTimeString()}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
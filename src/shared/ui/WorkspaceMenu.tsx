@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import type { PersistedSessionSummary } from '../../../services/sessionStore';
+
+interface WorkspaceMenuProps {
+  workspaces: PersistedSessionSummary[];
+  activeId: string;
+  activeName: string;
+  disabled: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const formatSavedTimestamp = (timestamp: number): string => {
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return 'a previous session';
+  try {
+    return new Date(timestamp).toLocaleString();
+  } catch {
+    return 'a previous session';
+  }
+};
+
+export const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({
+  workspaces,
+  activeId,
+  activeName,
+  disabled,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        disabled={disabled}
+        className="ghost-btn px-3 py-1.5 text-sm font-semibold max-w-[220px] truncate disabled:opacity-50"
+        title="Switch saved workspace"
+      >
+        {activeName}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 rounded-z-md border border-line bg-white shadow-panel p-2 z-30">
+          <button
+            onClick={() => {
+              onCreate();
+              setIsOpen(false);
+            }}
+            className="w-full rounded-z-sm px-3 py-2 text-left text-sm font-semibold text-brand hover:bg-canvas"
+          >
+            + New Workspace
+          </button>
+
+          <div className="mt-1 max-h-[320px] overflow-y-auto thin-scrollbar space-y-1">
+            {workspaces.length === 0 && (
+              <p className="px-3 py-2 text-xs text-stone">No saved workspaces yet.</p>
+            )}
+
+            {workspaces.map((workspace) => {
+              const isActive = workspace.id === activeId;
+              return (
+                <div
+                  key={workspace.id}
+                  className={`rounded-z-sm border px-3 py-2 ${isActive ? 'border-brand bg-brand-soft' : 'border-line'}`}
+                >
+                  {editingId === workspace.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(event) => setDraftName(event.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') commitRename();
+                        if (event.key === 'Escape') setEditingId(null);
+                      }}
+                      className="w-full rounded-z-sm border border-line px-2 py-1 text-sm"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => {
+                        onSwitch(workspace.id);
+                        setIsOpen(false);
+                      }}
+                      className="w-full text-left"
+                    >
+                      <p className="text-sm font-semibold text-ink truncate">{workspace.name}</p>
+                      <p className="text-[11px] text-stone">Saved {formatSavedTimestamp(workspace.savedAt)}</p>
+                    </button>
+                  )}
+                  <div className="mt-1 flex gap-3 text-[11px] font-semibold">
+                    <button
+                      onClick={() => {
+                        setEditingId(workspace.id);
+                        setDraftName(workspace.name);
+                      }}
+                      className="text-stone hover:text-ink"
+                    >
+                      Rename
+                    </button>
+                    <button onClick={() => onDuplicate(workspace.id)} className="text-stone hover:text-ink">
+                      Duplicate
+                    </button>
+                    <button onClick={() => onDelete(workspace.id)} className="text-stone hover:text-rose-700">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,108 @@
+import type { QuoteVerification } from './functions/_shared/quoteVerification';
+
 export type AppMode = 'chatter' | 'points' | 'plotline';
 export type AnalysisStage = 'idle' | 'preparing' | 'uploading' | 'analyzing' | 'finalizing' | 'complete' | 'error';
 
+export interface ProgressActivity {
+  kind: string;
+  message: string;
+  at: number;
+}
+
 export interface ProgressEvent {
   stage: AnalysisStage;
   message: string;
   current?: number;
   total?: number;
   percent?: number;
+  activity?: ProgressActivity[];
+}
+
+// --- Usage Types ---
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  // Estimate from the server's price table; tokens on unpriced models are counted separately.
+  costUsd: number;
+  unpricedTokens: number;
+}
+
+export interface ModelUsage {
+  provider: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+}
+
+export interface RequestUsage extends UsageTotals {
+  resolvedModel: string | null;
+  models: ModelUsage[];
+}
+
+// --- Health Types ---
+
+export type ProviderHealthState =
+  | 'ok'
+  | 'missing_key'
+  | 'invalid_key'
+  | 'rate_limited'
+  | 'overloaded'
+  | 'timeout'
+  | 'location_unsupported'
+  | 'invalid_output'
+  | 'upstream_error';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ModelProbeResult {
+  model: string;
+  provider: string;
+  state: ProviderHealthState;
+  httpStatus?: number;
+  message: string;
+  circuitState: CircuitState;
+}
+
+export interface TaskProbeResult {
+  task: 'chatter' | 'points' | 'thread';
+  provider: string;
+  model: string;
+  state: ProviderHealthState | 'skipped';
+  latencyMs?: number;
+  message: string;
+}
+
+export interface CircuitSnapshot {
+  provider: string;
+  model: string;
+  state: CircuitState;
+  recentFailures: number;
+  lastFailureClass: string | null;
+  reopensAt: string | null;
+}
+
+export interface ProviderHealthReport {
+  timestamp: string;
+  overallState: ProviderHealthState;
+  providerPreference: string;
+  openRouterConfigured: boolean;
+  // Absent on deep checks, which skip the quick pings.
+  openRouterState?: ProviderHealthState;
+  message?: string;
+  guidance?: string;
+  models: ModelProbeResult[];
+  openRouterModels: ModelProbeResult[];
+  deep: { provider: string; overallState: ProviderHealthState; tasks: TaskProbeResult[] } | null;
+  circuits: CircuitSnapshot[];
 }
 
 // --- "The Chatter" Types ---
 
+export type { QuoteVerification, QuoteVerificationStatus } from './functions/_shared/quoteVerification';
+
 export interface ExtractedQuote {
   quote: string;
   summary: string;
@@ -29,6 +121,7 @@ export interface ExtractedQuote {
     | 'Legal & Governance' 
     | 'Competitive Landscape' 
     | 'Other Material';
+  verification?: QuoteVerification;
 }
 
 export interface ChatterAnalysisResult {
@@ -41,6 +134,9 @@ export interface ChatterAnalysisResult {
   zerodhaStockUrl?: string;
   concallUrl?: string;
   quotes: ExtractedQuote[];
+  cached?: boolean;
+  promptVersion?: string;
+  usage?: RequestUsage;
 }
 
 export interface ThreadQuoteCandidate {
@@ -70,7 +166,7 @@ export interface ThreadEditionSource {
   editionDate?: string;
   companiesCovered?: number;
   industriesCovered?: number;
-  sourceKind: 'substack_url' | 'pdf_text';
+  sourceKind: 'substack_url' | 'pdf_text' | 'in_app';
   companies: ThreadCompanyGroup[];
 }
 
@@ -83,10 +179,12 @@ export interface ThreadDraftResult {
   introTweet: string;
   insightTweets: ThreadInsightTweet[];
   outroTweet: string;
+  usage?: RequestUsage;
 }
 
 export interface ThreadShortlistResult {
   shortlistedQuoteIds: string[];
+  usage?: RequestUsage;
 }
 
 export interface ChatterAnalysisState {
@@ -104,15 +202,27 @@ export interface BatchFile {
   result?: ChatterAnalysisResult;
   error?: string;
   progress?: ProgressEvent;
+  // Set when a cached result is re-queued; the next run skips the server's result cache.
+  bypassCache?: boolean;
 }
 
 
 // --- "Points & Figures" Types ---
 
+export interface SlideMetric {
+  metric: string;
+  value: number;
+  unit: string;
+  period: string;
+  yoyChange?: string;
+  qoqChange?: string;
+}
+
 export interface SelectedSlide {
   selectedPageNumber: number;
   context: string;
   pageAsImage?: string; // Base64 encoded image
+  metrics?: SlideMetric[];
 }
 
 export interface PointsAndFiguresResult {
@@ -124,6 +234,8 @@ export interface PointsAndFiguresResult {
   companyDescription: string;
   zerodhaStockUrl?: string;
   slides: SelectedSlide[];
+  cached?: boolean;
+  usage?: RequestUsage;
 }
 
 export interface PointsBatchFile {
@@ -154,6 +266,7 @@ export interface PlotlineQuote {
   periodLabel: string;
   periodSortKey: number;
   selected: boolean;
+  verification?: QuoteVerification;
 }
 
 export interface PlotlineFileResult {
@@ -163,6 +276,8 @@ export interface PlotlineFileResult {
   marketCapCategory: string;
   industry: string;
   quotes: PlotlineQuote[];
+  cached?: boolean;
+  usage?: RequestUsage;
 }
 
 export interface PlotlineBatchFile {
@@ -184,12 +299,79 @@ export interface PlotlineCompanyGroup {
   quotes: PlotlineQuote[];
 }
 
+export type PlotlineStoryFraming = 'evolution' | 'contrast';
+
+export interface PlotlineStorySectionPlan {
+  companyKey: string;
+  subhead: string;
+  framing: PlotlineStoryFraming;
+  quoteIds: string[];
+}
+
+export interface PlotlineStoryPlan {
+  title: string;
+  dek: string;
+  chronologyMode: PlotlineStoryFraming;
+  sections: PlotlineStorySectionPlan[];
+  skippedCompanyKeys: string[];
+}
+
+export interface PlotlineStoryQuoteBlock {
+  quoteId: string;
+  quote: string;
+  speakerName: string;
+  speakerDesignation: string;
+  periodLabel: string;
+}
+
+export interface PlotlineStorySection {
+  companyKey: string;
+  companyName: string;
+  nseScrip: string;
+  industry: string;
+  subhead: string;
+  framing: PlotlineStoryFraming;
+  paragraphs: string[];
+  quoteBlocks: PlotlineStoryQuoteBlock[];
+}
+
+export interface PlotlineStoryResult {
+  title: string;
+  dek: string;
+  chronologyMode: PlotlineStoryFraming;
+  sections: PlotlineStorySection[];
+  watchNext: string[];
+  skippedCompanies: string[];
+  planSource: 'model' | 'client';
+  writerFallbackUsed: boolean;
+  usage?: RequestUsage;
+}
+
+// --- Quote Archive Types ---
+
+export interface ArchivedQuote {
+  id: string;
+  source: 'chatter' | 'plotline';
+  companyName: string;
+  nseScrip: string;
+  industry: string;
+  fiscalPeriod: string;
+  category: string;
+  speakerName: string;
+  speakerDesignation: string;
+  quote: string;
+  summary: string;
+  archivedAt: number;
+}
+
 
 // --- General Types ---
 
 export enum ProviderType {
   GEMINI = 'gemini',
   OPENROUTER = 'openrouter',
+  ANTHROPIC = 'anthropic',
+  OPENAI_COMPATIBLE = 'openai_compatible',
 }
 
 export enum ModelType {
@@ -204,4 +386,6 @@ export enum ModelType {
   OPENROUTER_QWEN25_VL_32B = 'qwen/qwen2.5-vl-32b-instruct',
   OPENROUTER_CLAUDE_SONNET_4 = 'anthropic/claude-sonnet-4',
   OPENROUTER_GPT_41_MINI = 'openai/gpt-4.1-mini',
+  CLAUDE_SONNET_45 = 'claude-sonnet-4-5',
+  CLAUDE_HAIKU_45 = 'claude-haiku-4-5',
 }
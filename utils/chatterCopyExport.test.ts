@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import {
+  editionHtmlToText,
+  isIngestableEditionCompany,
+  normalizeEditionCompany,
+  parseEditionText,
+  type ParsedEdition,
+} from '../functions/_shared/editionFormat';
+import type { ChatterAnalysisResult, ExtractedQuote } from '../types';
+import {
+  buildChatterClipboardExport,
+  buildChatterEditionExport,
+  buildChatterMarkdownExport,
+  buildThreadEditionSource,
+  toEditionCompanyInput,
+  type ChatterEdition,
+} from './chatterCopyExport';
+
+// Small seeded PRNG so a failing case can be replayed from its seed.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const pick = <T>(random: Random, items: T[]): T => items[Math.floor(random() * items.length)];
+const int = (random: Random, min: number, max: number): number => min + Math.floor(random() * (max - min + 1));
+
+const WORDS = [
+  'demand', 'margin', 'volume', 'rural', 'growth', 'capex', 'pricing', 'Q3', 'FY26', '12%', '₹1,200', 'crore',
+  'we', 'expect', 'the', 'concall', 'Concall', 'recovery', 'quick-commerce', 'guidance', 'A&B', '<tier>', "it's",
+];
+const NOISE = ['"', '“', '”', '‘', '’', '—', '–', '|', ',', ' ,', ' .', ' !', ' ', '  ', '\t', '\n', '\n\n', ':', ' - '];
+
+const randomText = (random: Random, maxWords: number): string => {
+  const parts: string[] = [];
+  const count = int(random, 0, maxWords);
+  for (let i = 0; i < count; i++) {
+    parts.push(random() < 0.2 ? pick(random, NOISE) : pick(random, WORDS));
+    parts.push(random() < 0.85 ? ' ' : '');
+  }
+  return random() < 0.2 ? `  ${parts.join('')}  ` : parts.join('');
+};
+
+const randomResult = (random: Random, index: number): ChatterAnalysisResult => {
+  const quoteCount = int(random, 0, 4);
+  const quotes = Array.from({ length: quoteCount }, (): ExtractedQuote => ({
+    quote: randomText(random, 14),
+    summary: randomText(random, 10),
+    category: 'Financial Guidance',
+    speaker: {
+      name: random() < 0.1 ? 'x'.repeat(int(random, 70, 120)) : randomText(random, 4),
+      designation: randomText(random, 5),
+    },
+  }));
+  // Repeat a quote now and then: duplicates within a company collapse to one.
+  if (quotes.length > 1 && random() < 0.3) {
+    quotes.push({ ...quotes[0], summary: randomText(random, 6) });
+  }
+
+  return {
+    companyName: random() < 0.05 ? '' : `${pick(random, ['Hindustan', 'Dabur', 'Tata', 'Marico'])} ${randomText(random, 2)} ${index}`,
+    fiscalPeriod: 'Q3 FY26',
+    nseScrip: random() < 0.5 ? `SCRIP${index}` : '',
+    marketCapCategory: pick(random, ['Large Cap', 'mid cap', ' Small Cap ', 'Micro Cap', 'Mega Cap', '']),
+    industry: random() < 0.1 ? '' : randomText(random, 3),
+    companyDescription: random() < 0.15 ? pick(random, ['', 'FMCG', '1/2', '[Concall]']) : randomText(random, 20),
+    concallUrl: random() < 0.6 ? `https://example.com/concall-${index}.pdf` : random() < 0.5 ? 'not a url' : undefined,
+    quotes,
+  };
+};
+
+const randomResults = (random: Random): ChatterAnalysisResult[] =>
+  Array.from({ length: int(random, 1, 5) }, (_, index) => randomResult(random, index));
+
+// What the parser is expected to hand back: the canonical form of every company it can ingest.
+const expectedCompanies = (results: ChatterAnalysisResult[]) =>
+  results
+    .map((result) => normalizeEditionCompany(toEditionCompanyInput(result)))
+    .filter(isIngestableEditionCompany)
+    .map(({ concallUrl: _concallUrl, ...company }) => company);
+
+const parsedCompanies = (edition: ParsedEdition) =>
+  edition.companies.map((company) => ({
+    companyName: company.companyName,
+    marketCapCategory: company.marketCapCategory,
+    industry: company.industry,
+    companyDescription: company.companyDescription,
+    quotes: company.quotes.map((quote) => ({
+      summary: quote.summary,
+      quote: quote.quote,
+      speakerName: quote.speakerName,
+      speakerDesignation: quote.speakerDesignation,
+    })),
+  }));
+
+const toEdition = (results: ChatterAnalysisResult[], random: Random): ChatterEdition => {
+  const split = int(random, 0, results.length);
+  return {
+    title: 'The Chatter',
+    date: 'October 19, 2026',
+    intro: randomText(random, 20),
+    companiesCovered: results.length,
+    industriesCovered: 1,
+    sections: [
+      { heading: random() < 0.5 ? 'Consumer' : undefined, results: results.slice(0, split) },
+      { heading: random() < 0.5 ? 'Technology' : undefined, results: results.slice(split) },
+    ],
+  };
+};
+
+const RUNS = 150;
+
+describe('chatter export round trip', () => {
+  it('parses clipboard text and HTML back to the same companies, quotes and speakers', () => {
+    for (let seed = 1; seed <= RUNS; seed++) {
+      const results = randomResults(createRandom(seed));
+      const { html, text } = buildChatterClipboardExport(results);
+      const expected = expectedCompanies(results);
+
+      expect(parsedCompanies(parseEditionText(text, { sourceKind: 'pdf_text' })), `text, seed ${seed}`).toEqual(expected);
+      expect(
+        parsedCompanies(parseEditionText(editionHtmlToText(html), { sourceKind: 'substack_url' })),
+        `html, seed ${seed}`,
+      ).toEqual(expected);
+    }
+  });
+
+  it('parses every edition export format back to the same companies, quotes and speakers', () => {
+    for (let seed = 1; seed <= RUNS; seed++) {
+      const random = createRandom(seed);
+      const results = randomResults(random);
+      const edition = toEdition(results, random);
+      const { html, markdown, text } = buildChatterEditionExport(edition);
+      const expected = expectedCompanies(edition.sections.flatMap((section) => section.results));
+
+      expect(parsedCompanies(parseEditionText(text, { sourceKind: 'pdf_text' })), `text, seed ${seed}`).toEqual(expected);
+      expect(parsedCompanies(parseEditionText(markdown, { sourceKind: 'pdf_text' })), `markdown, seed ${seed}`).toEqual(
+        expected,
+      );
+      expect(
+        parsedCompanies(parseEditionText(editionHtmlToText(html), { sourceKind: 'substack_url' })),
+        `html, seed ${seed}`,
+      ).toEqual(expected);
+    }
+  });
+
+  it('builds a thread source from in-app results with edition metadata', () => {
+    const results = randomResults(createRandom(7));
+    const source = buildThreadEditionSource(toEdition(results, createRandom(7)));
+
+    expect(source.sourceKind).toBe('in_app');
+    expect(source.editionTitle).toBe('The Chatter');
+    expect(source.editionDate).toBe('October 19, 2026');
+    expect(source.companiesCovered).toBe(results.length);
+    expect(parsedCompanies(source)).toEqual(expectedCompanies(results));
+  });
+});
+
+describe('chatter markdown export', () => {
+  it('keeps the Zerodha and Concall links and the speaker line', () => {
+    const markdown = buildChatterMarkdownExport([
+      {
+        companyName: 'Dabur India',
+        fiscalPeriod: 'Q3 FY26',
+        nseScrip: 'DABUR',
+        marketCapCategory: 'Large Cap',
+        industry: 'FMCG',
+        companyDescription: 'Dabur makes ayurvedic products.',
+        concallUrl: 'https://example.com/dabur.pdf',
+        quotes: [
+          {
+            quote: 'Rural demand is recovering.',
+            summary: 'Rural recovery',
+            category: 'Financial Guidance',
+            speaker: { name: 'Mohit Malhotra', designation: 'CEO' },
+          },
+        ],
+      },
+    ]);
+
+    expect(markdown).toBe(
+      [
+        'Dabur India | Large Cap | FMCG',
+        'Dabur makes ayurvedic products.',
+        '[Concall](https://example.com/dabur.pdf) · [Zerodha](https://zerodha.com/markets/stocks/NSE/DABUR/)',
+        'Rural recovery\n\n> "Rural demand is recovering."\n— Mohit Malhotra, CEO',
+      ].join('\n\n') + '\n',
+    );
+  });
+});
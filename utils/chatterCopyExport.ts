@@ -1,4 +1,20 @@
-import type { ChatterAnalysisResult } from "../types";
+import {
+  EDITION_TEXT_DIVIDER,
+  buildEditionCoverageSentence,
+  formatEditionCompanyHeader,
+  formatEditionSpeakerLine,
+  normalizeEditionCompany,
+  parseEditionText,
+  serializeEditionCompanyText,
+  serializeEditionText,
+  splitEditionParagraphs,
+  type EditionCompanyInput,
+  type EditionInput,
+} from "../functions/_shared/editionFormat";
+import { normalizeScrip } from "../functions/_shared/validation";
+import type { ChatterAnalysisResult, ThreadEditionSource } from "../types";
+import { buildDocx, type DocxBlock } from "./docxDocument";
+import { buildStandaloneHtml, downloadBlob, toFileSlug, type ExportFileFormat } from "./fileDownload";
 
 const FALLBACK_TEXT = "N/A";
 
@@ -27,11 +43,6 @@ const isHttpUrl = (value: string): boolean => {
   }
 };
 
-const normalizeScrip = (value: string | undefined): string =>
-  normalizeValue(value, "")
-    .toUpperCase()
-    .replace(/[^A-Z0-9]/g, "");
-
 const getDeterministicZerodhaUrl = (result: ChatterAnalysisResult): string => {
   const scrip = normalizeScrip(result.nseScrip);
   if (scrip) {
@@ -41,89 +52,247 @@ const getDeterministicZerodhaUrl = (result: ChatterAnalysisResult): string => {
   return isHttpUrl(fallbackUrl) ? fallbackUrl : "";
 };
 
-const getSpeakerLine = (name: string, designation: string): string => {
-  const normalizedName = normalizeValue(name);
-  const normalizedDesignation = normalizeValue(designation);
-
-  if (normalizedName === FALLBACK_TEXT && normalizedDesignation === FALLBACK_TEXT) {
-    return "— N/A";
-  }
-
-  if (normalizedDesignation === FALLBACK_TEXT) {
-    return `— ${normalizedName}`;
-  }
-
-  return `— ${normalizedName}, ${normalizedDesignation}`;
-};
-
-const buildHeaderText = (result: ChatterAnalysisResult): string => {
-  const company = normalizeValue(result.companyName);
-  const marketCap = normalizeValue(result.marketCapCategory);
-  const industry = normalizeValue(result.industry);
-  return `${company} | ${marketCap} | ${industry}`;
+// Every export renders the canonical form from the shared edition format, so whatever is copied or downloaded
+// ingests back into the thread composer with the same companies, quotes and speakers.
+export const toEditionCompanyInput = (result: ChatterAnalysisResult): EditionCompanyInput => {
+  const concallUrl = normalizeValue(result.concallUrl, "");
+  return {
+    companyName: result.companyName,
+    marketCapCategory: result.marketCapCategory,
+    industry: result.industry,
+    companyDescription: result.companyDescription,
+    concallUrl: isHttpUrl(concallUrl) ? concallUrl : undefined,
+    quotes: result.quotes.map((quote) => ({
+      summary: quote.summary,
+      quote: quote.quote,
+      speakerName: quote.speaker?.name ?? "",
+      speakerDesignation: quote.speaker?.designation ?? "",
+    })),
+  };
 };
 
 const buildCompanyHtml = (result: ChatterAnalysisResult): string => {
-  const heading = escapeHtml(buildHeaderText(result));
-  const companyDescription = escapeHtml(normalizeValue(result.companyDescription, "Company description not available."));
+  const company = normalizeEditionCompany(toEditionCompanyInput(result));
+  const heading = escapeHtml(formatEditionCompanyHeader(company));
   const zerodhaUrl = getDeterministicZerodhaUrl(result);
-  const concallUrl = normalizeValue(result.concallUrl);
   const headingHtml = isHttpUrl(zerodhaUrl)
     ? `<a href="${escapeHtml(zerodhaUrl)}" style="color:#1155cc;text-decoration:underline;">${heading}</a>`
     : heading;
-  const concallHtml = isHttpUrl(concallUrl)
-    ? `[<a href="${escapeHtml(concallUrl)}" style="color:#1155cc;text-decoration:underline;">Concall</a>]`
+  const concallHtml = company.concallUrl
+    ? `[<a href="${escapeHtml(company.concallUrl)}" style="color:#1155cc;text-decoration:underline;">Concall</a>]`
     : `[Concall]`;
 
-  const quotesHtml = result.quotes
-    .map((quote) => {
-      const summary = escapeHtml(normalizeValue(quote.summary));
-      const rawQuote = escapeHtml(normalizeValue(quote.quote));
-      const speakerLine = escapeHtml(getSpeakerLine(quote.speaker?.name, quote.speaker?.designation));
-
-      return [
-        `<p style="margin:0 0 12px 0;line-height:1.6;">${summary}</p>`,
-        `<p style="margin:0 0 8px 40px;line-height:1.6;font-style:italic;">"${rawQuote}"</p>`,
-        `<p style="margin:0 0 16px 40px;line-height:1.6;font-style:italic;">${speakerLine}</p>`,
-      ].join("");
-    })
+  const quotesHtml = company.quotes
+    .map((quote) =>
+      [
+        `<p style="margin:0 0 12px 0;line-height:1.6;">${escapeHtml(quote.summary)}</p>`,
+        `<p style="margin:0 0 8px 40px;line-height:1.6;font-style:italic;">"${escapeHtml(quote.quote)}"</p>`,
+        `<p style="margin:0 0 16px 40px;line-height:1.6;font-style:italic;">${escapeHtml(formatEditionSpeakerLine(quote))}</p>`,
+      ].join(""),
+    )
     .join("");
 
   return [
     `<section style="font-family:Arial,sans-serif;color:#111827;">`,
     `<h2 style="font-size:24px;font-weight:400;margin:0 0 12px 0;">${headingHtml}</h2>`,
-    `<p style="margin:0 0 12px 0;line-height:1.6;">${companyDescription}</p>`,
+    `<p style="margin:0 0 12px 0;line-height:1.6;">${escapeHtml(company.companyDescription)}</p>`,
     `<p style="margin:0 0 14px 0;line-height:1.6;">${concallHtml}</p>`,
     quotesHtml,
     `</section>`,
   ].join("");
 };
 
-const buildCompanyText = (result: ChatterAnalysisResult): string => {
-  const header = buildHeaderText(result);
-  const description = normalizeValue(result.companyDescription, "Company description not available.");
-  const concallUrl = normalizeValue(result.concallUrl);
-  const concallLine = isHttpUrl(concallUrl) ? `[Concall] ${concallUrl}` : `[Concall]`;
-
-  const quoteBlocks = result.quotes.map((quote) => {
-    const summary = normalizeValue(quote.summary);
-    const textQuote = normalizeValue(quote.quote);
-    const speakerLine = getSpeakerLine(quote.speaker?.name, quote.speaker?.designation);
-    return `${summary}\n\n    "${textQuote}"\n    ${speakerLine}`;
-  });
-
-  return [header, description, concallLine, "", ...quoteBlocks].join("\n");
-};
+const buildCompanyText = (result: ChatterAnalysisResult): string =>
+  serializeEditionCompanyText(normalizeEditionCompany(toEditionCompanyInput(result)));
 
 export const buildChatterClipboardExport = (
   results: ChatterAnalysisResult[],
 ): { html: string; text: string } => {
   const validResults = results.filter((result) => result && Array.isArray(result.quotes));
   const dividerHtml = `<hr style="border:none;border-top:1px solid #a0a0a0;margin:28px 0;" />`;
-  const dividerText = "\n------------------------------------------------------------\n";
 
   const html = validResults.map(buildCompanyHtml).join(dividerHtml);
-  const text = validResults.map(buildCompanyText).join(dividerText);
+  const text = validResults.map(buildCompanyText).join(EDITION_TEXT_DIVIDER);
 
   return { html, text };
 };
+
+export interface ChatterEditionSection {
+  heading?: string;
+  results: ChatterAnalysisResult[];
+}
+
+export interface ChatterEdition {
+  title: string;
+  date?: string;
+  intro?: string;
+  companiesCovered: number;
+  industriesCovered: number;
+  sections: ChatterEditionSection[];
+}
+
+const toEditionInput = (edition: ChatterEdition): EditionInput => ({
+  title: edition.title,
+  date: edition.date,
+  intro: edition.intro,
+  companiesCovered: edition.companiesCovered,
+  industriesCovered: edition.industriesCovered,
+  sections: edition.sections.map((section) => ({
+    heading: section.heading,
+    companies: section.results.filter((result) => result && Array.isArray(result.quotes)).map(toEditionCompanyInput),
+  })),
+});
+
+const buildCompanyMarkdown = (result: ChatterAnalysisResult): string => {
+  const company = normalizeEditionCompany(toEditionCompanyInput(result));
+  const zerodhaUrl = getDeterministicZerodhaUrl(result);
+  // The header stays plain text and the stock link rides on the Concall line, which the parser skips.
+  const linkLine = [
+    company.concallUrl ? `[Concall](${company.concallUrl})` : "[Concall]",
+    ...(isHttpUrl(zerodhaUrl) ? [`[Zerodha](${zerodhaUrl})`] : []),
+  ].join(" · ");
+
+  const quoteBlocks = company.quotes.map(
+    (quote) => `${quote.summary}\n\n> "${quote.quote}"\n${formatEditionSpeakerLine(quote)}`,
+  );
+
+  return [formatEditionCompanyHeader(company), company.companyDescription, linkLine, ...quoteBlocks].join("\n\n");
+};
+
+const buildCompanyDocxBlocks = (result: ChatterAnalysisResult): DocxBlock[] => {
+  const company = normalizeEditionCompany(toEditionCompanyInput(result));
+  const zerodhaUrl = getDeterministicZerodhaUrl(result);
+  const header = formatEditionCompanyHeader(company);
+
+  return [
+    { kind: "heading", level: 2, runs: [{ text: header, link: isHttpUrl(zerodhaUrl) ? zerodhaUrl : undefined }] },
+    { kind: "paragraph", runs: [{ text: company.companyDescription }] },
+    {
+      kind: "paragraph",
+      runs: company.concallUrl
+        ? [{ text: "[" }, { text: "Concall", link: company.concallUrl }, { text: "]" }]
+        : [{ text: "[Concall]" }],
+    },
+    ...company.quotes.flatMap((quote): DocxBlock[] => [
+      { kind: "paragraph", runs: [{ text: quote.summary }] },
+      { kind: "paragraph", indent: true, runs: [{ text: `"${quote.quote}"`, italic: true }] },
+      { kind: "paragraph", indent: true, runs: [{ text: formatEditionSpeakerLine(quote), italic: true }] },
+    ]),
+  ];
+};
+
+const joinDocxCompanies = (groups: DocxBlock[][]): DocxBlock[] =>
+  groups.flatMap((blocks, index) => (index === 0 ? blocks : [{ kind: "divider" } as DocxBlock, ...blocks]));
+
+const getExportableResults = (results: ChatterAnalysisResult[]): ChatterAnalysisResult[] =>
+  results.filter((result) => result && Array.isArray(result.quotes));
+
+export const buildChatterMarkdownExport = (results: ChatterAnalysisResult[]): string =>
+  `${getExportableResults(results).map(buildCompanyMarkdown).join("\n\n---\n\n")}\n`;
+
+export const buildChatterDocx = (results: ChatterAnalysisResult[], title = "The Chatter"): Blob =>
+  buildDocx(joinDocxCompanies(getExportableResults(results).map(buildCompanyDocxBlocks)), { title });
+
+export const buildChatterExportFileName = (results: ChatterAnalysisResult[], format: ExportFileFormat): string => {
+  const [first] = results;
+  const slug =
+    results.length === 1 && first
+      ? toFileSlug(`chatter ${first.nseScrip || first.companyName} ${first.fiscalPeriod}`, "chatter-export")
+      : `chatter-${results.length}-companies`;
+  return `${slug}.${format}`;
+};
+
+// Markdown, Word and a standalone HTML page for the batch, alongside the clipboard export.
+export const downloadChatterExport = (results: ChatterAnalysisResult[], format: ExportFileFormat): void => {
+  const fileName = buildChatterExportFileName(results, format);
+  if (format === "md") {
+    downloadBlob(new Blob([buildChatterMarkdownExport(results)], { type: "text/markdown;charset=utf-8" }), fileName);
+  } else if (format === "docx") {
+    downloadBlob(buildChatterDocx(results), fileName);
+  } else {
+    const { html } = buildChatterClipboardExport(results);
+    downloadBlob(new Blob([buildStandaloneHtml("The Chatter", html)], { type: "text/html;charset=utf-8" }), fileName);
+  }
+};
+
+export const buildChatterEditionExport = (
+  edition: ChatterEdition,
+): { html: string; markdown: string; text: string } => {
+  const title = normalizeValue(edition.title, "The Chatter");
+  const date = normalizeValue(edition.date, "");
+  const introParagraphs = splitEditionParagraphs(edition.intro);
+  const coverage = buildEditionCoverageSentence(edition.companiesCovered, edition.industriesCovered);
+  const sections = edition.sections
+    .map((section) => ({
+      heading: normalizeValue(section.heading, ""),
+      results: section.results.filter((result) => result && Array.isArray(result.quotes)),
+    }))
+    .filter((section) => section.results.length > 0);
+
+  const dividerHtml = `<hr style="border:none;border-top:1px solid #a0a0a0;margin:28px 0;" />`;
+  const sectionsHtml = sections
+    .map((section) =>
+      [
+        section.heading
+          ? `<h3 style="font-family:Arial,sans-serif;font-size:14px;letter-spacing:0.08em;text-transform:uppercase;color:#6b7280;margin:32px 0 16px 0;">${escapeHtml(section.heading)}</h3>`
+          : "",
+        section.results.map(buildCompanyHtml).join(dividerHtml),
+      ].join(""),
+    )
+    .join(dividerHtml);
+
+  const html = buildStandaloneHtml(
+    title,
+    [
+      `<h1 style="font-size:32px;font-weight:400;margin:0 0 8px 0;">${escapeHtml(title)}</h1>`,
+      date ? `<p style="margin:0 0 20px 0;color:#6b7280;">${escapeHtml(date)}</p>` : "",
+      ...introParagraphs.map((paragraph) => `<p style="margin:0 0 12px 0;line-height:1.6;">${escapeHtml(paragraph)}</p>`),
+      `<p style="margin:0 0 28px 0;line-height:1.6;">${escapeHtml(coverage)}</p>`,
+      sectionsHtml,
+    ].join(""),
+  );
+
+  const markdownSections = sections.map((section) =>
+    [...(section.heading ? [`## ${section.heading}`] : []), section.results.map(buildCompanyMarkdown).join("\n\n---\n\n")].join(
+      "\n\n",
+    ),
+  );
+  const markdown = [
+    `${title}\n${"=".repeat(Math.max(3, title.length))}`,
+    ...(date ? [date] : []),
+    ...introParagraphs,
+    coverage,
+    markdownSections.join("\n\n---\n\n"),
+  ].join("\n\n");
+
+  return { html, markdown: `${markdown}\n`, text: serializeEditionText(toEditionInput(edition)) };
+};
+
+// Same parser as /api/chatter/thread/ingest, run in the browser on the serialized edition, so the thread composer
+// can start from in-app results without publishing them first.
+export const buildThreadEditionSource = (edition: ChatterEdition): ThreadEditionSource =>
+  parseEditionText(serializeEditionText(toEditionInput(edition)), { sourceKind: "in_app" });
+
+export const buildChatterEditionDocx = (edition: ChatterEdition): Blob => {
+  const title = normalizeValue(edition.title, "The Chatter");
+  const date = normalizeValue(edition.date, "");
+  const sections = edition.sections
+    .map((section) => ({ heading: normalizeValue(section.heading, ""), results: getExportableResults(section.results) }))
+    .filter((section) => section.results.length > 0);
+
+  const blocks: DocxBlock[] = [
+    { kind: "heading", level: 1, runs: [{ text: title }] },
+    ...(date ? [{ kind: "paragraph", muted: true, runs: [{ text: date }] } as DocxBlock] : []),
+    ...splitEditionParagraphs(edition.intro).map((paragraph): DocxBlock => ({ kind: "paragraph", runs: [{ text: paragraph }] })),
+    {
+      kind: "paragraph",
+      runs: [{ text: buildEditionCoverageSentence(edition.companiesCovered, edition.industriesCovered) }],
+    },
+    ...sections.flatMap((section, index): DocxBlock[] => [
+      ...(index > 0 ? [{ kind: "divider" } as DocxBlock] : []),
+      ...(section.heading ? [{ kind: "heading", level: 3, runs: [{ text: section.heading.toUpperCase() }] } as DocxBlock] : []),
+      ...joinDocxCompanies(section.results.map(buildCompanyDocxBlocks)),
+    ]),
+  ];
+  return buildDocx(blocks, { title });
+};
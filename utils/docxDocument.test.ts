@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatterAnalysisResult, PointsAndFiguresResult } from '../types';
+import { buildChatterDocx } from './chatterCopyExport';
+import { buildDocx } from './docxDocument';
+import { buildPointsDocx } from './pointsCopyExport';
+import { crc32 } from './zipArchive';
+
+// 1x1 PNG.
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+// Reads a stored (uncompressed) archive through its central directory and checks every entry's CRC.
+const readZip = async (blob: Blob): Promise<Map<string, Uint8Array>> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const endOffset = bytes.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+
+  const entries = new Map<string, Uint8Array>();
+  let offset = view.getUint32(endOffset + 16, true);
+  for (let i = 0; i < view.getUint16(endOffset + 10, true); i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    const data = bytes.subarray(dataStart, dataStart + size);
+    expect(crc32(data), name).toBe(crc);
+    entries.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+const readText = (entries: Map<string, Uint8Array>, name: string): string =>
+  new TextDecoder().decode(entries.get(name) ?? new Uint8Array());
+
+// Hyperlink targets by relationship id, so a test can follow a link from document.xml to its URL.
+const readLinks = (entries: Map<string, Uint8Array>): string[] => {
+  const rels = readText(entries, 'word/_rels/document.xml.rels');
+  const targets = new Map(
+    Array.from(rels.matchAll(/Id="(rId\d+)"[^>]*Target="([^"]+)" TargetMode="External"/g), (match) => [match[1], match[2]]),
+  );
+  const document = readText(entries, 'word/document.xml');
+  return Array.from(document.matchAll(/<w:hyperlink r:id="(rId\d+)"/g), (match) => targets.get(match[1]) ?? '');
+};
+
+describe('docx export', () => {
+  it('packages a valid document with styles, escaped text, links and sized images', async () => {
+    const entries = await readZip(
+      buildDocx(
+        [
+          { kind: 'heading', level: 1, runs: [{ text: 'Q3 <review> & notes', link: 'https://example.com/?a=1&b=2' }] },
+          { kind: 'paragraph', indent: true, runs: [{ text: 'line one\nline two', italic: true }] },
+          { kind: 'image', dataUrl: PNG_DATA_URL, altText: 'Slide 4' },
+          { kind: 'divider' },
+        ],
+        { title: 'Review', modifiedAt: new Date('2026-10-19T10:00:00Z') },
+      ),
+    );
+
+    expect(Array.from(entries.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'word/document.xml',
+      'word/styles.xml',
+      'word/_rels/document.xml.rels',
+      'word/media/image1.png',
+    ]);
+    const document = readText(entries, 'word/document.xml');
+    expect(document).toContain('Q3 &lt;review&gt; &amp; notes');
+    expect(document).toContain('<w:i/></w:rPr><w:t xml:space="preserve">line one</w:t><w:br/>');
+    expect(document).toContain('<wp:extent cx="9525" cy="9525"/>');
+    expect(readLinks(entries)).toEqual(['https://example.com/?a=1&amp;b=2']);
+    expect(readText(entries, 'docProps/core.xml')).toContain('<dc:title>Review</dc:title>');
+  });
+
+  it('keeps the Zerodha and Concall links and the speaker line for Chatter', async () => {
+    const result: ChatterAnalysisResult = {
+      companyName: 'Dabur India',
+      fiscalPeriod: 'Q3 FY26',
+      nseScrip: 'DABUR',
+      marketCapCategory: 'Large Cap',
+      industry: 'FMCG',
+      companyDescription: 'Dabur makes ayurvedic and personal care products.',
+      concallUrl: 'https://example.com/dabur-concall.pdf',
+      quotes: [
+        {
+          quote: 'Rural demand is recovering.',
+          summary: 'Rural recovery',
+          category: 'Financial Guidance',
+          speaker: { name: 'Mohit Malhotra', designation: 'CEO' },
+        },
+      ],
+    };
+    const entries = await readZip(buildChatterDocx([result]));
+    const document = readText(entries, 'word/document.xml');
+
+    expect(readLinks(entries)).toEqual([
+      'https://zerodha.com/markets/stocks/NSE/DABUR/',
+      'https://example.com/dabur-concall.pdf',
+    ]);
+    expect(document).toContain('Dabur India | Large Cap | FMCG');
+    expect(document).toContain('&quot;Rural demand is recovering.&quot;');
+    expect(document).toContain('— Mohit Malhotra, CEO');
+  });
+
+  it('embeds slide images for Points', async () => {
+    const result = {
+      companyName: 'Titan',
+      fiscalPeriod: 'Q3 FY26',
+      nseScrip: 'TITAN',
+      marketCapCategory: 'Large Cap',
+      industry: 'Consumer',
+      companyDescription: 'Jewellery and watches.',
+      slides: [
+        { selectedPageNumber: 4, context: 'Studded share rose.', pageAsImage: PNG_DATA_URL },
+        { selectedPageNumber: 9, context: 'No image for this one.', pageAsImage: '' },
+      ],
+    } as PointsAndFiguresResult;
+    const entries = await readZip(buildPointsDocx([result]));
+    const document = readText(entries, 'word/document.xml');
+
+    expect(entries.has('word/media/image1.png')).toBe(true);
+    expect(readLinks(entries)).toEqual(['https://zerodha.com/markets/stocks/NSE/TITAN/']);
+    expect(document).toContain('descr="Slide 4"');
+    expect(document).toContain('[Slide 9]');
+  });
+});
@@ -0,0 +1,239 @@
+import { dataUrlToBytes } from "./fileDownload";
+import { createZipArchive, type ZipEntry } from "./zipArchive";
+
+// A small block model rendered to WordprocessingML. Only what the Chatter and Points exports need: headings,
+// paragraphs with bold/italic/linked runs, indented quotes, inline images and dividers.
+export interface DocxRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  link?: string;
+}
+
+export type DocxBlock =
+  | { kind: "heading"; level: 1 | 2 | 3; runs: DocxRun[] }
+  | { kind: "paragraph"; runs: DocxRun[]; indent?: boolean; rule?: boolean; muted?: boolean }
+  | { kind: "image"; dataUrl: string; altText: string; indent?: boolean }
+  | { kind: "divider" };
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const EMU_PER_PIXEL = 9525;
+// 6 inches: a Letter page with 1 inch margins, less the quote indent.
+const MAX_IMAGE_WIDTH_EMU = 6 * 914400 - 720 * 635;
+const LINK_COLOR = "1155CC";
+const MUTED_COLOR = "6B7280";
+
+const escapeXml = (value: string): string =>
+  value
+    // Control characters are not allowed in XML 1.0 and make Word refuse the file.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const readImageSize = (bytes: Uint8Array): { width: number; height: number } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length > 24 && view.getUint32(0) === 0x89504e47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes.length > 4 && view.getUint16(0) === 0xffd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      // SOF0-SOF15 carry the frame size; C4, C8 and CC share the range but are not frames.
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+  return null;
+};
+
+interface DocxRelationship {
+  id: string;
+  type: "hyperlink" | "image";
+  target: string;
+}
+
+interface DocxMedia {
+  name: string;
+  bytes: Uint8Array;
+}
+
+const renderRun = (run: DocxRun, extraProps = ""): string => {
+  const props = [
+    run.link ? `<w:rStyle w:val="Hyperlink"/>` : "",
+    run.bold ? "<w:b/>" : "",
+    run.italic ? "<w:i/>" : "",
+    extraProps,
+  ].join("");
+  const text = run.text
+    .split("\n")
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join("<w:br/>");
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ""}${text}</w:r>`;
+};
+
+export const buildDocx = (blocks: DocxBlock[], options: { title: string; modifiedAt?: Date }): Blob => {
+  const relationships: DocxRelationship[] = [];
+  const media: DocxMedia[] = [];
+  const nextRelationshipId = () => `rId${relationships.length + 2}`; // rId1 is the styles part
+
+  const renderRuns = (runs: DocxRun[], extraProps = ""): string =>
+    runs
+      .map((run) => {
+        if (!run.link) return renderRun(run, extraProps);
+        const id = nextRelationshipId();
+        relationships.push({ id, type: "hyperlink", target: run.link });
+        return `<w:hyperlink r:id="${id}" w:history="1">${renderRun(run, extraProps)}</w:hyperlink>`;
+      })
+      .join("");
+
+  const renderImage = (block: Extract<DocxBlock, { kind: "image" }>, index: number): string => {
+    const decoded = dataUrlToBytes(block.dataUrl);
+    if (!decoded || !/^image\/(png|jpeg)$/.test(decoded.mimeType)) {
+      return `<w:p>${renderRun({ text: `[${block.altText}]`, italic: true })}</w:p>`;
+    }
+    const extension = decoded.mimeType === "image/png" ? "png" : "jpeg";
+    const name = `image${media.length + 1}.${extension}`;
+    media.push({ name, bytes: decoded.bytes });
+    const id = nextRelationshipId();
+    relationships.push({ id, type: "image", target: `media/${name}` });
+
+    const size = readImageSize(decoded.bytes) ?? { width: 1600, height: 900 };
+    const width = Math.min(size.width * EMU_PER_PIXEL, MAX_IMAGE_WIDTH_EMU);
+    const height = Math.round((width * size.height) / Math.max(size.width, 1));
+    const altText = escapeXml(block.altText);
+    const drawing = [
+      `<w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">`,
+      `<wp:extent cx="${width}" cy="${height}"/>`,
+      `<wp:docPr id="${index + 1}" name="${altText}" descr="${altText}"/>`,
+      `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">`,
+      `<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">`,
+      `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">`,
+      `<pic:nvPicPr><pic:cNvPr id="${index + 1}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>`,
+      `<pic:blipFill><a:blip r:embed="${id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`,
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm>`,
+      `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`,
+      `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing>`,
+    ].join("");
+    const indent = block.indent ? `<w:pPr><w:ind w:left="720"/></w:pPr>` : "";
+    return `<w:p>${indent}<w:r>${drawing}</w:r></w:p>`;
+  };
+
+  const body = blocks
+    .map((block, index) => {
+      switch (block.kind) {
+        case "heading":
+          return `<w:p><w:pPr><w:pStyle w:val="Heading${block.level}"/></w:pPr>${renderRuns(block.runs)}</w:p>`;
+        case "paragraph": {
+          const props = [
+            block.rule ? `<w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="9CA3AF"/></w:pBdr>` : "",
+            block.indent ? `<w:ind w:left="720"/>` : "",
+          ].join("");
+          const runProps = block.muted ? `<w:color w:val="${MUTED_COLOR}"/>` : "";
+          return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ""}${renderRuns(block.runs, runProps)}</w:p>`;
+        }
+        case "image":
+          return renderImage(block, index);
+        case "divider":
+          return `<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="A0A0A0"/></w:pBdr></w:pPr></w:p>`;
+      }
+    })
+    .join("");
+
+  const documentXml = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+    `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"`,
+    ` xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"`,
+    ` xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">`,
+    `<w:body>${body}`,
+    `<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>`,
+    `<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>`,
+    `</w:sectPr></w:body></w:document>`,
+  ].join("");
+
+  const headingStyle = (level: number, size: number) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/>` +
+    `<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+    `<w:rPr><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+  const stylesXml = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+    `<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">`,
+    `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/>`,
+    `<w:sz w:val="22"/><w:color w:val="111827"/></w:rPr></w:rPrDefault>`,
+    `<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`,
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>`,
+    headingStyle(1, 40),
+    headingStyle(2, 32),
+    headingStyle(3, 24),
+    `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>`,
+    `<w:rPr><w:color w:val="${LINK_COLOR}"/><w:u w:val="single"/></w:rPr></w:style>`,
+    `</w:styles>`,
+  ].join("");
+
+  const documentRelsXml = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`,
+    `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+    ...relationships.map((relationship) =>
+      relationship.type === "hyperlink"
+        ? `<Relationship Id="${relationship.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(relationship.target)}" TargetMode="External"/>`
+        : `<Relationship Id="${relationship.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="${relationship.target}"/>`,
+    ),
+    `</Relationships>`,
+  ].join("");
+
+  const modifiedAt = options.modifiedAt ?? new Date();
+  const timestamp = `${modifiedAt.toISOString().slice(0, 19)}Z`;
+  const coreXml = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+    `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"`,
+    ` xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/"`,
+    ` xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+    `<dc:title>${escapeXml(options.title)}</dc:title><dc:creator>Chatter Analyst</dc:creator>`,
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:created>`,
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${timestamp}</dcterms:modified>`,
+    `</cp:coreProperties>`,
+  ].join("");
+
+  const contentTypesXml = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`,
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>`,
+    `<Default Extension="xml" ContentType="application/xml"/>`,
+    `<Default Extension="png" ContentType="image/png"/>`,
+    `<Default Extension="jpeg" ContentType="image/jpeg"/>`,
+    `<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>`,
+    `<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>`,
+    `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>`,
+    `</Types>`,
+  ].join("");
+
+  const rootRelsXml = [
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`,
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`,
+    `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>`,
+    `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>`,
+    `</Relationships>`,
+  ].join("");
+
+  const entries: ZipEntry[] = [
+    { name: "[Content_Types].xml", data: contentTypesXml },
+    { name: "_rels/.rels", data: rootRelsXml },
+    { name: "docProps/core.xml", data: coreXml },
+    { name: "word/document.xml", data: documentXml },
+    { name: "word/styles.xml", data: stylesXml },
+    { name: "word/_rels/document.xml.rels", data: documentRelsXml },
+    ...media.map((item) => ({ name: `word/media/${item.name}`, data: item.bytes })),
+  ];
+
+  return new Blob([createZipArchive(entries, modifiedAt)], { type: DOCX_MIME_TYPE });
+};
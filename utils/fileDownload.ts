@@ -0,0 +1,48 @@
+export type ExportFileFormat = "md" | "docx" | "html";
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const toFileSlug = (value: string, fallback: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || fallback;
+
+export const dataUrlToBytes = (dataUrl: string): { mimeType: string; bytes: Uint8Array } | null => {
+  const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (!match) return null;
+  if (!match[2]) {
+    return { mimeType: match[1], bytes: new TextEncoder().encode(decodeURIComponent(match[3])) };
+  }
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { mimeType: match[1], bytes };
+};
+
+// A self-contained page for a downloaded export; images stay inline as data URLs so the file opens offline
+// and imports into Google Docs or Word as is.
+export const buildStandaloneHtml = (title: string, bodyHtml: string): string =>
+  [
+    "<!doctype html>",
+    `<html lang="en"><head><meta charset="utf-8" /><title>${title
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")}</title></head>`,
+    `<body style="margin:0;padding:32px;background:#ffffff;">`,
+    `<article style="max-width:760px;margin:0 auto;font-family:Arial,sans-serif;color:#111827;">`,
+    bodyHtml,
+    `</article></body></html>`,
+  ].join("");
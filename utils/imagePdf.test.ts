@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildImagePdf } from './imagePdf';
+
+// Stand-in JPEG payloads; the PDF embeds them byte for byte.
+const fakeJpeg = (marker: number) => new Uint8Array([0xff, 0xd8, marker, 0x00, 0x0a, 0xff, 0xd9]);
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+
+describe('image PDF', () => {
+  it('writes one page per image with a valid xref table', () => {
+    const pages = [
+      { jpeg: fakeJpeg(1), width: 1600, height: 1200 },
+      { jpeg: fakeJpeg(2), width: 1600, height: 900 },
+    ];
+    const pdf = buildImagePdf(pages, { title: 'Titan — Q3 FY26' });
+    const text = latin1(pdf);
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('/Count 2');
+    expect(text).toContain('/MediaBox [0 0 842 632]');
+    expect(text).toContain('/MediaBox [0 0 842 474]');
+    expect(text).toContain('/Title <FEFF0054006900740061006E0020201400200051003300200046005900320036>');
+
+    const startXref = Number(text.match(/startxref\n(\d+)\n%%EOF/)?.[1]);
+    expect(text.slice(startXref, startXref + 4)).toBe('xref');
+    const entries = Array.from(text.slice(startXref).matchAll(/^(\d{10}) 00000 n $/gm), (match) => Number(match[1]));
+    expect(entries).toHaveLength(9);
+    entries.forEach((offset, index) => {
+      expect(text.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+
+    pages.forEach((page) => {
+      const start = text.indexOf(latin1(page.jpeg));
+      expect(start).toBeGreaterThan(0);
+      expect(text.slice(0, start)).toMatch(/\/Length 7 >>\nstream\n$/);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// A4 long side; every page keeps its image's aspect ratio at this width.
+const PAGE_WIDTH_PT = 842;
+
+// Hex string with a UTF-16 BOM so titles with ₹, em dashes or accents survive in the document properties.
+const toPdfTextString = (value: string): string => {
+  let hex = "FEFF";
+  for (let i = 0; i < value.length; i++) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+// One image per page, embedded as-is with DCTDecode, so the PDF needs no compression or font code.
+export const buildImagePdf = (pages: PdfImagePage[], options: { title: string }): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects 1-3 are the catalog, page tree and document info; each page then takes three: page, content, image.
+  const pageObjectId = (index: number) => 4 + index * 3;
+
+  write("%PDF-1.4\n%âãÏÓ\n");
+
+  beginObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+
+  beginObject(2);
+  const kids = pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(" ");
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  write(`<< /Title ${toPdfTextString(options.title)} /Producer (Chatter Analyst) >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageObjectId(index);
+    const pageWidth = PAGE_WIDTH_PT;
+    const pageHeight = Math.round((PAGE_WIDTH_PT * page.height) / Math.max(page.width, 1));
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+    beginObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`,
+    );
+
+    beginObject(pageId + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(pageId + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`,
+    );
+    write(page.jpeg);
+    write("\nendstream\nendobj\n");
+  });
+
+  const objectCount = pageObjectId(pages.length);
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const pdf = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, position);
+    position += chunk.length;
+  }
+  return pdf;
+};
@@ -0,0 +1,89 @@
+import type { PlotlineStoryQuoteBlock, PlotlineStoryResult, PlotlineStorySection } from "../types";
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const getSpeakerLine = (block: PlotlineStoryQuoteBlock): string => {
+  const speaker = block.speakerDesignation ? `${block.speakerName}, ${block.speakerDesignation}` : block.speakerName;
+  return block.periodLabel ? `— ${speaker} (${block.periodLabel})` : `— ${speaker}`;
+};
+
+const interleaveSection = <T>(
+  section: PlotlineStorySection,
+  renderParagraph: (paragraph: string) => T,
+  renderQuote: (block: PlotlineStoryQuoteBlock) => T,
+): T[] => {
+  const parts: T[] = [];
+  const count = Math.max(section.paragraphs.length, section.quoteBlocks.length);
+  for (let i = 0; i < count; i++) {
+    if (section.paragraphs[i]) parts.push(renderParagraph(section.paragraphs[i]));
+    if (section.quoteBlocks[i]) parts.push(renderQuote(section.quoteBlocks[i]));
+  }
+  return parts;
+};
+
+const buildSectionHeading = (section: PlotlineStorySection): string =>
+  section.nseScrip ? `${section.companyName} (${section.nseScrip})` : section.companyName;
+
+const buildSectionHtml = (section: PlotlineStorySection): string => {
+  const body = interleaveSection(
+    section,
+    (paragraph) => `<p style="margin:0 0 12px 0;line-height:1.6;">${escapeHtml(paragraph)}</p>`,
+    (block) =>
+      [
+        `<p style="margin:0 0 8px 40px;line-height:1.6;font-style:italic;">"${escapeHtml(block.quote)}"</p>`,
+        `<p style="margin:0 0 16px 40px;line-height:1.6;font-style:italic;">${escapeHtml(getSpeakerLine(block))}</p>`,
+      ].join(""),
+  );
+
+  return [
+    `<h2 style="font-size:22px;font-weight:400;margin:24px 0 4px 0;">${escapeHtml(section.subhead)}</h2>`,
+    `<p style="margin:0 0 12px 0;color:#6b7280;">${escapeHtml(buildSectionHeading(section))}</p>`,
+    ...body,
+  ].join("");
+};
+
+const buildSectionText = (section: PlotlineStorySection): string => {
+  const body = interleaveSection(
+    section,
+    (paragraph) => paragraph,
+    (block) => `    "${block.quote}"\n    ${getSpeakerLine(block)}`,
+  );
+
+  return [section.subhead.toUpperCase(), buildSectionHeading(section), "", body.join("\n\n")].join("\n");
+};
+
+export const buildPlotlineStoryClipboardExport = (
+  story: PlotlineStoryResult,
+): { html: string; text: string } => {
+  const watchHtml = story.watchNext.map((line) => `<li style="margin:0 0 6px 0;">${escapeHtml(line)}</li>`).join("");
+
+  const html = [
+    `<article style="font-family:Arial,sans-serif;color:#111827;">`,
+    `<h1 style="font-size:28px;font-weight:500;margin:0 0 8px 0;">${escapeHtml(story.title)}</h1>`,
+    story.dek ? `<p style="margin:0 0 20px 0;line-height:1.6;font-size:18px;">${escapeHtml(story.dek)}</p>` : "",
+    story.sections.map(buildSectionHtml).join(""),
+    `<h2 style="font-size:22px;font-weight:400;margin:24px 0 8px 0;">What to watch</h2>`,
+    `<ul style="margin:0;padding-left:20px;line-height:1.6;">${watchHtml}</ul>`,
+    `</article>`,
+  ].join("");
+
+  const text = [
+    story.title,
+    story.dek,
+    "",
+    story.sections.map(buildSectionText).join("\n\n"),
+    "",
+    "WHAT TO WATCH",
+    ...story.watchNext.map((line) => `- ${line}`),
+  ]
+    .join("\n")
+    .trim();
+
+  return { html, text };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { PointsAndFiguresResult } from '../types';
+import { buildPointsMarkdownExport, buildPointsStandaloneHtml } from './pointsCopyExport';
+
+const result = {
+  companyName: 'Titan',
+  fiscalPeriod: 'Q3 FY26',
+  nseScrip: 'TITAN',
+  marketCapCategory: 'Large Cap',
+  industry: 'Consumer',
+  companyDescription: 'Jewellery and watches.',
+  slides: [{ selectedPageNumber: 4, context: 'Studded share\nrose.', pageAsImage: 'data:image/jpeg;base64,/9j/AA==' }],
+} as PointsAndFiguresResult;
+
+describe('points file exports', () => {
+  it('links the header to Zerodha in Markdown', () => {
+    expect(buildPointsMarkdownExport([result])).toBe(
+      [
+        '## [Titan | Large Cap | Consumer](https://zerodha.com/markets/stocks/NSE/TITAN/)',
+        'Jewellery and watches.',
+        '[Presentation]',
+        '> Studded share rose.\n\n*[Slide 4]*',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('embeds slide images in the standalone HTML page', () => {
+    const html = buildPointsStandaloneHtml([result]);
+
+    expect(html.startsWith('<!doctype html>')).toBe(true);
+    expect(html).toContain('<title>Points &amp; Figures</title>');
+    expect(html).toContain('href="https://zerodha.com/markets/stocks/NSE/TITAN/"');
+    expect(html).toContain('<img src="data:image/jpeg;base64,/9j/AA==" alt="Slide 4"');
+  });
+});
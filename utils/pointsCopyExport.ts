@@ -1,4 +1,7 @@
+import { normalizeScrip } from "../functions/_shared/validation";
 import type { PointsAndFiguresResult } from "../types";
+import { buildDocx, type DocxBlock } from "./docxDocument";
+import { buildStandaloneHtml, downloadBlob, toFileSlug, type ExportFileFormat } from "./fileDownload";
 
 const FALLBACK_TEXT = "N/A";
 
@@ -27,11 +30,6 @@ const isHttpUrl = (value: string): boolean => {
   }
 };
 
-const normalizeScrip = (value: string | undefined): string =>
-  normalizeValue(value, "")
-    .toUpperCase()
-    .replace(/[^A-Z0-9]/g, "");
-
 const getDeterministicZerodhaUrl = (result: PointsAndFiguresResult): string => {
   const scrip = normalizeScrip(result.nseScrip);
   if (scrip) {
@@ -102,10 +100,13 @@ const buildCompanyText = (result: PointsAndFiguresResult): string => {
   return [header, description, "[Presentation]", "", ...slideBlocks].join("\n");
 };
 
+const getExportableResults = (results: PointsAndFiguresResult[]): PointsAndFiguresResult[] =>
+  results.filter((result) => result && Array.isArray(result.slides) && result.slides.length > 0);
+
 export const buildPointsClipboardExport = (
   results: PointsAndFiguresResult[],
 ): { html: string; text: string } => {
-  const validResults = results.filter((result) => result && Array.isArray(result.slides) && result.slides.length > 0);
+  const validResults = getExportableResults(results);
   const dividerHtml = `<hr style="border:none;border-top:2px solid #6b7280;margin:28px 0;" />`;
   const dividerText = "\n============================================================\n";
 
@@ -114,3 +115,75 @@ export const buildPointsClipboardExport = (
 
   return { html, text };
 };
+
+const buildCompanyMarkdown = (result: PointsAndFiguresResult): string => {
+  const header = buildHeaderText(result);
+  const zerodhaUrl = getDeterministicZerodhaUrl(result);
+  const heading = isHttpUrl(zerodhaUrl) ? `## [${header}](${zerodhaUrl})` : `## ${header}`;
+  const description = normalizeValue(result.companyDescription, "Company description not available.");
+
+  const slideBlocks = result.slides.map((slide) => {
+    const context = normalizeValue(slide.context).replace(/\s*\n\s*/g, " ");
+    return `> ${context}\n\n*[Slide ${slide.selectedPageNumber}]*`;
+  });
+
+  return [heading, description, "[Presentation]", ...slideBlocks].join("\n\n");
+};
+
+const buildCompanyDocxBlocks = (result: PointsAndFiguresResult): DocxBlock[] => {
+  const zerodhaUrl = getDeterministicZerodhaUrl(result);
+
+  return [
+    {
+      kind: "heading",
+      level: 2,
+      runs: [{ text: buildHeaderText(result), link: isHttpUrl(zerodhaUrl) ? zerodhaUrl : undefined }],
+    },
+    { kind: "paragraph", runs: [{ text: normalizeValue(result.companyDescription, "Company description not available.") }] },
+    { kind: "paragraph", runs: [{ text: "[Presentation]" }] },
+    ...result.slides.flatMap((slide): DocxBlock[] => {
+      const pageImage = normalizeValue(slide.pageAsImage, "");
+      return [
+        { kind: "paragraph", indent: true, rule: true, runs: [{ text: normalizeValue(slide.context) }] },
+        pageImage
+          ? { kind: "image", indent: true, dataUrl: pageImage, altText: `Slide ${slide.selectedPageNumber}` }
+          : { kind: "paragraph", indent: true, runs: [{ text: `[Slide ${slide.selectedPageNumber}]`, italic: true }] },
+      ];
+    }),
+  ];
+};
+
+export const buildPointsMarkdownExport = (results: PointsAndFiguresResult[]): string =>
+  `${getExportableResults(results).map(buildCompanyMarkdown).join("\n\n---\n\n")}\n`;
+
+export const buildPointsDocx = (results: PointsAndFiguresResult[]): Blob =>
+  buildDocx(
+    getExportableResults(results)
+      .map(buildCompanyDocxBlocks)
+      .flatMap((blocks, index) => (index === 0 ? blocks : [{ kind: "divider" } as DocxBlock, ...blocks])),
+    { title: "Points & Figures" },
+  );
+
+// The clipboard HTML already carries each slide as a data URL, so the page works offline with its images.
+export const buildPointsStandaloneHtml = (results: PointsAndFiguresResult[]): string =>
+  buildStandaloneHtml("Points & Figures", buildPointsClipboardExport(results).html);
+
+export const buildPointsExportFileName = (results: PointsAndFiguresResult[], format: ExportFileFormat): string => {
+  const [first] = results;
+  const slug =
+    results.length === 1 && first
+      ? toFileSlug(`points ${first.nseScrip || first.companyName} ${first.fiscalPeriod}`, "points-export")
+      : `points-${results.length}-companies`;
+  return `${slug}.${format}`;
+};
+
+export const downloadPointsExport = (results: PointsAndFiguresResult[], format: ExportFileFormat): void => {
+  const fileName = buildPointsExportFileName(results, format);
+  if (format === "md") {
+    downloadBlob(new Blob([buildPointsMarkdownExport(results)], { type: "text/markdown;charset=utf-8" }), fileName);
+  } else if (format === "docx") {
+    downloadBlob(buildPointsDocx(results), fileName);
+  } else {
+    downloadBlob(new Blob([buildPointsStandaloneHtml(results)], { type: "text/html;charset=utf-8" }), fileName);
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { PointsAndFiguresResult } from '../types';
+import {
+  buildPointsDeckFile,
+  buildPointsDeckFileName,
+  buildPointsDeckHeader,
+  buildPointsDeckPageFileName,
+  buildPointsDeckTitle,
+  clipCaptionLines,
+  layoutPointsDeckPage,
+} from './pointsDeckExport';
+
+const result = {
+  companyName: 'Titan Company',
+  fiscalPeriod: 'Q3 FY26',
+  nseScrip: 'TITAN',
+  marketCapCategory: 'Large Cap',
+  industry: 'Consumer',
+  companyDescription: '',
+  slides: [],
+} as PointsAndFiguresResult;
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+
+const pages = [
+  { name: '01-slide-4.png', width: 1600, height: 1200, bytes: new Uint8Array([0xff, 0xd8, 1, 0xff, 0xd9]) },
+  { name: '02-slide-9.png', width: 1600, height: 900, bytes: new Uint8Array([0xff, 0xd8, 2, 0xff, 0xd9]) },
+];
+
+describe('Points deck export', () => {
+  it('builds the page header, title and file names from the result', () => {
+    expect(buildPointsDeckHeader(result)).toEqual({ title: 'Titan Company | Large Cap', subtitle: 'Consumer · Q3 FY26' });
+    expect(buildPointsDeckTitle(result)).toBe('Titan Company | Large Cap — Q3 FY26');
+    expect(buildPointsDeckFileName(result, 'pdf')).toBe('titan-q3-fy26-deck.pdf');
+    expect(buildPointsDeckPageFileName({ selectedPageNumber: 14, context: '', pageAsImage: '' }, 3)).toBe(
+      '03-slide-14.png',
+    );
+  });
+
+  it('fits wide slides to the content width and grows the page for the caption', () => {
+    expect(layoutPointsDeckPage(1920, 1080, 3)).toEqual({
+      width: 1600,
+      height: 1273,
+      contentWidth: 1488,
+      slideLeft: 56,
+      slideTop: 178,
+      slideWidth: 1488,
+      slideHeight: 837,
+      captionTop: 1047,
+      captionHeight: 162,
+    });
+  });
+
+  it('caps tall slides at the maximum height and centers them without a caption', () => {
+    const layout = layoutPointsDeckPage(1000, 2000, 0);
+
+    expect(layout.slideHeight).toBe(1100);
+    expect(layout.slideWidth).toBe(550);
+    expect(layout.slideLeft).toBe(525);
+    expect(layout.captionHeight).toBe(0);
+    expect(layout.height).toBe(178 + 1100 + 32 + 64);
+  });
+
+  it('clips long captions to six lines ending in an ellipsis', () => {
+    const lines = ['One.', 'Two.', 'Three.', 'Four.', 'Five.', 'Six, continued;', 'Seven.', 'Eight.'];
+
+    expect(clipCaptionLines(lines.slice(0, 4))).toEqual(lines.slice(0, 4));
+    expect(clipCaptionLines(lines)).toEqual(['One.', 'Two.', 'Three.', 'Four.', 'Five.', 'Six, continued…']);
+  });
+
+  it('packs pages as a titled PDF or a ZIP of named images', async () => {
+    const pdf = buildPointsDeckFile(result, pages, 'pdf');
+    const pdfText = latin1(new Uint8Array(await pdf.arrayBuffer()));
+    const zip = buildPointsDeckFile(result, pages, 'zip');
+    const zipText = latin1(new Uint8Array(await zip.arrayBuffer()));
+
+    expect(pdf.type).toBe('application/pdf');
+    expect(pdfText).toContain('/Count 2');
+    expect(pdfText).toContain('/MediaBox [0 0 842 632]');
+    expect(pdfText).toContain(latin1(pages[1].bytes));
+    expect(zip.type).toBe('application/zip');
+    expect(zipText.startsWith('PK\u0003\u0004')).toBe(true);
+    expect(zipText).toContain('01-slide-4.png');
+    expect(zipText).toContain('02-slide-9.png');
+  });
+});
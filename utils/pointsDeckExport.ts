@@ -0,0 +1,247 @@
+import type { PointsAndFiguresResult, SelectedSlide } from "../types";
+import { dataUrlToBytes, downloadBlob, toFileSlug } from "./fileDownload";
+import { buildImagePdf, type PdfImagePage } from "./imagePdf";
+import {
+  ACCENT_YELLOW,
+  BRAND_BLUE,
+  BRAND_DARK,
+  CANVAS_WHITE,
+  MUTED_TEXT,
+  SOFT_BG,
+  STROKE,
+  drawRoundedRect,
+  fitSingleLine,
+  wrapText,
+} from "./threadImageExport";
+import { createZipArchive } from "./zipArchive";
+
+export type PointsDeckFormat = "pdf" | "zip";
+
+export interface PointsDeckSlide {
+  slide: SelectedSlide;
+  imageDataUrl: string;
+}
+
+export interface PointsDeckPageLayout {
+  width: number;
+  height: number;
+  contentWidth: number;
+  slideLeft: number;
+  slideTop: number;
+  slideWidth: number;
+  slideHeight: number;
+  captionTop: number;
+  captionHeight: number;
+}
+
+// An encoded deck page: JPEG bytes for the PDF, PNG bytes for the ZIP.
+export interface PointsDeckPage {
+  name: string;
+  width: number;
+  height: number;
+  bytes: Uint8Array;
+}
+
+const PAGE_WIDTH = 1600;
+const PAGE_MARGIN = 56;
+const HEADER_HEIGHT = 178;
+const CAPTION_FONT = 26;
+const CAPTION_LINE_HEIGHT = 38;
+const MAX_CAPTION_LINES = 6;
+const FOOTER_HEIGHT = 64;
+const MAX_SLIDE_HEIGHT = 1100;
+const PDF_JPEG_QUALITY = 0.92;
+// Caption text sits inside the tinted box, clear of its accent bar.
+const CAPTION_TEXT_WIDTH = PAGE_WIDTH - PAGE_MARGIN * 2 - 72;
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load slide image."));
+    image.src = dataUrl;
+  });
+
+export const buildPointsDeckHeader = (result: PointsAndFiguresResult): { title: string; subtitle: string } => ({
+  title: [result.companyName, result.marketCapCategory].filter((value) => value?.trim()).join(" | ") || "Company",
+  subtitle: [result.industry, result.fiscalPeriod].filter((value) => value?.trim()).join(" · "),
+});
+
+// Long context is clipped with an ellipsis so the page height stays bounded.
+export const clipCaptionLines = (lines: string[]): string[] => {
+  if (lines.length <= MAX_CAPTION_LINES) return lines;
+  const clipped = lines.slice(0, MAX_CAPTION_LINES);
+  clipped[MAX_CAPTION_LINES - 1] = `${clipped[MAX_CAPTION_LINES - 1].replace(/[.,;:!?]+$/, "")}…`;
+  return clipped;
+};
+
+const layoutCaption = (ctx: CanvasRenderingContext2D, context: string, maxWidth: number): string[] => {
+  ctx.font = `500 ${CAPTION_FONT}px Inter, sans-serif`;
+  return clipCaptionLines(wrapText(ctx, context.trim(), maxWidth));
+};
+
+// The slide scales to the content width without exceeding MAX_SLIDE_HEIGHT; the page grows to fit the caption.
+export const layoutPointsDeckPage = (
+  imageWidth: number,
+  imageHeight: number,
+  captionLineCount: number,
+): PointsDeckPageLayout => {
+  const contentWidth = PAGE_WIDTH - PAGE_MARGIN * 2;
+  const slideScale = Math.min(contentWidth / imageWidth, MAX_SLIDE_HEIGHT / imageHeight);
+  const slideWidth = Math.round(imageWidth * slideScale);
+  const slideHeight = Math.round(imageHeight * slideScale);
+  const captionHeight = captionLineCount > 0 ? captionLineCount * CAPTION_LINE_HEIGHT + 48 : 0;
+  const slideTop = HEADER_HEIGHT;
+  const captionTop = slideTop + slideHeight + 32;
+
+  return {
+    width: PAGE_WIDTH,
+    height: captionTop + captionHeight + FOOTER_HEIGHT,
+    contentWidth,
+    slideLeft: Math.round((PAGE_WIDTH - slideWidth) / 2),
+    slideTop,
+    slideWidth,
+    slideHeight,
+    captionTop,
+    captionHeight,
+  };
+};
+
+// One deck page: brand header with the company, the rendered slide, then its context caption.
+export const composePointsDeckPage = async (
+  result: PointsAndFiguresResult,
+  deckSlide: PointsDeckSlide,
+  position: number,
+  total: number,
+): Promise<HTMLCanvasElement> => {
+  const image = await loadImage(deckSlide.imageDataUrl);
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Unable to initialize canvas context for deck page.");
+  }
+
+  const captionLines = layoutCaption(ctx, deckSlide.slide.context || "", CAPTION_TEXT_WIDTH);
+  const layout = layoutPointsDeckPage(image.naturalWidth, image.naturalHeight, captionLines.length);
+  const { contentWidth, slideLeft, slideTop, slideWidth, slideHeight, captionTop, captionHeight } = layout;
+
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+
+  ctx.fillStyle = CANVAS_WHITE;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const header = buildPointsDeckHeader(result);
+  drawRoundedRect(ctx, PAGE_MARGIN, 40, 330, 42, 8, BRAND_BLUE);
+  ctx.fillStyle = CANVAS_WHITE;
+  ctx.font = "700 18px Inter, sans-serif";
+  ctx.textBaseline = "middle";
+  ctx.fillText("Points & Figures by Zerodha", PAGE_MARGIN + 20, 61);
+
+  ctx.textBaseline = "alphabetic";
+  ctx.fillStyle = MUTED_TEXT;
+  ctx.font = "600 20px Inter, sans-serif";
+  ctx.textAlign = "right";
+  ctx.fillText(`Slide ${deckSlide.slide.selectedPageNumber}`, PAGE_WIDTH - PAGE_MARGIN, 68);
+  ctx.textAlign = "left";
+
+  ctx.fillStyle = BRAND_DARK;
+  ctx.font = "700 34px Inter, sans-serif";
+  ctx.fillText(fitSingleLine(ctx, header.title, contentWidth), PAGE_MARGIN, 128);
+  if (header.subtitle) {
+    ctx.fillStyle = MUTED_TEXT;
+    ctx.font = "500 20px Inter, sans-serif";
+    ctx.fillText(fitSingleLine(ctx, header.subtitle, contentWidth), PAGE_MARGIN, 158);
+  }
+
+  ctx.drawImage(image, slideLeft, slideTop, slideWidth, slideHeight);
+  ctx.strokeStyle = STROKE;
+  ctx.lineWidth = 1;
+  ctx.strokeRect(slideLeft + 0.5, slideTop + 0.5, slideWidth - 1, slideHeight - 1);
+
+  if (captionLines.length > 0) {
+    drawRoundedRect(ctx, PAGE_MARGIN, captionTop, contentWidth, captionHeight, 16, SOFT_BG);
+    ctx.fillStyle = ACCENT_YELLOW;
+    ctx.fillRect(PAGE_MARGIN, captionTop + 16, 6, captionHeight - 32);
+    ctx.fillStyle = BRAND_DARK;
+    ctx.font = `500 ${CAPTION_FONT}px Inter, sans-serif`;
+    ctx.textBaseline = "top";
+    captionLines.forEach((line, index) => {
+      ctx.fillText(line, PAGE_MARGIN + 36, captionTop + 24 + index * CAPTION_LINE_HEIGHT);
+    });
+    ctx.textBaseline = "alphabetic";
+  }
+
+  ctx.fillStyle = MUTED_TEXT;
+  ctx.font = "500 18px Inter, sans-serif";
+  ctx.textAlign = "right";
+  ctx.fillText(`${position} / ${total}`, PAGE_WIDTH - PAGE_MARGIN, canvas.height - 30);
+  ctx.textAlign = "left";
+  ctx.fillStyle = BRAND_BLUE;
+  ctx.fillRect(PAGE_MARGIN, canvas.height - 12, contentWidth, 3);
+
+  return canvas;
+};
+
+export const buildPointsDeckFileName = (result: PointsAndFiguresResult, format: PointsDeckFormat): string => {
+  const slug = toFileSlug([result.nseScrip || result.companyName, result.fiscalPeriod].filter(Boolean).join("-"), "points");
+  return `${slug}-deck.${format}`;
+};
+
+export const buildPointsDeckPageFileName = (slide: SelectedSlide, position: number): string =>
+  `${String(position).padStart(2, "0")}-slide-${slide.selectedPageNumber}.png`;
+
+export const buildPointsDeckTitle = (result: PointsAndFiguresResult): string =>
+  [buildPointsDeckHeader(result).title, result.fiscalPeriod].filter(Boolean).join(" — ");
+
+// A PDF with a page per slide, or a ZIP with one PNG per page.
+export const buildPointsDeckFile = (
+  result: PointsAndFiguresResult,
+  pages: PointsDeckPage[],
+  format: PointsDeckFormat,
+): Blob => {
+  if (format === "pdf") {
+    const pdfPages: PdfImagePage[] = pages.map((page) => ({ jpeg: page.bytes, width: page.width, height: page.height }));
+    return new Blob([buildImagePdf(pdfPages, { title: buildPointsDeckTitle(result) })], { type: "application/pdf" });
+  }
+  return new Blob([createZipArchive(pages.map((page) => ({ name: page.name, data: page.bytes })))], {
+    type: "application/zip",
+  });
+};
+
+const canvasToBytes = (canvas: HTMLCanvasElement, type: string, quality?: number): Uint8Array => {
+  const decoded = dataUrlToBytes(canvas.toDataURL(type, quality));
+  if (!decoded) {
+    throw new Error("Unable to encode deck page.");
+  }
+  return decoded.bytes;
+};
+
+// Lays the slides out as one PDF (a page per slide) or a ZIP of PNG pages and downloads the file.
+export const downloadPointsDeck = async (
+  result: PointsAndFiguresResult,
+  slides: PointsDeckSlide[],
+  format: PointsDeckFormat,
+  onProgress?: (current: number, total: number) => void,
+): Promise<void> => {
+  if (slides.length === 0) {
+    throw new Error("No slide images are available for this deck.");
+  }
+
+  const pages: PointsDeckPage[] = [];
+  for (let index = 0; index < slides.length; index++) {
+    onProgress?.(index + 1, slides.length);
+    const canvas = await composePointsDeckPage(result, slides[index], index + 1, slides.length);
+    pages.push({
+      name: buildPointsDeckPageFileName(slides[index].slide, index + 1),
+      width: canvas.width,
+      height: canvas.height,
+      bytes:
+        format === "pdf" ? canvasToBytes(canvas, "image/jpeg", PDF_JPEG_QUALITY) : canvasToBytes(canvas, "image/png"),
+    });
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+
+  downloadBlob(buildPointsDeckFile(result, pages, format), buildPointsDeckFileName(result, format));
+};
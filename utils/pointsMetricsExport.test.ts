@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { PointsAndFiguresResult } from '../types';
+import { buildPointsMetricsCsv, buildPointsMetricsFileName } from './pointsMetricsExport';
+
+const result: PointsAndFiguresResult = {
+  companyName: 'Hindustan Unilever',
+  fiscalPeriod: 'Q3 FY26',
+  nseScrip: 'HINDUNILVR',
+  marketCapCategory: 'Large Cap',
+  industry: 'FMCG',
+  companyDescription: '',
+  slides: [
+    {
+      selectedPageNumber: 4,
+      context: 'Quick commerce tripled.',
+      metrics: [
+        { metric: 'Revenue, domestic', value: 15818.5, unit: 'INR crore', period: 'Q3 FY26', yoyChange: '+2.1%' },
+        { metric: 'Pricing "realised"', value: -1, unit: '%', period: 'Q3 FY26', qoqChange: '-80 bps' },
+        { metric: '=HYPERLINK("x")', value: 3, unit: 'x', period: 'Q3 FY26', yoyChange: '+1+1' },
+      ],
+    },
+    { selectedPageNumber: 7, context: 'No numbers here.' },
+  ],
+};
+
+describe('points metrics CSV', () => {
+  it('writes one row per metric with quoting and formula-safe text', () => {
+    expect(buildPointsMetricsCsv(result).split('\r\n')).toEqual([
+      'Company,NSE Scrip,Fiscal Period,Slide,Metric,Value,Unit,Period,YoY Change,QoQ Change',
+      'Hindustan Unilever,HINDUNILVR,Q3 FY26,4,"Revenue, domestic",15818.5,INR crore,Q3 FY26,+2.1%,',
+      'Hindustan Unilever,HINDUNILVR,Q3 FY26,4,"Pricing ""realised""",-1,%,Q3 FY26,,-80 bps',
+      'Hindustan Unilever,HINDUNILVR,Q3 FY26,4,"\'=HYPERLINK(""x"")",3,x,Q3 FY26,\'+1+1,',
+    ]);
+  });
+
+  it('names single-slide exports after the slide', () => {
+    expect(buildPointsMetricsFileName(result)).toBe('hindunilvr-q3-fy26-metrics.csv');
+    expect(buildPointsMetricsFileName(result, [result.slides[0]])).toBe('hindunilvr-q3-fy26-metrics-slide-4.csv');
+  });
+});
@@ -0,0 +1,61 @@
+import type { PointsAndFiguresResult, SelectedSlide } from "../types";
+import { downloadBlob, toFileSlug } from "./fileDownload";
+
+const CSV_HEADER = [
+  "Company",
+  "NSE Scrip",
+  "Fiscal Period",
+  "Slide",
+  "Metric",
+  "Value",
+  "Unit",
+  "Period",
+  "YoY Change",
+  "QoQ Change",
+];
+
+// A signed figure such as +2.1%, -80 bps or -1.5 pp is data, not a formula, and is written as is.
+const SIGNED_FIGURE_PATTERN = /^[+-]\d+(?:[.,]\d+)*\s*(?:%|bps|pp)?$/i;
+
+// Quotes a cell when needed and neutralises leading =, +, - and @ so spreadsheets do not run text as a formula.
+const escapeCsvCell = (value: string | number): string => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : "";
+  }
+  const text = /^[=+\-@]/.test(value) && !SIGNED_FIGURE_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const hasSlideMetrics = (slide: SelectedSlide): boolean =>
+  Array.isArray(slide.metrics) && slide.metrics.length > 0;
+
+export const buildPointsMetricsCsv = (result: PointsAndFiguresResult, slides: SelectedSlide[] = result.slides): string => {
+  const rows = slides.filter(hasSlideMetrics).flatMap((slide) =>
+    (slide.metrics ?? []).map((metric) => [
+      result.companyName || "",
+      result.nseScrip || "",
+      result.fiscalPeriod || "",
+      slide.selectedPageNumber,
+      metric.metric,
+      metric.value,
+      metric.unit,
+      metric.period,
+      metric.yoyChange ?? "",
+      metric.qoqChange ?? "",
+    ]),
+  );
+
+  return [CSV_HEADER, ...rows].map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+};
+
+export const buildPointsMetricsFileName = (result: PointsAndFiguresResult, slides: SelectedSlide[] = result.slides): string => {
+  const slug = toFileSlug([result.nseScrip || result.companyName, result.fiscalPeriod].filter(Boolean).join("-"), "points");
+  const slideSuffix = slides.length === 1 ? `-slide-${slides[0].selectedPageNumber}` : "";
+  return `${slug}-metrics${slideSuffix}.csv`;
+};
+
+export const downloadPointsMetricsCsv = (result: PointsAndFiguresResult, slides: SelectedSlide[] = result.slides): void => {
+  // Leading BOM so Excel reads the file as UTF-8 (currency symbols, company names).
+  const blob = new Blob(["\ufeff", buildPointsMetricsCsv(result, slides)], { type: "text/csv;charset=utf-8" });
+  downloadBlob(blob, buildPointsMetricsFileName(result, slides));
+};
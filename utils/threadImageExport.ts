@@ -5,15 +5,16 @@ const CARD_HEIGHT = 675;
 const MAX_QUOTE_FONT = 48;
 const MIN_QUOTE_FONT = 26;
 
-const BRAND_BLUE = "#387ED1";
-const BRAND_DARK = "#222222";
-const CANVAS_WHITE = "#FFFFFF";
-const SOFT_BG = "#F5F7FB";
-const STROKE = "#E7E7E7";
-const MUTED_TEXT = "#666666";
-const ACCENT_YELLOW = "#FFA412";
-
-const drawRoundedRect = (
+// Brand palette shared by every canvas export (thread cards, Points deck pages).
+export const BRAND_BLUE = "#387ED1";
+export const BRAND_DARK = "#222222";
+export const CANVAS_WHITE = "#FFFFFF";
+export const SOFT_BG = "#F5F7FB";
+export const STROKE = "#E7E7E7";
+export const MUTED_TEXT = "#666666";
+export const ACCENT_YELLOW = "#FFA412";
+
+export const drawRoundedRect = (
   ctx: CanvasRenderingContext2D,
   x: number,
   y: number,
@@ -44,7 +45,7 @@ const drawRoundedRect = (
   }
 };
 
-const wrapText = (
+export const wrapText = (
   ctx: CanvasRenderingContext2D,
   text: string,
   maxWidth: number,
@@ -70,7 +71,7 @@ const wrapText = (
   return lines;
 };
 
-const fitSingleLine = (
+export const fitSingleLine = (
   ctx: CanvasRenderingContext2D,
   text: string,
   maxWidth: number,
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { ThreadQuoteCandidate } from '../types';
+import {
+  buildSchedulerPayload,
+  getPlatformPosts,
+  parseThreadPlatformDrafts,
+  validatePlatformPosts,
+  type ThreadPostDraft,
+} from './threadPlatformExport';
+
+const quote: ThreadQuoteCandidate = {
+  id: 'q1',
+  companyName: 'Dabur India',
+  marketCapCategory: 'Large Cap',
+  industry: 'FMCG',
+  companyDescription: 'Ayurvedic and personal care products.',
+  summary: 'Rural recovery',
+  quote: 'Rural demand is recovering.',
+  speakerName: 'Mohit Malhotra',
+  speakerDesignation: 'CEO',
+  sourceOrder: 1,
+};
+
+const thread: ThreadPostDraft[] = [
+  { id: 'intro', kind: 'intro', text: 'This week on The Chatter: rural demand turns.' },
+  { id: 'insight-q1-0', kind: 'insight', quoteId: 'q1', text: 'Dabur sees rural demand recovering.' },
+  { id: 'outro', kind: 'outro', text: 'Read the full edition: https://thechatter.zerodha.com/p/q3' },
+];
+
+describe('thread platform export', () => {
+  it('follows the generated thread until a platform has its own draft', () => {
+    const linkedin = [{ ...thread[0], text: 'LinkedIn intro.' }];
+
+    expect(getPlatformPosts('threads', {}, thread)).toEqual(thread);
+    expect(getPlatformPosts('linkedin', { linkedin }, thread)).toBe(linkedin);
+  });
+
+  it('restores only platforms whose saved posts are all well formed', () => {
+    expect(
+      parseThreadPlatformDrafts({
+        x: thread,
+        threads: [{ id: 'intro', kind: 'intro' }],
+        linkedin: 'LinkedIn intro.',
+        mastodon: thread,
+      }),
+    ).toEqual({ x: thread });
+    expect(parseThreadPlatformDrafts(null)).toEqual({});
+    expect(parseThreadPlatformDrafts([thread])).toEqual({});
+  });
+
+  it('checks each post on thread platforms and the joined post on LinkedIn', () => {
+    const long = 'a'.repeat(300);
+    const posts = [...thread, { id: 'extra', kind: 'outro' as const, text: long }];
+
+    expect(validatePlatformPosts('x', posts)).toMatchObject({
+      charLimit: 280,
+      overLimitPostIds: ['extra'],
+      issues: ['Post 4 is 300/280 characters.'],
+    });
+    expect(validatePlatformPosts('threads', posts).issues).toEqual([]);
+
+    const linkedin = Array.from({ length: 6 }, (_, index) => ({ ...posts[3], id: `s${index}`, text: long }));
+    expect(validatePlatformPosts('linkedin', linkedin)).toMatchObject({
+      charCounts: [6 * 300 + 5 * 2],
+      issues: [],
+    });
+    linkedin.push({ ...linkedin[0], id: 's6' }, { ...linkedin[0], id: 's7' }, { ...linkedin[0], id: 's8' }, { ...linkedin[0], id: 's9' });
+    expect(validatePlatformPosts('linkedin', linkedin).issues).toEqual(['The post is 3018/3000 characters.']);
+  });
+
+  it('builds one scheduler entry per platform with media files next to the posts', () => {
+    const payload = buildSchedulerPayload({
+      source: { editionTitle: 'The Chatter: Q3 FY26', editionUrl: 'https://thechatter.zerodha.com/p/q3', editionDate: '' },
+      postsByPlatform: { x: thread, threads: thread, linkedin: thread },
+      lookupQuote: (quoteId) => (quoteId === quote.id ? quote : undefined),
+      generatedAt: new Date('2026-10-19T10:00:00Z'),
+    });
+
+    expect(payload.edition).toEqual({ title: 'The Chatter: Q3 FY26', url: 'https://thechatter.zerodha.com/p/q3', date: undefined });
+    expect(payload.platforms.map((item) => [item.platform, item.layout, item.charLimit, item.posts.length])).toEqual([
+      ['x', 'thread', 280, 3],
+      ['threads', 'thread', 500, 3],
+      ['linkedin', 'single', 3000, 1],
+    ]);
+
+    const [x, , linkedin] = payload.platforms;
+    expect(x.posts[1].media).toEqual([
+      {
+        fileName: 'media/x-02-dabur-india.png',
+        mimeType: 'image/png',
+        altText: 'Quote card: Dabur India. "Rural demand is recovering." — Mohit Malhotra, CEO',
+      },
+    ]);
+    expect(x.posts[2].charCount).toBe(23 + 23);
+    expect(linkedin.posts[0].text.split('\n\n')).toHaveLength(3);
+    expect(linkedin.posts[0].media).toEqual([
+      { fileName: 'media/linkedin-carousel.pdf', mimeType: 'application/pdf', altText: 'Quote cards: Dabur India' },
+    ]);
+  });
+
+  it('lists only the media files that ship with the payload', () => {
+    const payload = buildSchedulerPayload({
+      source: { editionTitle: 'The Chatter: Q3 FY26', editionUrl: '', editionDate: '' },
+      postsByPlatform: { x: thread, threads: thread, linkedin: thread },
+      lookupQuote: (quoteId) => (quoteId === quote.id ? quote : undefined),
+      mediaFileNames: new Set(['media/threads-02-dabur-india.png']),
+    });
+
+    expect(payload.platforms.flatMap((item) => item.posts.flatMap((post) => post.media.map((media) => media.fileName)))).toEqual([
+      'media/threads-02-dabur-india.png',
+    ]);
+  });
+});
@@ -0,0 +1,340 @@
+import {
+  countThreadPostChars,
+  THREAD_PLATFORM_SPECS,
+  THREAD_PLATFORMS,
+  type ThreadPlatform,
+} from "../functions/_shared/threadPlatforms";
+import type { ThreadEditionSource, ThreadQuoteCandidate } from "../types";
+import { dataUrlToBytes, downloadBlob, toFileSlug } from "./fileDownload";
+import { buildImagePdf, type PdfImagePage } from "./imagePdf";
+import { createZipArchive, type ZipEntry } from "./zipArchive";
+
+export type ThreadPostKind = "intro" | "insight" | "outro";
+
+export interface ThreadPostDraft {
+  id: string;
+  kind: ThreadPostKind;
+  text: string;
+  quoteId?: string;
+}
+
+// Platform rewrites kept apart from the generated thread; a platform without an entry follows that thread as is.
+export type ThreadPlatformDrafts = Partial<Record<ThreadPlatform, ThreadPostDraft[]>>;
+
+export interface ThreadPlatformCheck {
+  // Per post for thread layouts; one entry for the joined post on single-layout platforms.
+  charCounts: number[];
+  charLimit: number;
+  overLimitPostIds: string[];
+  issues: string[];
+}
+
+export interface SchedulerMedia {
+  fileName: string;
+  mimeType: "image/png" | "application/pdf";
+  altText: string;
+}
+
+export interface SchedulerPost {
+  order: number;
+  text: string;
+  charCount: number;
+  media: SchedulerMedia[];
+}
+
+export interface SchedulerPlatformPayload {
+  platform: ThreadPlatform;
+  label: string;
+  layout: "thread" | "single";
+  charLimit: number;
+  posts: SchedulerPost[];
+}
+
+// Tool-neutral shape: one entry per platform, posts in publishing order, media as files next to payload.json.
+export interface SchedulerPayload {
+  version: 1;
+  generatedAt: string;
+  edition: {
+    title: string;
+    url?: string;
+    date?: string;
+  };
+  platforms: SchedulerPlatformPayload[];
+}
+
+type QuoteLookup = (quoteId: string) => ThreadQuoteCandidate | undefined;
+
+interface PlatformMedia extends SchedulerMedia {
+  postIndex: number;
+  quoteIds: string[];
+}
+
+const THREAD_POST_KINDS: ReadonlySet<string> = new Set<ThreadPostKind>(["intro", "insight", "outro"]);
+
+const isThreadPostDraft = (value: unknown): value is ThreadPostDraft => {
+  const post = value as Partial<ThreadPostDraft> | null;
+  return (
+    Boolean(post) &&
+    typeof post === "object" &&
+    typeof post.id === "string" &&
+    typeof post.kind === "string" &&
+    THREAD_POST_KINDS.has(post.kind) &&
+    typeof post.text === "string" &&
+    (post.quoteId === undefined || typeof post.quoteId === "string")
+  );
+};
+
+// Restored drafts come from localStorage; a platform keeps its entry only when every post is well formed.
+export const parseThreadPlatformDrafts = (value: unknown): ThreadPlatformDrafts => {
+  if (!value || typeof value !== "object") return {};
+  const record = value as Record<string, unknown>;
+  const drafts: ThreadPlatformDrafts = {};
+  for (const platform of THREAD_PLATFORMS) {
+    const posts = record[platform];
+    if (Array.isArray(posts) && posts.every(isThreadPostDraft)) {
+      drafts[platform] = posts;
+    }
+  }
+  return drafts;
+};
+
+export const getPlatformPosts = (
+  platform: ThreadPlatform,
+  drafts: ThreadPlatformDrafts,
+  thread: ThreadPostDraft[],
+): ThreadPostDraft[] => drafts[platform] ?? thread.map((post) => ({ ...post }));
+
+export const composeSinglePost = (posts: ThreadPostDraft[]): string =>
+  posts
+    .map((post) => post.text.trim())
+    .filter(Boolean)
+    .join("\n\n");
+
+export const validatePlatformPosts = (platform: ThreadPlatform, posts: ThreadPostDraft[]): ThreadPlatformCheck => {
+  const spec = THREAD_PLATFORM_SPECS[platform];
+  const issues: string[] = [];
+  if (posts.length === 0) {
+    return { charCounts: [], charLimit: spec.maxPostChars, overLimitPostIds: [], issues: ["Nothing to post yet."] };
+  }
+
+  const emptyPosts = posts.filter((post) => !post.text.trim()).length;
+  if (emptyPosts > 0) {
+    issues.push(`${emptyPosts} ${spec.layout === "single" ? "section" : "post"}(s) are empty.`);
+  }
+
+  const imageCount = posts.filter((post) => post.quoteId).length;
+  if (spec.layout === "single") {
+    const charCount = countThreadPostChars(composeSinglePost(posts), platform);
+    if (charCount > spec.maxPostChars) {
+      issues.push(`The post is ${charCount}/${spec.maxPostChars} characters.`);
+    }
+    if (imageCount > spec.maxImagesPerPost) {
+      issues.push(`The carousel has ${imageCount} quote cards; ${spec.label} takes at most ${spec.maxImagesPerPost}.`);
+    }
+    return {
+      charCounts: [charCount],
+      charLimit: spec.maxPostChars,
+      overLimitPostIds: charCount > spec.maxPostChars ? posts.map((post) => post.id) : [],
+      issues,
+    };
+  }
+
+  const charCounts = posts.map((post) => countThreadPostChars(post.text.trim(), platform));
+  const overLimitPostIds = posts.filter((_, index) => charCounts[index] > spec.maxPostChars).map((post) => post.id);
+  charCounts.forEach((count, index) => {
+    if (count > spec.maxPostChars) {
+      issues.push(`Post ${index + 1} is ${count}/${spec.maxPostChars} characters.`);
+    }
+  });
+  return { charCounts, charLimit: spec.maxPostChars, overLimitPostIds, issues };
+};
+
+export const buildSchedulerMediaFileName = (
+  platform: ThreadPlatform,
+  position: number,
+  quote: ThreadQuoteCandidate,
+): string => `media/${platform}-${String(position).padStart(2, "0")}-${toFileSlug(quote.companyName, "quote")}.png`;
+
+const buildQuoteAltText = (quote: ThreadQuoteCandidate): string =>
+  `Quote card: ${quote.companyName}. "${quote.quote}" — ${quote.speakerName}, ${quote.speakerDesignation}`;
+
+// Thread platforms carry the quote card on its insight post; single-layout platforms get all cards as one carousel PDF.
+const collectPlatformMedia = (
+  platform: ThreadPlatform,
+  posts: ThreadPostDraft[],
+  lookupQuote: QuoteLookup,
+): PlatformMedia[] => {
+  const quotes = posts
+    .map((post, index) => ({ index, quote: post.quoteId ? lookupQuote(post.quoteId) : undefined }))
+    .filter((item): item is { index: number; quote: ThreadQuoteCandidate } => Boolean(item.quote));
+
+  if (THREAD_PLATFORM_SPECS[platform].layout === "single") {
+    if (quotes.length === 0) return [];
+    return [
+      {
+        postIndex: 0,
+        fileName: `media/${platform}-carousel.pdf`,
+        mimeType: "application/pdf",
+        altText: `Quote cards: ${Array.from(new Set(quotes.map((item) => item.quote.companyName))).join(", ")}`,
+        quoteIds: quotes.map((item) => item.quote.id),
+      },
+    ];
+  }
+
+  return quotes.map((item) => ({
+    postIndex: item.index,
+    fileName: buildSchedulerMediaFileName(platform, item.index + 1, item.quote),
+    mimeType: "image/png",
+    altText: buildQuoteAltText(item.quote),
+    quoteIds: [item.quote.id],
+  }));
+};
+
+const toSchedulerMedia = ({ fileName, mimeType, altText }: PlatformMedia): SchedulerMedia => ({
+  fileName,
+  mimeType,
+  altText,
+});
+
+export const buildSchedulerPayload = (params: {
+  source: Pick<ThreadEditionSource, "editionTitle" | "editionUrl" | "editionDate">;
+  postsByPlatform: Record<ThreadPlatform, ThreadPostDraft[]>;
+  lookupQuote: QuoteLookup;
+  generatedAt?: Date;
+  // Media files that ship with the payload; omitted, every quote card is listed.
+  mediaFileNames?: ReadonlySet<string>;
+}): SchedulerPayload => ({
+  version: 1,
+  generatedAt: (params.generatedAt ?? new Date()).toISOString(),
+  edition: {
+    title: params.source.editionTitle,
+    url: params.source.editionUrl || undefined,
+    date: params.source.editionDate || undefined,
+  },
+  platforms: THREAD_PLATFORMS.map((platform) => {
+    const spec = THREAD_PLATFORM_SPECS[platform];
+    const posts = params.postsByPlatform[platform].filter((post) => post.text.trim());
+    const media = collectPlatformMedia(platform, posts, params.lookupQuote).filter(
+      (item) => !params.mediaFileNames || params.mediaFileNames.has(item.fileName),
+    );
+
+    const schedulerPosts: SchedulerPost[] =
+      spec.layout === "single"
+        ? [
+            {
+              order: 1,
+              text: composeSinglePost(posts),
+              charCount: countThreadPostChars(composeSinglePost(posts), platform),
+              media: media.map(toSchedulerMedia),
+            },
+          ]
+        : posts.map((post, index) => ({
+            order: index + 1,
+            text: post.text.trim(),
+            charCount: countThreadPostChars(post.text.trim(), platform),
+            media: media.filter((item) => item.postIndex === index).map(toSchedulerMedia),
+          }));
+
+    return { platform, label: spec.label, layout: spec.layout, charLimit: spec.maxPostChars, posts: schedulerPosts };
+  }),
+});
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Unable to load quote card image."));
+    image.src = dataUrl;
+  });
+
+// LinkedIn shows an uploaded PDF as a swipeable carousel, one quote card per page.
+export const buildQuoteCarouselPdf = async (cardDataUrls: string[], title: string): Promise<Uint8Array> => {
+  const pages: PdfImagePage[] = [];
+  for (const dataUrl of cardDataUrls) {
+    const image = await loadImage(dataUrl);
+    const canvas = document.createElement("canvas");
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Unable to initialize canvas context for carousel page.");
+    }
+    ctx.drawImage(image, 0, 0);
+    const jpeg = dataUrlToBytes(canvas.toDataURL("image/jpeg", 0.92));
+    if (!jpeg) {
+      throw new Error("Unable to encode carousel page.");
+    }
+    pages.push({ jpeg: jpeg.bytes, width: canvas.width, height: canvas.height });
+  }
+  return buildImagePdf(pages, { title });
+};
+
+export const buildSchedulerFileName = (
+  source: Pick<ThreadEditionSource, "editionTitle">,
+  suffix: "scheduler" | "linkedin-carousel",
+  extension: string,
+): string => `${toFileSlug(source.editionTitle, "chatter-thread")}-${suffix}.${extension}`;
+
+export const downloadQuoteCarouselPdf = async (
+  cardDataUrls: string[],
+  source: Pick<ThreadEditionSource, "editionTitle">,
+): Promise<void> => {
+  const pdf = await buildQuoteCarouselPdf(cardDataUrls, source.editionTitle);
+  downloadBlob(new Blob([pdf], { type: "application/pdf" }), buildSchedulerFileName(source, "linkedin-carousel", "pdf"));
+};
+
+// payload.json plus every media file it names, ready to unpack into a scheduling tool's import folder.
+// A card that fails to render is left out of both the archive and the payload.
+export const downloadSchedulerBundle = async (params: {
+  source: Pick<ThreadEditionSource, "editionTitle" | "editionUrl" | "editionDate">;
+  postsByPlatform: Record<ThreadPlatform, ThreadPostDraft[]>;
+  lookupQuote: QuoteLookup;
+  getCardImage: (quoteId: string) => string | null;
+}): Promise<void> => {
+  const mediaEntries: ZipEntry[] = [];
+
+  for (const platform of THREAD_PLATFORMS) {
+    const posts = params.postsByPlatform[platform].filter((post) => post.text.trim());
+    for (const media of collectPlatformMedia(platform, posts, params.lookupQuote)) {
+      const cards = media.quoteIds
+        .map((quoteId) => params.getCardImage(quoteId))
+        .filter((card): card is string => Boolean(card));
+      if (cards.length === 0) continue;
+      if (media.mimeType === "application/pdf") {
+        mediaEntries.push({ name: media.fileName, data: await buildQuoteCarouselPdf(cards, params.source.editionTitle) });
+        continue;
+      }
+      const decoded = dataUrlToBytes(cards[0]);
+      if (decoded) {
+        mediaEntries.push({ name: media.fileName, data: decoded.bytes });
+      }
+    }
+  }
+
+  const payload = buildSchedulerPayload({
+    ...params,
+    mediaFileNames: new Set(mediaEntries.map((entry) => entry.name)),
+  });
+  const entries: ZipEntry[] = [
+    { name: "payload.json", data: new TextEncoder().encode(`${JSON.stringify(payload, null, 2)}\n`) },
+    ...mediaEntries,
+  ];
+
+  downloadBlob(
+    new Blob([createZipArchive(entries)], { type: "application/zip" }),
+    buildSchedulerFileName(params.source, "scheduler", "zip"),
+  );
+};
+
+// Text only: no media travels with the file, so none is listed.
+export const downloadSchedulerJson = (params: {
+  source: Pick<ThreadEditionSource, "editionTitle" | "editionUrl" | "editionDate">;
+  postsByPlatform: Record<ThreadPlatform, ThreadPostDraft[]>;
+  lookupQuote: QuoteLookup;
+}): void => {
+  const payload = buildSchedulerPayload({ ...params, mediaFileNames: new Set() });
+  downloadBlob(
+    new Blob([`${JSON.stringify(payload, null, 2)}\n`], { type: "application/json" }),
+    buildSchedulerFileName(params.source, "scheduler", "json"),
+  );
+};
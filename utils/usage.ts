@@ -0,0 +1,85 @@
+import type { ModelUsage, RequestUsage, UsageTotals } from "../types";
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+  unpricedTokens: 0,
+};
+
+const toCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+
+export const addUsageTotals = (total: UsageTotals | undefined, usage: UsageTotals | undefined): UsageTotals => {
+  const base = total ?? EMPTY_USAGE_TOTALS;
+  if (!usage) return { ...base };
+  return {
+    inputTokens: base.inputTokens + toCount(usage.inputTokens),
+    outputTokens: base.outputTokens + toCount(usage.outputTokens),
+    costUsd: base.costUsd + toCount(usage.costUsd),
+    unpricedTokens: base.unpricedTokens + toCount(usage.unpricedTokens),
+  };
+};
+
+export const sumUsageTotals = (usages: Array<UsageTotals | undefined>): UsageTotals =>
+  usages.reduce<UsageTotals>((total, usage) => addUsageTotals(total, usage), EMPTY_USAGE_TOTALS);
+
+// Points decks are analyzed in page chunks; the file's usage is every chunk request combined.
+export const mergeRequestUsage = (usages: Array<RequestUsage | undefined>): RequestUsage | undefined => {
+  const present = usages.filter((usage): usage is RequestUsage => Boolean(usage));
+  if (present.length === 0) return undefined;
+
+  const byModel = new Map<string, ModelUsage>();
+  for (const usage of present) {
+    for (const entry of usage.models ?? []) {
+      const key = `${entry.provider}:${entry.model}`;
+      const existing = byModel.get(key);
+      byModel.set(
+        key,
+        existing
+          ? {
+              ...existing,
+              calls: existing.calls + entry.calls,
+              inputTokens: existing.inputTokens + entry.inputTokens,
+              outputTokens: existing.outputTokens + entry.outputTokens,
+              costUsd:
+                existing.costUsd === null || entry.costUsd === null ? null : existing.costUsd + entry.costUsd,
+            }
+          : { ...entry },
+      );
+    }
+  }
+
+  return {
+    ...sumUsageTotals(present),
+    resolvedModel: present[present.length - 1].resolvedModel,
+    models: Array.from(byModel.values()),
+  };
+};
+
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(Math.round(tokens));
+};
+
+export const formatUsageCost = (costUsd: number): string => {
+  if (costUsd <= 0) return "$0.00";
+  if (costUsd < 0.01) return "<$0.01";
+  return `$${costUsd.toFixed(2)}`;
+};
+
+export const hasUsage = (usage: UsageTotals | undefined): usage is UsageTotals =>
+  usage !== undefined && (usage.inputTokens > 0 || usage.outputTokens > 0);
+
+export const formatUsageSummary = (usage: UsageTotals): string => {
+  const parts = [
+    `${formatTokenCount(usage.inputTokens)} in`,
+    `${formatTokenCount(usage.outputTokens)} out`,
+    `~${formatUsageCost(usage.costUsd)}`,
+  ];
+  if (usage.unpricedTokens > 0) {
+    parts.push(`${formatTokenCount(usage.unpricedTokens)} unpriced`);
+  }
+  return parts.join(" · ");
+};